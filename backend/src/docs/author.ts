@@ -0,0 +1,9 @@
+import { FastifyRequest } from 'fastify';
+
+// Who made an edit: explicit body field wins over the x-onebrain-user header
+export function authorOf(req: FastifyRequest): string | undefined {
+    const body = req.body as any;
+    if (body && typeof body.author === 'string' && body.author.trim()) return body.author.trim();
+    const header = req.headers['x-onebrain-user'];
+    return typeof header === 'string' && header.trim() ? header.trim() : undefined;
+}
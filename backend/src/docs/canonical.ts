@@ -0,0 +1,124 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Canonical pattern workflow: a doc is proposed as the blessed design for a pattern tag on a
+ * platform, and becomes canonical only once someone other than the proposer approves it.
+ * Approving replaces any previous canonical doc for the same tag + platform.
+ */
+
+export type ProposalStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+
+export class CanonicalWorkflowError extends Error {
+    readonly statusCode: number;
+
+    constructor(message: string, statusCode: number) {
+        super(message);
+        this.name = 'CanonicalWorkflowError';
+        this.statusCode = statusCode;
+    }
+}
+
+export interface ProposalInput {
+    docId: string;
+    patternTag: string;
+    platform: string;
+    proposedBy: string;
+    reason?: string;
+}
+
+export async function proposeCanonical(db: Prisma.TransactionClient, input: ProposalInput) {
+    const doc = await db.doc.findUnique({
+        where: { id: input.docId },
+        select: { id: true, patternTags: true, platforms: true }
+    });
+    if (!doc) {
+        throw new CanonicalWorkflowError('Doc not found', 404);
+    }
+    if (!doc.patternTags.includes(input.patternTag)) {
+        throw new CanonicalWorkflowError(`Doc is not tagged with pattern "${input.patternTag}"`, 400);
+    }
+    if (!doc.platforms.includes(input.platform)) {
+        throw new CanonicalWorkflowError(`Doc does not target platform "${input.platform}"`, 400);
+    }
+
+    const pending = await db.canonicalProposal.findFirst({
+        where: { docId: input.docId, patternTag: input.patternTag, platform: input.platform, status: 'pending' }
+    });
+    if (pending) {
+        throw new CanonicalWorkflowError('This doc already has a pending proposal for that pattern and platform', 409);
+    }
+
+    return db.canonicalProposal.create({
+        data: {
+            docId: input.docId,
+            patternTag: input.patternTag,
+            platform: input.platform,
+            proposedBy: input.proposedBy,
+            reason: input.reason ?? null
+        }
+    });
+}
+
+/**
+ * Approve or reject a pending proposal. The reviewer must not be the proposer.
+ * On approval the doc becomes the canonical for its tag + platform and the previous one is superseded.
+ * Run it inside a transaction so the proposal, pattern and Doc.canonical flags change together.
+ */
+export async function reviewProposal(
+    tx: Prisma.TransactionClient,
+    id: string,
+    decision: 'approved' | 'rejected',
+    reviewer: string,
+    note?: string
+) {
+    const proposal = await tx.canonicalProposal.findUnique({ where: { id } });
+    if (!proposal) {
+        throw new CanonicalWorkflowError('Proposal not found', 404);
+    }
+    if (proposal.status !== 'pending') {
+        throw new CanonicalWorkflowError(`Proposal is already ${proposal.status}`, 409);
+    }
+    if (proposal.proposedBy === reviewer) {
+        throw new CanonicalWorkflowError('A proposal must be reviewed by someone other than its proposer', 403);
+    }
+
+    const reviewed = await tx.canonicalProposal.update({
+        where: { id },
+        data: { status: decision, reviewedBy: reviewer, reviewNote: note ?? null, reviewedAt: new Date() }
+    });
+
+    if (decision === 'rejected') {
+        return { proposal: reviewed, pattern: null };
+    }
+
+    const key = { patternTag: proposal.patternTag, platform: proposal.platform };
+    const previous = await tx.canonicalPattern.findUnique({ where: { patternTag_platform: key } });
+
+    const pattern = await tx.canonicalPattern.upsert({
+        where: { patternTag_platform: key },
+        create: { ...key, docId: proposal.docId, proposalId: proposal.id, approvedBy: reviewer },
+        update: { docId: proposal.docId, proposalId: proposal.id, approvedBy: reviewer, approvedAt: new Date() }
+    });
+
+    if (previous) {
+        await tx.canonicalProposal.updateMany({ where: { id: previous.proposalId }, data: { status: 'superseded' } });
+        await syncCanonicalFlag(tx, previous.docId);
+    }
+    await syncCanonicalFlag(tx, proposal.docId);
+
+    return { proposal: reviewed, pattern };
+}
+
+// Doc.canonical mirrors whether the doc is canonical for at least one tag + platform
+async function syncCanonicalFlag(tx: Prisma.TransactionClient, docId: string) {
+    const count = await tx.canonicalPattern.count({ where: { docId } });
+    await tx.doc.update({ where: { id: docId }, data: { canonical: count > 0 } });
+}
+
+export async function getCanonical(db: Prisma.TransactionClient, patternTag: string, platform?: string) {
+    return db.canonicalPattern.findMany({
+        where: { patternTag, ...(platform ? { platform } : {}) },
+        include: { doc: true },
+        orderBy: { platform: 'asc' }
+    });
+}
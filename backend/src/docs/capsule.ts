@@ -0,0 +1,305 @@
+/**
+ * Capsule types and validation for documentation saved by the Figma plugin.
+ * Mirrors plugin/src/types.ts so the backend can validate what saveCapsule sends.
+ */
+
+import { DEFAULT_LOCALE, LocaleCode, SUPPORTED_LOCALES, parseLocale } from '../documentation/locales.js';
+
+export type DocLevel = 'frame' | 'section' | 'page' | 'file';
+
+export type ComponentUse = { ds: string; variant?: string };
+export type Link = { label: string; url: string };
+
+export type BaseCapsule = {
+    level: DocLevel;
+    title: string;
+    product?: string;
+    problem: string;
+    outcome?: string;
+    approach: string[];
+    components: ComponentUse[];
+    links: Link[];
+    platforms: string[];
+    humanNotes?: string;
+    canonical?: boolean;
+    lastUpdated: string;
+    // Language the capsule is written in; new docs default to DEFAULT_LOCALE, saves without one keep the stored locale
+    locale?: LocaleCode;
+};
+
+export type FrameCapsule = BaseCapsule & {
+    level: 'frame';
+    state: 'success' | 'error' | 'empty' | 'loading' | 'unknown';
+    belongsToFlowId?: string;
+};
+
+export type SectionCapsule = BaseCapsule & {
+    level: 'section';
+    keyStates: string[];
+    keyFrames: { title: string; figmaNodeUrl: string }[];
+    belongsToPageId?: string;
+    problemTags?: string[];
+    patternTags?: string[];
+};
+
+export type PageCapsule = BaseCapsule & {
+    level: 'page';
+    containedFlowIds: string[];
+    belongsToFileId?: string;
+};
+
+export type FileCapsule = BaseCapsule & {
+    level: 'file';
+    containedPageIds: string[];
+};
+
+export type Capsule = FrameCapsule | SectionCapsule | PageCapsule | FileCapsule;
+
+export const DOC_LEVELS: DocLevel[] = ['frame', 'section', 'page', 'file'];
+export const FRAME_STATES: FrameCapsule['state'][] = ['success', 'error', 'empty', 'loading', 'unknown'];
+
+export interface CapsuleValidationResult {
+    capsule?: Capsule;
+    errors: string[];
+}
+
+function isNonEmptyString(value: any): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+function optionalString(value: any, field: string, errors: string[]): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') {
+        errors.push(`${field} must be a string`);
+        return undefined;
+    }
+    return value;
+}
+
+function stringArray(value: any, field: string, errors: string[], required: boolean = true): string[] {
+    if (value === undefined || value === null) {
+        if (required) errors.push(`${field} is required`);
+        return [];
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        errors.push(`${field} must be an array of strings`);
+        return [];
+    }
+    return value.map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Validate an incoming capsule against the Capsule union.
+ * Returns a normalised capsule (trimmed strings, defaulted optional arrays) or the list of problems found.
+ */
+export function validateCapsule(input: any): CapsuleValidationResult {
+    const errors: string[] = [];
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { errors: ['capsule must be an object'] };
+    }
+
+    if (!DOC_LEVELS.includes(input.level)) {
+        errors.push(`level must be one of ${DOC_LEVELS.join(', ')}`);
+    }
+    if (!isNonEmptyString(input.title)) errors.push('title is required');
+    if (!isNonEmptyString(input.problem)) errors.push('problem is required');
+
+    const approach = stringArray(input.approach, 'approach', errors);
+    const platforms = stringArray(input.platforms, 'platforms', errors, false);
+
+    const components: ComponentUse[] = [];
+    if (!Array.isArray(input.components)) {
+        errors.push('components must be an array');
+    } else {
+        input.components.forEach((component: any, index: number) => {
+            if (!component || !isNonEmptyString(component.ds)) {
+                errors.push(`components[${index}].ds is required`);
+                return;
+            }
+            components.push(component.variant ? { ds: component.ds.trim(), variant: String(component.variant) } : { ds: component.ds.trim() });
+        });
+    }
+
+    const links: Link[] = [];
+    if (input.links !== undefined && !Array.isArray(input.links)) {
+        errors.push('links must be an array');
+    } else {
+        (input.links || []).forEach((link: any, index: number) => {
+            if (!link || !isNonEmptyString(link.label) || !isNonEmptyString(link.url)) {
+                errors.push(`links[${index}] must have a label and url`);
+                return;
+            }
+            links.push({ label: link.label.trim(), url: link.url.trim() });
+        });
+    }
+
+    if (input.canonical !== undefined && typeof input.canonical !== 'boolean') {
+        errors.push('canonical must be a boolean');
+    }
+
+    const hasLocale = input.locale !== undefined && input.locale !== null;
+    const locale = hasLocale ? parseLocale(input.locale) : undefined;
+    if (hasLocale && !locale) {
+        errors.push(`locale must be one of ${SUPPORTED_LOCALES.join(', ')}`);
+    }
+
+    const lastUpdated = input.lastUpdated ?? new Date().toISOString().slice(0, 10);
+    if (typeof lastUpdated !== 'string' || Number.isNaN(Date.parse(lastUpdated))) {
+        errors.push('lastUpdated must be a date string');
+    }
+
+    const base: BaseCapsule = {
+        level: input.level,
+        title: isNonEmptyString(input.title) ? input.title.trim() : '',
+        product: optionalString(input.product, 'product', errors),
+        problem: isNonEmptyString(input.problem) ? input.problem.trim() : '',
+        outcome: optionalString(input.outcome, 'outcome', errors),
+        approach,
+        components,
+        links,
+        platforms,
+        humanNotes: optionalString(input.humanNotes, 'humanNotes', errors),
+        canonical: input.canonical === true,
+        lastUpdated,
+        ...(locale ? { locale } : {})
+    };
+
+    let capsule: Capsule | undefined;
+
+    if (input.level === 'frame') {
+        if (!FRAME_STATES.includes(input.state)) {
+            errors.push(`state must be one of ${FRAME_STATES.join(', ')}`);
+        }
+        capsule = {
+            ...base,
+            level: 'frame',
+            state: input.state,
+            belongsToFlowId: optionalString(input.belongsToFlowId, 'belongsToFlowId', errors)
+        };
+    } else if (input.level === 'section') {
+        const keyFrames: SectionCapsule['keyFrames'] = [];
+        if (input.keyFrames !== undefined && !Array.isArray(input.keyFrames)) {
+            errors.push('keyFrames must be an array');
+        } else {
+            (input.keyFrames || []).forEach((frame: any, index: number) => {
+                if (!frame || typeof frame.title !== 'string' || typeof frame.figmaNodeUrl !== 'string') {
+                    errors.push(`keyFrames[${index}] must have a title and figmaNodeUrl`);
+                    return;
+                }
+                keyFrames.push({ title: frame.title, figmaNodeUrl: frame.figmaNodeUrl });
+            });
+        }
+        capsule = {
+            ...base,
+            level: 'section',
+            keyStates: stringArray(input.keyStates, 'keyStates', errors, false),
+            keyFrames,
+            belongsToPageId: optionalString(input.belongsToPageId, 'belongsToPageId', errors),
+            problemTags: stringArray(input.problemTags, 'problemTags', errors, false),
+            patternTags: stringArray(input.patternTags, 'patternTags', errors, false)
+        };
+    } else if (input.level === 'page') {
+        capsule = {
+            ...base,
+            level: 'page',
+            containedFlowIds: stringArray(input.containedFlowIds, 'containedFlowIds', errors, false),
+            belongsToFileId: optionalString(input.belongsToFileId, 'belongsToFileId', errors)
+        };
+    } else if (input.level === 'file') {
+        capsule = {
+            ...base,
+            level: 'file',
+            containedPageIds: stringArray(input.containedPageIds, 'containedPageIds', errors, false)
+        };
+    }
+
+    return errors.length > 0 ? { errors } : { capsule, errors };
+}
+
+/**
+ * The parent reference a capsule carries, whatever its level calls it.
+ */
+export function parentRefOf(capsule: Capsule): string | undefined {
+    if (capsule.level === 'frame') return capsule.belongsToFlowId;
+    if (capsule.level === 'section') return capsule.belongsToPageId;
+    if (capsule.level === 'page') return capsule.belongsToFileId;
+    return undefined;
+}
+
+export interface DocLocation {
+    fileKey: string;
+    nodeId?: string;
+    pageName?: string;
+}
+
+/**
+ * Map a validated capsule onto the columns of the Prisma Doc model.
+ * `canonical` is deliberately not mapped: it is only set by the canonical pattern review workflow.
+ */
+export function capsuleToDocData(capsule: Capsule, location: DocLocation) {
+    return {
+        level: capsule.level,
+        title: capsule.title,
+        product: capsule.product ?? null,
+        problem: capsule.problem,
+        outcome: capsule.outcome ?? null,
+        approach: capsule.approach,
+        components: capsule.components,
+        links: capsule.links,
+        humanNotes: capsule.humanNotes ?? null,
+        platforms: capsule.platforms,
+        lastUpdated: new Date(capsule.lastUpdated),
+        // Left unset without a locale, so re-saving or editing a doc keeps its language
+        ...(capsule.locale ? { locale: capsule.locale } : {}),
+        fileKey: location.fileKey,
+        nodeId: location.nodeId ?? null,
+        pageName: location.pageName ?? null,
+        belongsToId: parentRefOf(capsule) ?? null,
+        state: capsule.level === 'frame' ? capsule.state : null,
+        keyStates: capsule.level === 'section' ? capsule.keyStates : [],
+        problemTags: capsule.level === 'section' ? capsule.problemTags ?? [] : [],
+        patternTags: capsule.level === 'section' ? capsule.patternTags ?? [] : []
+    };
+}
+
+/**
+ * Rebuild a capsule from a stored Doc row (the inverse of capsuleToDocData).
+ */
+export function docToCapsule(doc: Record<string, any>): Capsule {
+    const base: BaseCapsule = {
+        level: doc.level,
+        title: doc.title,
+        product: doc.product ?? undefined,
+        problem: doc.problem,
+        outcome: doc.outcome ?? undefined,
+        approach: doc.approach ?? [],
+        components: (doc.components as ComponentUse[]) ?? [],
+        links: (doc.links as Link[]) ?? [],
+        platforms: doc.platforms ?? [],
+        humanNotes: doc.humanNotes ?? undefined,
+        canonical: doc.canonical === true,
+        lastUpdated: new Date(doc.lastUpdated).toISOString().slice(0, 10),
+        locale: parseLocale(doc.locale) ?? DEFAULT_LOCALE
+    };
+    const parentRef = doc.belongsToId ?? undefined;
+
+    if (doc.level === 'frame') {
+        return { ...base, level: 'frame', state: doc.state ?? 'unknown', belongsToFlowId: parentRef };
+    }
+    if (doc.level === 'section') {
+        return {
+            ...base,
+            level: 'section',
+            keyStates: doc.keyStates ?? [],
+            keyFrames: [],
+            belongsToPageId: parentRef,
+            problemTags: doc.problemTags ?? [],
+            patternTags: doc.patternTags ?? []
+        };
+    }
+    if (doc.level === 'page') {
+        return { ...base, level: 'page', containedFlowIds: [], belongsToFileId: parentRef };
+    }
+    return { ...base, level: 'file', containedPageIds: [] };
+}
@@ -0,0 +1,159 @@
+/**
+ * Documentation coverage for a Figma file: which of the frames and sections the plugin reports
+ * have a doc, which docs are stale, and which nodes have none, rolled up per page.
+ */
+
+export type CoverageStatus = 'documented' | 'stale' | 'undocumented';
+
+export interface ReportedNode {
+    nodeId: string;
+    name: string;
+    type: string;
+    pageName: string;
+    // When the plugin knows the node was last edited (ISO timestamp)
+    lastModified?: string;
+    // Hash of the node's current structure and copy, comparable with Doc.nodeFingerprint
+    fingerprint?: string;
+}
+
+export interface CoverageDoc {
+    id: string;
+    nodeId: string | null;
+    title: string;
+    lastUpdated: Date;
+    nodeFingerprint: string | null;
+}
+
+export interface NodeCoverage extends ReportedNode {
+    status: CoverageStatus;
+    docId?: string;
+    docTitle?: string;
+    lastUpdated?: Date;
+    // Why a documented node counts as stale
+    staleReason?: 'fingerprint' | 'modified';
+}
+
+export interface CoverageTotals {
+    total: number;
+    documented: number;
+    stale: number;
+    undocumented: number;
+    // Percentage of nodes with any doc, stale or not
+    coverage: number;
+    // Percentage of nodes whose doc is up to date
+    fresh: number;
+}
+
+export interface PageCoverage extends CoverageTotals {
+    pageName: string;
+}
+
+export interface CoverageReport extends CoverageTotals {
+    pages: PageCoverage[];
+    nodes: NodeCoverage[];
+}
+
+export const COVERAGE_DOC_SELECT = {
+    id: true,
+    nodeId: true,
+    title: true,
+    lastUpdated: true,
+    nodeFingerprint: true
+} as const;
+
+/**
+ * Keep the well-formed entries of a plugin report, one per node id. Returns the nodes and an error per rejected entry.
+ */
+export function parseReportedNodes(input: unknown): { nodes: ReportedNode[]; errors: string[] } {
+    if (!Array.isArray(input)) {
+        return { nodes: [], errors: ['nodes must be an array'] };
+    }
+
+    const nodes = new Map<string, ReportedNode>();
+    const errors: string[] = [];
+    input.forEach((entry: any, index) => {
+        if (!entry || typeof entry.nodeId !== 'string' || !entry.nodeId) {
+            errors.push(`nodes[${index}]: nodeId is required`);
+            return;
+        }
+        if (entry.lastModified !== undefined && Number.isNaN(Date.parse(entry.lastModified))) {
+            errors.push(`nodes[${index}]: lastModified must be an ISO timestamp`);
+            return;
+        }
+        nodes.set(entry.nodeId, {
+            nodeId: entry.nodeId,
+            name: typeof entry.name === 'string' ? entry.name : '',
+            type: typeof entry.type === 'string' ? entry.type : 'FRAME',
+            pageName: typeof entry.pageName === 'string' && entry.pageName ? entry.pageName : 'Untitled page',
+            ...(typeof entry.lastModified === 'string' ? { lastModified: entry.lastModified } : {}),
+            ...(typeof entry.fingerprint === 'string' && entry.fingerprint ? { fingerprint: entry.fingerprint } : {})
+        });
+    });
+
+    return { nodes: [...nodes.values()], errors };
+}
+
+export function percent(part: number, total: number): number {
+    return total > 0 ? Number(((part / total) * 100).toFixed(1)) : 0;
+}
+
+function totalsOf(nodes: NodeCoverage[]): CoverageTotals {
+    const count = (status: CoverageStatus) => nodes.filter(node => node.status === status).length;
+    const documented = count('documented');
+    const stale = count('stale');
+    return {
+        total: nodes.length,
+        documented,
+        stale,
+        undocumented: count('undocumented'),
+        coverage: percent(documented + stale, nodes.length),
+        fresh: percent(documented, nodes.length)
+    };
+}
+
+function staleReason(node: ReportedNode, doc: CoverageDoc): NodeCoverage['staleReason'] {
+    if (node.fingerprint && doc.nodeFingerprint && node.fingerprint !== doc.nodeFingerprint) {
+        return 'fingerprint';
+    }
+    if (node.lastModified && Date.parse(node.lastModified) > doc.lastUpdated.getTime()) {
+        return 'modified';
+    }
+    return undefined;
+}
+
+/**
+ * Match reported nodes to the file's docs by node id. A doc is stale when the node's fingerprint
+ * differs from the one saved with the doc, or the node was modified after the doc's lastUpdated.
+ */
+export function computeCoverage(reported: ReportedNode[], docs: CoverageDoc[]): CoverageReport {
+    const docsByNode = new Map<string, CoverageDoc>();
+    for (const doc of docs) {
+        if (doc.nodeId) docsByNode.set(doc.nodeId, doc);
+    }
+
+    const nodes: NodeCoverage[] = reported.map(node => {
+        const doc = docsByNode.get(node.nodeId);
+        if (!doc) return { ...node, status: 'undocumented' };
+
+        const reason = staleReason(node, doc);
+        return {
+            ...node,
+            status: reason ? 'stale' : 'documented',
+            docId: doc.id,
+            docTitle: doc.title,
+            lastUpdated: doc.lastUpdated,
+            ...(reason ? { staleReason: reason } : {})
+        };
+    });
+
+    const byPage = new Map<string, NodeCoverage[]>();
+    for (const node of nodes) {
+        byPage.set(node.pageName, [...(byPage.get(node.pageName) ?? []), node]);
+    }
+
+    return {
+        ...totalsOf(nodes),
+        pages: [...byPage.entries()].map(([pageName, pageNodes]) => ({ pageName, ...totalsOf(pageNodes) })),
+        nodes
+    };
+}
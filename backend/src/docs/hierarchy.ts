@@ -0,0 +1,230 @@
+import { Prisma } from '@prisma/client';
+import { Capsule, DocLevel, DocLocation, parentRefOf } from './capsule.js';
+
+/**
+ * The documentation tree: frame → flow (section) → page → file.
+ * Doc.belongsToId holds the parent doc id once the parent is saved; until then it holds the
+ * raw reference (usually the parent's Figma nodeId) and the doc is reported as an orphan.
+ */
+
+export const PARENT_LEVEL: Record<DocLevel, DocLevel | null> = {
+    frame: 'section',
+    section: 'page',
+    page: 'file',
+    file: null
+};
+
+export const CHILD_LEVEL: Record<DocLevel, DocLevel | null> = {
+    frame: null,
+    section: 'frame',
+    page: 'section',
+    file: 'page'
+};
+
+export class HierarchyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HierarchyError';
+    }
+}
+
+export interface DocNode {
+    id: string;
+    level: string;
+    title: string;
+    nodeId: string | null;
+    pageName: string | null;
+    belongsToId: string | null;
+}
+
+export interface DocTreeNode extends DocNode {
+    children: DocTreeNode[];
+}
+
+export interface DocTree {
+    roots: DocTreeNode[];
+    orphans: DocTreeNode[];
+    cycles: string[][];
+}
+
+export const DOC_NODE_SELECT = {
+    id: true,
+    level: true,
+    title: true,
+    nodeId: true,
+    pageName: true,
+    belongsToId: true
+} as const;
+
+// References in capsules may be a Doc id or the Figma nodeId of a doc in the same file
+function findByRef(tx: Prisma.TransactionClient, fileKey: string, ref: string) {
+    return tx.doc.findFirst({ where: { fileKey, OR: [{ id: ref }, { nodeId: ref }] } });
+}
+
+function containedRefsOf(capsule: Capsule): string[] {
+    if (capsule.level === 'page') return capsule.containedFlowIds;
+    if (capsule.level === 'file') return capsule.containedPageIds;
+    return [];
+}
+
+/**
+ * Work out what to store in belongsToId for a capsule about to be saved.
+ * `resolved` is false when the reference doesn't match a saved doc yet.
+ * Throws HierarchyError when the parent exists but is the doc itself or sits at the wrong level.
+ */
+export async function resolveParent(
+    tx: Prisma.TransactionClient,
+    capsule: Capsule,
+    location: DocLocation,
+    selfId?: string
+): Promise<{ belongsToId: string | null; resolved: boolean }> {
+    const ref = parentRefOf(capsule);
+    if (!ref) return { belongsToId: null, resolved: true };
+
+    if (ref === selfId || (location.nodeId && ref === location.nodeId)) {
+        throw new HierarchyError('A doc cannot belong to itself');
+    }
+
+    const parent = await findByRef(tx, location.fileKey, ref);
+    if (!parent) return { belongsToId: ref, resolved: false };
+
+    const expected = PARENT_LEVEL[capsule.level];
+    if (parent.level !== expected) {
+        throw new HierarchyError(`A ${capsule.level} must belong to a ${expected}, but ${ref} is a ${parent.level}`);
+    }
+
+    return { belongsToId: parent.id, resolved: true };
+}
+
+/**
+ * Attach children to a just-saved doc: docs that referenced it by nodeId before it existed,
+ * plus everything listed in its containedFlowIds/containedPageIds.
+ * Returns the contained references that match no saved doc yet.
+ */
+export async function linkChildren(
+    tx: Prisma.TransactionClient,
+    doc: { id: string; level: string; fileKey: string; nodeId: string | null },
+    capsule: Capsule
+): Promise<string[]> {
+    const childLevel = CHILD_LEVEL[doc.level as DocLevel];
+    if (!childLevel) return [];
+
+    if (doc.nodeId) {
+        await tx.doc.updateMany({
+            where: { fileKey: doc.fileKey, level: childLevel, belongsToId: doc.nodeId },
+            data: { belongsToId: doc.id }
+        });
+    }
+
+    const unresolved: string[] = [];
+    for (const ref of containedRefsOf(capsule)) {
+        const child = await findByRef(tx, doc.fileKey, ref);
+        if (!child) {
+            unresolved.push(ref);
+            continue;
+        }
+        if (child.level !== childLevel) {
+            throw new HierarchyError(`A ${doc.level} can only contain ${childLevel}s, but ${ref} is a ${child.level}`);
+        }
+        if (child.belongsToId !== doc.id) {
+            await tx.doc.update({ where: { id: child.id }, data: { belongsToId: doc.id } });
+        }
+    }
+
+    return unresolved;
+}
+
+/**
+ * Arrange a file's docs into a tree. File-level docs are the roots; any other doc whose parent
+ * is missing becomes an orphan (with its own subtree), and parent loops are reported as cycles.
+ */
+export function buildDocTree(docs: DocNode[]): DocTree {
+    const byId = new Map<string, DocTreeNode>(docs.map(doc => [doc.id, { ...doc, children: [] }]));
+
+    // Walk each parent chain once, marking docs that sit on (or hang off) a loop
+    const cycles: string[][] = [];
+    const inCycle = new Set<string>();
+    const settled = new Set<string>();
+
+    for (const start of byId.keys()) {
+        const path: string[] = [];
+        const onPath = new Set<string>();
+        let current: string | null = start;
+
+        while (current && byId.has(current) && !settled.has(current)) {
+            if (onPath.has(current)) {
+                const loop = path.slice(path.indexOf(current));
+                cycles.push(loop);
+                loop.forEach(id => inCycle.add(id));
+                break;
+            }
+            onPath.add(current);
+            path.push(current);
+            current = byId.get(current)!.belongsToId;
+        }
+
+        path.forEach(id => settled.add(id));
+    }
+
+    const roots: DocTreeNode[] = [];
+    const orphans: DocTreeNode[] = [];
+
+    for (const node of byId.values()) {
+        if (inCycle.has(node.id)) continue;
+
+        // A doc hanging off a loop can't be reached from a root, so it is an orphan
+        const parent = node.belongsToId && !inCycle.has(node.belongsToId) ? byId.get(node.belongsToId) : undefined;
+        if (parent) {
+            parent.children.push(node);
+        } else if (node.level === 'file' && !node.belongsToId) {
+            roots.push(node);
+        } else {
+            orphans.push(node);
+        }
+    }
+
+    const byTitle = (a: DocTreeNode, b: DocTreeNode) => a.title.localeCompare(b.title) || a.id.localeCompare(b.id);
+    const sortTree = (nodes: DocTreeNode[]) => {
+        nodes.sort(byTitle);
+        nodes.forEach(node => sortTree(node.children));
+    };
+    sortTree(roots);
+    sortTree(orphans);
+
+    return { roots, orphans, cycles };
+}
+
+export async function getChildren(db: Prisma.TransactionClient, id: string) {
+    return db.doc.findMany({
+        where: { belongsToId: id },
+        select: DOC_NODE_SELECT,
+        orderBy: [{ title: 'asc' }, { id: 'asc' }]
+    });
+}
+
+/**
+ * Parents of a doc from the root down (file first, direct parent last).
+ * `cycle` is set when the chain loops back on itself; the walk stops there.
+ */
+export async function getAncestors(db: Prisma.TransactionClient, id: string): Promise<{ ancestors: DocNode[]; cycle: boolean }> {
+    const ancestors: DocNode[] = [];
+    const seen = new Set<string>([id]);
+
+    let doc: DocNode | null = await db.doc.findUnique({ where: { id }, select: DOC_NODE_SELECT });
+    while (doc?.belongsToId) {
+        if (seen.has(doc.belongsToId)) {
+            return { ancestors: ancestors.reverse(), cycle: true };
+        }
+        seen.add(doc.belongsToId);
+
+        doc = await db.doc.findUnique({ where: { id: doc.belongsToId }, select: DOC_NODE_SELECT });
+        if (doc) ancestors.push(doc);
+    }
+
+    return { ancestors: ancestors.reverse(), cycle: false };
+}
+
+export async function getFileTree(db: Prisma.TransactionClient, fileKey: string): Promise<DocTree> {
+    const docs = await db.doc.findMany({ where: { fileKey }, select: DOC_NODE_SELECT });
+    return buildDocTree(docs);
+}
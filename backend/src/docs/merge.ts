@@ -0,0 +1,43 @@
+import type { Prisma } from '@prisma/client';
+
+/**
+ * A doc has at most one prose document and one translation per locale, and both are deleted with
+ * their doc. When a source doc is merged into a target, its prose and translations move to the
+ * target where the target has none; the rest are deleted with the source and reported as dropped.
+ */
+
+export interface MergedAttachments {
+    // Whether the source's prose moved to the target, and the locales of the translations that did
+    moved: { prose: boolean; translations: string[] };
+    // What the target already had, so the source's copy was deleted with it
+    dropped: { prose: boolean; translations: string[] };
+}
+
+export async function moveAttachments(tx: Prisma.TransactionClient, targetId: string, sourceId: string): Promise<MergedAttachments> {
+    const [targetProse, sourceProse, targetTranslations, sourceTranslations] = await Promise.all([
+        tx.proseDocument.findUnique({ where: { docId: targetId }, select: { id: true } }),
+        tx.proseDocument.findUnique({ where: { docId: sourceId }, select: { id: true } }),
+        tx.docTranslation.findMany({ where: { docId: targetId }, select: { locale: true } }),
+        tx.docTranslation.findMany({ where: { docId: sourceId }, select: { locale: true } })
+    ]);
+
+    const targetLocales = new Set(targetTranslations.map((translation: { locale: string }) => translation.locale));
+    const sourceLocales: string[] = sourceTranslations.map((translation: { locale: string }) => translation.locale);
+    const result: MergedAttachments = {
+        moved: { prose: !!sourceProse && !targetProse, translations: sourceLocales.filter(locale => !targetLocales.has(locale)) },
+        dropped: { prose: !!sourceProse && !!targetProse, translations: sourceLocales.filter(locale => targetLocales.has(locale)) }
+    };
+
+    if (result.moved.prose) {
+        await tx.proseDocument.update({ where: { docId: sourceId }, data: { docId: targetId } });
+    }
+    // Moved translations keep their sourceUpdatedAt, so they read as stale against the merged doc
+    if (result.moved.translations.length > 0) {
+        await tx.docTranslation.updateMany({
+            where: { docId: sourceId, locale: { in: result.moved.translations } },
+            data: { docId: targetId }
+        });
+    }
+
+    return result;
+}
@@ -0,0 +1,79 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Fields whose edits are tracked in DocRevision history.
+ */
+export const TRACKED_FIELDS = ['problem', 'approach', 'components', 'humanNotes'] as const;
+
+export type TrackedField = typeof TRACKED_FIELDS[number];
+export type RevisionSnapshot = Record<TrackedField, any>;
+export type RevisionDiff = Partial<Record<TrackedField, { from: any; to: any }>>;
+
+export interface RevisionMeta {
+    author?: string;
+    summary?: string;
+}
+
+export function snapshotOf(doc: Record<string, any>): RevisionSnapshot {
+    return {
+        problem: doc.problem ?? null,
+        approach: doc.approach ?? [],
+        components: doc.components ?? [],
+        humanNotes: doc.humanNotes ?? null
+    };
+}
+
+export function diffSnapshots(before: RevisionSnapshot | null, after: RevisionSnapshot): RevisionDiff {
+    const diff: RevisionDiff = {};
+    for (const field of TRACKED_FIELDS) {
+        const from = before ? before[field] : null;
+        const to = after[field];
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+            diff[field] = { from, to };
+        }
+    }
+    return diff;
+}
+
+/**
+ * Lock a doc's row until the transaction ends. Concurrent edits of the doc then run one after the
+ * other, each reading the doc as the previous edit left it and numbering its revision after it.
+ */
+export async function lockDoc(tx: Prisma.TransactionClient, docId: string): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM "Doc" WHERE id = ${docId} FOR UPDATE`;
+}
+
+/**
+ * Append an immutable revision for a doc. Returns null when nothing tracked changed
+ * (the first revision of a doc is always recorded). Callers lock an existing doc with lockDoc
+ * before reading `before`, so concurrent edits don't take the same revision number.
+ */
+export async function recordRevision(
+    tx: Prisma.TransactionClient,
+    docId: string,
+    before: RevisionSnapshot | null,
+    after: RevisionSnapshot,
+    meta: RevisionMeta = {}
+) {
+    const diff = diffSnapshots(before, after);
+    if (before && Object.keys(diff).length === 0) {
+        return null;
+    }
+
+    const latest = await tx.docRevision.findFirst({
+        where: { docId },
+        orderBy: { revision: 'desc' },
+        select: { revision: true }
+    });
+
+    return tx.docRevision.create({
+        data: {
+            docId,
+            revision: (latest?.revision ?? 0) + 1,
+            author: meta.author ?? null,
+            summary: meta.summary ?? (before ? 'updated' : 'created'),
+            diff: diff as Prisma.InputJsonValue,
+            snapshot: after as Prisma.InputJsonValue
+        }
+    });
+}
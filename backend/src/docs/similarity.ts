@@ -0,0 +1,231 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { tokenize } from '../search/bm25.js';
+import { ComponentUse } from './capsule.js';
+import { moveAttachments } from './merge.js';
+import { lockDoc, recordRevision, snapshotOf } from './revisions.js';
+
+/**
+ * Duplicate and near-duplicate detection between docs of the same level.
+ * Similarity is a weighted Jaccard over three facets: content words (title, problem, outcome,
+ * approach and the frame's visible text), design-system components, and tags/platforms.
+ */
+
+// Docs at or above this score are flagged as likely duplicates when saved
+export const DUPLICATE_THRESHOLD = 0.6;
+
+const WEIGHTS = { content: 0.5, components: 0.3, tags: 0.2 };
+
+export interface SimilarityDoc {
+    id: string;
+    level: string;
+    title: string;
+    problem: string;
+    outcome: string | null;
+    approach: string[];
+    textSamples: string[];
+    components: any;
+    platforms: string[];
+    problemTags: string[];
+    patternTags: string[];
+}
+
+export interface SimilarityScore {
+    score: number;
+    breakdown: { content: number; components: number; tags: number };
+}
+
+export const SIMILARITY_SELECT = {
+    id: true,
+    level: true,
+    title: true,
+    problem: true,
+    outcome: true,
+    approach: true,
+    textSamples: true,
+    components: true,
+    platforms: true,
+    problemTags: true,
+    patternTags: true,
+    fileKey: true,
+    pageName: true
+} as const;
+
+function contentSet(doc: SimilarityDoc): Set<string> {
+    return new Set(tokenize([doc.title, doc.problem, doc.outcome ?? '', ...doc.approach, ...doc.textSamples].join(' ')));
+}
+
+function componentSet(doc: SimilarityDoc): Set<string> {
+    return new Set(((doc.components as ComponentUse[]) || []).map(c => c.ds.toLowerCase()));
+}
+
+function tagSet(doc: SimilarityDoc): Set<string> {
+    return new Set([
+        ...doc.platforms.map(p => `platform:${p.toLowerCase()}`),
+        ...doc.problemTags.map(t => `problem:${t.toLowerCase()}`),
+        ...doc.patternTags.map(t => `pattern:${t.toLowerCase()}`)
+    ]);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number | null {
+    if (a.size === 0 && b.size === 0) return null;
+    let shared = 0;
+    for (const item of a) {
+        if (b.has(item)) shared++;
+    }
+    return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Score two docs between 0 and 1. Facets empty on both sides are left out and the remaining weights rescaled.
+ */
+export function scoreSimilarity(a: SimilarityDoc, b: SimilarityDoc): SimilarityScore {
+    const facets = {
+        content: jaccard(contentSet(a), contentSet(b)),
+        components: jaccard(componentSet(a), componentSet(b)),
+        tags: jaccard(tagSet(a), tagSet(b))
+    };
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const key of Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]) {
+        const value = facets[key];
+        if (value === null) continue;
+        weighted += WEIGHTS[key] * value;
+        totalWeight += WEIGHTS[key];
+    }
+
+    const round = (value: number | null) => Number((value ?? 0).toFixed(4));
+    return {
+        score: totalWeight > 0 ? round(weighted / totalWeight) : 0,
+        breakdown: { content: round(facets.content), components: round(facets.components), tags: round(facets.tags) }
+    };
+}
+
+/**
+ * Docs of the same level as `id`, across all files, scored against it and sorted best first.
+ */
+export async function findSimilarDocs(id: string, minScore: number = 0.3, limit: number = 10) {
+    const target = await prisma.doc.findUnique({ where: { id }, select: SIMILARITY_SELECT });
+    if (!target) return null;
+
+    const candidates = await prisma.doc.findMany({
+        where: { level: target.level, id: { not: id } },
+        select: SIMILARITY_SELECT
+    });
+
+    return candidates
+        .map(candidate => ({
+            id: candidate.id,
+            title: candidate.title,
+            fileKey: candidate.fileKey,
+            pageName: candidate.pageName,
+            ...scoreSimilarity(target, candidate)
+        }))
+        .filter(result => result.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
+
+/**
+ * Flag likely duplicates of a just-saved doc. Best effort: a failure is logged and the save still succeeds.
+ */
+export async function flagDuplicates(id: string) {
+    try {
+        const similar = (await findSimilarDocs(id, DUPLICATE_THRESHOLD)) || [];
+
+        await Promise.all(similar.map(match => prisma.docDuplicate.upsert({
+            where: { docId_duplicateOfId: { docId: id, duplicateOfId: match.id } },
+            create: { docId: id, duplicateOfId: match.id, score: match.score, breakdown: match.breakdown },
+            update: { score: match.score, breakdown: match.breakdown }
+        })));
+
+        return similar;
+    } catch (error) {
+        console.warn(`[${new Date().toISOString()}] [DOCS] DUPLICATE_CHECK_FAILED:`, {
+            docId: id,
+            error: error instanceof Error ? error.message : String(error)
+        });
+        return [];
+    }
+}
+
+function union(a: string[], b: string[]): string[] {
+    return [...new Set([...a, ...b])];
+}
+
+function unionBy<T>(a: T[], b: T[], key: (item: T) => string): T[] {
+    const seen = new Set(a.map(key));
+    return [...a, ...b.filter(item => !seen.has(key(item)))];
+}
+
+/**
+ * Fold `sourceId` into `targetId` and delete the source. The target keeps its own content; lists
+ * (components, links, platforms, tags, text) are unioned. The source's revisions are copied onto
+ * the end of the target's history, and its children and canonical status move to the target.
+ * The source's prose and translations move where the target has none; the response lists what
+ * moved and what was dropped. Returns null when either doc is missing; throws when they are at
+ * different levels.
+ */
+export async function mergeDocs(targetId: string, sourceId: string, author?: string) {
+    return prisma.$transaction(async (tx) => {
+        // Both docs' histories are rewritten below; locked in id order so opposite merges can't deadlock
+        for (const id of [targetId, sourceId].sort()) await lockDoc(tx, id);
+        const [target, source] = await Promise.all([
+            tx.doc.findUnique({ where: { id: targetId } }),
+            tx.doc.findUnique({ where: { id: sourceId } })
+        ]);
+        if (!target || !source) return null;
+        if (target.level !== source.level) {
+            throw new Error(`Cannot merge a ${source.level} into a ${target.level}`);
+        }
+
+        const [latest, sourceRevisions] = await Promise.all([
+            tx.docRevision.findFirst({ where: { docId: targetId }, orderBy: { revision: 'desc' }, select: { revision: true } }),
+            tx.docRevision.findMany({ where: { docId: sourceId }, orderBy: { revision: 'asc' } })
+        ]);
+
+        let next = (latest?.revision ?? 0) + 1;
+        for (const revision of sourceRevisions) {
+            await tx.docRevision.create({
+                data: {
+                    docId: targetId,
+                    revision: next++,
+                    author: revision.author,
+                    summary: `merged from ${sourceId}: ${revision.summary ?? 'updated'}`,
+                    diff: revision.diff as Prisma.InputJsonValue,
+                    snapshot: revision.snapshot as Prisma.InputJsonValue,
+                    createdAt: revision.createdAt
+                }
+            });
+        }
+
+        await tx.doc.updateMany({ where: { belongsToId: sourceId }, data: { belongsToId: targetId } });
+        await tx.canonicalPattern.updateMany({ where: { docId: sourceId }, data: { docId: targetId } });
+        await tx.canonicalProposal.updateMany({ where: { docId: sourceId }, data: { docId: targetId } });
+        const { moved, dropped } = await moveAttachments(tx, targetId, sourceId);
+
+        const componentKey = (c: ComponentUse) => `${c.ds}::${c.variant ?? ''}`;
+        const merged = await tx.doc.update({
+            where: { id: targetId },
+            data: {
+                components: unionBy(target.components as ComponentUse[], source.components as ComponentUse[], componentKey),
+                links: unionBy(target.links as any[], source.links as any[], link => link.url),
+                platforms: union(target.platforms, source.platforms),
+                problemTags: union(target.problemTags, source.problemTags),
+                patternTags: union(target.patternTags, source.patternTags),
+                textSamples: union(target.textSamples, source.textSamples),
+                canonical: target.canonical || source.canonical
+            }
+        });
+
+        await recordRevision(tx, targetId, snapshotOf(target), snapshotOf(merged), {
+            author,
+            summary: `merged ${sourceId}`
+        });
+
+        await tx.doc.delete({ where: { id: sourceId } });
+
+        return { doc: merged, moved, dropped };
+    });
+}
@@ -0,0 +1,258 @@
+import { prisma } from '../prisma.js';
+import { Capsule, DocLevel, DocLocation, capsuleToDocData, validateCapsule } from './capsule.js';
+import { RevisionMeta, RevisionSnapshot, lockDoc, recordRevision, snapshotOf } from './revisions.js';
+import { linkChildren, resolveParent } from './hierarchy.js';
+import { indexDoc } from '../search/vectors.js';
+import { flagDuplicates } from './similarity.js';
+import { ProseSection, ProseSections, proseToCapsuleInput } from '../documentation/prose.js';
+import { DEFAULT_LOCALE, LocaleCode } from '../documentation/locales.js';
+import type { TranslatedDoc } from '../documentation/translation.js';
+import type { EvidenceSnapshot, RegenerationSource } from '../documentation/regeneration.js';
+
+export interface SavedDoc {
+    id: string;
+    created: boolean;
+    // Parent/contained references that don't match a saved doc in the file yet
+    unresolvedRefs: string[];
+    // Existing docs this one likely duplicates, best match first
+    duplicates: { id: string; title: string; fileKey: string; score: number }[];
+}
+
+export interface SaveOptions {
+    // The frame's visible copy, kept for duplicate detection; omitted means unchanged
+    textSamples?: string[];
+    // Hash of the Figma node as documented, compared by coverage reports to spot stale docs
+    fingerprint?: string;
+    // Bulk imports skip the per-doc duplicate scan
+    checkDuplicates?: boolean;
+}
+
+/**
+ * Persist a validated capsule as a Doc row and record the edit in its revision history.
+ * Capsules attached to a Figma node are upserted by fileKey + nodeId so re-saving updates the same record.
+ * Throws HierarchyError when the capsule's parent or contained docs are at the wrong level.
+ */
+export async function saveCapsuleDoc(
+    capsule: Capsule,
+    location: DocLocation,
+    meta: RevisionMeta = {},
+    options: SaveOptions = {}
+): Promise<SavedDoc> {
+    const { textSamples, fingerprint, checkDuplicates = true } = options;
+    const data = {
+        ...capsuleToDocData(capsule, location),
+        ...(textSamples ? { textSamples } : {}),
+        ...(fingerprint ? { nodeFingerprint: fingerprint } : {})
+    };
+
+    const saved = await prisma.$transaction(async (tx) => {
+        const found = location.nodeId
+            ? await tx.doc.findUnique({
+                where: { fileKey_nodeId: { fileKey: location.fileKey, nodeId: location.nodeId } },
+                select: { id: true }
+            })
+            : null;
+        // Read under the lock, so a concurrent save of the same node is diffed against this one
+        if (found) await lockDoc(tx, found.id);
+        const existing = found ? await tx.doc.findUnique({ where: { id: found.id } }) : null;
+
+        const parent = await resolveParent(tx, capsule, location, existing?.id);
+        data.belongsToId = parent.belongsToId;
+
+        const doc = existing
+            ? await tx.doc.update({ where: { id: existing.id }, data })
+            : await tx.doc.create({ data: { locale: DEFAULT_LOCALE, ...data } });
+
+        const unresolvedChildren = await linkChildren(tx, doc, capsule);
+        await recordRevision(tx, doc.id, existing ? snapshotOf(existing) : null, snapshotOf(doc), meta);
+
+        const unresolvedRefs = parent.resolved ? unresolvedChildren : [parent.belongsToId!, ...unresolvedChildren];
+
+        return { doc, created: !existing, unresolvedRefs };
+    });
+
+    await indexDoc(saved.doc.id);
+    const duplicates = checkDuplicates ? await flagDuplicates(saved.doc.id) : [];
+
+    return {
+        id: saved.doc.id,
+        created: saved.created,
+        unresolvedRefs: saved.unresolvedRefs,
+        duplicates: duplicates.map(({ id, title, fileKey, score }) => ({ id, title, fileKey, score }))
+    };
+}
+
+/**
+ * Apply an already-validated capsule to an existing doc by id, recording a revision.
+ * Returns null when the doc does not exist; throws HierarchyError like saveCapsuleDoc.
+ */
+export async function updateDoc(id: string, capsule: Capsule, location: DocLocation, meta: RevisionMeta = {}) {
+    const doc = await prisma.$transaction(async (tx) => {
+        await lockDoc(tx, id);
+        const existing = await tx.doc.findUnique({ where: { id } });
+        if (!existing) return null;
+
+        const data = capsuleToDocData(capsule, location);
+        data.belongsToId = (await resolveParent(tx, capsule, location, id)).belongsToId;
+
+        const doc = await tx.doc.update({ where: { id }, data });
+        await linkChildren(tx, doc, capsule);
+        await recordRevision(tx, id, snapshotOf(existing), snapshotOf(doc), meta);
+        return doc;
+    });
+
+    if (doc) await indexDoc(doc.id);
+    return doc;
+}
+
+/**
+ * Restore the tracked fields of a doc to a previous revision.
+ * The rollback itself is recorded as a new revision so history stays append-only.
+ */
+export async function rollbackToRevision(docId: string, revision: number, meta: RevisionMeta = {}) {
+    return prisma.$transaction(async (tx) => {
+        const target = await tx.docRevision.findUnique({
+            where: { docId_revision: { docId, revision } }
+        });
+        if (!target) return null;
+
+        await lockDoc(tx, docId);
+        const doc = await tx.doc.findUnique({ where: { id: docId } });
+        if (!doc) return null;
+
+        const snapshot = target.snapshot as RevisionSnapshot;
+        const updated = await tx.doc.update({
+            where: { id: docId },
+            data: {
+                problem: snapshot.problem,
+                approach: snapshot.approach,
+                components: snapshot.components,
+                humanNotes: snapshot.humanNotes,
+                lastUpdated: new Date()
+            }
+        });
+
+        await recordRevision(tx, docId, snapshotOf(doc), snapshotOf(updated), {
+            author: meta.author,
+            summary: meta.summary ?? `rollback to r${revision}`
+        });
+
+        return updated;
+    });
+}
+
+// ProseDocument column for each of the eight sections
+const PROSE_COLUMNS: Record<ProseSection, string> = {
+    'Screen Name': 'screenName',
+    'Product / Project Context': 'productContext',
+    'Problem Being Addressed (Why this screen exists)': 'problem',
+    'User Scenario (What the user is trying to do here)': 'userScenario',
+    'Design Approach / Strategy': 'designApproach',
+    'Intended Outcome': 'intendedOutcome',
+    'Key Components Used': 'keyComponents',
+    'Human Notes': 'humanNotes'
+};
+
+export interface ProseInput {
+    documentation: string;
+    sections: Partial<ProseSections>;
+    // Section, page and file sections with no frame counterpart, keyed by English heading
+    levelSections?: Record<string, string>;
+    level: DocLevel;
+    hasValidationWarning?: boolean;
+    // Language of the prose; also the doc's when the prose creates it
+    locale?: LocaleCode;
+    // The prose as generated, before edits, and the evidence it was written from; omitted means unchanged
+    generatedDocumentation?: string;
+    evidence?: EvidenceSnapshot;
+}
+
+/**
+ * Store prose documentation against the Doc for the same node, creating that Doc from the
+ * prose when the node has no capsule yet. Returns null when no valid capsule can be built.
+ */
+export async function saveProseDoc(input: ProseInput, location: DocLocation, meta: RevisionMeta = {}) {
+    const existing = location.nodeId
+        ? await prisma.doc.findUnique({
+            where: { fileKey_nodeId: { fileKey: location.fileKey, nodeId: location.nodeId } },
+            select: { id: true }
+        })
+        : null;
+
+    let docId = existing?.id;
+    let created = false;
+    if (!docId) {
+        const { capsule } = validateCapsule({ ...proseToCapsuleInput(input.sections, input.level), locale: input.locale });
+        if (!capsule) return null;
+
+        const saved = await saveCapsuleDoc(capsule, location, { ...meta, summary: meta.summary ?? 'created from prose' });
+        docId = saved.id;
+        created = saved.created;
+    }
+
+    const columns: Record<string, string | null> = {};
+    for (const [heading, column] of Object.entries(PROSE_COLUMNS)) {
+        columns[column] = input.sections[heading as ProseSection] || null;
+    }
+    const data = {
+        raw: input.documentation,
+        ...columns,
+        sections: input.levelSections ?? {},
+        hasValidationWarning: input.hasValidationWarning === true,
+        author: meta.author ?? null,
+        ...(input.locale ? { locale: input.locale } : {}),
+        ...(input.generatedDocumentation !== undefined ? { generatedRaw: input.generatedDocumentation } : {}),
+        ...(input.evidence !== undefined ? { sourceEvidence: input.evidence } : {})
+    };
+
+    const prose = await prisma.proseDocument.upsert({
+        where: { docId },
+        create: { docId, locale: DEFAULT_LOCALE, ...data },
+        update: data
+    });
+
+    await indexDoc(docId);
+    return { docId, created, prose };
+}
+
+/**
+ * Store a doc's translation into `locale`, replacing any earlier one. `sourceUpdatedAt` is the doc's
+ * updatedAt as translated, so later edits to the doc mark the translation stale.
+ */
+export async function saveTranslation(docId: string, locale: LocaleCode, translated: TranslatedDoc & { model: string }, sourceUpdatedAt: Date) {
+    const data = {
+        title: translated.title,
+        problem: translated.problem,
+        outcome: translated.outcome ?? null,
+        approach: translated.approach,
+        prose: translated.prose ?? null,
+        model: translated.model,
+        sourceUpdatedAt
+    };
+
+    const translation = await prisma.docTranslation.upsert({
+        where: { docId_locale: { docId, locale } },
+        create: { docId, locale, ...data },
+        update: data
+    });
+
+    // Translated text is searchable too
+    await indexDoc(docId);
+    return translation;
+}
+
+/**
+ * A doc's saved prose as POST /ai/prepare/regenerate starts from: the current text, the text as
+ * generated and the evidence it was written from. Returns null when the doc has no prose.
+ */
+export async function findRegenerationSource(docId: string): Promise<(RegenerationSource & { locale: LocaleCode; evidence: EvidenceSnapshot | null }) | null> {
+    const prose = await prisma.proseDocument.findUnique({ where: { docId } });
+    if (!prose) return null;
+
+    return {
+        documentation: prose.raw,
+        generatedDocumentation: prose.generatedRaw,
+        locale: prose.locale as LocaleCode,
+        evidence: (prose.sourceEvidence as EvidenceSnapshot | null) ?? null
+    };
+}
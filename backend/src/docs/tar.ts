@@ -0,0 +1,99 @@
+/**
+ * Minimal ustar writer for export bundles (regular files only). Names over 100 bytes use the ustar
+ * prefix field when they split at a slash, and a pax header otherwise.
+ */
+
+const BLOCK_SIZE = 512;
+
+function writeField(header: Buffer, value: string, offset: number, length: number) {
+    header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function octal(value: number, length: number): string {
+    return value.toString(8).padStart(length - 1, '0') + '\0';
+}
+
+function padded(body: Buffer): Buffer[] {
+    const padding = (BLOCK_SIZE - (body.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    return [body, Buffer.alloc(padding, 0)];
+}
+
+function headerBlock(name: string, prefix: string, size: number, type: string, mtime: Date): Buffer {
+    const block = Buffer.alloc(BLOCK_SIZE, 0);
+    writeField(block, name, 0, 100);
+    writeField(block, octal(0o644, 8), 100, 8);
+    writeField(block, octal(0, 8), 108, 8);
+    writeField(block, octal(0, 8), 116, 8);
+    writeField(block, octal(size, 12), 124, 12);
+    writeField(block, octal(Math.floor(mtime.getTime() / 1000), 12), 136, 12);
+    writeField(block, '        ', 148, 8);
+    writeField(block, type, 156, 1);
+    writeField(block, 'ustar\0', 257, 6);
+    writeField(block, '00', 263, 2);
+    writeField(block, prefix, 345, 155);
+
+    let checksum = 0;
+    for (const byte of block) checksum += byte;
+    writeField(block, checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8);
+    return block;
+}
+
+/**
+ * Split a long name at a slash into a ustar prefix (155 bytes) and name (100 bytes), if it can be.
+ */
+export function splitTarName(name: string): { prefix: string; name: string } | null {
+    if (Buffer.byteLength(name) <= 100) return { prefix: '', name };
+    for (let i = name.indexOf('/'); i !== -1; i = name.indexOf('/', i + 1)) {
+        const prefix = name.slice(0, i);
+        const rest = name.slice(i + 1);
+        if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100 && rest.length > 0) {
+            return { prefix, name: rest };
+        }
+    }
+    return null;
+}
+
+// A pax record is "<length> path=<name>\n", where the length counts its own digits
+function paxRecord(key: string, value: string): string {
+    const text = ` ${key}=${value}\n`;
+    let length = Buffer.byteLength(text);
+    while (String(length).length + Buffer.byteLength(text) !== length) {
+        length = String(length).length + Buffer.byteLength(text);
+    }
+    return `${length}${text}`;
+}
+
+// Cut to at most `bytes` bytes without splitting a character
+function truncateBytes(text: string, bytes: number): string {
+    let result = text;
+    while (Buffer.byteLength(result) > bytes) result = result.slice(0, -1);
+    return result;
+}
+
+/**
+ * A header block followed by the content padded to a whole number of blocks, preceded by a pax
+ * header when the name fits neither the name nor the prefix field.
+ */
+export function tarEntry(name: string, content: string | Buffer, mtime: Date = new Date()): Buffer {
+    const body = typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const split = splitTarName(name);
+    if (split) {
+        return Buffer.concat([headerBlock(split.name, split.prefix, body.length, '0', mtime), ...padded(body)]);
+    }
+
+    const pax = Buffer.from(paxRecord('path', name), 'utf8');
+    const shortName = truncateBytes(name, 100);
+    return Buffer.concat([
+        headerBlock(truncateBytes(`PaxHeader/${name.split('/').pop()}`, 100), '', pax.length, 'x', mtime),
+        ...padded(pax),
+        headerBlock(shortName, '', body.length, '0', mtime),
+        ...padded(body)
+    ]);
+}
+
+/**
+ * End-of-archive marker: two empty blocks.
+ */
+export function tarEnd(): Buffer {
+    return Buffer.alloc(BLOCK_SIZE * 2, 0);
+}
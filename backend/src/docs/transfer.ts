@@ -0,0 +1,230 @@
+import { prisma } from '../prisma.js';
+import { Capsule, docToCapsule, validateCapsule } from './capsule.js';
+import { saveCapsuleDoc, updateDoc } from './store.js';
+import { HierarchyError } from './hierarchy.js';
+import { PROSE_SECTIONS, capsuleToProseSections } from '../documentation/prose.js';
+import { tarEnd, tarEntry } from './tar.js';
+
+/**
+ * Export and import of the documentation library.
+ * A JSONL line has the same shape as the POST /docs body, so exports can be re-imported anywhere.
+ */
+
+export interface ExportFilters {
+    fileKey?: string;
+    product?: string;
+    tag?: string;
+}
+
+export interface CapsuleRecord {
+    id: string;
+    fileKey: string;
+    nodeId?: string;
+    pageName?: string;
+    textSamples?: string[];
+    capsule: Capsule;
+}
+
+export interface ImportResult {
+    created: number;
+    updated: number;
+    failed: { line: number; errors: string[] }[];
+}
+
+const BATCH_SIZE = 200;
+
+function whereFor(filters: ExportFilters): any {
+    return {
+        AND: [
+            filters.fileKey ? { fileKey: filters.fileKey } : {},
+            filters.product ? { product: { equals: filters.product, mode: 'insensitive' } } : {},
+            filters.tag ? { OR: [{ patternTags: { has: filters.tag } }, { problemTags: { has: filters.tag } }] } : {}
+        ]
+    };
+}
+
+function withParentRef(capsule: Capsule, ref: string | undefined): Capsule {
+    if (capsule.level === 'frame') return { ...capsule, belongsToFlowId: ref };
+    if (capsule.level === 'section') return { ...capsule, belongsToPageId: ref };
+    if (capsule.level === 'page') return { ...capsule, belongsToFileId: ref };
+    return capsule;
+}
+
+/**
+ * Matching docs as capsule records, read in id-ordered batches so large libraries are never held in memory.
+ * Parent references are written as the parent's Figma nodeId where it has one, because doc ids
+ * don't survive a move between environments but node ids do.
+ */
+export async function* exportRecords(filters: ExportFilters = {}): AsyncGenerator<CapsuleRecord> {
+    const where = whereFor(filters);
+    let cursor: string | undefined;
+
+    while (true) {
+        const docs = await prisma.doc.findMany({
+            where,
+            orderBy: { id: 'asc' },
+            take: BATCH_SIZE,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+        });
+        if (docs.length === 0) return;
+
+        const parentIds = [...new Set(docs.map(doc => doc.belongsToId).filter((id): id is string => !!id))];
+        const parents = await prisma.doc.findMany({
+            where: { id: { in: parentIds } },
+            select: { id: true, nodeId: true }
+        });
+        const parentNodeIds = new Map<string, string | null>(parents.map(parent => [parent.id, parent.nodeId]));
+
+        for (const doc of docs) {
+            const parentRef = doc.belongsToId ? parentNodeIds.get(doc.belongsToId) || doc.belongsToId : undefined;
+            yield {
+                id: doc.id,
+                fileKey: doc.fileKey,
+                nodeId: doc.nodeId ?? undefined,
+                pageName: doc.pageName ?? undefined,
+                textSamples: doc.textSamples.length ? doc.textSamples : undefined,
+                capsule: withParentRef(docToCapsule(doc), parentRef)
+            };
+        }
+
+        cursor = docs[docs.length - 1].id;
+    }
+}
+
+export async function* exportJsonl(filters: ExportFilters = {}): AsyncGenerator<string> {
+    for await (const record of exportRecords(filters)) {
+        yield JSON.stringify(record) + '\n';
+    }
+}
+
+function slugify(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 40) || 'untitled';
+}
+
+/**
+ * One capsule as Markdown: YAML front matter for the metadata, then the eight prose sections.
+ */
+export function capsuleToMarkdown(record: CapsuleRecord): string {
+    const { capsule } = record;
+    const frontMatter: Record<string, any> = {
+        id: record.id,
+        level: capsule.level,
+        fileKey: record.fileKey,
+        nodeId: record.nodeId,
+        pageName: record.pageName,
+        platforms: capsule.platforms,
+        problemTags: capsule.level === 'section' ? capsule.problemTags : undefined,
+        patternTags: capsule.level === 'section' ? capsule.patternTags : undefined,
+        state: capsule.level === 'frame' ? capsule.state : undefined,
+        canonical: capsule.canonical === true,
+        lastUpdated: capsule.lastUpdated
+    };
+
+    const lines = ['---'];
+    for (const [key, value] of Object.entries(frontMatter)) {
+        if (value === undefined) continue;
+        lines.push(`${key}: ${JSON.stringify(value)}`);
+    }
+    lines.push('---', '', `# ${capsule.title}`, '');
+
+    const sections = capsuleToProseSections(capsule);
+    for (const heading of PROSE_SECTIONS) {
+        lines.push(`## ${heading}`, '', sections[heading], '');
+    }
+
+    if (capsule.links.length > 0) {
+        lines.push('## Links', '', ...capsule.links.map(link => `- [${link.label}](${link.url})`), '');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * A tar archive with one Markdown file per capsule at `<fileKey>/<title-slug>-<id>.md`.
+ */
+export async function* exportMarkdownTar(filters: ExportFilters = {}): AsyncGenerator<Buffer> {
+    for await (const record of exportRecords(filters)) {
+        yield tarEntry(`${record.fileKey}/${slugify(record.capsule.title)}-${record.id}.md`, capsuleToMarkdown(record));
+    }
+    yield tarEnd();
+}
+
+/**
+ * Import JSONL capsule records. Re-importing the same file is a no-op apart from timestamps:
+ * docs are matched by fileKey + nodeId, or for docs without a node by id and then by level + title
+ * in the same file, and unchanged content records no new revision.
+ */
+export async function importJsonl(text: string, author?: string): Promise<ImportResult> {
+    const result: ImportResult = { created: 0, updated: 0, failed: [] };
+    const lines = text.split(/\r?\n/);
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].trim();
+        if (!line) continue;
+        const lineNumber = index + 1;
+
+        let record: any;
+        try {
+            record = JSON.parse(line);
+        } catch {
+            result.failed.push({ line: lineNumber, errors: ['invalid JSON'] });
+            continue;
+        }
+
+        if (!record || typeof record.fileKey !== 'string' || !record.fileKey) {
+            result.failed.push({ line: lineNumber, errors: ['fileKey is required'] });
+            continue;
+        }
+
+        const { capsule, errors } = validateCapsule(record.capsule);
+        if (!capsule) {
+            result.failed.push({ line: lineNumber, errors });
+            continue;
+        }
+
+        const location = {
+            fileKey: record.fileKey,
+            nodeId: typeof record.nodeId === 'string' && record.nodeId ? record.nodeId : undefined,
+            pageName: typeof record.pageName === 'string' && record.pageName ? record.pageName : undefined
+        };
+        const textSamples = Array.isArray(record.textSamples)
+            ? record.textSamples.filter((sample: any) => typeof sample === 'string')
+            : undefined;
+        const meta = { author, summary: 'imported' };
+
+        try {
+            const existing = location.nodeId ? null : await prisma.doc.findFirst({
+                where: {
+                    fileKey: location.fileKey,
+                    nodeId: null,
+                    OR: [
+                        ...(typeof record.id === 'string' ? [{ id: record.id }] : []),
+                        { level: capsule.level, title: capsule.title }
+                    ]
+                },
+                orderBy: { createdAt: 'asc' }
+            });
+
+            if (existing) {
+                await updateDoc(existing.id, capsule, location, meta);
+                result.updated++;
+            } else {
+                const saved = await saveCapsuleDoc(capsule, location, meta, { textSamples, checkDuplicates: false });
+                if (saved.created) {
+                    result.created++;
+                } else {
+                    result.updated++;
+                }
+            }
+        } catch (err) {
+            if (!(err instanceof HierarchyError)) throw err;
+            result.failed.push({ line: lineNumber, errors: [err.message] });
+        }
+    }
+
+    return result;
+}
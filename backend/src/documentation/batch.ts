@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Batch documentation jobs for /ai/prepare/batch: many extractions documented with bounded
+ * concurrency, sharing the page and sibling frame names, with per-item progress kept in memory.
+ */
+
+export const MAX_BATCH_SIZE = 100;
+export const MAX_BATCH_CONCURRENCY = 8;
+export const DEFAULT_BATCH_CONCURRENCY = Number(process.env.ONE_BRAIN_BATCH_CONCURRENCY ?? 3);
+
+// Finished jobs kept for polling; older ones are dropped first
+const MAX_FINISHED_JOBS = 20;
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchItem<R = unknown> {
+    index: number;
+    nodeId?: string;
+    nodeName?: string;
+    status: BatchItemStatus;
+    result?: R;
+    error?: string;
+    startedAt?: string;
+    finishedAt?: string;
+}
+
+export interface BatchJob<R = unknown> {
+    id: string;
+    status: 'running' | 'done';
+    total: number;
+    concurrency: number;
+    createdAt: string;
+    finishedAt?: string;
+    items: BatchItem<R>[];
+}
+
+// Shared by every item in a batch, so each frame is documented knowing what surrounds it
+export interface BatchContext {
+    pageName?: string;
+    position: number;
+    total: number;
+    siblingFrameNames: string[];
+}
+
+/**
+ * Each extraction with its `batchContext`: its page and the names of the other frames on that page.
+ */
+export function withBatchContext(extractions: any[]): any[] {
+    return extractions.map((extraction, index) => ({
+        ...extraction,
+        batchContext: {
+            pageName: extraction.pageName,
+            position: index + 1,
+            total: extractions.length,
+            siblingFrameNames: extractions
+                .filter((other, otherIndex) => otherIndex !== index && other.pageName === extraction.pageName && other.nodeName)
+                .map(other => other.nodeName)
+        } satisfies BatchContext
+    }));
+}
+
+export function batchProgress(job: BatchJob) {
+    const count = (status: BatchItemStatus) => job.items.filter(item => item.status === status).length;
+    return { pending: count('pending'), running: count('running'), done: count('done'), failed: count('failed') };
+}
+
+/**
+ * Run `work` over every item with at most `concurrency` in flight. A failed item is recorded with
+ * its error and does not stop the others.
+ */
+export async function runBatch<R>(
+    job: BatchJob<R>,
+    extractions: any[],
+    work: (extraction: any, index: number) => Promise<R>,
+    onItem?: (item: BatchItem<R>) => void
+): Promise<BatchJob<R>> {
+    let next = 0;
+
+    const worker = async () => {
+        while (next < extractions.length) {
+            const item = job.items[next++];
+            item.status = 'running';
+            item.startedAt = new Date().toISOString();
+
+            try {
+                item.result = await work(extractions[item.index], item.index);
+                item.status = 'done';
+            } catch (error) {
+                item.error = error instanceof Error ? error.message : String(error);
+                item.status = 'failed';
+            }
+            item.finishedAt = new Date().toISOString();
+            onItem?.(item);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(job.concurrency, extractions.length) }, worker));
+
+    job.status = 'done';
+    job.finishedAt = new Date().toISOString();
+    return job;
+}
+
+export class BatchJobStore<R = unknown> {
+    private readonly jobs = new Map<string, BatchJob<R>>();
+
+    create(extractions: any[], concurrency: number): BatchJob<R> {
+        const job: BatchJob<R> = {
+            id: randomUUID(),
+            status: 'running',
+            total: extractions.length,
+            concurrency: Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, Math.floor(concurrency))),
+            createdAt: new Date().toISOString(),
+            items: extractions.map((extraction, index) => ({
+                index,
+                nodeId: extraction.nodeId,
+                nodeName: extraction.nodeName,
+                status: 'pending'
+            }))
+        };
+
+        this.evict();
+        this.jobs.set(job.id, job);
+        return job;
+    }
+
+    get(id: string): BatchJob<R> | undefined {
+        return this.jobs.get(id);
+    }
+
+    private evict() {
+        const finished = [...this.jobs.values()].filter(job => job.status === 'done');
+        for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS + 1))) {
+            this.jobs.delete(job.id);
+        }
+    }
+}
@@ -0,0 +1,257 @@
+import { FastifyInstance } from 'fastify';
+import { Capsule, DocLevel, Link, validateCapsule } from '../docs/capsule.js';
+import { CassetteMissError } from '../llm/cassette.js';
+import { getLLM } from '../llm/client.js';
+import { promptManager } from '../prompts/PromptManager.js';
+import { levelFor } from './templates.js';
+import { DEFAULT_LOCALE, LOCALES, LocaleCode, localeOf } from './locales.js';
+
+/**
+ * Structured capsule output for /ai/prepare: asks the model for a JSON capsule matching the
+ * level schema, validates it against the Capsule union and retries with the errors on violations.
+ */
+
+// Retries after the first attempt when the model's JSON fails validation
+export const CAPSULE_SCHEMA_RETRIES = 2;
+
+export interface CapsuleGenerationResult {
+    capsule: Capsule;
+    // True when every attempt failed and the heuristic capsule was returned
+    isFallback: boolean;
+    // Validation errors from the last failed attempt, if any
+    errors: string[];
+    attempts: number;
+}
+
+/**
+ * The fields the model fills in. `links`, `canonical` and `lastUpdated` are set by the server.
+ */
+export function schemaFor(level: string) {
+    const common = {
+        title: 'string',
+        product: 'string?',
+        problem: 'string',
+        outcome: 'string?',
+        approach: 'string[]',
+        components: '[{ ds: string, variant?: string }]',
+        platforms: 'string[]',
+        humanNotes: 'string?'
+    };
+    if (level === 'frame') return { level: 'frame', state: 'success|error|empty|loading|unknown', belongsToFlowId: 'string?', ...common };
+    if (level === 'section') return { level: 'section', keyStates: 'string[]', keyFrames: '[{ title:string, figmaNodeUrl:string }]', belongsToPageId: 'string?', problemTags: 'string[]', patternTags: 'string[]', ...common };
+    if (level === 'page') return { level: 'page', containedFlowIds: 'string[]', belongsToFileId: 'string?', ...common };
+    return { level: 'file', containedPageIds: 'string[]', ...common };
+}
+
+export function exampleFor(level: string) {
+    if (level === 'frame') {
+        return {
+            capsule: {
+                level: 'frame',
+                title: 'Wallet Home — Empty State',
+                product: 'Wallet',
+                problem: 'Guide the user when no transactions exist',
+                outcome: 'Increase first action rate',
+                approach: ['Empty-state illustration', 'Primary CTA: Add money', 'Secondary: Link bank'],
+                components: [{ ds: 'Button/Primary', variant: 'Default' }, { ds: 'Card/Empty' }],
+                platforms: ['iOS'],
+                state: 'empty',
+                humanNotes: ''
+            }
+        };
+    }
+    if (level === 'section') {
+        return {
+            capsule: {
+                level: 'section',
+                title: 'Top up flow',
+                problem: 'Move funds into wallet',
+                outcome: 'Reduce drop-off on bank step',
+                approach: ['Select source', 'Enter amount', 'Confirm payment'],
+                keyStates: ['success', 'payment failed'],
+                keyFrames: [],
+                platforms: ['iOS']
+            }
+        };
+    }
+    return {};
+}
+
+// Other locales name their language and keep evidence wording untranslated
+function localeVariables(locale: LocaleCode) {
+    return { language: LOCALES[locale].language, translated: locale !== DEFAULT_LOCALE };
+}
+
+export function createCapsulePrompts(extraction: any): { systemPrompt: string; userPrompt: string; version: string } {
+    const level = levelFor(extraction);
+    const example = exampleFor(level);
+
+    return promptManager.getPrompts('ai-prepare-capsule', {
+        ...localeVariables(localeOf(extraction)),
+        level,
+        schema: JSON.stringify(schemaFor(level), null, 2),
+        ...('capsule' in example ? { example: JSON.stringify(example.capsule, null, 2) } : {}),
+        evidence: JSON.stringify(extraction, null, 2)
+    });
+}
+
+export function createCapsuleUserMessage(extraction: any): string {
+    return createCapsulePrompts(extraction).userPrompt;
+}
+
+function createCapsuleRetryPrompts(locale: LocaleCode, level: DocLevel, previous: string, errors: string[]) {
+    return promptManager.getPrompts('ai-prepare-capsule-retry', {
+        ...localeVariables(locale),
+        level,
+        errors,
+        schema: JSON.stringify(schemaFor(level), null, 2),
+        previous
+    });
+}
+
+/**
+ * Parse and validate a model answer. Tolerates code fences and text around the JSON object.
+ */
+export function parseCapsuleResponse(text: string, level: DocLevel): { capsule?: Capsule; errors: string[] } {
+    const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        return { errors: ['response is not a JSON object'] };
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(unfenced.slice(start, end + 1));
+    } catch (error) {
+        return { errors: [`response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+
+    // Some models wrap the answer as the example does
+    const input = parsed && typeof parsed.capsule === 'object' && !parsed.level ? parsed.capsule : parsed;
+    if (input && typeof input === 'object' && input.level !== level) {
+        return { errors: [`level must be "${level}"`] };
+    }
+
+    // Links, canonical and lastUpdated are not the model's to set
+    const { capsule, errors } = validateCapsule({ ...input, links: [], canonical: false, lastUpdated: undefined });
+    return capsule ? { capsule, errors } : { errors };
+}
+
+function figmaLinks(ex: any): Link[] {
+    return ex.nodeId ? [{
+        label: 'Open in Figma',
+        url: 'https://www.figma.com/file/' + ex.fileKey + '?node-id=' + encodeURIComponent(ex.nodeId)
+    }] : [];
+}
+
+export function fallbackCapsule(ex: any): Capsule {
+    const today = new Date().toISOString().slice(0, 10);
+    const comps = (ex.componentInstances || []).map((c: any) => ({
+        ds: String(c.name || '').split('/').slice(-2).join('/'),
+        variant: c.variant
+    }));
+
+    // Generate more realistic content based on extracted data
+    const textSamples = ex.textSamples || [];
+    const frameNames = ex.frameNameHints || [];
+    const allText = [...textSamples, ...frameNames].join(' ').toLowerCase();
+
+    // Infer problem and approach from text content
+    let problem = 'User needs to complete a task efficiently';
+    let approach = ['Clear visual hierarchy', 'Intuitive user flow', 'Accessible design patterns'];
+    let outcome = 'Improved user task completion rate';
+
+    // Basic content inference based on common UI patterns
+    if (allText.includes('sign') || allText.includes('login') || allText.includes('auth')) {
+        problem = 'Users need to securely access their account';
+        approach = ['Simple credential entry', 'Clear error messaging', 'Secure authentication flow'];
+        outcome = 'Reduced login friction and improved security';
+    } else if (allText.includes('search') || allText.includes('find')) {
+        problem = 'Users need to quickly find relevant information';
+        approach = ['Prominent search interface', 'Smart filtering options', 'Clear result presentation'];
+        outcome = 'Faster information discovery';
+    } else if (allText.includes('cart') || allText.includes('buy') || allText.includes('purchase')) {
+        problem = 'Users want to complete purchases smoothly';
+        approach = ['Streamlined checkout flow', 'Clear pricing display', 'Trust indicators'];
+        outcome = 'Higher conversion rates';
+    } else if (allText.includes('profile') || allText.includes('settings') || allText.includes('account')) {
+        problem = 'Users need to manage their account preferences';
+        approach = ['Organized settings layout', 'Clear action buttons', 'Immediate feedback'];
+        outcome = 'Better user control and satisfaction';
+    } else if (textSamples.length > 0) {
+        // Generate content based on actual text found
+        problem = `Users need to interact with ${textSamples.slice(0, 3).join(', ')} functionality`;
+        approach = ['Clear information hierarchy', 'Intuitive interaction patterns', 'Responsive design elements'];
+    }
+
+    const base = {
+        title: ex.nodeName || ((ex.pageName || '') + ' • ' + (ex.scope || 'frame')),
+        product: undefined,
+        problem: problem,
+        outcome: outcome,
+        approach: approach,
+        components: comps,
+        links: figmaLinks(ex),
+        platforms: ex.platformHints || [],
+        humanNotes: '',
+        canonical: false,
+        lastUpdated: today,
+        locale: localeOf(ex)
+    };
+    const level = levelFor(ex);
+    if (level === 'section') return { level: 'section', keyStates: [], keyFrames: [], ...base };
+    if (level === 'page') return { level: 'page', containedFlowIds: [], ...base };
+    if (level === 'file') return { level: 'file', containedPageIds: [], ...base };
+    return { level: 'frame', state: 'unknown', ...base };
+}
+
+/**
+ * Ask the model for a capsule, retrying with the validation errors, and fall back to the
+ * heuristic capsule if every attempt fails.
+ */
+export async function generateCapsule(extraction: any, app: FastifyInstance): Promise<CapsuleGenerationResult> {
+    const llm = getLLM();
+    const level = levelFor(extraction);
+    const locale = localeOf(extraction);
+    let errors: string[] = [];
+    let previous = '';
+
+    for (let attempt = 1; attempt <= CAPSULE_SCHEMA_RETRIES + 1; attempt++) {
+        const isRetry = attempt > 1;
+
+        try {
+            const { systemPrompt, userPrompt, version } = isRetry
+                ? createCapsuleRetryPrompts(locale, level, previous, errors)
+                : createCapsulePrompts(extraction);
+            const result = await llm.complete({
+                system: systemPrompt,
+                user: userPrompt,
+                maxTokens: 1000,
+                temperature: 0.2,
+                label: isRetry ? 'ai-prepare-capsule-retry' : 'ai-prepare-capsule',
+                prompt: isRetry
+                    ? { id: 'ai-prepare-capsule-retry', variables: { level, previous, errors }, template: { id: 'ai-prepare-capsule-retry', version } }
+                    : { id: 'ai-prepare-capsule', variables: { extraction }, template: { id: 'ai-prepare-capsule', version } }
+            });
+
+            previous = result.text;
+            const parsed = parseCapsuleResponse(result.text, level);
+
+            app.log.info({ attempt, level, valid: !!parsed.capsule, errors: parsed.errors }, 'Capsule validation results');
+
+            if (parsed.capsule) {
+                return { capsule: { ...parsed.capsule, links: figmaLinks(extraction), locale }, isFallback: false, errors: [], attempts: attempt };
+            }
+            errors = parsed.errors;
+        } catch (err) {
+            if (err instanceof CassetteMissError) throw err;
+
+            app.log.error({ err, attempt, provider: llm.provider.id, model: llm.provider.model }, 'Capsule generation failed; using fallback');
+            return { capsule: fallbackCapsule(extraction), isFallback: true, errors: [err instanceof Error ? err.message : String(err)], attempts: attempt };
+        }
+    }
+
+    app.log.warn({ level, errors }, 'Capsule still invalid after retries; using fallback');
+    return { capsule: fallbackCapsule(extraction), isFallback: true, errors, attempts: CAPSULE_SCHEMA_RETRIES + 1 };
+}
@@ -0,0 +1,207 @@
+import { FastifyInstance } from 'fastify';
+import { CassetteMissError } from '../llm/cassette.js';
+import { getLLM } from '../llm/client.js';
+import { promptManager } from '../prompts/PromptManager.js';
+import { parseSections } from './prose.js';
+import { templateOf } from './templates.js';
+
+/**
+ * Evidence traceability for generated prose: which extraction items (text layers, component
+ * instances, prototype links) each section relies on, checked against the extraction payload so
+ * citations of layers that do not exist, or quotes that are not in the cited layer, are rejected.
+ */
+
+export type EvidenceType = 'text' | 'component' | 'prototypeLink';
+
+export const EVIDENCE_TYPES: EvidenceType[] = ['text', 'component', 'prototypeLink'];
+
+export interface EvidenceItem {
+    type: EvidenceType;
+    // Position in extraction.textSamples, componentInstances or prototypeLinks
+    index: number;
+    value: string;
+    // Figma layer to highlight, when the plugin sent one
+    nodeId?: string;
+}
+
+export interface RejectedEvidence {
+    type?: string;
+    index?: number;
+    quote?: string;
+    reason: string;
+}
+
+export interface SectionEvidence {
+    heading: string;
+    items: EvidenceItem[];
+    rejected: RejectedEvidence[];
+}
+
+export interface EvidenceTrace {
+    // 'model' when the model cited the evidence, 'matched' when it was found by text matching
+    source: 'model' | 'matched';
+    sections: SectionEvidence[];
+    verified: number;
+    rejected: number;
+}
+
+// Lower-cased, curly quotes straightened and whitespace collapsed, for containment checks
+export function normaliseEvidenceText(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Every item in the extraction that a section can cite, with its layer id.
+ */
+export function evidenceCatalogue(extraction: any): EvidenceItem[] {
+    const texts: string[] = extraction.textSamples || [];
+    const textNodeIds: string[] = extraction.textNodeIds || [];
+    const components: { name: string; variant?: string; nodeId?: string }[] = extraction.componentInstances || [];
+    const links: { from: string; to: string }[] = extraction.prototypeLinks || [];
+
+    return [
+        ...texts.map((value, index) => ({ type: 'text' as const, index, value, nodeId: textNodeIds[index] })),
+        ...components.map((component, index) => ({
+            type: 'component' as const,
+            index,
+            value: component.variant ? `${component.name} (${component.variant})` : component.name,
+            nodeId: component.nodeId
+        })),
+        ...links.map((link, index) => ({ type: 'prototypeLink' as const, index, value: `${link.from} → ${link.to}`, nodeId: link.from }))
+    ];
+}
+
+const TYPE_TAGS: Record<EvidenceType, string> = { text: 'T', component: 'C', prototypeLink: 'P' };
+
+// One line per item, e.g. `T3: "Add money"`, for the evidence prompt
+function formatCatalogue(items: EvidenceItem[]): string {
+    return items.map(item => `${TYPE_TAGS[item.type]}${item.index}: ${JSON.stringify(item.value)}`).join('\n') || '(no evidence)';
+}
+
+/**
+ * Check the model's citations against the extraction. A citation is kept when its item exists and,
+ * if it quotes the item, the quote appears in the item's value.
+ */
+export function verifyEvidence(raw: any, extraction: any): SectionEvidence[] {
+    const headings = templateOf(extraction).sections;
+    const catalogue = evidenceCatalogue(extraction);
+    const byKey = new Map<string, EvidenceItem>(catalogue.map(item => [`${item.type}:${item.index}`, item]));
+    const citations: any[] = Array.isArray(raw?.citations) ? raw.citations : [];
+
+    return headings.map(heading => {
+        const items: EvidenceItem[] = [];
+        const rejected: RejectedEvidence[] = [];
+
+        for (const citation of citations) {
+            if (!citation || citation.section !== heading) continue;
+
+            const quote = typeof citation.quote === 'string' && citation.quote.trim() ? citation.quote.trim() : undefined;
+            if (!EVIDENCE_TYPES.includes(citation.type) || !Number.isInteger(citation.index)) {
+                rejected.push({ type: citation.type, index: citation.index, quote, reason: 'not a valid evidence reference' });
+                continue;
+            }
+
+            const item = byKey.get(`${citation.type}:${citation.index}`);
+            if (!item) {
+                rejected.push({ type: citation.type, index: citation.index, quote, reason: 'no such item in the extraction' });
+                continue;
+            }
+            if (quote && !normaliseEvidenceText(item.value).includes(normaliseEvidenceText(quote))) {
+                rejected.push({ type: citation.type, index: citation.index, quote, reason: 'quote does not appear in the cited item' });
+                continue;
+            }
+            if (!items.includes(item)) items.push(item);
+        }
+
+        return { heading, items, rejected };
+    });
+}
+
+/**
+ * Evidence found by matching section text against the extraction, used when the model's
+ * citations are unavailable. Text layers match when the section contains them, or quotes part of
+ * them; components match on their full name or last path segment.
+ */
+export function matchEvidence(sections: Partial<Record<string, string>>, extraction: any): SectionEvidence[] {
+    const catalogue = evidenceCatalogue(extraction);
+
+    return templateOf(extraction).sections.map(heading => {
+        const content = normaliseEvidenceText(sections[heading] ?? '');
+        const quotes = [...(sections[heading] ?? '').matchAll(/["“]([^"”]+)["”]/g)].map(match => normaliseEvidenceText(match[1]));
+
+        const items = content ? catalogue.filter(item => {
+            const value = normaliseEvidenceText(item.value);
+            if (item.type === 'text') {
+                return (value.length >= 3 && content.includes(value)) || quotes.some(quote => quote.length >= 3 && value.includes(quote));
+            }
+            if (item.type === 'component') {
+                const name = normaliseEvidenceText(value.replace(/\s*\(.*\)$/, ''));
+                const leaf = name.split('/').pop() ?? name;
+                return content.includes(name) || (leaf.length >= 4 && content.includes(leaf));
+            }
+            return false;
+        }) : [];
+
+        return { heading, items, rejected: [] };
+    });
+}
+
+function summarise(source: EvidenceTrace['source'], sections: SectionEvidence[]): EvidenceTrace {
+    return {
+        source,
+        sections,
+        verified: sections.reduce((sum, section) => sum + section.items.length, 0),
+        rejected: sections.reduce((sum, section) => sum + section.rejected.length, 0)
+    };
+}
+
+/**
+ * Evidence for prose that was not written by the model (e.g. fallback prose), found by text matching.
+ */
+export function matchedEvidenceTrace(documentation: string, extraction: any): EvidenceTrace {
+    const headings = templateOf(extraction).sections;
+    return summarise('matched', matchEvidence(parseSections(documentation, headings).sections, extraction));
+}
+
+function createEvidencePrompts(documentation: string, extraction: any) {
+    return promptManager.getPrompts('ai-prepare-evidence', {
+        headings: [...templateOf(extraction).sections],
+        evidence: formatCatalogue(evidenceCatalogue(extraction)),
+        documentation
+    });
+}
+
+/**
+ * Ask the model which evidence each section relies on and verify its answer. Falls back to
+ * text matching if the call fails or the answer is not JSON.
+ */
+export async function traceEvidence(documentation: string, extraction: any, app: FastifyInstance): Promise<EvidenceTrace> {
+    try {
+        const { systemPrompt, userPrompt, version } = createEvidencePrompts(documentation, extraction);
+        const result = await getLLM().complete({
+            system: systemPrompt,
+            user: userPrompt,
+            maxTokens: 1200,
+            temperature: 0,
+            label: 'ai-prepare-evidence',
+            prompt: { id: 'ai-prepare-evidence', variables: { documentation, extraction }, template: { id: 'ai-prepare-evidence', version } }
+        });
+
+        const json = result.text.replace(/```(?:json)?/gi, '');
+        const parsed = JSON.parse(json.slice(json.indexOf('{'), json.lastIndexOf('}') + 1));
+        const trace = summarise('model', verifyEvidence(parsed, extraction));
+
+        app.log.info({ verified: trace.verified, rejected: trace.rejected }, 'Evidence citations verified');
+        return trace;
+    } catch (err) {
+        if (err instanceof CassetteMissError) throw err;
+
+        app.log.warn({ err: err instanceof Error ? err.message : err }, 'Evidence tracing failed; matching evidence from text');
+        return matchedEvidenceTrace(documentation, extraction);
+    }
+}
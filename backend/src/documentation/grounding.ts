@@ -0,0 +1,85 @@
+import { normaliseEvidenceText } from './evidence.js';
+import { parseComponents, parseSections } from './prose.js';
+import { templateOf } from './templates.js';
+
+/**
+ * Grounding check for generated prose: every quoted string and every component name it mentions
+ * must appear in the extraction it was written from. Anything else is an ungrounded claim.
+ */
+
+export interface GroundingClaim {
+    kind: 'quote' | 'component';
+    text: string;
+    section?: string;
+    grounded: boolean;
+}
+
+export interface GroundingResult {
+    // Share of claims that are grounded, 0–1; 1 when the prose makes no checkable claims
+    score: number;
+    claims: GroundingClaim[];
+    ungrounded: string[];
+}
+
+// Design-system style paths outside the components section, e.g. "Button/Primary" or "Forms/Input/Password".
+// Segments must be capitalised so phrases like "and/or" are not taken for components.
+const COMPONENT_PATH = /\b[A-Z][\w-]*(?:\/[A-Z][\w-]*)+\b/g;
+
+function componentMatches(claim: string, names: string[]): boolean {
+    const target = normaliseEvidenceText(claim).replace(/\s*\/\s*/g, '/');
+    // Names are often shortened to their last segments, as the fallback capsule does
+    return names.some(name => name === target || name.endsWith(`/${target}`));
+}
+
+/**
+ * Extract the quotes and component names from prose and check each against the extraction.
+ */
+export function checkGrounding(text: string, extraction: any): GroundingResult {
+    const template = templateOf(extraction);
+    const { sections } = parseSections(text, template.sections);
+    const textEvidence: string[] = [
+        ...(extraction.textSamples || []),
+        ...(extraction.componentInstances || []).map((component: any) => component.name),
+        // Flows, pages and files are described by their frame, page and file names
+        ...(extraction.frameNameHints || []),
+        ...[extraction.nodeName, extraction.pageName, extraction.fileName].filter(Boolean)
+    ].map((value: string) => normaliseEvidenceText(String(value)));
+    const componentNames: string[] = (extraction.componentInstances || [])
+        .map((component: any) => normaliseEvidenceText(String(component.name)).replace(/\s*\/\s*/g, '/'));
+
+    const claims: GroundingClaim[] = [];
+    const seen = new Set<string>();
+    const add = (claim: GroundingClaim) => {
+        const key = `${claim.kind}:${normaliseEvidenceText(claim.text)}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        claims.push(claim);
+    };
+
+    // Prose without recognisable sections is still checked as a whole
+    const bodies: [string | undefined, string][] = Object.keys(sections).length > 0
+        ? template.sections.filter(heading => sections[heading]).map(heading => [heading, sections[heading]!])
+        : [[undefined, text]];
+
+    for (const [section, body] of bodies) {
+        for (const match of body.matchAll(/["“]([^"”\n]+)["”]/g)) {
+            const quote = normaliseEvidenceText(match[1]).replace(/[.,;:!?]+$/, '');
+            if (quote.length < 2) continue;
+            add({ kind: 'quote', text: match[1].trim(), section, grounded: textEvidence.some(value => value.includes(quote)) });
+        }
+
+        const componentClaims = section === template.componentsSection
+            ? parseComponents(body).map(component => component.ds)
+            : [...body.replace(/["“][^"”\n]+["”]/g, '').matchAll(COMPONENT_PATH)].map(match => match[0]);
+        for (const name of componentClaims) {
+            add({ kind: 'component', text: name, section, grounded: componentMatches(name, componentNames) });
+        }
+    }
+
+    const groundedCount = claims.filter(claim => claim.grounded).length;
+    return {
+        score: claims.length > 0 ? Math.round((groundedCount / claims.length) * 100) / 100 : 1,
+        claims,
+        ungrounded: claims.filter(claim => !claim.grounded).map(claim => claim.text)
+    };
+}
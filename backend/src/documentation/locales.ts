@@ -0,0 +1,177 @@
+/**
+ * Output locales for generated documentation. Each locale names its language for the prompts and
+ * translates the level template headings, so translated prose is still parsed and validated by heading.
+ * Data only: imported by the capsule, documentation and search modules alike.
+ */
+
+export const DEFAULT_LOCALE = 'en-GB';
+
+export type LocaleCode = 'en-GB' | 'en-US' | 'de-DE' | 'fr-FR' | 'es-ES' | 'pt-BR';
+
+export interface LocaleDefinition {
+    code: LocaleCode;
+    // How the prompts name the language ("Write clear, concise {{language}} documentation")
+    language: string;
+    // Written where the evidence does not support an answer, in place of "Unknown"
+    unknown: string;
+    // Template headings keyed by their English form; English locales have none
+    headings: Record<string, string>;
+}
+
+export const LOCALES: Record<LocaleCode, LocaleDefinition> = {
+    'en-GB': { code: 'en-GB', language: 'UK-English', unknown: 'Unknown', headings: {} },
+    'en-US': { code: 'en-US', language: 'US-English', unknown: 'Unknown', headings: {} },
+    'de-DE': {
+        code: 'de-DE',
+        language: 'German',
+        unknown: 'Unbekannt',
+        headings: {
+            'Screen Name': 'Bildschirmname',
+            'Product / Project Context': 'Produkt- / Projektkontext',
+            'Problem Being Addressed (Why this screen exists)': 'Adressiertes Problem (Warum es diesen Bildschirm gibt)',
+            'User Scenario (What the user is trying to do here)': 'Nutzungsszenario (Was die Person hier erreichen möchte)',
+            'Design Approach / Strategy': 'Gestaltungsansatz / Strategie',
+            'Intended Outcome': 'Angestrebtes Ergebnis',
+            'Key Components Used': 'Verwendete Schlüsselkomponenten',
+            'Human Notes': 'Anmerkungen des Teams',
+            'Flow Name': 'Name des Flows',
+            'Problem Being Addressed (Why this flow exists)': 'Adressiertes Problem (Warum es diesen Flow gibt)',
+            'Flow Steps': 'Schritte des Flows',
+            'Key States': 'Wichtige Zustände',
+            'Page Name': 'Seitenname',
+            'Purpose of This Page': 'Zweck dieser Seite',
+            'Flows on This Page': 'Flows auf dieser Seite',
+            'Shared Patterns': 'Gemeinsame Muster',
+            'Product Name': 'Produktname',
+            'Product Overview': 'Produktüberblick',
+            'Target Users': 'Zielgruppe',
+            'Pages and Areas': 'Seiten und Bereiche',
+            'Design System Usage': 'Nutzung des Designsystems'
+        }
+    },
+    'fr-FR': {
+        code: 'fr-FR',
+        language: 'French',
+        unknown: 'Inconnu',
+        headings: {
+            'Screen Name': "Nom de l'écran",
+            'Product / Project Context': 'Contexte produit / projet',
+            'Problem Being Addressed (Why this screen exists)': 'Problème traité (Pourquoi cet écran existe)',
+            'User Scenario (What the user is trying to do here)': "Scénario utilisateur (Ce que l'utilisateur cherche à faire ici)",
+            'Design Approach / Strategy': 'Approche de conception / Stratégie',
+            'Intended Outcome': 'Résultat attendu',
+            'Key Components Used': 'Composants clés utilisés',
+            'Human Notes': "Notes de l'équipe",
+            'Flow Name': 'Nom du parcours',
+            'Problem Being Addressed (Why this flow exists)': 'Problème traité (Pourquoi ce parcours existe)',
+            'Flow Steps': 'Étapes du parcours',
+            'Key States': 'États clés',
+            'Page Name': 'Nom de la page',
+            'Purpose of This Page': 'Objectif de cette page',
+            'Flows on This Page': 'Parcours de cette page',
+            'Shared Patterns': 'Motifs communs',
+            'Product Name': 'Nom du produit',
+            'Product Overview': 'Présentation du produit',
+            'Target Users': 'Utilisateurs cibles',
+            'Pages and Areas': 'Pages et zones',
+            'Design System Usage': 'Utilisation du design system'
+        }
+    },
+    'es-ES': {
+        code: 'es-ES',
+        language: 'Spanish',
+        unknown: 'Desconocido',
+        headings: {
+            'Screen Name': 'Nombre de la pantalla',
+            'Product / Project Context': 'Contexto de producto / proyecto',
+            'Problem Being Addressed (Why this screen exists)': 'Problema que se aborda (Por qué existe esta pantalla)',
+            'User Scenario (What the user is trying to do here)': 'Escenario del usuario (Qué intenta hacer el usuario aquí)',
+            'Design Approach / Strategy': 'Enfoque de diseño / Estrategia',
+            'Intended Outcome': 'Resultado esperado',
+            'Key Components Used': 'Componentes clave utilizados',
+            'Human Notes': 'Notas del equipo',
+            'Flow Name': 'Nombre del flujo',
+            'Problem Being Addressed (Why this flow exists)': 'Problema que se aborda (Por qué existe este flujo)',
+            'Flow Steps': 'Pasos del flujo',
+            'Key States': 'Estados clave',
+            'Page Name': 'Nombre de la página',
+            'Purpose of This Page': 'Propósito de esta página',
+            'Flows on This Page': 'Flujos de esta página',
+            'Shared Patterns': 'Patrones compartidos',
+            'Product Name': 'Nombre del producto',
+            'Product Overview': 'Descripción general del producto',
+            'Target Users': 'Usuarios objetivo',
+            'Pages and Areas': 'Páginas y áreas',
+            'Design System Usage': 'Uso del sistema de diseño'
+        }
+    },
+    'pt-BR': {
+        code: 'pt-BR',
+        language: 'Brazilian Portuguese',
+        unknown: 'Desconhecido',
+        headings: {
+            'Screen Name': 'Nome da tela',
+            'Product / Project Context': 'Contexto do produto / projeto',
+            'Problem Being Addressed (Why this screen exists)': 'Problema abordado (Por que esta tela existe)',
+            'User Scenario (What the user is trying to do here)': 'Cenário do usuário (O que o usuário está tentando fazer aqui)',
+            'Design Approach / Strategy': 'Abordagem de design / Estratégia',
+            'Intended Outcome': 'Resultado esperado',
+            'Key Components Used': 'Principais componentes utilizados',
+            'Human Notes': 'Notas da equipe',
+            'Flow Name': 'Nome do fluxo',
+            'Problem Being Addressed (Why this flow exists)': 'Problema abordado (Por que este fluxo existe)',
+            'Flow Steps': 'Etapas do fluxo',
+            'Key States': 'Estados principais',
+            'Page Name': 'Nome da página',
+            'Purpose of This Page': 'Objetivo desta página',
+            'Flows on This Page': 'Fluxos desta página',
+            'Shared Patterns': 'Padrões compartilhados',
+            'Product Name': 'Nome do produto',
+            'Product Overview': 'Visão geral do produto',
+            'Target Users': 'Usuários-alvo',
+            'Pages and Areas': 'Páginas e áreas',
+            'Design System Usage': 'Uso do design system'
+        }
+    }
+};
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as LocaleCode[];
+
+/**
+ * The supported locale a value names, if any. Case and separator are forgiven ("de_de"), and a bare
+ * language ("de") picks that language's first locale.
+ */
+export function parseLocale(value: unknown): LocaleCode | undefined {
+    if (typeof value !== 'string') return undefined;
+    const wanted = value.trim().replace('_', '-').toLowerCase();
+    if (!wanted) return undefined;
+    return SUPPORTED_LOCALES.find(code => code.toLowerCase() === wanted)
+        ?? SUPPORTED_LOCALES.find(code => code.toLowerCase().split('-')[0] === wanted);
+}
+
+// The locale an extraction is documented in; /ai/prepare sets `extraction.locale` from its request
+export function localeOf(extraction: any): LocaleCode {
+    return parseLocale(extraction?.locale) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * The extraction to document in `locale`. The default locale is left off, so default requests
+ * (and the cassettes recorded for them) are unchanged.
+ */
+export function withLocale(extraction: any, locale: LocaleCode): any {
+    if (locale === DEFAULT_LOCALE) {
+        const { locale: _locale, ...rest } = extraction;
+        return rest;
+    }
+    return { ...extraction, locale };
+}
+
+export function localiseHeading(heading: string, locale: LocaleCode): string {
+    return LOCALES[locale].headings[heading] ?? heading;
+}
+
+// "Unknown" in any supported locale
+export function isUnknown(text: string): boolean {
+    const lower = text.trim().toLowerCase();
+    return SUPPORTED_LOCALES.some(code => LOCALES[code].unknown.toLowerCase() === lower);
+}
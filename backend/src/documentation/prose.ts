@@ -0,0 +1,167 @@
+import { Capsule, ComponentUse, DocLevel } from '../docs/capsule.js';
+import { isUnknown } from './locales.js';
+
+/**
+ * The eight-section prose documentation format produced by /ai/prepare.
+ * Shared by generation, validation and export so the headings are defined once.
+ */
+
+export const PROSE_SECTIONS = [
+    'Screen Name',
+    'Product / Project Context',
+    'Problem Being Addressed (Why this screen exists)',
+    'User Scenario (What the user is trying to do here)',
+    'Design Approach / Strategy',
+    'Intended Outcome',
+    'Key Components Used',
+    'Human Notes'
+] as const;
+
+export type ProseSection = typeof PROSE_SECTIONS[number];
+
+export type ProseSections = Record<ProseSection, string>;
+
+/**
+ * Render sections as plain prose: each heading on its own line, followed by its content and a blank line.
+ */
+export function renderSections(headings: readonly string[], sections: Partial<Record<string, string>>): string {
+    return headings
+        .map(heading => `${heading}\n${(sections[heading] ?? '').trim()}\n`)
+        .join('\n');
+}
+
+export function renderProse(sections: Partial<ProseSections>): string {
+    return renderSections(PROSE_SECTIONS, sections);
+}
+
+export function formatComponents(components: ComponentUse[]): string {
+    return components.length > 0
+        ? components.map(c => (c.variant ? `${c.ds} (${c.variant})` : c.ds)).join('; ')
+        : 'Unknown';
+}
+
+/**
+ * Express a stored capsule in the eight-section format. Capsules have no user scenario, so it is "Unknown".
+ */
+export function capsuleToProseSections(capsule: Capsule): ProseSections {
+    return {
+        'Screen Name': capsule.title,
+        'Product / Project Context': capsule.product || 'Unknown',
+        'Problem Being Addressed (Why this screen exists)': capsule.problem,
+        'User Scenario (What the user is trying to do here)': 'Unknown',
+        'Design Approach / Strategy': capsule.approach.length > 0 ? capsule.approach.join('; ') : 'Unknown',
+        'Intended Outcome': capsule.outcome || 'Unknown',
+        'Key Components Used': formatComponents(capsule.components),
+        'Human Notes': capsule.humanNotes ?? ''
+    };
+}
+
+export interface ParsedSections<H extends string = string> {
+    sections: Partial<Record<H, string>>;
+    missing: H[];
+}
+
+export type ParsedProse = ParsedSections<ProseSection>;
+
+// Accept headings as the model writes them and as people edit them: "3) Problem…", "## Problem…", "**Problem…**:"
+function normaliseHeadingLine(line: string): string {
+    return line
+        .trim()
+        .replace(/^#+\s*/, '')
+        .replace(/^\d+[).]\s*/, '')
+        .replace(/:$/, '')
+        .replace(/^\*\*(.*)\*\*$/, '$1')
+        .replace(/:$/, '')
+        .trim()
+        .toLowerCase();
+}
+
+/**
+ * The heading a line stands for, if any. A line counts as a heading when, once numbering,
+ * Markdown markers and a trailing colon are removed, it equals a section heading or its short form
+ * before the bracket (e.g. "Problem Being Addressed").
+ */
+export function headingMatcher<H extends string>(headings: readonly H[]): (line: string) => H | undefined {
+    const headingFor = new Map<string, H>();
+    for (const heading of headings) {
+        headingFor.set(heading.toLowerCase(), heading);
+        headingFor.set(heading.replace(/\s*\(.*\)$/, '').toLowerCase(), heading);
+    }
+    return line => headingFor.get(normaliseHeadingLine(line));
+}
+
+/**
+ * Split prose back into the given sections, using headingMatcher to recognise heading lines.
+ */
+export function parseSections<H extends string>(text: string, headings: readonly H[]): ParsedSections<H> {
+    const headingOf = headingMatcher(headings);
+    const sections: Partial<Record<H, string>> = {};
+    let current: H | null = null;
+    let buffer: string[] = [];
+
+    const flush = () => {
+        if (current && sections[current] === undefined) {
+            sections[current] = buffer.join('\n').trim();
+        }
+        buffer = [];
+    };
+
+    for (const line of text.split(/\r?\n/)) {
+        const heading = headingOf(line);
+        if (heading) {
+            flush();
+            current = heading;
+        } else if (current) {
+            buffer.push(line);
+        }
+    }
+    flush();
+
+    return {
+        sections,
+        missing: headings.filter(heading => sections[heading] === undefined)
+    };
+}
+
+// The eight frame sections
+export function parseProse(text: string): ParsedProse {
+    return parseSections(text, PROSE_SECTIONS);
+}
+
+function known(value: string | undefined): string | undefined {
+    const text = value?.trim();
+    return text && !isUnknown(text) ? text : undefined;
+}
+
+export function parseComponents(text: string | undefined): ComponentUse[] {
+    const list = known(text);
+    if (!list) return [];
+    return list
+        .split(/[;\n]/)
+        .map(item => item.trim().replace(/^[-•*]\s*/, ''))
+        .filter(item => item.length > 0)
+        .map(item => {
+            const match = item.match(/^(.*?)\s*\((.+)\)$/);
+            return match ? { ds: match[1], variant: match[2] } : { ds: item };
+        });
+}
+
+/**
+ * Capsule input (for validateCapsule) built from prose, used when prose is saved for a node with no capsule yet.
+ */
+export function proseToCapsuleInput(sections: Partial<ProseSections>, level: DocLevel): Record<string, any> {
+    const approach = known(sections['Design Approach / Strategy']);
+    return {
+        level,
+        title: known(sections['Screen Name']) ?? 'Untitled screen',
+        product: known(sections['Product / Project Context']),
+        problem: sections['Problem Being Addressed (Why this screen exists)']?.trim() || 'Unknown',
+        outcome: known(sections['Intended Outcome']),
+        approach: approach ? [approach] : [],
+        components: parseComponents(sections['Key Components Used']),
+        links: [],
+        platforms: [],
+        humanNotes: known(sections['Human Notes']),
+        ...(level === 'frame' ? { state: 'unknown' } : {})
+    };
+}
@@ -0,0 +1,278 @@
+import { DocLevel } from '../docs/capsule.js';
+import { promptManager } from '../prompts/PromptManager.js';
+import { normaliseEvidenceText } from './evidence.js';
+import { LOCALES, isUnknown } from './locales.js';
+import { DocumentationTemplate, parseTemplateSections, renderTemplateSections, templateFor } from './templates.js';
+
+/**
+ * Diff-aware re-documentation for POST /ai/prepare/regenerate. The evidence a document was written
+ * from is compared with a new extraction, only the sections the changes touch are rewritten, and
+ * Human Notes, hand-edited and locked sections are kept as they are. The result is a section-level
+ * diff the designer accepts or rejects section by section.
+ */
+
+// The parts of an extraction that documentation is written from, as stored with saved prose
+export interface EvidenceSnapshot {
+    nodeName: string | null;
+    textSamples: string[];
+    components: string[];
+    frames: string[];
+}
+
+export interface ListChange {
+    added: string[];
+    removed: string[];
+}
+
+export interface EvidenceChanges {
+    // False when there is no previous evidence to compare with, so every generated section is rewritten
+    known: boolean;
+    changed: boolean;
+    renamed: { from: string | null; to: string | null } | null;
+    text: ListChange;
+    components: ListChange;
+    frames: ListChange;
+}
+
+export type SectionStatus = 'unchanged' | 'regenerated' | 'preserved';
+
+export interface SectionDiff {
+    // English heading, as sections are keyed everywhere else
+    key: string;
+    // Heading as written in the document's locale
+    heading: string;
+    status: SectionStatus;
+    // Why the section was rewritten or kept
+    reasons: string[];
+    previous: string;
+    proposed: string;
+}
+
+export interface RegenerationSource {
+    // The document as it is now, including any edits
+    documentation: string;
+    // The document as it was generated; sections that differ from it were edited by hand
+    generatedDocumentation?: string | null;
+    // Headings (English or translated) the designer does not want rewritten
+    locked?: string[];
+}
+
+export interface RegenerationPlan {
+    template: DocumentationTemplate;
+    // The current document's sections, and the sections as generated when known, keyed by English heading
+    previous: Partial<Record<string, string>>;
+    generated: Partial<Record<string, string>> | null;
+    // Sections to rewrite and sections kept despite the changes, with the reasons
+    affected: Record<string, string[]>;
+    preserved: Record<string, string[]>;
+}
+
+// The section listing frames, which changes whenever frames are added, removed or renamed
+const INVENTORY_SECTIONS: Partial<Record<DocLevel, string>> = {
+    section: 'Flow Steps',
+    page: 'Flows on This Page',
+    file: 'Pages and Areas'
+};
+
+const HUMAN_NOTES = 'Human Notes';
+
+function unique(values: unknown[]): string[] {
+    return [...new Set(values.filter((value): value is string => typeof value === 'string' && value.trim().length > 0).map(value => value.trim()))];
+}
+
+export function evidenceSnapshot(extraction: any): EvidenceSnapshot {
+    return {
+        nodeName: typeof extraction?.nodeName === 'string' ? extraction.nodeName : null,
+        textSamples: unique(extraction?.textSamples || []),
+        components: unique((extraction?.componentInstances || []).map((component: any) => component?.name)),
+        frames: unique(extraction?.frameNameHints || [])
+    };
+}
+
+function listChange(previous: string[], next: string[]): ListChange {
+    const before = new Set(previous.map(normaliseEvidenceText));
+    const after = new Set(next.map(normaliseEvidenceText));
+    return {
+        added: next.filter(value => !before.has(normaliseEvidenceText(value))),
+        removed: previous.filter(value => !after.has(normaliseEvidenceText(value)))
+    };
+}
+
+/**
+ * What changed between the evidence a document was written from and a new extraction.
+ * Text, components and frames are compared case- and whitespace-insensitively.
+ */
+export function diffEvidence(previous: EvidenceSnapshot | null | undefined, extraction: any): EvidenceChanges {
+    const next = evidenceSnapshot(extraction);
+    if (!previous) {
+        const none = { added: [], removed: [] };
+        return { known: false, changed: true, renamed: null, text: none, components: none, frames: none };
+    }
+
+    const text = listChange(previous.textSamples || [], next.textSamples);
+    const components = listChange(previous.components || [], next.components);
+    const frames = listChange(previous.frames || [], next.frames);
+    const renamed = (previous.nodeName ?? null) !== next.nodeName ? { from: previous.nodeName ?? null, to: next.nodeName } : null;
+    const changed = !!renamed || [text, components, frames].some(change => change.added.length > 0 || change.removed.length > 0);
+
+    return { known: true, changed, renamed, text, components, frames };
+}
+
+// Whether a section still refers to a component, by its full name or a shortened path ("Button/Primary")
+function mentionsComponent(content: string, name: string): boolean {
+    const segments = normaliseEvidenceText(name).split(/\s*\/\s*/);
+    const body = normaliseEvidenceText(content).replace(/\s*\/\s*/g, '/');
+    return segments.some((_, index) => {
+        const suffix = segments.slice(index).join('/');
+        return (index === 0 || segments.length - index >= 2) && body.includes(suffix);
+    });
+}
+
+function mentions(content: string, value: string): boolean {
+    const target = normaliseEvidenceText(value);
+    return target.length >= 2 && normaliseEvidenceText(content).includes(target);
+}
+
+// Match a locked heading given in English or in the document's locale
+function lockedKeys(template: DocumentationTemplate, locked: string[] = []): Set<string> {
+    const english = templateFor(template.level).sections;
+    const wanted = new Set(locked.map(heading => heading.trim().toLowerCase()));
+    return new Set(english.filter((key, index) => wanted.has(key.toLowerCase()) || wanted.has(template.sections[index].toLowerCase())));
+}
+
+/**
+ * Decide which sections of the current document the changes affect. A section is rewritten when it
+ * quotes removed text or names a removed component or frame, when it is the components or frame
+ * inventory section and those changed, when it is the name section and the node was renamed, and
+ * when it is empty or Unknown and there is new evidence. Human Notes, locked sections and sections
+ * edited since they were generated are never rewritten; they are reported as preserved, with the
+ * reasons they would otherwise have been rewritten.
+ */
+export function planRegeneration(template: DocumentationTemplate, source: RegenerationSource, changes: EvidenceChanges): RegenerationPlan {
+    const { sections: keys, componentsSection } = templateFor(template.level);
+    const { sections: previous } = parseTemplateSections(template, source.documentation);
+    const generated = source.generatedDocumentation ? parseTemplateSections(template, source.generatedDocumentation).sections : null;
+    const locked = lockedKeys(template, source.locked);
+    const inventory = INVENTORY_SECTIONS[template.level];
+    const hasNewEvidence = changes.text.added.length > 0 || changes.components.added.length > 0 || changes.frames.added.length > 0;
+
+    const affected: Record<string, string[]> = {};
+    const preserved: Record<string, string[]> = {};
+
+    for (const [index, key] of keys.entries()) {
+        const content = previous[key];
+        const reasons: string[] = [];
+
+        if (!changes.known) {
+            reasons.push('no previous evidence to compare with');
+        } else if (content === undefined) {
+            reasons.push('missing from the document');
+        } else {
+            reasons.push(...changes.text.removed.filter(value => mentions(content, value)).map(value => `quotes removed text "${value}"`));
+            reasons.push(...changes.components.removed.filter(name => mentionsComponent(content, name)).map(name => `names removed component ${name}`));
+            reasons.push(...changes.frames.removed.filter(name => mentions(content, name)).map(name => `names removed frame "${name}"`));
+            if (key === componentsSection && (changes.components.added.length > 0 || changes.components.removed.length > 0)) {
+                reasons.push('components changed');
+            }
+            if (key === inventory && (changes.frames.added.length > 0 || changes.frames.removed.length > 0)) {
+                reasons.push('frames changed');
+            }
+            if (index === 0 && changes.renamed) {
+                reasons.push(`renamed from "${changes.renamed.from ?? ''}" to "${changes.renamed.to ?? ''}"`);
+            }
+            if (hasNewEvidence && key !== HUMAN_NOTES && (!content.trim() || isUnknown(content))) {
+                reasons.push('new evidence for an unknown section');
+            }
+        }
+
+        const keep = key === HUMAN_NOTES ? 'written by the team'
+            : locked.has(key) ? 'locked'
+            : generated && content !== undefined && generated[key] !== undefined && generated[key]!.trim() !== content.trim() ? 'edited by hand'
+            : null;
+
+        if (keep) {
+            if (reasons.length > 0 || key === HUMAN_NOTES) preserved[key] = [keep, ...(changes.known ? reasons : [])];
+        } else if (reasons.length > 0) {
+            affected[key] = reasons;
+        }
+    }
+
+    return { template, previous, generated, affected, preserved };
+}
+
+// The changes as the regenerate prompt lists them; empty lists are left out
+function describeChanges(changes: EvidenceChanges): Record<string, any> {
+    const lists = Object.fromEntries((['text', 'components', 'frames'] as const)
+        .flatMap(name => (['added', 'removed'] as const)
+            .filter(kind => changes[name][kind].length > 0)
+            .map(kind => [`${name}${kind === 'added' ? 'Added' : 'Removed'}`, changes[name][kind]])));
+    return { ...(changes.renamed ? { renamed: changes.renamed } : {}), ...lists };
+}
+
+/**
+ * System prompt and user message asking the model to rewrite only the affected sections, from the
+ * current document, the changes and the new extraction.
+ */
+export function regenerationPrompts(plan: RegenerationPlan, changes: EvidenceChanges, extraction: any): { systemPrompt: string; userPrompt: string; version: string } {
+    const { template } = plan;
+    const locale = LOCALES[template.locale];
+    const english = templateFor(template.level).sections;
+    const headingOf = (key: string) => template.sections[english.indexOf(key)];
+    const { batchContext: _batchContext, locale: _locale, ...evidence } = extraction;
+
+    return promptManager.getPrompts('documentation-regenerate', {
+        language: locale.language,
+        unknown: locale.unknown,
+        sections: Object.entries(plan.affected).map(([key, reasons]) => `• ${headingOf(key)} (${reasons.join('; ')})`).join('\n'),
+        document: renderTemplateSections(template, plan.previous).trim(),
+        changes: JSON.stringify(changes.known ? describeChanges(changes) : { previousEvidence: 'unknown' }, null, 2),
+        evidence: JSON.stringify(evidence, null, 2)
+    });
+}
+
+// The affected sections in the model's answer, keyed by English heading; anything else it wrote is ignored
+export function parseRegeneratedSections(plan: RegenerationPlan, text: string): Partial<Record<string, string>> {
+    const { sections } = parseTemplateSections(plan.template, text);
+    return Object.fromEntries(Object.entries(sections).filter(([key, content]) => key in plan.affected && content));
+}
+
+/**
+ * Put the rewritten sections into the document and describe each section's fate. Affected sections
+ * the answer left out keep their current text and are reported as unchanged. `generatedDocumentation`
+ * is the new document as generated, without the kept edits, to be saved alongside it so those
+ * sections are still recognised as edited next time.
+ */
+export function mergeRegeneration(plan: RegenerationPlan, regenerated: Partial<Record<string, string>>):
+    { documentation: string; generatedDocumentation: string; sections: SectionDiff[] } {
+    const { template } = plan;
+    const english = templateFor(template.level).sections;
+    const merged: Partial<Record<string, string>> = {};
+    const generated: Partial<Record<string, string>> = {};
+
+    const sections = english.map((key, index): SectionDiff => {
+        const previous = (plan.previous[key] ?? '').trim();
+        const rewritten = regenerated[key]?.trim();
+        const heading = template.sections[index];
+        generated[key] = (plan.generated?.[key] ?? previous).trim();
+
+        if (plan.preserved[key]) {
+            merged[key] = previous;
+            return { key, heading, status: 'preserved', reasons: plan.preserved[key], previous, proposed: previous };
+        }
+        if (plan.affected[key] && rewritten !== undefined && rewritten !== previous) {
+            merged[key] = rewritten;
+            generated[key] = rewritten;
+            return { key, heading, status: 'regenerated', reasons: plan.affected[key], previous, proposed: rewritten };
+        }
+
+        merged[key] = previous;
+        const reasons = plan.affected[key] ? [...plan.affected[key], 'not rewritten'] : [];
+        return { key, heading, status: 'unchanged', reasons, previous, proposed: previous };
+    });
+
+    return {
+        documentation: renderTemplateSections(template, merged).trim(),
+        generatedDocumentation: renderTemplateSections(template, generated).trim(),
+        sections
+    };
+}
@@ -0,0 +1,46 @@
+import { headingMatcher } from './prose.js';
+
+/**
+ * Splits streamed prose into section events for /ai/prepare/stream. Text is buffered to whole
+ * lines, since a heading can arrive split across several deltas.
+ */
+
+export type SectionStreamEvent =
+    | { type: 'section'; heading: string; index: number }
+    // `heading` is null for text the model writes before the first heading
+    | { type: 'token'; heading: string | null; text: string };
+
+export class SectionStream {
+    private readonly headingOf: (line: string) => string | undefined;
+    private readonly headings: readonly string[];
+    private current: string | null = null;
+    private partial = '';
+
+    constructor(headings: readonly string[]) {
+        this.headings = headings;
+        this.headingOf = headingMatcher(headings);
+    }
+
+    // Events for every line the delta completes
+    push(delta: string): SectionStreamEvent[] {
+        const lines = (this.partial + delta).split(/\r?\n/);
+        this.partial = lines.pop() ?? '';
+        return lines.flatMap(line => this.line(line, true));
+    }
+
+    // Events for the last line, which has no trailing newline
+    end(): SectionStreamEvent[] {
+        const rest = this.partial;
+        this.partial = '';
+        return rest ? this.line(rest, false) : [];
+    }
+
+    private line(line: string, newline: boolean): SectionStreamEvent[] {
+        const heading = this.headingOf(line);
+        if (heading) {
+            this.current = heading;
+            return [{ type: 'section', heading, index: this.headings.indexOf(heading) }];
+        }
+        return [{ type: 'token', heading: this.current, text: newline ? `${line}\n` : line }];
+    }
+}
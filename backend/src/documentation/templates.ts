@@ -0,0 +1,418 @@
+import { DOC_LEVELS, DocLevel } from '../docs/capsule.js';
+import { promptManager } from '../prompts/PromptManager.js';
+import { PROSE_SECTIONS, ParsedSections, ProseSection, ProseSections, parseSections, renderSections } from './prose.js';
+import { DEFAULT_LOCALE, LOCALES, LocaleCode, isUnknown, localeOf, localiseHeading } from './locales.js';
+
+/**
+ * Level-specific prose templates for /ai/prepare. Each documentation level has its own headings,
+ * its own PromptManager prompt and its own validators, selected by `extraction.scope`.
+ * Templates are defined in English; other locales get the same template with translated headings.
+ */
+
+export type ProseValidator = (text: string, extraction: any) => boolean;
+
+export interface DocumentationTemplate {
+    level: DocLevel;
+    locale: LocaleCode;
+    // PromptManager id of the system prompt and user prompt template
+    promptId: string;
+    sections: readonly string[];
+    // Section listing design-system components, checked by the grounding validator
+    componentsSection: string;
+    // The stored ProseDocument section each heading is saved as, for headings that mean the same as
+    // a frame section; the others are kept under their own heading (see levelSections)
+    storedAs: Partial<Record<string, ProseSection>>;
+    validators: Record<string, ProseValidator>;
+}
+
+export function levelFor(extraction: any): DocLevel {
+    return DOC_LEVELS.includes(extraction?.scope) ? extraction.scope : 'frame';
+}
+
+// ===== VALIDATORS =====
+
+function validateHeadingsAndOrder(headings: readonly string[]): ProseValidator {
+    return text => {
+        let lastIndex = -1;
+        for (const heading of headings) {
+            const index = text.indexOf(heading);
+            if (index === -1 || index <= lastIndex) {
+                return false;
+            }
+            lastIndex = index;
+        }
+        return true;
+    };
+}
+
+function validateHasQuotedEvidence(text: string): boolean {
+    // Check for at least one quoted phrase "..."
+    const quotedPattern = /"[^"]+"/;
+    return quotedPattern.test(text);
+}
+
+function validateHumanNotesBlank(text: string): boolean {
+    const humanNotesMatch = text.match(/Human Notes\s*\n(.*?)(?:\n\n|\n$|$)/s);
+    if (!humanNotesMatch) return false;
+
+    const humanNotesContent = humanNotesMatch[1].trim();
+    return humanNotesContent === '';
+}
+
+function validateGroundedSections(text: string): boolean {
+    // Check sections 3, 4, 5 for quoted evidence or component references
+    const sections = [
+        'Problem Being Addressed',
+        'User Scenario',
+        'Design Approach / Strategy'
+    ];
+
+    for (const section of sections) {
+        const sectionMatch = text.match(new RegExp(`${section}[^\\n]*\\n([^\\n]+(?:\\n[^\\n]+)*?)(?=\\n\\n|\\n[A-Z]|$)`, 's'));
+        if (!sectionMatch) continue;
+
+        const sectionContent = sectionMatch[1];
+        const hasQuote = /"[^"]+"/.test(sectionContent);
+        const hasComponentRef = /\b[A-Za-z]+\/[A-Za-z]+(?:\/[A-Za-z]+)?\b/.test(sectionContent);
+        const hasLayoutRef = /\b(?:top-right|bottom bar|primary CTA|main|center|left|right)\b/i.test(sectionContent);
+
+        if (!hasQuote && !hasComponentRef && !hasLayoutRef) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function sectionOf(text: string, headings: readonly string[], heading: string): string {
+    return (parseSections(text, headings).sections[heading] ?? '').trim();
+}
+
+function listItems(content: string, marker: RegExp): string[] {
+    return content.split('\n').map(line => line.trim()).filter(line => marker.test(line));
+}
+
+/**
+ * Frame names in prototype order: breadth-first from the frames no link points to, following
+ * `prototypeLinks`. Frames without a known name are skipped.
+ */
+export function flowSteps(extraction: any): string[] {
+    const links: { from: string; to: string }[] = extraction.prototypeLinks || [];
+    const ids: string[] = extraction.frameNodeIds || [];
+    const names = new Map<string, string>(ids.map((id, index) => [id, extraction.frameNameHints?.[index]]));
+
+    const next = new Map<string, string[]>();
+    const targets = new Set<string>();
+    for (const link of links) {
+        next.set(link.from, [...(next.get(link.from) || []), link.to]);
+        targets.add(link.to);
+    }
+
+    const starts = [...new Set(links.map(link => link.from).filter(id => !targets.has(id)))];
+    const queue = starts.length > 0 ? starts : links.slice(0, 1).map(link => link.from);
+    const visited = new Set<string>();
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (visited.has(id)) continue;
+        visited.add(id);
+        queue.push(...(next.get(id) || []));
+    }
+
+    return [...visited].map(id => names.get(id)).filter((name): name is string => !!name);
+}
+
+const SECTION_HEADINGS = [
+    'Flow Name',
+    'Product / Project Context',
+    'Problem Being Addressed (Why this flow exists)',
+    'Flow Steps',
+    'Key States',
+    'Intended Outcome',
+    'Key Components Used',
+    'Human Notes'
+] as const;
+
+const PAGE_HEADINGS = [
+    'Page Name',
+    'Product / Project Context',
+    'Purpose of This Page',
+    'Flows on This Page',
+    'Shared Patterns',
+    'Key Components Used',
+    'Human Notes'
+] as const;
+
+const FILE_HEADINGS = [
+    'Product Name',
+    'Product Overview',
+    'Target Users',
+    'Pages and Areas',
+    'Design System Usage',
+    'Human Notes'
+] as const;
+
+// Flow steps are a numbered list; when prototype links give an order, the named steps follow it
+function validateFlowSteps(text: string, extraction: any): boolean {
+    const content = sectionOf(text, SECTION_HEADINGS, 'Flow Steps');
+    const steps = listItems(content, /^\d+[.)]\s+/);
+    if (steps.length === 0) return false;
+
+    const expected = flowSteps(extraction);
+    if (expected.length < 2) return true;
+
+    const lower = content.toLowerCase();
+    const positions = expected.map(name => lower.indexOf(name.toLowerCase())).filter(index => index !== -1);
+    const inOrder = positions.every((position, index) => index === 0 || position > positions[index - 1]);
+    return inOrder && positions.length * 2 >= expected.length;
+}
+
+function validateKeyStates(text: string): boolean {
+    return sectionOf(text, SECTION_HEADINGS, 'Key States').length > 0;
+}
+
+// The inventory is a bulleted list naming at least one of the page's frames or sections
+function validateFlowInventory(text: string, extraction: any): boolean {
+    const content = sectionOf(text, PAGE_HEADINGS, 'Flows on This Page');
+    const hints: string[] = extraction.frameNameHints || [];
+    if (hints.length === 0) return content.length > 0;
+
+    const lower = content.toLowerCase();
+    return listItems(content, /^[•\-*]\s*/).length > 0 && hints.some(hint => lower.includes(hint.toLowerCase()));
+}
+
+function validatePagesListed(text: string): boolean {
+    const content = sectionOf(text, FILE_HEADINGS, 'Pages and Areas');
+    return content.length > 0 && (isUnknown(content) || listItems(content, /^[•\-*]\s*/).length > 0);
+}
+
+// ===== TEMPLATES =====
+
+export const DOCUMENTATION_TEMPLATES: Record<DocLevel, DocumentationTemplate> = {
+    frame: {
+        level: 'frame',
+        locale: DEFAULT_LOCALE,
+        promptId: 'documentation-frame',
+        sections: PROSE_SECTIONS,
+        componentsSection: 'Key Components Used',
+        storedAs: Object.fromEntries(PROSE_SECTIONS.map(heading => [heading, heading])) as Record<string, ProseSection>,
+        validators: {
+            headingsAndOrder: validateHeadingsAndOrder(PROSE_SECTIONS),
+            hasQuotedEvidence: validateHasQuotedEvidence,
+            humanNotesBlank: validateHumanNotesBlank,
+            groundedSections: validateGroundedSections
+        }
+    },
+    section: {
+        level: 'section',
+        locale: DEFAULT_LOCALE,
+        promptId: 'documentation-section',
+        sections: SECTION_HEADINGS,
+        componentsSection: 'Key Components Used',
+        storedAs: {
+            'Flow Name': 'Screen Name',
+            'Product / Project Context': 'Product / Project Context',
+            'Problem Being Addressed (Why this flow exists)': 'Problem Being Addressed (Why this screen exists)',
+            'Intended Outcome': 'Intended Outcome',
+            'Key Components Used': 'Key Components Used',
+            'Human Notes': 'Human Notes'
+        },
+        validators: {
+            headingsAndOrder: validateHeadingsAndOrder(SECTION_HEADINGS),
+            humanNotesBlank: validateHumanNotesBlank,
+            flowStepsOrdered: validateFlowSteps,
+            keyStatesListed: validateKeyStates
+        }
+    },
+    page: {
+        level: 'page',
+        locale: DEFAULT_LOCALE,
+        promptId: 'documentation-page',
+        sections: PAGE_HEADINGS,
+        componentsSection: 'Key Components Used',
+        storedAs: {
+            'Page Name': 'Screen Name',
+            'Product / Project Context': 'Product / Project Context',
+            'Purpose of This Page': 'Problem Being Addressed (Why this screen exists)',
+            'Key Components Used': 'Key Components Used',
+            'Human Notes': 'Human Notes'
+        },
+        validators: {
+            headingsAndOrder: validateHeadingsAndOrder(PAGE_HEADINGS),
+            humanNotesBlank: validateHumanNotesBlank,
+            flowsInventoried: validateFlowInventory
+        }
+    },
+    file: {
+        level: 'file',
+        locale: DEFAULT_LOCALE,
+        promptId: 'documentation-file',
+        sections: FILE_HEADINGS,
+        componentsSection: 'Design System Usage',
+        storedAs: {
+            'Product Name': 'Screen Name',
+            'Product Overview': 'Product / Project Context',
+            'Design System Usage': 'Key Components Used',
+            'Human Notes': 'Human Notes'
+        },
+        validators: {
+            headingsAndOrder: validateHeadingsAndOrder(FILE_HEADINGS),
+            humanNotesBlank: validateHumanNotesBlank,
+            pagesListed: validatePagesListed
+        }
+    }
+};
+
+// Localised templates, built on first use
+const localisedTemplates = new Map<string, DocumentationTemplate>();
+
+/**
+ * A template with its headings translated. Sections are stored in the same ProseDocument columns,
+ * and the validators see the text with its headings put back into English, except the heading
+ * check, which needs the translated headings in order.
+ */
+function localiseTemplate(template: DocumentationTemplate, locale: LocaleCode): DocumentationTemplate {
+    const sections = template.sections.map(heading => localiseHeading(heading, locale));
+    const localised: DocumentationTemplate = {
+        ...template,
+        locale,
+        sections,
+        componentsSection: localiseHeading(template.componentsSection, locale),
+        storedAs: Object.fromEntries(template.sections
+            .map((heading, index) => [sections[index], template.storedAs[heading]])
+            .filter(([, stored]) => stored !== undefined))
+    };
+    const inEnglish = (text: string) => {
+        const parsed = parseTemplateSections(localised, text).sections;
+        return renderSections(template.sections.filter(heading => parsed[heading] !== undefined), parsed);
+    };
+
+    localised.validators = Object.fromEntries(Object.entries(template.validators).map(([name, validator]) => [
+        name,
+        name === 'headingsAndOrder'
+            ? validateHeadingsAndOrder(sections)
+            : (text: string, extraction: any) => validator(inEnglish(text), extraction)
+    ]));
+    return localised;
+}
+
+export function templateFor(level: DocLevel, locale: LocaleCode = DEFAULT_LOCALE): DocumentationTemplate {
+    const template = DOCUMENTATION_TEMPLATES[level] ?? DOCUMENTATION_TEMPLATES.frame;
+    if (Object.keys(LOCALES[locale].headings).length === 0) {
+        return locale === template.locale ? template : { ...template, locale };
+    }
+
+    const key = `${template.level}:${locale}`;
+    if (!localisedTemplates.has(key)) localisedTemplates.set(key, localiseTemplate(template, locale));
+    return localisedTemplates.get(key)!;
+}
+
+// The template for an extraction's level and locale
+export function templateOf(extraction: any): DocumentationTemplate {
+    return templateFor(levelFor(extraction), localeOf(extraction));
+}
+
+/**
+ * Parse text written under a template's (possibly translated) headings into sections keyed by the
+ * English headings, as the validators, fallback prose and translation work with them.
+ */
+export function parseTemplateSections(template: DocumentationTemplate, text: string): ParsedSections {
+    const english = templateFor(template.level).sections;
+    const parsed = parseSections(text, template.sections);
+    return {
+        sections: Object.fromEntries(template.sections
+            .map((heading, index) => [english[index], parsed.sections[heading]])
+            .filter(([, content]) => content !== undefined)),
+        missing: parsed.missing.map(heading => english[template.sections.indexOf(heading)])
+    };
+}
+
+// Render sections keyed by the English headings under the template's own headings
+export function renderTemplateSections(template: DocumentationTemplate, sections: Partial<Record<string, string>>): string {
+    const english = templateFor(template.level).sections;
+    return renderSections(template.sections, Object.fromEntries(english.map((heading, index) => [template.sections[index], sections[heading]])));
+}
+
+/**
+ * System prompt and user message for an extraction, from its level's PromptManager prompt.
+ * A batch's shared context (see documentation/batch.ts) is given separately from the evidence,
+ * and so is the output locale, which names the language and the translated headings.
+ */
+export function documentationPrompts(extraction: any): { systemPrompt: string; userPrompt: string; version: string } {
+    const template = templateOf(extraction);
+    const locale = LOCALES[template.locale];
+    const steps = flowSteps(extraction);
+    const { batchContext, locale: _locale, ...evidence } = extraction;
+    const translated = Object.keys(locale.headings).length > 0;
+
+    return promptManager.getPrompts(template.promptId, {
+        language: locale.language,
+        evidence: JSON.stringify(evidence, null, 2),
+        flowSteps: steps.length > 0 ? steps.map((name, index) => `${index + 1}. ${name}`).join('\n') : locale.unknown,
+        batchContext: batchContext
+            ? `\n\nBATCH_CONTEXT (the page and the other frames documented alongside this one; use it for Product / Project Context only and do not describe those frames):\n${JSON.stringify(batchContext, null, 2)}`
+            : '',
+        localeInstructions: translated
+            ? `\n\nOUTPUT_LANGUAGE: Write every section in ${locale.language} (${locale.code}). Use these headings, in this order, in place of the English ones:\n${template.sections.map((heading, index) => `${index + 1}) ${heading}`).join('\n')}\nWrite "${locale.unknown}" wherever the rules say "Unknown". Quote text layers and name components exactly as they appear in the evidence, without translating them.`
+            : ''
+    });
+}
+
+/**
+ * Prompts for the single retry of prose that failed its checks. When claims were not found in the
+ * extraction, the grounding retry names them and repeats the text layers and components to quote.
+ */
+export function documentationRetryPrompts(template: DocumentationTemplate, previous: string, ungrounded: string[], extraction: any): { id: string; systemPrompt: string; userPrompt: string; version: string } {
+    const locale = LOCALES[template.locale];
+    const variables = {
+        language: locale.language,
+        translated: template.locale !== DEFAULT_LOCALE,
+        headings: template.sections.join('; '),
+        humanNotes: localiseHeading('Human Notes', template.locale),
+        previous
+    };
+
+    if (ungrounded.length === 0) {
+        return { id: 'ai-prepare-retry', ...promptManager.getPrompts('ai-prepare-retry', variables) };
+    }
+    return {
+        id: 'ai-prepare-grounding-retry',
+        ...promptManager.getPrompts('ai-prepare-grounding-retry', {
+            ...variables,
+            unknown: locale.unknown,
+            ungrounded,
+            evidence: JSON.stringify({ textSamples: extraction?.textSamples || [], componentInstances: extraction?.componentInstances || [] }, null, 2)
+        })
+    };
+}
+
+export function runValidators(template: DocumentationTemplate, text: string, extraction: any): Record<string, boolean> {
+    return Object.fromEntries(
+        Object.entries(template.validators).map(([name, validator]) => [name, validator(text, extraction)])
+    );
+}
+
+/**
+ * Map a level's sections onto the eight stored ProseDocument sections. Headings with no frame
+ * counterpart, such as "Key States" or "Target Users", are left to levelSections.
+ */
+export function toStoredSections(template: DocumentationTemplate, sections: Partial<Record<string, string>>): Partial<ProseSections> {
+    const stored: Partial<ProseSections> = {};
+    for (const heading of template.sections) {
+        const content = sections[heading];
+        const column = template.storedAs[heading];
+        if (content !== undefined && column) stored[column] = content;
+    }
+    return stored;
+}
+
+/**
+ * The sections toStoredSections leaves out, keyed by their English heading, for ProseDocument.sections.
+ */
+export function levelSections(template: DocumentationTemplate, sections: Partial<Record<string, string>>): Record<string, string> {
+    const english = templateFor(template.level).sections;
+    const stored: Record<string, string> = {};
+    template.sections.forEach((heading, index) => {
+        const content = sections[heading];
+        if (content !== undefined && !template.storedAs[heading]) stored[english[index]] = content;
+    });
+    return stored;
+}
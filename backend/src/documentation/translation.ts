@@ -0,0 +1,137 @@
+import { DocLevel } from '../docs/capsule.js';
+import { getLLM } from '../llm/client.js';
+import { promptManager } from '../prompts/PromptManager.js';
+import { LOCALES, LocaleCode } from './locales.js';
+import { parseTemplateSections, renderTemplateSections, templateFor } from './templates.js';
+
+/**
+ * On-demand translation of a stored doc into another locale, for POST /docs/:id/translate.
+ * The model translates the capsule text and the prose sections; the prose is then rebuilt under the
+ * target locale's headings, so translated prose parses and validates like generated prose.
+ */
+
+export class TranslationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TranslationError';
+    }
+}
+
+// The fields of a stored doc that get translated
+export interface TranslatableDoc {
+    level: DocLevel;
+    locale: LocaleCode;
+    title: string;
+    problem: string;
+    outcome?: string | null;
+    approach: string[];
+    // Saved prose, under its own locale's headings
+    prose?: { raw: string; locale: LocaleCode } | null;
+}
+
+export interface TranslatedDoc {
+    title: string;
+    problem: string;
+    outcome?: string;
+    approach: string[];
+    prose?: string;
+}
+
+// Sections the model is not given: component names are never translated and Human Notes are left as people wrote them
+function untranslatedSections(level: DocLevel): string[] {
+    return [templateFor(level).componentsSection, 'Human Notes'];
+}
+
+/**
+ * The document the model is asked to translate: capsule fields plus the prose sections keyed by
+ * their English headings (whatever the source locale), so the answer can be mapped back by key.
+ */
+export function translationInput(doc: TranslatableDoc): { document: Record<string, any>; sections: Partial<Record<string, string>> } {
+    const sections = doc.prose ? parseTemplateSections(templateFor(doc.level, doc.prose.locale), doc.prose.raw).sections : {};
+    const skipped = untranslatedSections(doc.level);
+    const translatable = Object.fromEntries(Object.entries(sections).filter(([heading]) => !skipped.includes(heading)));
+
+    return {
+        document: {
+            title: doc.title,
+            problem: doc.problem,
+            ...(doc.outcome ? { outcome: doc.outcome } : {}),
+            approach: doc.approach,
+            ...(doc.prose ? { sections: translatable } : {})
+        },
+        sections
+    };
+}
+
+/**
+ * Read the model's answer back into a translated doc. Sections the model dropped keep their source
+ * text rather than failing the translation; the prose is rendered under the target locale's headings.
+ */
+export function parseTranslation(text: string, doc: TranslatableDoc, locale: LocaleCode, sourceSections: Partial<Record<string, string>>): TranslatedDoc {
+    const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        throw new TranslationError('response is not a JSON object');
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(unfenced.slice(start, end + 1));
+    } catch (error) {
+        throw new TranslationError(`response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+    if (!isText(parsed.title) || !isText(parsed.problem)) {
+        throw new TranslationError('translation must include a title and problem');
+    }
+    const approach = Array.isArray(parsed.approach) && parsed.approach.every(isText) ? parsed.approach.map((item: string) => item.trim()) : doc.approach;
+
+    let prose: string | undefined;
+    if (doc.prose) {
+        const translated = parsed.sections && typeof parsed.sections === 'object' ? parsed.sections : {};
+        const sections = Object.fromEntries(Object.entries(sourceSections).map(([heading, content]) => [
+            heading,
+            !untranslatedSections(doc.level).includes(heading) && typeof translated[heading] === 'string' ? translated[heading] : content
+        ]));
+        prose = renderTemplateSections(templateFor(doc.level, locale), sections).trim();
+    }
+
+    return {
+        title: parsed.title.trim(),
+        problem: parsed.problem.trim(),
+        ...(isText(parsed.outcome) ? { outcome: parsed.outcome.trim() } : doc.outcome ? { outcome: doc.outcome } : {}),
+        approach,
+        ...(prose !== undefined ? { prose } : {})
+    };
+}
+
+/**
+ * Translate a doc with the configured LLM. Throws TranslationError when the answer cannot be used;
+ * provider errors (including CassetteMissError) propagate.
+ */
+export async function translateDoc(doc: TranslatableDoc, locale: LocaleCode): Promise<TranslatedDoc & { model: string }> {
+    const llm = getLLM();
+    const target = LOCALES[locale];
+    const { document, sections } = translationInput(doc);
+    const variables = {
+        sourceLanguage: LOCALES[doc.locale].language,
+        language: target.language,
+        locale: target.code,
+        unknown: target.unknown,
+        document: JSON.stringify(document, null, 2)
+    };
+    const { systemPrompt, userPrompt, version } = promptManager.getPrompts('docs-translate', variables);
+
+    const result = await llm.complete({
+        system: systemPrompt,
+        user: userPrompt,
+        maxTokens: 2000,
+        temperature: 0.2,
+        label: 'docs-translate',
+        prompt: { id: 'docs-translate', variables: { locale, document }, template: { id: 'docs-translate', version } }
+    });
+
+    return { ...parseTranslation(result.text, doc, locale, sections), model: llm.provider.model };
+}
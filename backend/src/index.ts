@@ -3,21 +3,42 @@ import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import { registerAIRoutes } from './routes.ai';
 import { registerDocRoutes } from './routes.docs';
+import { registerSearchRoutes } from './routes.search.js';
+import { registerPatternRoutes } from './routes.patterns.js';
+import { registerCoverageRoutes } from './routes.coverage.js';
 import { registerInspirationRoutes } from './routes.inspiration';
 import { strategyRoutes } from './routes.strategy.js';
 import { comprehensiveRoutes } from './routes.comprehensive.js';
 import { unifiedRoutes } from './routes.unified.js';
+import { registerPromptRoutes } from './routes.prompts.js';
+import { promptManager } from './prompts/PromptManager.js';
 
 async function main() {
     const app = Fastify({ logger: true });
     await app.register(cors, { origin: true });
 
+    // Refuse to start with a prompt that does not render with data of its declared types
+    const promptCheck = promptManager.selfCheck();
+    if (promptCheck.errors.length > 0) {
+        throw new Error(`Prompt self-check failed:\n${promptCheck.errors.map(({ prompt, error }) => `  ${prompt}: ${error}`).join('\n')}`);
+    }
+    app.log.info({ prompts: promptCheck.checked }, 'Prompt self-check passed');
+
     await registerAIRoutes(app);
     await registerDocRoutes(app);
+    await registerSearchRoutes(app);
+    await registerPatternRoutes(app);
+    await registerCoverageRoutes(app);
     await registerInspirationRoutes(app);
     await app.register(strategyRoutes);
     await app.register(comprehensiveRoutes);
     await app.register(unifiedRoutes);
+    await registerPromptRoutes(app);
+
+    // Pick up edited prompt files without a restart
+    if (process.env.ONE_BRAIN_PROMPTS_WATCH !== 'false') {
+        promptManager.watch();
+    }
 
     const port = Number(process.env.PORT || 8787);
     await app.listen({ port, host: '0.0.0.0' });
@@ -0,0 +1,39 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+// gcloud access tokens last an hour; refresh well before that
+const TOKEN_TTL_MS = 45 * 60 * 1000;
+
+let cached: { token: string; expiresAt: number } | null = null;
+let pending: Promise<string> | null = null;
+
+/**
+ * Google Cloud access token from `gcloud auth print-access-token`, shared by every Vertex caller.
+ * Concurrent callers wait on the same gcloud call instead of each spawning one.
+ */
+export async function getGoogleAccessToken(): Promise<string> {
+    if (cached && cached.expiresAt > Date.now()) return cached.token;
+    if (pending) return pending;
+
+    pending = execAsync('gcloud auth print-access-token')
+        .then(({ stdout }) => {
+            const token = stdout.trim();
+            cached = { token, expiresAt: Date.now() + TOKEN_TTL_MS };
+            return token;
+        })
+        .catch(error => {
+            throw new Error(`Failed to get access token: ${error instanceof Error ? error.message : String(error)}`);
+        })
+        .finally(() => {
+            pending = null;
+        });
+
+    return pending;
+}
+
+// Called after a 401 so the next attempt fetches a fresh token
+export function invalidateGoogleAccessToken() {
+    cached = null;
+}
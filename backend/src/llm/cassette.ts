@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { CompletionRequest, CompletionResponse, LLMError, LLMProvider, TextListener } from './types.js';
+
+/**
+ * Record-and-replay for LLM calls. A cassette is one JSON file per prompt version + variables, so
+ * keyword extraction, result explanation and /ai/prepare can run offline against recorded responses.
+ */
+
+export type CassetteMode = 'record' | 'replay';
+
+export const DEFAULT_CASSETTE_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '../../../tests/fixtures/llm-cassettes');
+
+export interface Cassette {
+    key: string;
+    promptId: string;
+    variables: unknown;
+    request: { system?: string; user: string; maxTokens: number; temperature?: number };
+    response: CompletionResponse;
+    recordedAt: string;
+}
+
+/**
+ * A replay found no cassette. Never retried, and services rethrow it instead of falling back,
+ * so a missing recording fails the run rather than silently testing the fallback path.
+ */
+export class CassetteMissError extends LLMError {
+    readonly key: string;
+    readonly promptId: string;
+
+    constructor(promptId: string, key: string, path: string) {
+        super(`No LLM cassette for prompt "${promptId}" (${key}) at ${path}; record it with ONE_BRAIN_LLM_CASSETTE=record`, 'cassette');
+        this.name = 'CassetteMissError';
+        this.key = key;
+        this.promptId = promptId;
+    }
+}
+
+// JSON with object keys sorted, so equal variables always hash the same
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as object)
+            .sort()
+            .filter(key => (value as any)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Prompt id, version, variables and rendered text identifying a request, so editing a prompt file
+ * or activating another version misses instead of replaying answers to the old wording. Requests
+ * without a prompt reference are keyed by their label and full prompt text.
+ */
+export function cassetteKey(request: CompletionRequest): { promptId: string; variables: unknown; key: string } {
+    const promptId = request.prompt?.id ?? request.label ?? 'unlabelled';
+    const variables = request.prompt ? request.prompt.variables ?? {} : { system: request.system ?? '', user: request.user };
+    const version = request.prompt?.template?.version ?? null;
+    const text = createHash('sha256').update(`${request.system ?? ''}\n${request.user}`).digest('hex');
+    const key = createHash('sha256').update(stableStringify({ promptId, version, variables, text })).digest('hex').slice(0, 24);
+    return { promptId, variables, key };
+}
+
+export class CassetteProvider implements LLMProvider {
+    readonly id: string;
+    readonly model: string;
+
+    constructor(
+        readonly mode: CassetteMode,
+        private readonly inner: LLMProvider | null,
+        readonly dir: string = DEFAULT_CASSETTE_DIR
+    ) {
+        if (mode === 'record' && !inner) throw new Error('Recording cassettes needs a real LLM provider');
+        this.id = inner ? `${inner.id}+cassette-${mode}` : `cassette-${mode}`;
+        this.model = inner?.model ?? 'cassette';
+    }
+
+    pathFor(promptId: string, key: string): string {
+        return join(this.dir, promptId.replace(/[^a-zA-Z0-9._-]/g, '_'), `${key}.json`);
+    }
+
+    async complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResponse> {
+        return this.play(request, signal);
+    }
+
+    // Replays send the recorded text in one piece; recording streams from the real provider when it can
+    async stream(request: CompletionRequest, signal: AbortSignal, onText: TextListener): Promise<CompletionResponse> {
+        const response = await this.play(request, signal, onText);
+        if (this.mode === 'replay') onText(response.text);
+        return response;
+    }
+
+    private async play(request: CompletionRequest, signal: AbortSignal, onText?: TextListener): Promise<CompletionResponse> {
+        const { promptId, variables, key } = cassetteKey(request);
+        const path = this.pathFor(promptId, key);
+
+        if (this.mode === 'replay') {
+            let text: string;
+            try {
+                text = await readFile(path, 'utf8');
+            } catch {
+                throw new CassetteMissError(promptId, key, path);
+            }
+            return (JSON.parse(text) as Cassette).response;
+        }
+
+        const inner = this.inner!;
+        let response: CompletionResponse;
+        if (onText && inner.stream) {
+            response = await inner.stream(request, signal, onText);
+        } else {
+            response = await inner.complete(request, signal);
+            onText?.(response.text);
+        }
+        const cassette: Cassette = {
+            key,
+            promptId,
+            variables,
+            request: { system: request.system, user: request.user, maxTokens: request.maxTokens, temperature: request.temperature },
+            response,
+            recordedAt: new Date().toISOString()
+        };
+
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, JSON.stringify(cassette, null, 2) + '\n', 'utf8');
+        console.log(`[${new Date().toISOString()}] [LLM] CASSETTE_RECORDED:`, { promptId, key, path });
+
+        return response;
+    }
+}
@@ -0,0 +1,165 @@
+import { CassetteMode, CassetteProvider } from './cassette.js';
+import { AnthropicProvider, FakeProvider, OpenAICompatibleProvider, VertexAnthropicProvider } from './providers.js';
+import { CompletionRequest, CompletionResponse, LLMError, LLMProvider, TextListener } from './types.js';
+import { UsageTracker, usageTracker } from './usage.js';
+
+export interface LLMClientOptions {
+    // Attempts after the first for retryable failures
+    retries?: number;
+    // First backoff delay; doubles on each retry, plus up to 25% jitter
+    baseDelayMs?: number;
+    timeoutMs?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wraps a provider with timeouts, retries with exponential backoff, and token accounting.
+ */
+export class LLMClient {
+    readonly provider: LLMProvider;
+    private readonly retries: number;
+    private readonly baseDelayMs: number;
+    private readonly timeoutMs: number;
+    private readonly usage: UsageTracker;
+
+    constructor(provider: LLMProvider, options: LLMClientOptions = {}, usage: UsageTracker = usageTracker) {
+        this.provider = provider;
+        this.retries = options.retries ?? Number(process.env.ONE_BRAIN_LLM_RETRIES ?? 2);
+        this.baseDelayMs = options.baseDelayMs ?? 500;
+        this.timeoutMs = options.timeoutMs ?? Number(process.env.ONE_BRAIN_LLM_TIMEOUT_MS ?? 60000);
+        this.usage = usage;
+    }
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+        return this.run(request, signal => this.provider.complete(request, signal), () => true);
+    }
+
+    /**
+     * Like `complete`, passing text to `onText` as it arrives. Providers without streaming send the
+     * whole text once. A failure is only retried before any text has been sent.
+     */
+    async stream(request: CompletionRequest, onText: TextListener): Promise<CompletionResponse> {
+        const provider = this.provider;
+        if (!provider.stream) {
+            const response = await this.complete(request);
+            onText(response.text);
+            return response;
+        }
+
+        let sent = false;
+        const listener: TextListener = delta => {
+            sent = true;
+            onText(delta);
+        };
+        return this.run(request, signal => provider.stream!(request, signal, listener), () => !sent);
+    }
+
+    private async run(
+        request: CompletionRequest,
+        call: (signal: AbortSignal) => Promise<CompletionResponse>,
+        canRetry: () => boolean
+    ): Promise<CompletionResponse> {
+        const startTime = Date.now();
+        const timeoutMs = request.timeoutMs ?? this.timeoutMs;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const response = await this.attempt(call, timeoutMs);
+                const template = request.prompt?.template;
+                this.usage.record(this.provider.id, response.model, request.label, response.usage, template);
+
+                console.log(`[${new Date().toISOString()}] [LLM] COMPLETION:`, {
+                    provider: this.provider.id,
+                    model: response.model,
+                    label: request.label,
+                    attempts: attempt + 1,
+                    inputTokens: response.usage.inputTokens,
+                    outputTokens: response.usage.outputTokens,
+                    ...(template ? { prompt: `${template.id}@${template.version}` } : {}),
+                    duration: `${Date.now() - startTime}ms`
+                });
+                return template ? { ...response, prompt: template } : response;
+            } catch (error) {
+                const retryable = error instanceof LLMError && error.retryable && canRetry();
+                if (!retryable || attempt >= this.retries) {
+                    this.usage.record(this.provider.id, this.provider.model, request.label, null, request.prompt?.template);
+                    throw error;
+                }
+
+                const delay = this.baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25);
+                console.warn(`[${new Date().toISOString()}] [LLM] RETRY:`, {
+                    provider: this.provider.id,
+                    label: request.label,
+                    attempt: attempt + 1,
+                    delay: `${Math.round(delay)}ms`,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+                await sleep(delay);
+            }
+        }
+    }
+
+    private async attempt(call: (signal: AbortSignal) => Promise<CompletionResponse>, timeoutMs: number): Promise<CompletionResponse> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            return await call(controller.signal);
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new LLMError(`${this.provider.id} call timed out after ${timeoutMs}ms`, this.provider.id, { retryable: true });
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
+
+/**
+ * Provider selected by ONE_BRAIN_LLM_PROVIDER: `vertex` (default), `anthropic`, `openai` or `fake`.
+ */
+export function createProvider(name: string = process.env.ONE_BRAIN_LLM_PROVIDER || 'vertex'): LLMProvider {
+    switch (name) {
+        case 'vertex':
+            return new VertexAnthropicProvider();
+        case 'anthropic':
+            return new AnthropicProvider();
+        case 'openai':
+            return new OpenAICompatibleProvider();
+        case 'fake':
+            return new FakeProvider();
+        default:
+            throw new Error(`Unknown ONE_BRAIN_LLM_PROVIDER "${name}" (expected vertex, anthropic, openai or fake)`);
+    }
+}
+
+/**
+ * The configured provider, wrapped for ONE_BRAIN_LLM_CASSETTE=record|replay. Replay never
+ * constructs the real provider, so it needs no credentials.
+ */
+function createDefaultProvider(): LLMProvider {
+    const mode = process.env.ONE_BRAIN_LLM_CASSETTE as CassetteMode | undefined;
+    if (!mode) return createProvider();
+    if (mode !== 'record' && mode !== 'replay') {
+        throw new Error(`Unknown ONE_BRAIN_LLM_CASSETTE "${mode}" (expected record or replay)`);
+    }
+
+    const dir = process.env.ONE_BRAIN_LLM_CASSETTE_DIR || undefined;
+    return new CassetteProvider(mode, mode === 'record' ? createProvider() : null, dir);
+}
+
+let defaultClient: LLMClient | null = null;
+
+export function getLLM(): LLMClient {
+    if (!defaultClient) {
+        defaultClient = new LLMClient(createDefaultProvider());
+    }
+    return defaultClient;
+}
+
+// Swap the shared client's provider, e.g. for a FakeProvider in tests
+export function setLLMProvider(provider: LLMProvider, options: LLMClientOptions = {}): LLMClient {
+    defaultClient = new LLMClient(provider, options);
+    return defaultClient;
+}
@@ -0,0 +1,334 @@
+import { createHash } from 'crypto';
+import { getGoogleAccessToken, invalidateGoogleAccessToken } from './auth.js';
+import { CompletionRequest, CompletionResponse, LLMError, LLMProvider, TextListener, isRetryableStatus, textResponse } from './types.js';
+
+const LOCATION = process.env.VERTEX_LOCATION || 'us-east5';
+const PROJECT = process.env.VERTEX_PROJECT || 'dev-ai-epsilon';
+
+async function post(provider: string, url: string, headers: Record<string, string>, body: any, signal: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+            body: JSON.stringify(body),
+            signal
+        });
+    } catch (error) {
+        if (signal.aborted) throw error;
+        throw new LLMError(`${provider} request failed: ${error instanceof Error ? error.message : String(error)}`, provider, { retryable: true });
+    }
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        if (response.status === 401 && provider === 'vertex-anthropic') invalidateGoogleAccessToken();
+        throw new LLMError(`${provider} call failed: ${response.status} - ${errorText}`, provider, {
+            status: response.status,
+            retryable: isRetryableStatus(response.status) || (response.status === 401 && provider === 'vertex-anthropic')
+        });
+    }
+
+    return response;
+}
+
+async function postJson(provider: string, url: string, headers: Record<string, string>, body: any, signal: AbortSignal): Promise<any> {
+    return (await post(provider, url, headers, body, signal)).json();
+}
+
+/**
+ * POST a streaming request and pass the parsed `data:` payload of each server-sent event to `onData`.
+ * A `[DONE]` payload ends the stream.
+ */
+async function postStream(
+    provider: string,
+    url: string,
+    headers: Record<string, string>,
+    body: any,
+    signal: AbortSignal,
+    onData: (data: any) => void
+): Promise<void> {
+    const response = await post(provider, url, { 'Accept': 'text/event-stream', ...headers }, body, signal);
+    if (!response.body) throw new LLMError(`${provider} returned no stream`, provider);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        for (;;) {
+            let chunk: ReadableStreamReadResult<Uint8Array>;
+            try {
+                chunk = await reader.read();
+            } catch (error) {
+                if (signal.aborted) throw error;
+                throw new LLMError(`${provider} stream failed: ${error instanceof Error ? error.message : String(error)}`, provider, { retryable: true });
+            }
+            if (chunk.done) return;
+
+            buffer += decoder.decode(chunk.value, { stream: true });
+            const events = buffer.split(/\r?\n\r?\n/);
+            buffer = events.pop() ?? '';
+
+            for (const event of events) {
+                const data = event
+                    .split(/\r?\n/)
+                    .filter(line => line.startsWith('data:'))
+                    .map(line => line.slice(5).trim())
+                    .join('\n');
+                if (!data) continue;
+                if (data === '[DONE]') return;
+                onData(JSON.parse(data));
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+function anthropicBody(request: CompletionRequest) {
+    return {
+        max_tokens: request.maxTokens,
+        temperature: request.temperature ?? 0.3,
+        top_p: request.topP ?? 1.0,
+        ...(request.system ? { system: request.system } : {}),
+        messages: [{ role: 'user', content: [{ type: 'text', text: request.user }] }]
+    };
+}
+
+function fromAnthropic(result: any, provider: string, model: string): CompletionResponse {
+    const text = (result.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+    return textResponse(text, provider, result.model || model, {
+        inputTokens: result.usage?.input_tokens ?? 0,
+        outputTokens: result.usage?.output_tokens ?? 0
+    }, result.stop_reason);
+}
+
+// Accumulate an Anthropic Messages stream into the same response `fromAnthropic` builds
+function anthropicStreamHandler(provider: string, model: string, onText: TextListener) {
+    let text = '';
+    let responseModel = model;
+    let stopReason: string | undefined;
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    return {
+        onData(event: any) {
+            if (event.type === 'message_start') {
+                responseModel = event.message?.model || responseModel;
+                usage.inputTokens = event.message?.usage?.input_tokens ?? 0;
+            } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                text += event.delta.text;
+                onText(event.delta.text);
+            } else if (event.type === 'message_delta') {
+                stopReason = event.delta?.stop_reason ?? stopReason;
+                usage.outputTokens = event.usage?.output_tokens ?? usage.outputTokens;
+            } else if (event.type === 'error') {
+                const overloaded = event.error?.type === 'overloaded_error';
+                throw new LLMError(`${provider} stream error: ${event.error?.message ?? 'unknown'}`, provider, { retryable: overloaded });
+            }
+        },
+        response: () => textResponse(text, provider, responseModel, usage, stopReason)
+    };
+}
+
+/**
+ * Claude on Vertex AI through `rawPredict`, authenticated with the shared gcloud token.
+ */
+export class VertexAnthropicProvider implements LLMProvider {
+    readonly id = 'vertex-anthropic';
+
+    constructor(readonly model: string = process.env.ONE_BRAIN_MODEL || 'claude-sonnet-4') {}
+
+    async complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResponse> {
+        const url = `https://${LOCATION}-aiplatform.googleapis.com/v1/projects/${PROJECT}/locations/${LOCATION}/publishers/anthropic/models/${this.model}:rawPredict`;
+        const accessToken = await getGoogleAccessToken();
+
+        const result = await postJson(this.id, url, { 'Authorization': `Bearer ${accessToken}` }, {
+            anthropic_version: 'vertex-2023-10-16',
+            stream: false,
+            ...anthropicBody(request)
+        }, signal);
+
+        return fromAnthropic(result, this.id, this.model);
+    }
+
+    async stream(request: CompletionRequest, signal: AbortSignal, onText: TextListener): Promise<CompletionResponse> {
+        const url = `https://${LOCATION}-aiplatform.googleapis.com/v1/projects/${PROJECT}/locations/${LOCATION}/publishers/anthropic/models/${this.model}:streamRawPredict`;
+        const accessToken = await getGoogleAccessToken();
+        const handler = anthropicStreamHandler(this.id, this.model, onText);
+
+        await postStream(this.id, url, { 'Authorization': `Bearer ${accessToken}` }, {
+            anthropic_version: 'vertex-2023-10-16',
+            stream: true,
+            ...anthropicBody(request)
+        }, signal, handler.onData);
+
+        return handler.response();
+    }
+}
+
+/**
+ * The Anthropic Messages API directly, with ANTHROPIC_API_KEY.
+ */
+export class AnthropicProvider implements LLMProvider {
+    readonly id = 'anthropic';
+    private readonly apiKey: string;
+    private readonly baseUrl: string;
+
+    constructor(
+        readonly model: string = process.env.ONE_BRAIN_MODEL || 'claude-sonnet-4-20250514',
+        apiKey: string = process.env.ANTHROPIC_API_KEY || '',
+        baseUrl: string = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'
+    ) {
+        if (!apiKey) throw new Error('ANTHROPIC_API_KEY is required for the anthropic LLM provider');
+        this.apiKey = apiKey;
+        this.baseUrl = baseUrl.replace(/\/$/, '');
+    }
+
+    async complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResponse> {
+        const result = await postJson(this.id, `${this.baseUrl}/v1/messages`, {
+            'x-api-key': this.apiKey,
+            'anthropic-version': '2023-06-01'
+        }, { model: this.model, ...anthropicBody(request) }, signal);
+
+        return fromAnthropic(result, this.id, this.model);
+    }
+
+    async stream(request: CompletionRequest, signal: AbortSignal, onText: TextListener): Promise<CompletionResponse> {
+        const handler = anthropicStreamHandler(this.id, this.model, onText);
+
+        await postStream(this.id, `${this.baseUrl}/v1/messages`, {
+            'x-api-key': this.apiKey,
+            'anthropic-version': '2023-06-01'
+        }, { model: this.model, stream: true, ...anthropicBody(request) }, signal, handler.onData);
+
+        return handler.response();
+    }
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API (Ollama, LM Studio, vLLM, llama.cpp).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly id = 'openai-compatible';
+    private readonly baseUrl: string;
+    private readonly apiKey?: string;
+
+    constructor(
+        readonly model: string = process.env.ONE_BRAIN_MODEL || 'llama3.1',
+        baseUrl: string = process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: string | undefined = process.env.OPENAI_API_KEY
+    ) {
+        this.baseUrl = baseUrl.replace(/\/$/, '');
+        this.apiKey = apiKey;
+    }
+
+    private body(request: CompletionRequest, stream: boolean) {
+        const messages = [
+            ...(request.system ? [{ role: 'system', content: request.system }] : []),
+            { role: 'user', content: request.user }
+        ];
+
+        return {
+            model: this.model,
+            messages,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature ?? 0.3,
+            top_p: request.topP ?? 1.0,
+            stream,
+            ...(stream ? { stream_options: { include_usage: true } } : {})
+        };
+    }
+
+    private headers(): Record<string, string> {
+        return this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {};
+    }
+
+    async complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResponse> {
+        const result = await postJson(this.id, `${this.baseUrl}/chat/completions`, this.headers(), this.body(request, false), signal);
+
+        const choice = result.choices?.[0];
+        return textResponse(choice?.message?.content ?? '', this.id, result.model || this.model, {
+            inputTokens: result.usage?.prompt_tokens ?? 0,
+            outputTokens: result.usage?.completion_tokens ?? 0
+        }, choice?.finish_reason);
+    }
+
+    async stream(request: CompletionRequest, signal: AbortSignal, onText: TextListener): Promise<CompletionResponse> {
+        let text = '';
+        let model = this.model;
+        let finishReason: string | undefined;
+        // Servers that ignore `include_usage` leave the counts at zero, as `complete` does
+        const usage = { inputTokens: 0, outputTokens: 0 };
+
+        await postStream(this.id, `${this.baseUrl}/chat/completions`, this.headers(), this.body(request, true), signal, chunk => {
+            model = chunk.model || model;
+            const choice = chunk.choices?.[0];
+            const delta = choice?.delta?.content;
+            if (delta) {
+                text += delta;
+                onText(delta);
+            }
+            finishReason = choice?.finish_reason ?? finishReason;
+            if (chunk.usage) {
+                usage.inputTokens = chunk.usage.prompt_tokens ?? 0;
+                usage.outputTokens = chunk.usage.completion_tokens ?? 0;
+            }
+        });
+
+        return textResponse(text, this.id, model, usage, finishReason);
+    }
+}
+
+export type FakeResponder = string | ((request: CompletionRequest) => string | Promise<string>);
+
+// Rough token count for providers that don't report usage
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic provider for tests and offline development. Without a responder it answers with
+ * a stable digest of the prompt, so the same request always gets the same text.
+ */
+export class FakeProvider implements LLMProvider {
+    readonly id = 'fake';
+    readonly model = 'fake';
+    readonly requests: CompletionRequest[] = [];
+    private readonly responders: FakeResponder[];
+
+    // Responders are used in turn; the last one answers every remaining call
+    constructor(...responders: FakeResponder[]) {
+        this.responders = responders;
+    }
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+        return this.respond(request);
+    }
+
+    // Sends the answer a line at a time, so consumers see headings arrive in separate deltas
+    async stream(request: CompletionRequest, _signal: AbortSignal, onText: TextListener): Promise<CompletionResponse> {
+        const response = await this.respond(request);
+        for (const delta of response.text.match(/[^\n]*\n|[^\n]+/g) || []) {
+            await Promise.resolve();
+            onText(delta);
+        }
+        return response;
+    }
+
+    private async respond(request: CompletionRequest): Promise<CompletionResponse> {
+        const responder = this.responders[Math.min(this.requests.length, this.responders.length - 1)];
+        this.requests.push(request);
+
+        const text = responder === undefined
+            ? `fake response ${createHash('sha256').update(`${request.system ?? ''}\n${request.user}`).digest('hex').slice(0, 12)}`
+            : typeof responder === 'string' ? responder : await responder(request);
+
+        return textResponse(text, this.id, this.model, {
+            inputTokens: estimateTokens(`${request.system ?? ''}${request.user}`),
+            outputTokens: estimateTokens(text)
+        }, 'end_turn');
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * Provider-neutral completion request and response used by every LLM call site.
+ */
+
+// A stored version of a PromptManager prompt
+export interface PromptVersionRef {
+    id: string;
+    version: string;
+}
+
+// The PromptManager prompt (or other named prompt) a request was rendered from, and its variables
+export interface PromptRef {
+    id: string;
+    variables?: Record<string, unknown>;
+    // The PromptManager prompt version rendered, when the request came from one
+    template?: PromptVersionRef;
+}
+
+export interface CompletionRequest {
+    system?: string;
+    user: string;
+    maxTokens: number;
+    temperature?: number;
+    topP?: number;
+    // Call site name for usage accounting and logs, e.g. "ai-prepare"
+    label?: string;
+    // Overrides the client's default timeout for this call
+    timeoutMs?: number;
+    // Identifies the request independently of prompt wording, e.g. for cassettes
+    prompt?: PromptRef;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface CompletionResponse {
+    text: string;
+    // Anthropic-shaped content blocks, so existing `content[0].text` parsing keeps working
+    content: { type: 'text'; text: string }[];
+    model: string;
+    provider: string;
+    usage: TokenUsage;
+    stopReason?: string;
+    // The prompt version the request was rendered from, stamped by LLMClient
+    prompt?: PromptVersionRef;
+}
+
+// Receives each piece of text as a streaming provider produces it
+export type TextListener = (delta: string) => void;
+
+export interface LLMProvider {
+    readonly id: string;
+    readonly model: string;
+    complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResponse>;
+    // Streams text to `onText` and resolves with the whole response. Optional; see LLMClient.stream
+    stream?(request: CompletionRequest, signal: AbortSignal, onText: TextListener): Promise<CompletionResponse>;
+}
+
+/**
+ * A failed provider call. `retryable` marks rate limits, server errors, timeouts and network failures.
+ */
+export class LLMError extends Error {
+    readonly provider: string;
+    readonly status?: number;
+    readonly retryable: boolean;
+
+    constructor(message: string, provider: string, options: { status?: number; retryable?: boolean } = {}) {
+        super(message);
+        this.name = 'LLMError';
+        this.provider = provider;
+        this.status = options.status;
+        this.retryable = options.retryable ?? false;
+    }
+}
+
+export function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+export function textResponse(
+    text: string,
+    provider: string,
+    model: string,
+    usage: TokenUsage,
+    stopReason?: string
+): CompletionResponse {
+    return { text, content: [{ type: 'text', text }], model, provider, usage, ...(stopReason ? { stopReason } : {}) };
+}
@@ -0,0 +1,56 @@
+import { PromptVersionRef, TokenUsage } from './types.js';
+
+export interface UsageTotals extends TokenUsage {
+    calls: number;
+    failures: number;
+}
+
+function emptyTotals(): UsageTotals {
+    return { calls: 0, failures: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+/**
+ * In-process token accounting per provider/model, per call site label and per prompt version
+ * (`id@version`), since the last restart.
+ */
+export class UsageTracker {
+    private readonly since = new Date();
+    private readonly byModel = new Map<string, UsageTotals>();
+    private readonly byLabel = new Map<string, UsageTotals>();
+    private readonly byPrompt = new Map<string, UsageTotals>();
+
+    record(provider: string, model: string, label: string | undefined, usage: TokenUsage | null, prompt?: PromptVersionRef) {
+        const keys: [Map<string, UsageTotals>, string][] = [[this.byModel, `${provider}:${model}`], [this.byLabel, label || 'unlabelled']];
+        if (prompt) keys.push([this.byPrompt, `${prompt.id}@${prompt.version}`]);
+        for (const [map, key] of keys) {
+            const totals = map.get(key) ?? emptyTotals();
+            totals.calls++;
+            if (usage) {
+                totals.inputTokens += usage.inputTokens;
+                totals.outputTokens += usage.outputTokens;
+            } else {
+                totals.failures++;
+            }
+            map.set(key, totals);
+        }
+    }
+
+    snapshot() {
+        const total = emptyTotals();
+        for (const totals of this.byModel.values()) {
+            total.calls += totals.calls;
+            total.failures += totals.failures;
+            total.inputTokens += totals.inputTokens;
+            total.outputTokens += totals.outputTokens;
+        }
+        return {
+            since: this.since.toISOString(),
+            total,
+            byModel: Object.fromEntries(this.byModel),
+            byLabel: Object.fromEntries(this.byLabel),
+            byPrompt: Object.fromEntries(this.byPrompt)
+        };
+    }
+}
+
+export const usageTracker = new UsageTracker();
@@ -0,0 +1,109 @@
+/**
+ * Prompt experiments: requests for an id with a traffic split are assigned a version by weight,
+ * and search runs stamped with the versions that produced their keywords are compared by the
+ * outcomes that followed (results found, Mobbin links opened, links saved).
+ */
+
+import { createHash } from 'crypto';
+import type { PromptVersionRef } from '../llm/types.js';
+import type { PromptSplit } from './registry.js';
+
+export type OutcomeType = 'click' | 'save';
+
+export const OUTCOME_TYPES: OutcomeType[] = ['click', 'save'];
+
+// A stored search run, as the report reads it
+export interface PromptRunRecord {
+  id: string;
+  prompts: PromptVersionRef[];
+  resultsFound: number | null;
+  outcomes: { type: string }[];
+}
+
+export interface VersionReport {
+  version: string;
+  // Share of traffic in the current split, 0-1, or null when the version is not in it
+  weight: number | null;
+  runs: number;
+  // Runs whose search ran, and how many results they found
+  searched: number;
+  resultsFound: number;
+  averageResults: number | null;
+  zeroResultRate: number | null;
+  clicks: number;
+  saves: number;
+  // Share of runs with at least one click or save
+  clickRate: number | null;
+  saveRate: number | null;
+}
+
+export interface PromptReport {
+  id: string;
+  split: PromptSplit | null;
+  versions: VersionReport[];
+}
+
+// A stable point in [0, 1) for a unit, so the same query keeps getting the same version
+export function bucketOf(id: string, unit: string): number {
+  return parseInt(createHash('sha256').update(`${id}:${unit}`).digest('hex').slice(0, 8), 16) / 0x100000000;
+}
+
+// The version whose share of the total weight covers `point`, taking versions in the split's order
+export function pickVersion(split: PromptSplit, point: number): string {
+  const arms = Object.entries(split);
+  const total = arms.reduce((sum, [, weight]) => sum + weight, 0);
+  let reached = 0;
+  for (const [version, weight] of arms) {
+    reached += weight / total;
+    if (point < reached) return version;
+  }
+  return arms[arms.length - 1][0];
+}
+
+function rate(count: number, of: number): number | null {
+  return of === 0 ? null : Math.round((count / of) * 1000) / 1000;
+}
+
+/**
+ * Compare the versions of one prompt over the runs that used it. Versions in the split with no
+ * runs yet are listed with zero counts; versions are ordered oldest first by the caller's order.
+ */
+export function summarizeExperiment(id: string, runs: PromptRunRecord[], split: PromptSplit | null, versionOrder: string[] = []): PromptReport {
+  const totalWeight = split ? Object.values(split).reduce((sum, weight) => sum + weight, 0) : 0;
+  const byVersion = new Map<string, PromptRunRecord[]>(Object.keys(split ?? {}).map(version => [version, []]));
+
+  for (const run of runs) {
+    const used = run.prompts.find(prompt => prompt.id === id);
+    if (!used) continue;
+    byVersion.set(used.version, [...(byVersion.get(used.version) ?? []), run]);
+  }
+
+  const order = (version: string) => {
+    const index = versionOrder.indexOf(version);
+    return index === -1 ? versionOrder.length : index;
+  };
+  const versions = [...byVersion.entries()]
+    .sort(([a], [b]) => order(a) - order(b) || a.localeCompare(b))
+    .map(([version, versionRuns]): VersionReport => {
+      const searched = versionRuns.filter(run => run.resultsFound !== null);
+      const resultsFound = searched.reduce((sum, run) => sum + run.resultsFound!, 0);
+      const count = (type: OutcomeType) => versionRuns.reduce((sum, run) => sum + run.outcomes.filter(outcome => outcome.type === type).length, 0);
+      const runsWith = (type: OutcomeType) => versionRuns.filter(run => run.outcomes.some(outcome => outcome.type === type)).length;
+
+      return {
+        version,
+        weight: split?.[version] !== undefined ? Math.round((split[version] / totalWeight) * 1000) / 1000 : null,
+        runs: versionRuns.length,
+        searched: searched.length,
+        resultsFound,
+        averageResults: searched.length === 0 ? null : Math.round((resultsFound / searched.length) * 10) / 10,
+        zeroResultRate: rate(searched.filter(run => run.resultsFound === 0).length, searched.length),
+        clicks: count('click'),
+        saves: count('save'),
+        clickRate: rate(runsWith('click'), versionRuns.length),
+        saveRate: rate(runsWith('save'), versionRuns.length)
+      };
+    });
+
+  return { id, split, versions };
+}
@@ -0,0 +1,412 @@
+/**
+ * File-based prompt registry. Each prompt version is a Markdown file, `<dir>/<id>/<version>.md`,
+ * with front matter for its metadata and variable schema (see template.ts) and the system prompt
+ * and user template as two marked blocks.
+ * Every version of an id is kept side by side; the active one is the version pinned in
+ * `<dir>/active.json`, or the highest version when the id is not pinned. `<dir>/experiments.json`
+ * holds traffic splits: relative weights for the versions of an id that requests are shared between.
+ */
+
+import { FSWatcher, existsSync, readFileSync, readdirSync, statSync, watch, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { PromptTemplate } from './PromptManager.js';
+import { PromptTemplateError, VariableSchema, formatVariableSchema, parseVariableSchema, templateProblems } from './template.js';
+
+export const ACTIVE_FILE = 'active.json';
+export const EXPERIMENTS_FILE = 'experiments.json';
+
+const SYSTEM_MARKER = '<!-- system -->';
+const USER_MARKER = '<!-- user -->';
+const VERSION_PATTERN = /^\d+(\.\d+)*$/;
+const ID_PATTERN = /^[a-z0-9][a-z0-9.-]*$/;
+
+export class PromptRegistryError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'PromptRegistryError';
+    this.statusCode = statusCode;
+  }
+}
+
+// A file that could not be loaded; the rest of the registry loads without it
+export interface PromptLoadError {
+  path: string;
+  error: string;
+}
+
+// Relative weight of each version of one prompt id, e.g. { "3.7.0": 80, "3.8.0": 20 }
+export type PromptSplit = Record<string, number>;
+
+export interface DiffLine {
+  op: '=' | '+' | '-';
+  text: string;
+}
+
+export interface PromptDiff {
+  id: string;
+  from: string;
+  to: string;
+  // Metadata fields that differ
+  metadata: Record<string, { from: unknown; to: unknown }>;
+  systemPrompt: DiffLine[];
+  userPromptTemplate: DiffLine[];
+}
+
+// Numeric comparison of dotted versions: 3.10.0 is after 3.7.0
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+function frontMatterValue(raw: string): string | string[] {
+  const value = raw.trim();
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value.slice(1, -1).split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return value.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Read a prompt file. The id and version come from its path; the front matter holds name,
+ * description, lastUpdated, tags and variables. Throws PromptRegistryError when the file is
+ * malformed or its templates do not fit the declared variables.
+ */
+export function parsePromptFile(text: string, id: string, version: string): PromptTemplate {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n([\s\S]*)$/);
+  if (!match) {
+    throw new PromptRegistryError(`${id}@${version}: missing front matter`, 422);
+  }
+
+  const meta: Record<string, string | string[]> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      throw new PromptRegistryError(`${id}@${version}: front matter line "${line}" is not "key: value"`, 422);
+    }
+    meta[line.slice(0, colon).trim()] = frontMatterValue(line.slice(colon + 1));
+  }
+  for (const field of ['name', 'description', 'lastUpdated']) {
+    if (typeof meta[field] !== 'string' || !meta[field]) {
+      throw new PromptRegistryError(`${id}@${version}: front matter needs ${field}`, 422);
+    }
+  }
+  if (meta.version !== undefined && meta.version !== version) {
+    throw new PromptRegistryError(`${id}@${version}: front matter version ${meta.version} does not match the file name`, 422);
+  }
+
+  // The system block runs to the user marker, or to the end when the prompt has no user template
+  const body = match[2];
+  if (!body.startsWith(`${SYSTEM_MARKER}\n`)) {
+    throw new PromptRegistryError(`${id}@${version}: body must start with ${SYSTEM_MARKER}`, 422);
+  }
+  const rest = body.slice(SYSTEM_MARKER.length + 1);
+  const userAt = rest.indexOf(`\n${USER_MARKER}\n`);
+  const systemPrompt = (userAt === -1 ? rest : rest.slice(0, userAt)).replace(/\n$/, '');
+  const userPromptTemplate = userAt === -1 ? undefined : rest.slice(userAt + USER_MARKER.length + 2).replace(/\n$/, '');
+
+  let variables: VariableSchema;
+  try {
+    variables = parseVariableSchema(Array.isArray(meta.variables) ? meta.variables : meta.variables ? [meta.variables] : []);
+  } catch (error) {
+    if (error instanceof PromptTemplateError) throw new PromptRegistryError(`${id}@${version}: ${error.message}`, 422);
+    throw error;
+  }
+  const problems = [
+    ...templateProblems(systemPrompt, variables).map(problem => `system prompt: ${problem}`),
+    ...templateProblems(userPromptTemplate ?? '', variables).map(problem => `user template: ${problem}`)
+  ];
+  if (problems.length > 0) {
+    throw new PromptRegistryError(`${id}@${version}: ${problems.join('; ')}`, 422);
+  }
+
+  return {
+    id,
+    name: meta.name as string,
+    description: meta.description as string,
+    systemPrompt,
+    ...(userPromptTemplate !== undefined ? { userPromptTemplate } : {}),
+    version,
+    lastUpdated: meta.lastUpdated as string,
+    tags: Array.isArray(meta.tags) ? meta.tags : meta.tags ? [meta.tags] : [],
+    variables
+  };
+}
+
+// The file parsePromptFile reads back into the same template
+export function formatPromptFile(prompt: PromptTemplate): string {
+  return [
+    '---',
+    `name: ${prompt.name}`,
+    `description: ${prompt.description}`,
+    `version: ${prompt.version}`,
+    `lastUpdated: ${prompt.lastUpdated}`,
+    `tags: [${prompt.tags.join(', ')}]`,
+    `variables: [${formatVariableSchema(prompt.variables ?? {}).join(', ')}]`,
+    '---',
+    SYSTEM_MARKER,
+    prompt.systemPrompt,
+    ...(prompt.userPromptTemplate !== undefined ? [USER_MARKER, prompt.userPromptTemplate] : []),
+    ''
+  ].join('\n');
+}
+
+/**
+ * Line diff of two texts by longest common subsequence; a replaced line is listed as removed, then added.
+ */
+export function diffLines(from: string, to: string): DiffLine[] {
+  const a = from.split('\n');
+  const b = to.split('\n');
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: '=', text: a[i++] });
+      j++;
+    } else if (j < b.length && (i === a.length || common[i][j + 1] > common[i + 1][j])) {
+      lines.push({ op: '+', text: b[j++] });
+    } else {
+      lines.push({ op: '-', text: a[i++] });
+    }
+  }
+  return lines;
+}
+
+export function diffPrompts(from: PromptTemplate, to: PromptTemplate): PromptDiff {
+  const metadata: PromptDiff['metadata'] = {};
+  for (const field of ['name', 'description', 'lastUpdated', 'tags', 'variables'] as const) {
+    if (JSON.stringify(from[field]) !== JSON.stringify(to[field])) {
+      metadata[field] = { from: from[field], to: to[field] };
+    }
+  }
+
+  return {
+    id: to.id,
+    from: from.version,
+    to: to.version,
+    metadata,
+    systemPrompt: diffLines(from.systemPrompt, to.systemPrompt),
+    userPromptTemplate: diffLines(from.userPromptTemplate ?? '', to.userPromptTemplate ?? '')
+  };
+}
+
+function validWeight(weight: unknown): boolean {
+  return typeof weight === 'number' && Number.isFinite(weight) && weight > 0;
+}
+
+// Why a split cannot be used: unknown id or versions (404), bad weights or too few arms (400)
+function splitProblems(id: string, weights: unknown, versions: Map<string, PromptTemplate> | undefined): PromptRegistryError[] {
+  if (!versions) return [new PromptRegistryError(`Prompt ${id} not found`, 404)];
+  if (!weights || typeof weights !== 'object' || Array.isArray(weights)) {
+    return [new PromptRegistryError(`Split for ${id} must map versions to weights`, 400)];
+  }
+
+  const entries = Object.entries(weights as Record<string, unknown>);
+  const problems = [
+    ...entries.filter(([version]) => !versions.has(version)).map(([version]) => new PromptRegistryError(`Prompt ${id} has no version ${version}`, 404)),
+    ...entries.filter(([, weight]) => !validWeight(weight)).map(([version]) => new PromptRegistryError(`Weight for ${id}@${version} must be a positive number`, 400))
+  ];
+  if (entries.length < 2) {
+    problems.push(new PromptRegistryError(`Split for ${id} needs at least two versions; activate a single version instead`, 400));
+  }
+  return problems;
+}
+
+/**
+ * The prompt files under one directory, read synchronously so prompts are available as soon as
+ * the PromptManager is created. `load()` replaces the whole set; a file that fails to parse is
+ * left out and reported in `errors` rather than failing the load.
+ */
+export class PromptRegistry {
+  private versionsById = new Map<string, Map<string, PromptTemplate>>();
+  private pins: Record<string, string> = {};
+  private splits: Record<string, PromptSplit> = {};
+  public errors: PromptLoadError[] = [];
+
+  constructor(readonly dir: string) {}
+
+  // A JSON object file of the registry, or {} when it is missing or unreadable
+  private readJson(path: string, errors: PromptLoadError[]): Record<string, any> {
+    if (!existsSync(path)) return {};
+    try {
+      return JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      errors.push({ path, error: error instanceof Error ? error.message : String(error) });
+      return {};
+    }
+  }
+
+  private writeJson(file: string, value: Record<string, unknown>) {
+    const sorted = Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)));
+    writeFileSync(join(this.dir, file), `${JSON.stringify(sorted, null, 2)}\n`);
+  }
+
+  public load(): { prompts: number; versions: number; errors: PromptLoadError[] } {
+    const versionsById = new Map<string, Map<string, PromptTemplate>>();
+    const errors: PromptLoadError[] = [];
+
+    const ids = existsSync(this.dir) ? readdirSync(this.dir).filter(entry => statSync(join(this.dir, entry)).isDirectory()) : [];
+    for (const id of ids) {
+      if (!ID_PATTERN.test(id)) continue;
+      for (const file of readdirSync(join(this.dir, id)).filter(name => name.endsWith('.md'))) {
+        const path = join(this.dir, id, file);
+        const version = file.slice(0, -'.md'.length);
+        try {
+          if (!VERSION_PATTERN.test(version)) {
+            throw new PromptRegistryError(`${id}: file name ${file} is not a version such as 1.2.0.md`, 422);
+          }
+          const prompt = parsePromptFile(readFileSync(path, 'utf8'), id, version);
+          if (!versionsById.has(id)) versionsById.set(id, new Map());
+          versionsById.get(id)!.set(version, prompt);
+        } catch (error) {
+          errors.push({ path, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    const activePath = join(this.dir, ACTIVE_FILE);
+    const pins: Record<string, string> = this.readJson(activePath, errors);
+    for (const [id, version] of Object.entries(pins)) {
+      if (!versionsById.get(id)?.has(version)) {
+        errors.push({ path: activePath, error: `${id} is pinned to ${version}, which does not exist; using the latest version` });
+      }
+    }
+
+    // Arms naming a missing version are dropped; a split left with fewer than two arms is ignored
+    const experimentsPath = join(this.dir, EXPERIMENTS_FILE);
+    const splits: Record<string, PromptSplit> = {};
+    for (const [id, weights] of Object.entries(this.readJson(experimentsPath, errors) as Record<string, PromptSplit>)) {
+      const problems = splitProblems(id, weights, versionsById.get(id));
+      const arms = Object.entries(weights ?? {}).filter(([version, weight]) => versionsById.get(id)?.has(version) && validWeight(weight));
+      problems.forEach(problem => errors.push({ path: experimentsPath, error: `${problem.message}; ${arms.length >= 2 ? 'leaving it out of the split' : 'split ignored'}` }));
+      if (arms.length >= 2) splits[id] = Object.fromEntries(arms);
+    }
+
+    this.versionsById = versionsById;
+    this.pins = pins;
+    this.splits = splits;
+    this.errors = errors;
+    return {
+      prompts: versionsById.size,
+      versions: [...versionsById.values()].reduce((total, versions) => total + versions.size, 0),
+      errors
+    };
+  }
+
+  public ids(): string[] {
+    return [...this.versionsById.keys()].sort();
+  }
+
+  // Every version of an id, oldest first
+  public versions(id: string): PromptTemplate[] {
+    return [...(this.versionsById.get(id)?.values() ?? [])].sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  public activeVersion(id: string): string | undefined {
+    const versions = this.versionsById.get(id);
+    if (!versions) return undefined;
+    const pinned = this.pins[id];
+    return pinned && versions.has(pinned) ? pinned : this.versions(id).at(-1)?.version;
+  }
+
+  // A specific version, or the active one
+  public get(id: string, version?: string): PromptTemplate | undefined {
+    const wanted = version ?? this.activeVersion(id);
+    return wanted ? this.versionsById.get(id)?.get(wanted) : undefined;
+  }
+
+  public active(): PromptTemplate[] {
+    return this.ids().map(id => this.get(id)!);
+  }
+
+  public isPinned(id: string): boolean {
+    return this.pins[id] !== undefined && this.activeVersion(id) === this.pins[id];
+  }
+
+  /**
+   * Make `version` the active version of `id`, recorded in active.json so it survives restarts
+   * and reaches every server watching the directory.
+   */
+  public activate(id: string, version: string): PromptTemplate {
+    const prompt = this.versionsById.get(id)?.get(version);
+    if (!prompt) {
+      throw new PromptRegistryError(this.versionsById.has(id) ? `Prompt ${id} has no version ${version}` : `Prompt ${id} not found`, 404);
+    }
+
+    this.pins = { ...this.pins, [id]: version };
+    this.writeJson(ACTIVE_FILE, this.pins);
+    return prompt;
+  }
+
+  // The traffic split for an id, if it has one
+  public split(id: string): PromptSplit | undefined {
+    return this.splits[id];
+  }
+
+  /**
+   * Share requests for `id` between versions by weight, recorded in experiments.json. Requests
+   * rendered without a split, and the version listed as active, are unaffected.
+   */
+  public setSplit(id: string, weights: PromptSplit): PromptSplit {
+    const problems = splitProblems(id, weights, this.versionsById.get(id));
+    if (problems.length > 0) throw problems[0];
+
+    this.splits = { ...this.splits, [id]: { ...weights } };
+    this.writeJson(EXPERIMENTS_FILE, this.splits);
+    return this.splits[id];
+  }
+
+  // End the split for an id; false when it had none
+  public clearSplit(id: string): boolean {
+    if (!this.splits[id]) return false;
+    const { [id]: _ended, ...rest } = this.splits;
+    this.splits = rest;
+    this.writeJson(EXPERIMENTS_FILE, this.splits);
+    return true;
+  }
+
+  /**
+   * Reload whenever a file under the directory changes, debounced so an editor's save (often
+   * several events) reloads once. A reload that fails (e.g. a directory removed mid-read) or a
+   * watcher error goes to onError and keeps the prompts already loaded. Returns a function that
+   * stops watching.
+   */
+  public watch(
+    onReload: (result: ReturnType<PromptRegistry['load']>) => void,
+    onError: (error: unknown) => void,
+    debounceMs: number = 200
+  ): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const watcher: FSWatcher = watch(this.dir, { recursive: true }, () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        try {
+          onReload(this.load());
+        } catch (error) {
+          onError(error);
+        }
+      }, debounceMs);
+    });
+    watcher.on('error', onError);
+
+    return () => {
+      clearTimeout(timer);
+      watcher.close();
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { prisma } from '../prisma.js';
+import type { PromptVersionRef } from '../llm/types.js';
+import type { OutcomeType, PromptRunRecord } from './experiments.js';
+
+/**
+ * Stored search runs and their outcomes. Recording is best effort: a failed write is logged and
+ * never fails the search it describes.
+ */
+
+function warn(action: string, error: unknown) {
+  console.warn(`[${new Date().toISOString()}] [PROMPT_RUNS] ${action}_FAILED:`, error instanceof Error ? error.message : String(error));
+}
+
+// Record a search request and the prompt versions behind it; returns the run id, or null when it could not be stored
+export async function recordPromptRun(route: string, prompts: PromptVersionRef[], query?: string, resultsFound?: number): Promise<string | null> {
+  try {
+    const run = await prisma.promptRun.create({
+      data: {
+        route,
+        query: query ?? null,
+        prompts: prompts as any,
+        promptIds: [...new Set(prompts.map(prompt => prompt.id))],
+        resultsFound: resultsFound ?? null
+      }
+    });
+    return run.id;
+  } catch (error) {
+    warn('RECORD_RUN', error);
+    return null;
+  }
+}
+
+// Store how many results a run's search found, and return the prompt versions it used; null for an unknown run
+export async function recordResultsFound(runId: string, resultsFound: number): Promise<PromptVersionRef[] | null> {
+  try {
+    const run = await prisma.promptRun.update({ where: { id: runId }, data: { resultsFound } });
+    return run.prompts as PromptVersionRef[];
+  } catch (error) {
+    warn('RECORD_RESULTS', error);
+    return null;
+  }
+}
+
+// Record a click or save; null when the run does not exist
+export async function recordOutcome(runId: string, type: OutcomeType, url?: string) {
+  const run = await prisma.promptRun.findUnique({ where: { id: runId }, select: { id: true } });
+  if (!run) return null;
+  return prisma.promptOutcome.create({ data: { runId, type, url: url ?? null } });
+}
+
+// Runs that used any version of a prompt, optionally since a date
+export async function runsUsing(id: string, since?: Date): Promise<PromptRunRecord[]> {
+  const runs = await prisma.promptRun.findMany({
+    where: { promptIds: { has: id }, ...(since ? { createdAt: { gte: since } } : {}) },
+    select: { id: true, prompts: true, resultsFound: true, outcomes: { select: { type: true } } }
+  });
+  return runs.map((run: any) => ({ ...run, prompts: run.prompts as PromptVersionRef[] }));
+}
@@ -0,0 +1,301 @@
+/**
+ * Prompt template rendering. A prompt declares its variables and their types in front matter,
+ * e.g. `variables: [userQuery: string, keywords?: string[]]`, and its templates use:
+ *
+ *   {{name}}                          the value; lists of strings or numbers are joined with ", "
+ *   {{json name}}                     the value as JSON, so a string arrives quoted and escaped
+ *   {{#if name}}...{{else}}...{{/if}}   kept when the value is set and not empty
+ *   {{#each name}}...{{/each}}        repeated per item, with {{this}}, {{this.field}},
+ *                                     {{@index}} (from 0) and {{@number}} (from 1)
+ *
+ * Rendering fails on a missing, unexpected or mistyped variable, so a prompt never reaches the
+ * model with a placeholder left in it or a value it was not written for.
+ */
+
+export type VariableType = 'string' | 'number' | 'boolean' | 'object' | 'string[]' | 'number[]' | 'object[]';
+
+export const VARIABLE_TYPES: VariableType[] = ['string', 'number', 'boolean', 'object', 'string[]', 'number[]', 'object[]'];
+
+export interface VariableSpec {
+  type: VariableType;
+  optional?: boolean;
+}
+
+export type VariableSchema = Record<string, VariableSpec>;
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// A reference is a variable name, `this`, `this.field`, `@index` or `@number`
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; ref: string; json: boolean }
+  | { kind: 'if'; ref: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: 'each'; ref: string; body: TemplateNode[] };
+
+type Block = Extract<TemplateNode, { kind: 'if' | 'each' }>;
+
+const TAG_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const REF_PATTERN = /^(?:[A-Za-z_]\w*|this(?:\.[A-Za-z_]\w*)?|@index|@number)$/;
+const SCHEMA_ENTRY_PATTERN = /^([A-Za-z_]\w*)(\?)?\s*:\s*(\S+)$/;
+
+// Entries such as `userQuery: string` or `context?: object`, as listed in front matter
+export function parseVariableSchema(entries: string[]): VariableSchema {
+  const schema: VariableSchema = {};
+  for (const entry of entries) {
+    const match = entry.trim().match(SCHEMA_ENTRY_PATTERN);
+    if (!match) {
+      throw new PromptTemplateError(`variable "${entry}" is not "name: type"`);
+    }
+    const [, name, optional, type] = match;
+    if (!VARIABLE_TYPES.includes(type as VariableType)) {
+      throw new PromptTemplateError(`variable ${name} has unknown type ${type}; use one of ${VARIABLE_TYPES.join(', ')}`);
+    }
+    if (schema[name]) {
+      throw new PromptTemplateError(`variable ${name} is declared twice`);
+    }
+    schema[name] = optional ? { type: type as VariableType, optional: true } : { type: type as VariableType };
+  }
+  return schema;
+}
+
+// The front matter entries parseVariableSchema reads back into the same schema
+export function formatVariableSchema(schema: VariableSchema): string[] {
+  return Object.entries(schema).map(([name, spec]) => `${name}${spec.optional ? '?' : ''}: ${spec.type}`);
+}
+
+const compiled = new Map<string, TemplateNode[]>();
+
+// Parse a template into nodes; throws PromptTemplateError on an unknown tag or an unclosed block
+function compile(template: string): TemplateNode[] {
+  const cached = compiled.get(template);
+  if (cached) return cached;
+
+  const root: TemplateNode[] = [];
+  const open: { block: Block; nodes: TemplateNode[] }[] = [];
+  let nodes = root;
+  let at = 0;
+
+  const reference = (ref: string, tag: string) => {
+    if (!REF_PATTERN.test(ref)) {
+      throw new PromptTemplateError(`{{${tag}}} does not name a variable`);
+    }
+    return ref;
+  };
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index! > at) nodes.push({ kind: 'text', text: template.slice(at, match.index) });
+    at = match.index! + match[0].length;
+
+    const tag = match[1];
+    const [head, ...rest] = tag.split(/\s+/);
+    const argument = rest.join(' ');
+
+    if (head === '#if' || head === '#each') {
+      const block: Block = head === '#if'
+        ? { kind: 'if', ref: reference(argument, tag), then: [], otherwise: [] }
+        : { kind: 'each', ref: reference(argument, tag), body: [] };
+      nodes.push(block);
+      open.push({ block, nodes });
+      nodes = block.kind === 'if' ? block.then : block.body;
+    } else if (head === 'else' && !argument) {
+      const current = open.at(-1)?.block;
+      if (current?.kind !== 'if' || nodes !== current.then) {
+        throw new PromptTemplateError('{{else}} outside an {{#if}} block');
+      }
+      nodes = current.otherwise;
+    } else if ((head === '/if' || head === '/each') && !argument) {
+      const closing = open.pop();
+      if (!closing || `/${closing.block.kind}` !== head) {
+        throw new PromptTemplateError(`{{${head}}} does not close ${closing ? `{{#${closing.block.kind} ${closing.block.ref}}}` : 'a block'}`);
+      }
+      nodes = closing.nodes;
+    } else if (head === 'json') {
+      nodes.push({ kind: 'value', ref: reference(argument, tag), json: true });
+    } else {
+      nodes.push({ kind: 'value', ref: reference(tag, tag), json: false });
+    }
+  }
+
+  if (open.length > 0) {
+    const unclosed = open.at(-1)!.block;
+    throw new PromptTemplateError(`{{#${unclosed.kind} ${unclosed.ref}}} is never closed`);
+  }
+  if (at < template.length) nodes.push({ kind: 'text', text: template.slice(at) });
+
+  compiled.set(template, root);
+  return root;
+}
+
+/**
+ * What is wrong with a template for its schema, without rendering it: unknown tags, unclosed
+ * blocks, placeholders for undeclared variables, loops over non-lists and objects inserted as text.
+ */
+export function templateProblems(template: string, schema: VariableSchema): string[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = compile(template);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  const problems: string[] = [];
+  // The type of a reference where it is used; null when unknown, e.g. a field of an object item
+  const typeOf = (ref: string, item: VariableType | null | undefined): VariableType | null | undefined => {
+    if (ref === '@index' || ref === '@number' || ref === 'this') {
+      if (item === undefined) {
+        problems.push(`{{${ref}}} is only available inside {{#each}}`);
+        return null;
+      }
+      return ref === 'this' ? item : 'number';
+    }
+    if (ref.startsWith('this.')) {
+      if (item === undefined) problems.push(`{{${ref}}} is only available inside {{#each}}`);
+      else if (item !== null && item !== 'object') problems.push(`{{${ref}}} reads a field of ${item} items`);
+      return null;
+    }
+    if (!schema[ref]) {
+      problems.push(`{{${ref}}} is not a declared variable`);
+      return null;
+    }
+    return schema[ref].type;
+  };
+
+  const walk = (list: TemplateNode[], item: VariableType | null | undefined) => {
+    for (const node of list) {
+      if (node.kind === 'value') {
+        const type = typeOf(node.ref, item);
+        if (!node.json && (type === 'object' || type === 'object[]')) {
+          problems.push(`{{${node.ref}}} is ${type === 'object' ? 'an object' : 'a list of objects'}; insert it with {{json ${node.ref}}} or {{#each}}`);
+        }
+      } else if (node.kind === 'if') {
+        typeOf(node.ref, item);
+        walk(node.then, item);
+        walk(node.otherwise, item);
+      } else if (node.kind === 'each') {
+        const type = typeOf(node.ref, item);
+        if (type && !type.endsWith('[]')) {
+          problems.push(`{{#each ${node.ref}}} loops over a ${type}, not a list`);
+        }
+        walk(node.body, type?.endsWith('[]') ? type.slice(0, -2) as VariableType : null);
+      }
+    }
+  };
+  walk(nodes, undefined);
+  return [...new Set(problems)];
+}
+
+function matchesType(value: unknown, type: VariableType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return Array.isArray(value) && value.every(item => matchesType(item, type.slice(0, -2) as VariableType));
+  }
+}
+
+// Missing, unexpected and mistyped variables, in one message per problem
+export function variableProblems(schema: VariableSchema, variables: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  for (const [name, spec] of Object.entries(schema)) {
+    const value = variables[name];
+    if (value === undefined || value === null) {
+      if (!spec.optional) problems.push(`missing variable ${name}`);
+    } else if (!matchesType(value, spec.type)) {
+      problems.push(`variable ${name} should be ${spec.type}, got ${Array.isArray(value) ? 'array' : typeof value}`);
+    }
+  }
+  for (const name of Object.keys(variables)) {
+    if (!schema[name]) problems.push(`unexpected variable ${name}`);
+  }
+  return problems;
+}
+
+function isSet(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== false && value !== '';
+}
+
+function asText(value: unknown, ref: string): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value) && value.every(item => typeof item !== 'object' || item === null)) return value.join(', ');
+  if (typeof value === 'object') {
+    throw new PromptTemplateError(`{{${ref}}} is not text; insert it with {{json ${ref}}}`);
+  }
+  return String(value);
+}
+
+/**
+ * Render a template with variables checked against its schema. `label` (e.g. `id@version`) names
+ * the prompt in errors. Throws PromptTemplateError.
+ */
+export function renderTemplate(template: string, schema: VariableSchema, variables: Record<string, unknown>, label: string): string {
+  const problems = variableProblems(schema, variables);
+  if (problems.length > 0) {
+    throw new PromptTemplateError(`${label}: ${problems.join('; ')}`);
+  }
+
+  const render = (nodes: TemplateNode[], item?: { value: unknown; index: number }): string => {
+    const lookup = (ref: string): unknown => {
+      if (ref === 'this') return item?.value;
+      if (ref === '@index') return item?.index;
+      if (ref === '@number') return item === undefined ? undefined : item.index + 1;
+      if (ref.startsWith('this.')) return (item?.value as Record<string, unknown> | undefined)?.[ref.slice('this.'.length)];
+      return variables[ref];
+    };
+
+    return nodes.map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.text;
+        case 'value':
+          return node.json ? JSON.stringify(lookup(node.ref) ?? null) : asText(lookup(node.ref), node.ref);
+        case 'if':
+          return render(isSet(lookup(node.ref)) ? node.then : node.otherwise, item);
+        case 'each': {
+          const list = lookup(node.ref) ?? [];
+          if (!Array.isArray(list)) {
+            throw new PromptTemplateError(`${label}: {{#each ${node.ref}}} needs a list`);
+          }
+          return list.map((value, index) => render(node.body, { value, index })).join('');
+        }
+      }
+    }).join('');
+  };
+
+  try {
+    return render(compile(template));
+  } catch (error) {
+    if (error instanceof PromptTemplateError && !error.message.startsWith(`${label}:`)) {
+      throw new PromptTemplateError(`${label}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+// Placeholder values of the declared types, for checking that a prompt renders
+export function sampleVariables(schema: VariableSchema, { optional = true } = {}): Record<string, unknown> {
+  const sample = (name: string, type: VariableType): unknown => {
+    switch (type) {
+      case 'string': return `<${name}>`;
+      case 'number': return 1;
+      case 'boolean': return true;
+      case 'object': return { name: `<${name}>` };
+      default: return [1, 2].map(index => sample(`${name} ${index}`, type.slice(0, -2) as VariableType));
+    }
+  };
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([, spec]) => optional || !spec.optional)
+      .map(([name, spec]) => [name, sample(name, spec.type)])
+  );
+}
@@ -1,259 +1,85 @@
 import { FastifyInstance } from 'fastify';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
-
-const MODEL = process.env.ONE_BRAIN_MODEL || 'claude-sonnet-4';
-const LOCATION = process.env.VERTEX_LOCATION || 'us-east5';
-const PROJECT = process.env.VERTEX_PROJECT || 'dev-ai-epsilon';
-
-// ===== PHASE 2: PROMPT ENGINEERING COMPONENTS =====
-
-// System prompt - Role definition and basic rules
-const SYSTEM_PROMPT = `You are a senior UX documentarian. Write clear, concise UK-English documentation for a single Figma screen using only the evidence provided (text layers, component names, layout hints, prototype links).
-
-You may make small, reasonable inferences ONLY when they are directly supported by explicit evidence. Every inference must be based on a quoted text snippet or a named component/layout cue, but do not cite these evidences in your response. Do not invent features, flows, or product intent that lack such support. If something is not stated or cannot be reasonably inferred with evidence, write "Unknown".
-
-Output free-form prose with the exact section headings listed below. Do not output JSON, tables, lists (except for "Key Components Used").
-
-Sections (in this order):
-1) Screen Name
-2) Product / Project Context
-3) Problem Being Addressed (Why this screen exists)
-4) User Scenario (What the user is trying to do here)
-5) Design Approach / Strategy
-6) Intended Outcome
-7) Key Components Used
-8) Human Notes (leave this section blank)
-
-Rules:
-• Keep each section to 1–2 sentences, except "Key Components Used" (may be a short line list).
-• Use "Unknown" instead of speculating.
-• "Human Notes" must remain empty.`;
-
-// Developer prompt - Detailed section-by-section instructions
-const DEVELOPER_PROMPT = `You must output exactly eight sections in the order specified. For each section, follow these rules strictly. Never mention these rules in your output.
-
-1) Screen Name
-- Use nodeName when available; otherwise "Unknown". No commentary.
-
-2) Product / Project Context
-- Identify the broader area (e.g., "Authentication", "Checkout flow") using page/file hints or recurring text signals. If unclear, "Unknown".
-- If inferring, include a short quote or component cue that supports the area.
-
-3) Problem Being Addressed (Why this screen exists)
-- State the upstream need this screen solves. Example form: "Allow sign-in without passwords."
-- Must include at least one piece of evidence: a quote (e.g., "Enter your email") or a component cue (e.g., TextField/Email).
-- If the why cannot be grounded, write "Unknown".
-
-4) User Scenario (What the user is trying to do here)
-- See what is on the screen and make a valid guess of what this user might be trying to do here.
-
-5) Design Approach / Strategy
-- Name visible principles or tactics (e.g., "recognition over recall", "aesthetic & minimalist design", "error prevention", "consistency & standards", "visibility of system status", "progressive disclosure").
-- Each named principle must be tied to explicit evidence (quoted text, component names, or layout placement).
-- Limit to 1–2 sentences.
-
-6) Intended Outcome
-- State the intended user action + expected result (e.g., "Submit email to request a one-time passcode.").
-- Must be grounded in text and/or prototype link hints (mention the cue). If unclear, "Unknown".
-
-7) Key Components Used
-- List components by exact names; include library/variant props if present, separated by semicolons.
-- If none detected, "Unknown".
-
-8) Human Notes
-- Leave blank. Do not add placeholders or comments.`;
-
-// Function to combine system and developer prompts
-function createCombinedSystemPrompt(): string {
-    return `${SYSTEM_PROMPT}\n\n${DEVELOPER_PROMPT}`;
-}
-
-// User message template
-function createUserMessage(extraction: any): string {
-    return `Write the documentation now. Use only this evidence. Output prose with the eight section headings exactly as specified.
-
-EVIDENCE_PAYLOAD:
-${JSON.stringify(extraction, null, 2)}`;
-}
-
-// ===== VALIDATION FUNCTIONS =====
-
-function validateHeadingsAndOrder(text: string): boolean {
-    const requiredHeadings = [
-        'Screen Name',
-        'Product / Project Context',
-        'Problem Being Addressed (Why this screen exists)',
-        'User Scenario (What the user is trying to do here)',
-        'Design Approach / Strategy',
-        'Intended Outcome',
-        'Key Components Used',
-        'Human Notes'
-    ];
-
-    let lastIndex = -1;
-    for (const heading of requiredHeadings) {
-        const index = text.indexOf(heading);
-        if (index === -1 || index <= lastIndex) {
-            return false;
-        }
-        lastIndex = index;
-    }
-    return true;
-}
-
-function validateHasQuotedEvidence(text: string): boolean {
-    // Check for at least one quoted phrase "..."
-    const quotedPattern = /"[^"]+"/;
-    return quotedPattern.test(text);
-}
-
-function validateHumanNotesBlank(text: string): boolean {
-    const humanNotesMatch = text.match(/Human Notes\s*\n(.*?)(?:\n\n|\n$|$)/s);
-    if (!humanNotesMatch) return false;
-
-    const humanNotesContent = humanNotesMatch[1].trim();
-    return humanNotesContent === '';
-}
-
-function validateGroundedSections(text: string): boolean {
-    // Check sections 3, 4, 5 for quoted evidence or component references
-    const sections = [
-        'Problem Being Addressed',
-        'User Scenario',
-        'Design Approach / Strategy'
-    ];
-
-    for (const section of sections) {
-        const sectionMatch = text.match(new RegExp(`${section}[^\\n]*\\n([^\\n]+(?:\\n[^\\n]+)*?)(?=\\n\\n|\\n[A-Z]|$)`, 's'));
-        if (!sectionMatch) continue;
-
-        const sectionContent = sectionMatch[1];
-        const hasQuote = /"[^"]+"/.test(sectionContent);
-        const hasComponentRef = /\b[A-Za-z]+\/[A-Za-z]+(?:\/[A-Za-z]+)?\b/.test(sectionContent);
-        const hasLayoutRef = /\b(?:top-right|bottom bar|primary CTA|main|center|left|right)\b/i.test(sectionContent);
-
-        if (!hasQuote && !hasComponentRef && !hasLayoutRef) {
-            return false;
-        }
-    }
-    return true;
-}
-
-// Format-only retry prompt
-function createRetryPrompt(originalOutput: string): string {
-    return `Your previous answer failed formatting checks. Keep the same content, but:
-• Include exactly the eight section headings, in order.
-• Ensure at least one quoted evidence phrase from text layers or component names appears.
-• Leave "Human Notes" completely blank.
-Output prose only with those headings.
-
-Previous answer:
-${originalOutput}`;
-}
-
-// Get Google Cloud access token
-async function getAccessToken(): Promise<string> {
-    try {
-        const { stdout } = await execAsync('gcloud auth print-access-token');
-        return stdout.trim();
-    } catch (error) {
-        throw new Error(`Failed to get access token: ${error.message}`);
-    }
-}
-
-// Call Anthropic API via Vertex AI with system prompt support
-async function callAnthropicAPIWithSystem(systemPrompt: string, userMessage: string, app: FastifyInstance): Promise<any> {
-    const endpoint = `${LOCATION}-aiplatform.googleapis.com`;
-    const url = `https://${endpoint}/v1/projects/${PROJECT}/locations/${LOCATION}/publishers/anthropic/models/${MODEL}:rawPredict`;
-
-    const accessToken = await getAccessToken();
-
-    const requestBody = {
-        anthropic_version: "vertex-2023-10-16",
-        stream: false,
-        max_tokens: 800,  // Reduced for concise documentation
-        temperature: 0.35,
-        top_p: 1.0,
-        system: systemPrompt,  // System prompt for role definition
-        messages: [
-            {
-                role: "user",
-                content: [
-                    {
-                        type: "text",
-                        text: userMessage
-                    }
-                ]
-            }
-        ]
-    };
+import { getLLM } from './llm/client.js';
+import { usageTracker } from './llm/usage.js';
+import { CassetteMissError } from './llm/cassette.js';
+import { PromptRef, TextListener } from './llm/types.js';
+import { generateCapsule } from './documentation/capsuleGeneration.js';
+import { EvidenceTrace, matchedEvidenceTrace, traceEvidence } from './documentation/evidence.js';
+import { GroundingResult, checkGrounding } from './documentation/grounding.js';
+import { SectionStream, SectionStreamEvent } from './documentation/streaming.js';
+import { BatchJob, BatchJobStore, DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_SIZE, batchProgress, runBatch, withBatchContext } from './documentation/batch.js';
+import { documentationPrompts, documentationRetryPrompts, flowSteps, renderTemplateSections, runValidators, templateOf } from './documentation/templates.js';
+import { LOCALES, LocaleCode, SUPPORTED_LOCALES, localeOf, parseLocale, withLocale } from './documentation/locales.js';
+import { EvidenceSnapshot, RegenerationSource, diffEvidence, evidenceSnapshot, mergeRegeneration, parseRegeneratedSections, planRegeneration, regenerationPrompts } from './documentation/regeneration.js';
+import { findRegenerationSource } from './docs/store.js';
+
+const PREPARE_FORMATS = ['prose', 'capsule', 'both'] as const;
+type PrepareFormat = typeof PREPARE_FORMATS[number];
+
+// Call the configured LLM with the documentation system prompt, streaming the answer to `onText` when given
+async function callLLM(systemPrompt: string, userMessage: string, app: FastifyInstance, prompt: PromptRef, onText?: TextListener) {
+    const llm = getLLM();
 
     app.log.info({
-        url,
-        model: MODEL,
-        project: PROJECT,
-        location: LOCATION,
-        requestBodySize: JSON.stringify(requestBody).length,
+        provider: llm.provider.id,
+        model: llm.provider.model,
+        promptId: prompt.id,
+        streaming: !!onText,
         systemPromptLength: systemPrompt.length,
         userMessageLength: userMessage.length
-    }, 'Calling Anthropic API with system prompt');
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json; charset=utf-8'
-        },
-        body: JSON.stringify(requestBody)
-    });
+    }, 'Calling LLM with system prompt');
 
-    if (!response.ok) {
-        const errorText = await response.text();
-        app.log.error({
-            status: response.status,
-            statusText: response.statusText,
-            errorBody: errorText
-        }, 'Anthropic API call failed');
-        throw new Error(`Anthropic API call failed: ${response.status} - ${errorText}`);
-    }
+    const request = {
+        system: systemPrompt,
+        user: userMessage,
+        maxTokens: 800,  // Reduced for concise documentation
+        temperature: 0.35,
+        label: prompt.id,
+        prompt
+    };
+    const result = onText ? await llm.stream(request, onText) : await llm.complete(request);
 
-    const result = await response.json();
     app.log.info({
-        responseSize: JSON.stringify(result).length,
-        hasContent: !!result.content
-    }, 'Anthropic API response received');
+        responseLength: result.text.length,
+        usage: result.usage
+    }, 'LLM response received');
 
     return result;
 }
 
 // Validate and retry logic
-async function validateAndRetry(text: string, extraction: any, app: FastifyInstance): Promise<{ text: string, hasWarning: boolean }> {
+async function validateAndRetry(text: string, extraction: any, app: FastifyInstance): Promise<{ text: string, hasWarning: boolean, grounding: GroundingResult }> {
+    const template = templateOf(extraction);
+    const grounding = checkGrounding(text, extraction);
     const validations = {
-        headingsAndOrder: validateHeadingsAndOrder(text),
-        hasQuotedEvidence: validateHasQuotedEvidence(text),
-        humanNotesBlank: validateHumanNotesBlank(text),
-        groundedSections: validateGroundedSections(text)
+        ...runValidators(template, text, extraction),
+        claimsGrounded: grounding.ungrounded.length === 0
     };
 
     app.log.info({
+        level: template.level,
         validations,
+        groundingScore: grounding.score,
+        ungrounded: grounding.ungrounded,
         textLength: text.length
     }, 'Validation results');
 
     // If all validations pass, return as-is
     if (Object.values(validations).every(v => v)) {
-        return { text, hasWarning: false };
+        return { text, hasWarning: false, grounding };
     }
 
     // Single retry attempt with format-only correction
     app.log.warn('Validation failed, attempting retry with format correction');
 
     try {
-        const retryPrompt = createRetryPrompt(text);
-        const retryResult = await callAnthropicAPIWithSystem('', retryPrompt, app);
+        // Names the ungrounded claims to correct when there are any
+        const { id, systemPrompt, userPrompt, version } = documentationRetryPrompts(template, text, grounding.ungrounded, extraction);
+        const retryResult = await callLLM(systemPrompt, userPrompt, app, {
+            id,
+            variables: { previous: text, ungrounded: grounding.ungrounded, extraction },
+            template: { id, version }
+        });
 
         let retryText = '';
         if (retryResult.content && retryResult.content.length > 0 && retryResult.content[0].type === 'text') {
@@ -261,125 +87,486 @@ async function validateAndRetry(text: string, extraction: any, app: FastifyInsta
         }
 
         // Re-validate retry attempt
+        const retryGrounding = checkGrounding(retryText, extraction);
         const retryValidations = {
-            headingsAndOrder: validateHeadingsAndOrder(retryText),
-            hasQuotedEvidence: validateHasQuotedEvidence(retryText),
-            humanNotesBlank: validateHumanNotesBlank(retryText),
-            groundedSections: validateGroundedSections(retryText)
+            ...runValidators(template, retryText, extraction),
+            claimsGrounded: retryGrounding.ungrounded.length === 0
         };
 
         app.log.info({
             retryValidations,
+            retryGroundingScore: retryGrounding.score,
+            retryUngrounded: retryGrounding.ungrounded,
             retryTextLength: retryText.length
         }, 'Retry validation results');
 
-        // If retry is better, use it; otherwise use original with warning
+        // If retry is better (grounding score breaks ties), use it; otherwise use original with warning
         const retryScore = Object.values(retryValidations).filter(v => v).length;
         const originalScore = Object.values(validations).filter(v => v).length;
+        const allChecks = Object.keys(retryValidations).length;
 
-        if (retryScore > originalScore) {
-            return { text: retryText, hasWarning: retryScore < 4 };
+        if (retryScore > originalScore || (retryScore === originalScore && retryGrounding.score > grounding.score)) {
+            return { text: retryText, hasWarning: retryScore < allChecks, grounding: retryGrounding };
         }
     } catch (retryError) {
+        if (retryError instanceof CassetteMissError) throw retryError;
         app.log.error({ retryError }, 'Retry attempt failed');
     }
 
     // Return original with warning flag
-    return { text, hasWarning: true };
+    return { text, hasWarning: true, grounding };
+}
+
+// Prose generation with validation and a single format retry; falls back to heuristic prose.
+// `onText` receives the first answer as it streams; the retry is not streamed.
+async function generateProse(extraction: any, app: FastifyInstance, onText?: TextListener): Promise<{ documentation: string, hasValidationWarning: boolean, isFallback: boolean, grounding: GroundingResult }> {
+    try {
+        // System prompt and user message from the level's template in PromptManager
+        const template = templateOf(extraction);
+        const { systemPrompt, userPrompt, version } = documentationPrompts(extraction);
+
+        app.log.info({
+            level: template.level,
+            promptId: template.promptId,
+            promptVersion: version,
+            systemPromptLength: systemPrompt.length,
+            userMessageLength: userPrompt.length
+        }, 'Calling LLM with level documentation prompt');
+        const result = await callLLM(systemPrompt, userPrompt, app, {
+            id: 'ai-prepare',
+            variables: { extraction },
+            template: { id: template.promptId, version }
+        }, onText);
+
+        // Extract prose response
+        let proseText = '';
+        if (result.content && result.content.length > 0 && result.content[0].type === 'text' && result.content[0].text) {
+            proseText = result.content[0].text;
+        }
+
+        if (!proseText) {
+            throw new Error('Empty response from Claude');
+        }
+
+        // Validate and retry if needed
+        const { text: finalText, hasWarning, grounding } = await validateAndRetry(proseText, extraction, app);
+
+        app.log.info({
+            finalTextLength: finalText.length,
+            hasWarning,
+            groundingScore: grounding.score,
+            validationPassed: !hasWarning
+        }, 'Documentation generation completed');
+
+        return { documentation: finalText, hasValidationWarning: hasWarning, isFallback: false, grounding };
+    } catch (err) {
+        // Replaying without a recording is a test setup error, not something to paper over with fallback prose
+        if (err instanceof CassetteMissError) throw err;
+
+        app.log.error({
+            err: err,
+            message: err.message,
+            provider: getLLM().provider.id,
+            model: getLLM().provider.model
+        }, 'Prose documentation generation failed; using fallback');
+
+        const fallbackText = generateFallbackProse(extraction);
+        return { documentation: fallbackText, hasValidationWarning: false, isFallback: true, grounding: checkGrounding(fallbackText, extraction) };
+    }
+}
+
+type ProseResult = Awaited<ReturnType<typeof generateProse>>;
+type CapsuleResult = Awaited<ReturnType<typeof generateCapsule>>;
+
+type PrepareQuery = { format?: string; evidence?: string; locale?: string };
+
+// format=prose (default) | capsule | both, evidence=true and locale, in the body or the query string
+function parsePrepareOptions(body: any, query: PrepareQuery):
+    { format: PrepareFormat; withEvidence: boolean; locale?: LocaleCode } | { error: string; details?: string } {
+    const format = (body?.format ?? query.format ?? 'prose') as PrepareFormat;
+    if (!PREPARE_FORMATS.includes(format)) {
+        return { error: 'Invalid format', details: `format must be one of ${PREPARE_FORMATS.join(', ')}` };
+    }
+
+    const requested = body?.locale ?? query.locale;
+    const locale = parseLocale(requested);
+    if (requested !== undefined && !locale) {
+        return { error: 'Invalid locale', details: `locale must be one of ${SUPPORTED_LOCALES.join(', ')}` };
+    }
+    return { format, withEvidence: body?.evidence === true || query.evidence === 'true', locale };
+}
+
+// The requested locale wins over one the extraction carries; the result is set as `extraction.locale`
+function parsePrepareRequest(body: any, query: PrepareQuery):
+    { extraction: any; format: PrepareFormat; withEvidence: boolean; locale: LocaleCode } | { error: string; details?: string } {
+    const extraction = body && body.extraction ? body.extraction : null;
+    if (!extraction || !extraction.scope) {
+        return { error: 'Missing extraction' };
+    }
+
+    const options = parsePrepareOptions(body, query);
+    if ('error' in options) return options;
+
+    const locale = options.locale ?? localeOf(extraction);
+    return { ...options, extraction: withLocale(extraction, locale), locale };
+}
+
+// Fallback prose is built from the extraction, so its evidence is found by matching rather than asking the model
+async function proseEvidence(prose: ProseResult, extraction: any, app: FastifyInstance): Promise<EvidenceTrace> {
+    return prose.isFallback
+        ? matchedEvidenceTrace(prose.documentation, extraction)
+        : traceEvidence(prose.documentation, extraction, app);
+}
+
+// Response body of /ai/prepare, also sent as the final event of /ai/prepare/stream
+function prepareBody(format: PrepareFormat, locale: LocaleCode, prose: ProseResult | null, capsule: CapsuleResult | null, evidence: EvidenceTrace | null) {
+    return {
+        format,
+        locale,
+        ...(prose ? {
+            documentation: prose.documentation,
+            hasValidationWarning: prose.hasValidationWarning,
+            grounding: prose.grounding,
+            ...(prose.isFallback ? { isFallback: true } : {}),
+            ...(evidence ? { evidence } : {})
+        } : {}),
+        ...(capsule ? {
+            capsule: capsule.capsule,
+            capsuleFallback: capsule.isFallback,
+            ...(capsule.errors.length > 0 ? { capsuleErrors: capsule.errors } : {})
+        } : {})
+    };
+}
+
+// Prose and capsule as requested, generated in parallel, and the prose's evidence
+async function prepareDocumentation(extraction: any, format: PrepareFormat, withEvidence: boolean, app: FastifyInstance) {
+    const [prose, capsule] = await Promise.all([
+        format !== 'capsule' ? generateProse(extraction, app) : null,
+        format !== 'prose' ? generateCapsule(extraction, app) : null
+    ]);
+    const evidence = withEvidence && prose ? await proseEvidence(prose, extraction, app) : null;
+    return { prose, capsule, evidence };
+}
+
+/**
+ * Rewrite only the sections of `source` that the changes since `evidence` affect, keeping Human Notes,
+ * locked and hand-edited sections. The model is not called when nothing affects a section. Validators
+ * and grounding run on the merged document without a retry: the designer reviews the diff instead.
+ */
+async function regenerateProse(extraction: any, source: RegenerationSource, evidence: EvidenceSnapshot | null, app: FastifyInstance) {
+    const template = templateOf(extraction);
+    const changes = diffEvidence(evidence, extraction);
+    const plan = planRegeneration(template, source, changes);
+
+    let regenerated: Partial<Record<string, string>> = {};
+    let isFallback = false;
+    if (Object.keys(plan.affected).length > 0) {
+        try {
+            const { systemPrompt, userPrompt, version } = regenerationPrompts(plan, changes, extraction);
+            const result = await callLLM(systemPrompt, userPrompt, app, {
+                id: 'ai-prepare-regenerate',
+                variables: { extraction, previous: source.documentation, sections: Object.keys(plan.affected) },
+                template: { id: 'documentation-regenerate', version }
+            });
+            regenerated = parseRegeneratedSections(plan, result.text);
+        } catch (err) {
+            if (err instanceof CassetteMissError) throw err;
+
+            app.log.error({ err, provider: getLLM().provider.id }, 'Section regeneration failed; using fallback sections');
+            regenerated = parseRegeneratedSections(plan, generateFallbackProse(extraction));
+            isFallback = true;
+        }
+    }
+
+    const { documentation, generatedDocumentation, sections } = mergeRegeneration(plan, regenerated);
+    const validations = runValidators(template, documentation, extraction);
+    const grounding = checkGrounding(documentation, extraction);
+
+    app.log.info({
+        level: template.level,
+        changed: changes.changed,
+        regenerated: sections.filter(section => section.status === 'regenerated').map(section => section.key),
+        preserved: sections.filter(section => section.status === 'preserved').map(section => section.key),
+        validations,
+        groundingScore: grounding.score
+    }, 'Documentation regenerated');
+
+    return {
+        level: template.level,
+        documentation,
+        generatedDocumentation,
+        changes,
+        sections,
+        hasValidationWarning: !Object.values(validations).every(Boolean),
+        grounding,
+        ...(isFallback ? { isFallback: true } : {})
+    };
+}
+
+// The document to regenerate: a saved doc's prose by docId, or one sent as `previous`
+async function regenerationSource(body: any):
+    Promise<(RegenerationSource & { locale?: LocaleCode; evidence: EvidenceSnapshot | null }) | { code: number; error: string; details?: string }> {
+    if (body.docId !== undefined) {
+        if (typeof body.docId !== 'string' || !body.docId) {
+            return { code: 400, error: 'docId must be a string' };
+        }
+        const saved = await findRegenerationSource(body.docId);
+        return saved ?? { code: 404, error: 'Doc has no prose documentation' };
+    }
+
+    const previous = body.previous;
+    if (!previous || typeof previous.documentation !== 'string' || !previous.documentation.trim()) {
+        return { code: 400, error: 'Missing previous documentation', details: 'send docId or previous.documentation' };
+    }
+    return {
+        documentation: previous.documentation,
+        generatedDocumentation: typeof previous.generatedDocumentation === 'string' ? previous.generatedDocumentation : null,
+        locale: parseLocale(previous.locale),
+        evidence: previous.extraction ? evidenceSnapshot(previous.extraction) : null
+    };
+}
+
+type PrepareBody = ReturnType<typeof prepareBody>;
+
+const batchJobs = new BatchJobStore<PrepareBody>();
+
+// Job status for polling: progress counts, and items that fell back to heuristic prose or capsules
+function batchStatus(job: BatchJob<PrepareBody>) {
+    const fallback = job.items.filter(item => item.result && (item.result.isFallback || item.result.capsuleFallback)).length;
+    return {
+        jobId: job.id,
+        status: job.status,
+        total: job.total,
+        concurrency: job.concurrency,
+        createdAt: job.createdAt,
+        ...(job.finishedAt ? { finishedAt: job.finishedAt } : {}),
+        progress: { ...batchProgress(job), fallback },
+        items: job.items
+    };
 }
 
 export async function registerAIRoutes(app: FastifyInstance) {
     app.post('/ai/prepare', async (req, reply) => {
-        const body = req.body as any;
-        const extraction = body && body.extraction ? body.extraction : null;
-        if (!extraction || !extraction.scope) {
-            return reply.code(400).send({ error: 'Missing extraction' });
+        const parsed = parsePrepareRequest(req.body, req.query as any);
+        if ('error' in parsed) {
+            return reply.code(400).send(parsed);
         }
+        const { extraction, format, withEvidence, locale } = parsed;
 
         app.log.info({
             extractionScope: extraction.scope,
+            format,
+            withEvidence,
+            locale,
             textSamplesCount: extraction.textSamples?.length || 0,
             componentsCount: extraction.componentInstances?.length || 0
-        }, 'Processing documentation request with new prose system');
+        }, 'Processing documentation request');
+
+        const { prose, capsule, evidence } = await prepareDocumentation(extraction, format, withEvidence, app);
+
+        // Set warning header if validation issues
+        if (prose?.hasValidationWarning) {
+            reply.header('x-onebrain-validation-warning', `true; grounding=${prose.grounding.score}`);
+        }
+        if (prose?.isFallback || capsule?.isFallback) {
+            reply.header('x-onebrain-fallback', 'true');
+        }
+
+        return reply.send(prepareBody(format, locale, prose, capsule, evidence));
+    });
+
+    /**
+     * /ai/prepare as Server-Sent Events: `start` with the level's headings, then `section` and `token`
+     * events while the model writes, then `done` with the /ai/prepare body once validation (and any
+     * retry) has finished. `done.revised` is true when the final documentation replaces the streamed text.
+     * Accepts the same body and query as /ai/prepare; format must include prose.
+     */
+    app.post('/ai/prepare/stream', async (req, reply) => {
+        const parsed = parsePrepareRequest(req.body, req.query as any);
+        if ('error' in parsed) {
+            return reply.code(400).send(parsed);
+        }
+        const { extraction, format, withEvidence, locale } = parsed;
+        if (format === 'capsule') {
+            return reply.code(400).send({ error: 'Invalid format', details: 'streaming needs format prose or both' });
+        }
+
+        const template = templateOf(extraction);
+        app.log.info({
+            extractionScope: extraction.scope,
+            level: template.level,
+            format,
+            withEvidence,
+            locale
+        }, 'Processing streaming documentation request');
+
+        // Headers set by hooks (CORS) are copied, since the hijacked reply is written directly
+        reply.hijack();
+        for (const [name, value] of Object.entries(reply.getHeaders())) {
+            if (value !== undefined) reply.raw.setHeader(name, value);
+        }
+        reply.raw.writeHead(200, {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive'
+        });
+
+        // Generation carries on if the client disconnects; its events are dropped
+        let closed = false;
+        req.raw.on('close', () => { closed = true; });
+        const send = (event: string, data: unknown) => {
+            if (!closed) reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+        const sendSections = (events: SectionStreamEvent[]) => {
+            for (const { type, ...data } of events) send(type, data);
+        };
 
         try {
-            // Create system prompt and user message
-            const userMessage = createUserMessage(extraction);
-
-            // Call Claude with combined system and developer prompts
-            const combinedPrompt = createCombinedSystemPrompt();
-
-            app.log.info({
-                systemPromptLength: SYSTEM_PROMPT.length,
-                developerPromptLength: DEVELOPER_PROMPT.length,
-                combinedPromptLength: combinedPrompt.length,
-                userMessageLength: userMessage.length
-            }, 'Calling Claude with combined system and developer prompts');
-            const result = await callAnthropicAPIWithSystem(combinedPrompt, userMessage, app);
-
-            // Extract prose response
-            let proseText = '';
-            if (result.content && result.content.length > 0 && result.content[0].type === 'text' && result.content[0].text) {
-                proseText = result.content[0].text;
-            }
-
-            if (!proseText) {
-                throw new Error('Empty response from Claude');
-            }
-
-            // Validate and retry if needed
-            const { text: finalText, hasWarning } = await validateAndRetry(proseText, extraction, app);
-
-            app.log.info({
-                finalTextLength: finalText.length,
-                hasWarning,
-                validationPassed: !hasWarning
-            }, 'Documentation generation completed');
-
-            // Set warning header if validation issues
-            if (hasWarning) {
-                reply.header('x-onebrain-validation-warning', 'true');
-            }
-
-            // Return prose documentation
-            return reply.send({
-                documentation: finalText,
-                format: 'prose',
-                hasValidationWarning: hasWarning
+            send('start', { level: template.level, format, locale, sections: template.sections });
+
+            const sections = new SectionStream(template.sections);
+            let streamed = '';
+            const capsulePromise = format === 'both' ? generateCapsule(extraction, app) : Promise.resolve(null);
+            // Marked handled now: if the prose fails first it is never awaited, and an unhandled
+            // rejection would end the process. Promise.all still sees the error otherwise.
+            capsulePromise.catch(() => {});
+            const prose = await generateProse(extraction, app, delta => {
+                streamed += delta;
+                sendSections(sections.push(delta));
             });
+            sendSections(sections.end());
+
+            const [capsule, evidence] = await Promise.all([
+                capsulePromise,
+                withEvidence ? proseEvidence(prose, extraction, app) : null
+            ]);
+
+            send('done', { ...prepareBody(format, locale, prose, capsule, evidence), revised: prose.documentation !== streamed });
+        } catch (err) {
+            app.log.error({ err }, 'Streaming documentation generation failed');
+            send('error', { error: 'Documentation generation failed', details: err instanceof Error ? err.message : String(err) });
+        } finally {
+            reply.raw.end();
+        }
+    });
+
+    /**
+     * Start a batch: `{ extractions: Extraction[], format?, evidence?, concurrency? }`. Each item gets the
+     * /ai/prepare treatment plus a shared `batchContext`. Answers 202 with the job id; poll the GET route.
+     */
+    app.post('/ai/prepare/batch', async (req, reply) => {
+        const body = req.body as any;
+        const extractions = body?.extractions;
+        if (!Array.isArray(extractions) || extractions.length === 0) {
+            return reply.code(400).send({ error: 'Missing extractions' });
+        }
+        if (extractions.length > MAX_BATCH_SIZE) {
+            return reply.code(400).send({ error: 'Batch too large', details: `at most ${MAX_BATCH_SIZE} extractions per batch` });
+        }
+        const invalid = extractions.map((extraction, index) => (extraction && extraction.scope ? -1 : index)).filter(index => index !== -1);
+        if (invalid.length > 0) {
+            return reply.code(400).send({ error: 'Invalid extractions', details: `missing scope at index ${invalid.join(', ')}` });
+        }
+
+        const options = parsePrepareOptions(body, req.query as any);
+        if ('error' in options) {
+            return reply.code(400).send(options);
+        }
+        const concurrency = Number(body.concurrency ?? DEFAULT_BATCH_CONCURRENCY);
+        if (!Number.isFinite(concurrency) || concurrency < 1) {
+            return reply.code(400).send({ error: 'Invalid concurrency', details: 'concurrency must be a positive number' });
+        }
+
+        const job = batchJobs.create(extractions, concurrency);
+        app.log.info({ jobId: job.id, total: job.total, concurrency: job.concurrency, format: options.format, locale: options.locale }, 'Starting documentation batch');
+
+        // A locale for the whole batch overrides any the extractions carry
+        const localised = extractions.map(extraction => withLocale(extraction, options.locale ?? localeOf(extraction)));
+        runBatch(job, withBatchContext(localised), async extraction => {
+            const { prose, capsule, evidence } = await prepareDocumentation(extraction, options.format, options.withEvidence, app);
+            return prepareBody(options.format, localeOf(extraction), prose, capsule, evidence);
+        }, item => {
+            app.log.info({ jobId: job.id, index: item.index, nodeId: item.nodeId, status: item.status, error: item.error }, 'Batch item finished');
+        }).then(finished => {
+            app.log.info({ jobId: finished.id, progress: batchProgress(finished) }, 'Documentation batch finished');
+        });
+
+        return reply.code(202).send(batchStatus(job));
+    });
+
+    app.get('/ai/prepare/batch/:jobId', async (req, reply) => {
+        const { jobId } = req.params as { jobId: string };
+        const job = batchJobs.get(jobId);
+        if (!job) {
+            return reply.code(404).send({ error: 'Batch job not found' });
+        }
+        return reply.send(batchStatus(job));
+    });
 
+    /**
+     * Re-document a changed node without losing what people wrote. The saved document (`docId`) or the
+     * one sent as `previous` is compared with the new extraction, only the affected sections are
+     * rewritten, and every section is listed as unchanged, regenerated or preserved for the designer
+     * to accept or reject. Nothing is saved here; the accepted document is saved through /docs/prose.
+     */
+    app.post('/ai/prepare/regenerate', async (req, reply) => {
+        const body = req.body as any;
+        const extraction = body?.extraction;
+        if (!extraction || !extraction.scope) {
+            return reply.code(400).send({ error: 'Missing extraction' });
+        }
+        const options = parsePrepareOptions(body, req.query as any);
+        if ('error' in options) {
+            return reply.code(400).send(options);
+        }
+        if (body.locked !== undefined && !(Array.isArray(body.locked) && body.locked.every((heading: unknown) => typeof heading === 'string'))) {
+            return reply.code(400).send({ error: 'locked must be an array of section headings' });
+        }
+
+        let source: Awaited<ReturnType<typeof regenerationSource>>;
+        try {
+            source = await regenerationSource(body);
         } catch (err) {
-            app.log.error({
-                err: err,
-                message: err.message,
-                model: MODEL,
-                project: PROJECT,
-                location: LOCATION
-            }, 'Prose documentation generation failed; using fallback');
+            app.log.error({ err, docId: body.docId }, 'Failed to load documentation to regenerate');
+            return reply.code(500).send({ error: 'Failed to load documentation' });
+        }
+        if ('error' in source) {
+            const { code, ...error } = source;
+            return reply.code(code).send(error);
+        }
 
-            // Generate fallback prose documentation
-            const fallbackText = generateFallbackProse(extraction);
+        // The document keeps its own locale unless another is asked for
+        const locale = options.locale ?? source.locale ?? localeOf(extraction);
+        const result = await regenerateProse(withLocale(extraction, locale), { ...source, locked: body.locked }, source.evidence, app);
 
+        if (result.hasValidationWarning) {
+            reply.header('x-onebrain-validation-warning', `true; grounding=${result.grounding.score}`);
+        }
+        if (result.isFallback) {
             reply.header('x-onebrain-fallback', 'true');
-            return reply.send({
-                documentation: fallbackText,
-                format: 'prose',
-                hasValidationWarning: false,
-                isFallback: true
-            });
         }
+        return reply.send({ mode: 'regenerate', locale, ...result });
+    });
+
+    // Token usage across every LLM call site since the server started
+    app.get('/ai/usage', async (_req, reply) => {
+        const llm = getLLM();
+        return reply.send({ provider: llm.provider.id, model: llm.provider.model, ...usageTracker.snapshot() });
     });
 }
 
 // Generate fallback prose documentation when AI fails
+// Headings follow the extraction's locale; the heuristic text itself is English
 function generateFallbackProse(extraction: any): string {
+    const template = templateOf(extraction);
+    const unknown = LOCALES[template.locale].unknown;
     const nodeName = extraction.nodeName || 'Unknown Screen';
     const textSamples = extraction.textSamples || [];
     const components = extraction.componentInstances || [];
 
     // Basic inference from text content
     const allText = textSamples.join(' ').toLowerCase();
-    let context = 'Unknown';
+    let context = unknown;
     let problem = 'User needs to complete a task efficiently';
     let scenario = 'User interacts with the interface';
     let approach = 'Standard UI patterns and clear visual hierarchy';
@@ -402,148 +589,55 @@ function generateFallbackProse(extraction: any): string {
 
     const componentsList = components.length > 0
         ? components.map(c => c.name).join('; ')
-        : 'Unknown';
-
-    return `Screen Name
-${nodeName}
-
-Product / Project Context
-${context}
+        : unknown;
 
-Problem Being Addressed (Why this screen exists)
-${problem}
-
-User Scenario (What the user is trying to do here)
-${scenario}
-
-Design Approach / Strategy
-${approach}
-
-Intended Outcome
-${outcome}
-
-Key Components Used
-${componentsList}
-
-Human Notes
-
-`;
-}
-
-function schemaFor(level: string) {
-    const common = {
-        title: 'string',
-        product: 'string?',
-        problem: 'string',
-        outcome: 'string?',
-        approach: 'string[]',
-        components: '[{ ds: string, variant?: string }]',
-        links: '[{ label: string, url: string }]',
-        platforms: 'string[]',
-        humanNotes: 'string?',
-        canonical: 'boolean',
-        lastUpdated: 'YYYY-MM-DD'
-    };
-    if (level === 'frame') return { level: 'frame', state: 'success|error|empty|loading|unknown', belongsToFlowId: 'string?', ...common };
-    if (level === 'section') return { level: 'section', keyStates: 'string[]', keyFrames: '[{ title:string, figmaNodeUrl:string }]', belongsToPageId: 'string?', problemTags: 'string[]', patternTags: 'string[]', ...common };
-    if (level === 'page') return { level: 'page', containedFlowIds: 'string[]', belongsToFileId: 'string?', ...common };
-    return { level: 'file', containedPageIds: 'string[]', ...common };
-}
-
-function exampleFor(level: string) {
-    if (level === 'frame') {
-        return {
-            capsule: {
-                level: 'frame',
-                title: 'Wallet Home — Empty State',
-                product: 'Wallet',
-                problem: 'Guide the user when no transactions exist',
-                outcome: 'Increase first action rate',
-                approach: ['Empty-state illustration', 'Primary CTA: Add money', 'Secondary: Link bank'],
-                components: [{ ds: 'Button/Primary', variant: 'Default' }, { ds: 'Card/Empty' }],
-                links: [],
-                platforms: ['iOS'],
-                state: 'empty',
-                humanNotes: ''
-            }
-        };
-    }
+    // Sections, pages and files list what they contain instead of describing a screen
+    const level = template.level;
+    const hints: string[] = extraction.frameNameHints || [];
+    const inventory = hints.length > 0 ? hints.map(hint => `• ${hint}`).join('\n') : unknown;
     if (level === 'section') {
-        return {
-            capsule: {
-                level: 'section',
-                title: 'Top up flow',
-                problem: 'Move funds into wallet',
-                outcome: 'Reduce drop-off on bank step',
-                approach: ['Select source', 'Enter amount', 'Confirm payment'],
-                keyStates: ['success', 'payment failed'],
-                keyFrames: [],
-                platforms: ['iOS']
-            }
-        };
+        const steps = flowSteps(extraction);
+        return renderTemplateSections(template, {
+            'Flow Name': extraction.nodeName || unknown,
+            'Product / Project Context': context,
+            'Problem Being Addressed (Why this flow exists)': problem,
+            'Flow Steps': (steps.length > 0 ? steps : hints).map((name, index) => `${index + 1}. ${name}`).join('\n') || unknown,
+            'Key States': unknown,
+            'Intended Outcome': outcome,
+            'Key Components Used': componentsList,
+            'Human Notes': ''
+        });
     }
-    return {};
-}
-
-function fallbackCapsule(ex: any) {
-    const today = new Date().toISOString().slice(0, 10);
-    const comps = (ex.componentInstances || []).map((c: any) => ({
-        ds: String(c.name || '').split('/').slice(-2).join('/'),
-        variant: c.variant
-    }));
-    const links = ex.nodeId ? [{
-        label: 'Open in Figma',
-        url: 'https://www.figma.com/file/' + ex.fileKey + '?node-id=' + encodeURIComponent(ex.nodeId)
-    }] : [];
-
-    // Generate more realistic content based on extracted data
-    const textSamples = ex.textSamples || [];
-    const frameNames = ex.frameNameHints || [];
-    const allText = [...textSamples, ...frameNames].join(' ').toLowerCase();
-
-    // Infer problem and approach from text content
-    let problem = 'User needs to complete a task efficiently';
-    let approach = ['Clear visual hierarchy', 'Intuitive user flow', 'Accessible design patterns'];
-    let outcome = 'Improved user task completion rate';
-
-    // Basic content inference based on common UI patterns
-    if (allText.includes('sign') || allText.includes('login') || allText.includes('auth')) {
-        problem = 'Users need to securely access their account';
-        approach = ['Simple credential entry', 'Clear error messaging', 'Secure authentication flow'];
-        outcome = 'Reduced login friction and improved security';
-    } else if (allText.includes('search') || allText.includes('find')) {
-        problem = 'Users need to quickly find relevant information';
-        approach = ['Prominent search interface', 'Smart filtering options', 'Clear result presentation'];
-        outcome = 'Faster information discovery';
-    } else if (allText.includes('cart') || allText.includes('buy') || allText.includes('purchase')) {
-        problem = 'Users want to complete purchases smoothly';
-        approach = ['Streamlined checkout flow', 'Clear pricing display', 'Trust indicators'];
-        outcome = 'Higher conversion rates';
-    } else if (allText.includes('profile') || allText.includes('settings') || allText.includes('account')) {
-        problem = 'Users need to manage their account preferences';
-        approach = ['Organized settings layout', 'Clear action buttons', 'Immediate feedback'];
-        outcome = 'Better user control and satisfaction';
-    } else if (textSamples.length > 0) {
-        // Generate content based on actual text found
-        problem = `Users need to interact with ${textSamples.slice(0, 3).join(', ')} functionality`;
-        approach = ['Clear information hierarchy', 'Intuitive interaction patterns', 'Responsive design elements'];
+    if (level === 'page') {
+        return renderTemplateSections(template, {
+            'Page Name': extraction.pageName || extraction.nodeName || unknown,
+            'Product / Project Context': context,
+            'Purpose of This Page': unknown,
+            'Flows on This Page': inventory,
+            'Shared Patterns': unknown,
+            'Key Components Used': componentsList,
+            'Human Notes': ''
+        });
+    }
+    if (level === 'file') {
+        return renderTemplateSections(template, {
+            'Product Name': extraction.fileName || unknown,
+            'Product Overview': context,
+            'Target Users': unknown,
+            'Pages and Areas': extraction.pageName ? `• ${extraction.pageName}` : unknown,
+            'Design System Usage': componentsList,
+            'Human Notes': ''
+        });
     }
 
-    const base = {
-        title: ex.nodeName || ((ex.pageName || '') + ' • ' + (ex.scope || 'frame')),
-        product: undefined,
-        problem: problem,
-        outcome: outcome,
-        approach: approach,
-        components: comps,
-        links: links,
-        platforms: ex.platformHints || [],
-        humanNotes: '',
-        canonical: false,
-        lastUpdated: today
-    };
-    if (ex.scope === 'section') return { level: 'section', keyStates: [], keyFrames: [], ...base };
-    if (ex.scope === 'page') return { level: 'page', containedFlowIds: [], ...base };
-    if (ex.scope === 'file') return { level: 'file', containedPageIds: [], ...base };
-    return { level: 'frame', state: 'unknown', ...base };
+    return renderTemplateSections(template, {
+        'Screen Name': nodeName,
+        'Product / Project Context': context,
+        'Problem Being Addressed (Why this screen exists)': problem,
+        'User Scenario (What the user is trying to do here)': scenario,
+        'Design Approach / Strategy': approach,
+        'Intended Outcome': outcome,
+        'Key Components Used': componentsList,
+        'Human Notes': ''
+    });
 }
@@ -0,0 +1,113 @@
+import { FastifyInstance } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { authorOf } from './docs/author.js';
+import { COVERAGE_DOC_SELECT, PageCoverage, ReportedNode, computeCoverage, parseReportedNodes, percent } from './docs/coverage.js';
+
+const MAX_REPORTED_NODES = 5000;
+
+// Snapshot JSON columns, field by field so the written shape stays type-checked
+function pagesJson(pages: PageCoverage[]): Prisma.InputJsonValue {
+    return pages.map(({ pageName, total, documented, stale, undocumented, coverage, fresh }) =>
+        ({ pageName, total, documented, stale, undocumented, coverage, fresh }));
+}
+
+function nodesJson(nodes: ReportedNode[]): Prisma.InputJsonValue {
+    return nodes.map(({ nodeId, name, type, pageName, lastModified, fingerprint }) =>
+        ({ nodeId, name, type, pageName, lastModified, fingerprint }));
+}
+
+async function coverageFor(fileKey: string, nodes: ReportedNode[]) {
+    const docs = await prisma.doc.findMany({
+        where: { fileKey, nodeId: { in: nodes.map(node => node.nodeId) } },
+        select: COVERAGE_DOC_SELECT
+    });
+    return computeCoverage(nodes, docs);
+}
+
+export async function registerCoverageRoutes(app: FastifyInstance) {
+    // The plugin reports every frame and section in the file; the snapshot keeps the numbers for tracking over time
+    app.post('/coverage/report', async (req, reply) => {
+        const body = req.body as any;
+        const fileKey = body?.fileKey;
+
+        if (!fileKey || typeof fileKey !== 'string') {
+            return reply.code(400).send({ error: 'Missing fileKey' });
+        }
+
+        const { nodes, errors } = parseReportedNodes(body?.nodes);
+        if (errors.length > 0) {
+            return reply.code(400).send({ error: 'Invalid nodes', details: errors.slice(0, 20) });
+        }
+        if (nodes.length > MAX_REPORTED_NODES) {
+            return reply.code(400).send({ error: `At most ${MAX_REPORTED_NODES} nodes per report` });
+        }
+
+        const report = await coverageFor(fileKey, nodes);
+        const snapshot = await prisma.coverageSnapshot.create({
+            data: {
+                fileKey,
+                reportedBy: authorOf(req) ?? null,
+                total: report.total,
+                documented: report.documented,
+                stale: report.stale,
+                undocumented: report.undocumented,
+                pages: pagesJson(report.pages),
+                nodes: nodesJson(nodes)
+            }
+        });
+
+        app.log.info({
+            fileKey,
+            snapshotId: snapshot.id,
+            total: report.total,
+            coverage: report.coverage,
+            stale: report.stale
+        }, 'Coverage reported');
+
+        return reply.code(201).send({ fileKey, snapshotId: snapshot.id, reportedAt: snapshot.createdAt, ...report });
+    });
+
+    // Latest reported nodes checked against the docs as they are now, so docs saved since the report count
+    app.get('/coverage', async (req, reply) => {
+        const fileKey = (req.query as any)?.fileKey?.toString();
+        if (!fileKey) {
+            return reply.code(400).send({ error: 'Missing fileKey' });
+        }
+
+        const latest = await prisma.coverageSnapshot.findFirst({
+            where: { fileKey },
+            orderBy: { createdAt: 'desc' }
+        });
+        if (!latest) {
+            return reply.code(404).send({ error: 'No coverage reported for this file yet' });
+        }
+
+        const report = await coverageFor(fileKey, latest.nodes as unknown as ReportedNode[]);
+        return reply.send({ fileKey, snapshotId: latest.id, reportedAt: latest.createdAt, ...report });
+    });
+
+    app.get('/coverage/history', async (req, reply) => {
+        const { fileKey, limit } = req.query as { fileKey?: string; limit?: string };
+        if (!fileKey) {
+            return reply.code(400).send({ error: 'Missing fileKey' });
+        }
+
+        const take = Math.min(Math.max(Number(limit) || 30, 1), 365);
+        const snapshots = await prisma.coverageSnapshot.findMany({
+            where: { fileKey },
+            orderBy: { createdAt: 'desc' },
+            take,
+            select: { id: true, createdAt: true, reportedBy: true, total: true, documented: true, stale: true, undocumented: true }
+        });
+
+        return reply.send({
+            fileKey,
+            history: snapshots.reverse().map(snapshot => ({
+                ...snapshot,
+                coverage: percent(snapshot.documented + snapshot.stale, snapshot.total),
+                fresh: percent(snapshot.documented, snapshot.total)
+            }))
+        });
+    });
+}
@@ -1,9 +1,472 @@
 import { FastifyInstance } from 'fastify';
+import { Readable } from 'stream';
+import { createGzip } from 'zlib';
+import { prisma } from './prisma.js';
+import { DOC_LEVELS, docToCapsule, validateCapsule } from './docs/capsule.js';
+import { rollbackToRevision, saveCapsuleDoc, saveProseDoc, saveTranslation, updateDoc } from './docs/store.js';
+import { HierarchyError, getAncestors, getChildren, getFileTree } from './docs/hierarchy.js';
+import { authorOf } from './docs/author.js';
+import { findSimilarDocs, mergeDocs } from './docs/similarity.js';
+import { ExportFilters, exportJsonl, exportMarkdownTar, importJsonl } from './docs/transfer.js';
+import { parseSections } from './documentation/prose.js';
+import { levelSections, templateFor, toStoredSections } from './documentation/templates.js';
+import { DEFAULT_LOCALE, LocaleCode, SUPPORTED_LOCALES, parseLocale } from './documentation/locales.js';
+import { TranslationError, translateDoc } from './documentation/translation.js';
+import { evidenceSnapshot } from './documentation/regeneration.js';
+import { CassetteMissError } from './llm/cassette.js';
+import { LLMError } from './llm/types.js';
+
+const MAX_TEXT_SAMPLES = 100;
+const IMPORT_BODY_LIMIT = 50 * 1024 * 1024;
+
+// A doc and its prose as last edited; translations older than this are stale
+function sourceUpdatedAt(doc: { updatedAt: Date; prose?: { updatedAt: Date } | null }): Date {
+    return doc.prose && doc.prose.updatedAt > doc.updatedAt ? doc.prose.updatedAt : doc.updatedAt;
+}
+
+// The doc's capsule with its translated fields, and the translated prose
+function translationBody(doc: Record<string, any>, translation: Record<string, any>, cached: boolean) {
+    return {
+        docId: doc.id,
+        locale: translation.locale,
+        sourceLocale: doc.locale,
+        cached,
+        capsule: {
+            ...docToCapsule(doc),
+            title: translation.title,
+            problem: translation.problem,
+            outcome: translation.outcome ?? undefined,
+            approach: translation.approach,
+            locale: translation.locale
+        },
+        prose: translation.prose ?? null,
+        model: translation.model,
+        translatedAt: translation.updatedAt
+    };
+}
 
 export async function registerDocRoutes(app: FastifyInstance) {
+    // JSONL imports arrive as raw text
+    app.addContentTypeParser('application/x-ndjson', { parseAs: 'string', bodyLimit: IMPORT_BODY_LIMIT }, (req, body, done) => {
+        done(null, body);
+    });
+
     app.post('/docs', async (req, reply) => {
         const body = req.body as any;
-        app.log.info({ capsule: body?.capsule, nodeId: body?.nodeId, fileKey: body?.fileKey }, 'doc saved (stub)');
-        return reply.send({ ok: true });
+        const fileKey = body?.fileKey;
+        const nodeId = body?.nodeId || undefined;
+        const pageName = body?.pageName || undefined;
+
+        if (!fileKey || typeof fileKey !== 'string') {
+            return reply.code(400).send({ error: 'Missing fileKey' });
+        }
+
+        const textSamples = body?.textSamples;
+        if (textSamples !== undefined && (!Array.isArray(textSamples) || textSamples.some((t: any) => typeof t !== 'string'))) {
+            return reply.code(400).send({ error: 'textSamples must be an array of strings' });
+        }
+
+        const fingerprint = body?.fingerprint;
+        if (fingerprint !== undefined && typeof fingerprint !== 'string') {
+            return reply.code(400).send({ error: 'fingerprint must be a string' });
+        }
+
+        const { capsule, errors } = validateCapsule(body?.capsule);
+        if (!capsule) {
+            app.log.warn({ errors, fileKey, nodeId }, 'Rejected invalid capsule');
+            return reply.code(400).send({ error: 'Invalid capsule', details: errors });
+        }
+
+        try {
+            const saved = await saveCapsuleDoc(
+                capsule,
+                { fileKey, nodeId, pageName },
+                { author: authorOf(req) },
+                { textSamples: textSamples?.slice(0, MAX_TEXT_SAMPLES), fingerprint: fingerprint || undefined }
+            );
+
+            app.log.info({
+                id: saved.id,
+                created: saved.created,
+                level: capsule.level,
+                fileKey,
+                nodeId,
+                unresolvedRefs: saved.unresolvedRefs,
+                duplicates: saved.duplicates.length
+            }, 'Doc saved');
+
+            return reply.code(saved.created ? 201 : 200).send({
+                ok: true,
+                id: saved.id,
+                created: saved.created,
+                unresolvedRefs: saved.unresolvedRefs,
+                duplicates: saved.duplicates
+            });
+        } catch (err) {
+            if (err instanceof HierarchyError) {
+                return reply.code(400).send({ error: 'Invalid hierarchy', details: [err.message] });
+            }
+            app.log.error({ err, fileKey, nodeId }, 'Failed to save doc');
+            return reply.code(500).send({ error: 'Failed to save doc' });
+        }
+    });
+
+    app.post('/docs/prose', async (req, reply) => {
+        const body = req.body as any;
+        const fileKey = body?.fileKey;
+        const documentation = body?.documentation;
+        const level = body?.level || 'frame';
+        const locale = body?.locale === undefined ? DEFAULT_LOCALE : parseLocale(body.locale);
+
+        if (!fileKey || typeof fileKey !== 'string') {
+            return reply.code(400).send({ error: 'Missing fileKey' });
+        }
+        if (!documentation || typeof documentation !== 'string' || !documentation.trim()) {
+            return reply.code(400).send({ error: 'Missing documentation' });
+        }
+        if (!DOC_LEVELS.includes(level)) {
+            return reply.code(400).send({ error: `level must be one of ${DOC_LEVELS.join(', ')}` });
+        }
+        if (!locale) {
+            return reply.code(400).send({ error: `locale must be one of ${SUPPORTED_LOCALES.join(', ')}` });
+        }
+        if (body.generatedDocumentation !== undefined && typeof body.generatedDocumentation !== 'string') {
+            return reply.code(400).send({ error: 'generatedDocumentation must be a string' });
+        }
+        if (body.extraction !== undefined && (!body.extraction || typeof body.extraction !== 'object')) {
+            return reply.code(400).send({ error: 'extraction must be an object' });
+        }
+
+        // Each level has its own headings (translated for the locale); those that match a frame section are saved
+        // into it, the rest under their English heading
+        const template = templateFor(level, locale);
+        const { sections, missing } = parseSections(documentation, template.sections);
+        if (missing.length > 0) {
+            return reply.code(400).send({
+                error: 'Invalid prose documentation',
+                details: missing.map(heading => `missing section: ${heading}`)
+            });
+        }
+
+        try {
+            // The generated text and its evidence let /ai/prepare/regenerate tell edits from design changes later
+            const saved = await saveProseDoc(
+                {
+                    documentation: documentation.trim(),
+                    sections: toStoredSections(template, sections),
+                    levelSections: levelSections(template, sections),
+                    level,
+                    locale,
+                    hasValidationWarning: body.hasValidationWarning,
+                    generatedDocumentation: body.generatedDocumentation?.trim(),
+                    evidence: body.extraction ? evidenceSnapshot(body.extraction) : undefined
+                },
+                { fileKey, nodeId: body.nodeId || undefined, pageName: body.pageName || undefined },
+                { author: authorOf(req) }
+            );
+            if (!saved) {
+                return reply.code(400).send({ error: 'Prose does not describe a valid capsule' });
+            }
+
+            app.log.info({ docId: saved.docId, docCreated: saved.created, fileKey, nodeId: body.nodeId, locale }, 'Prose documentation saved');
+            return reply.code(saved.created ? 201 : 200).send({ ok: true, docId: saved.docId, created: saved.created, prose: saved.prose });
+        } catch (err) {
+            app.log.error({ err, fileKey }, 'Failed to save prose documentation');
+            return reply.code(500).send({ error: 'Failed to save prose documentation' });
+        }
+    });
+
+    app.get('/docs/export', async (req, reply) => {
+        const query = req.query as any;
+        const format = query.format || 'jsonl';
+        const filters: ExportFilters = {
+            fileKey: query.fileKey || undefined,
+            product: query.product || undefined,
+            tag: query.tag || undefined
+        };
+
+        if (format !== 'jsonl' && format !== 'markdown') {
+            return reply.code(400).send({ error: 'format must be jsonl or markdown' });
+        }
+
+        app.log.info({ format, filters }, 'Exporting docs');
+
+        if (format === 'markdown') {
+            return reply
+                .type('application/gzip')
+                .header('content-disposition', 'attachment; filename="one-brain-docs.tar.gz"')
+                .send(Readable.from(exportMarkdownTar(filters)).pipe(createGzip()));
+        }
+
+        return reply
+            .type('application/x-ndjson')
+            .header('content-disposition', 'attachment; filename="one-brain-docs.jsonl"')
+            .send(Readable.from(exportJsonl(filters)));
+    });
+
+    app.post('/docs/import', { bodyLimit: IMPORT_BODY_LIMIT }, async (req, reply) => {
+        if (typeof req.body !== 'string') {
+            return reply.code(415).send({ error: 'Send JSONL as application/x-ndjson or text/plain' });
+        }
+
+        try {
+            const result = await importJsonl(req.body, authorOf(req));
+            app.log.info({ created: result.created, updated: result.updated, failed: result.failed.length }, 'Docs imported');
+            return reply.send({ ok: result.failed.length === 0, ...result });
+        } catch (err) {
+            app.log.error({ err }, 'Doc import failed');
+            return reply.code(500).send({ error: 'Import failed' });
+        }
+    });
+
+    app.get('/docs/:id', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const doc = await prisma.doc.findUnique({ where: { id } });
+        if (!doc) {
+            return reply.code(404).send({ error: 'Doc not found' });
+        }
+        return reply.send({ doc, capsule: docToCapsule(doc) });
+    });
+
+    app.get('/docs/:id/prose', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const prose = await prisma.proseDocument.findUnique({ where: { docId: id } });
+        if (!prose) {
+            return reply.code(404).send({ error: 'No prose documentation for this doc' });
+        }
+        return reply.send({ docId: id, prose });
+    });
+
+    /**
+     * Translate a doc and its prose into `locale`. Translations are stored and reused until the doc
+     * or its prose changes; `refresh: true` translates again regardless.
+     */
+    app.post('/docs/:id/translate', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const body = req.body as any;
+        const locale = parseLocale(body?.locale);
+        if (!locale) {
+            return reply.code(400).send({ error: 'Invalid locale', details: [`locale must be one of ${SUPPORTED_LOCALES.join(', ')}`] });
+        }
+
+        const doc = await prisma.doc.findUnique({ where: { id }, include: { prose: true, translations: { where: { locale } } } });
+        if (!doc) {
+            return reply.code(404).send({ error: 'Doc not found' });
+        }
+        const sourceLocale: LocaleCode = parseLocale(doc.locale) ?? DEFAULT_LOCALE;
+        if (sourceLocale === locale) {
+            return reply.code(400).send({ error: 'Doc is already in this locale', details: [`doc locale is ${sourceLocale}`] });
+        }
+
+        const cached = doc.translations[0];
+        const version = sourceUpdatedAt(doc);
+        if (cached && body.refresh !== true && cached.sourceUpdatedAt >= version) {
+            return reply.send(translationBody(doc, cached, true));
+        }
+
+        try {
+            const translated = await translateDoc({
+                level: doc.level,
+                locale: sourceLocale,
+                title: doc.title,
+                problem: doc.problem,
+                outcome: doc.outcome,
+                approach: doc.approach,
+                prose: doc.prose ? { raw: doc.prose.raw, locale: parseLocale(doc.prose.locale) ?? sourceLocale } : null
+            }, locale);
+            const translation = await saveTranslation(id, locale, translated, version);
+
+            app.log.info({ id, locale, sourceLocale, withProse: !!doc.prose, refreshed: !!cached }, 'Doc translated');
+            return reply.send(translationBody(doc, translation, false));
+        } catch (err) {
+            if (err instanceof CassetteMissError) throw err;
+            if (err instanceof TranslationError || err instanceof LLMError) {
+                app.log.warn({ err, id, locale }, 'Doc translation failed');
+                return reply.code(502).send({ error: 'Translation failed', details: [err.message] });
+            }
+            app.log.error({ err, id, locale }, 'Failed to translate doc');
+            return reply.code(500).send({ error: 'Failed to translate doc' });
+        }
+    });
+
+    app.patch('/docs/:id', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const changes = req.body as any;
+
+        if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+            return reply.code(400).send({ error: 'Missing changes' });
+        }
+
+        const existing = await prisma.doc.findUnique({ where: { id } });
+        if (!existing) {
+            return reply.code(404).send({ error: 'Doc not found' });
+        }
+        if (changes.level && changes.level !== existing.level) {
+            return reply.code(400).send({ error: 'level cannot be changed' });
+        }
+
+        const { capsule, errors } = validateCapsule({ ...docToCapsule(existing), ...changes, level: existing.level });
+        if (!capsule) {
+            return reply.code(400).send({ error: 'Invalid changes', details: errors });
+        }
+
+        try {
+            const doc = await updateDoc(id, capsule, {
+                fileKey: existing.fileKey,
+                nodeId: existing.nodeId ?? undefined,
+                pageName: changes.pageName ?? existing.pageName ?? undefined
+            }, { author: authorOf(req) });
+
+            if (!doc) {
+                return reply.code(404).send({ error: 'Doc not found' });
+            }
+
+            app.log.info({ id, fields: Object.keys(changes) }, 'Doc updated');
+            return reply.send({ doc, capsule: docToCapsule(doc) });
+        } catch (err) {
+            if (err instanceof HierarchyError) {
+                return reply.code(400).send({ error: 'Invalid hierarchy', details: [err.message] });
+            }
+            app.log.error({ err, id }, 'Failed to update doc');
+            return reply.code(500).send({ error: 'Failed to update doc' });
+        }
+    });
+
+    app.delete('/docs/:id', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const { count } = await prisma.doc.deleteMany({ where: { id } });
+        if (count === 0) {
+            return reply.code(404).send({ error: 'Doc not found' });
+        }
+        app.log.info({ id }, 'Doc deleted');
+        return reply.code(204).send();
+    });
+
+    app.get('/docs/:id/history', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const doc = await prisma.doc.findUnique({ where: { id }, select: { id: true } });
+        if (!doc) {
+            return reply.code(404).send({ error: 'Doc not found' });
+        }
+
+        const revisions = await prisma.docRevision.findMany({
+            where: { docId: id },
+            orderBy: { revision: 'desc' }
+        });
+
+        return reply.send({ docId: id, revisions });
+    });
+
+    app.get('/docs/:id/children', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const doc = await prisma.doc.findUnique({ where: { id }, select: { id: true } });
+        if (!doc) {
+            return reply.code(404).send({ error: 'Doc not found' });
+        }
+
+        return reply.send({ docId: id, children: await getChildren(prisma, id) });
+    });
+
+    app.get('/docs/:id/ancestors', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const doc = await prisma.doc.findUnique({ where: { id }, select: { id: true } });
+        if (!doc) {
+            return reply.code(404).send({ error: 'Doc not found' });
+        }
+
+        const { ancestors, cycle } = await getAncestors(prisma, id);
+        if (cycle) {
+            app.log.warn({ id }, 'Cycle found while walking doc ancestors');
+        }
+        return reply.send({ docId: id, ancestors, cycle });
+    });
+
+    app.get('/tree', async (req, reply) => {
+        const fileKey = (req.query as any)?.fileKey;
+        if (!fileKey || typeof fileKey !== 'string') {
+            return reply.code(400).send({ error: 'Missing fileKey' });
+        }
+
+        const tree = await getFileTree(prisma, fileKey);
+        if (tree.cycles.length) {
+            app.log.warn({ fileKey, cycles: tree.cycles }, 'Doc hierarchy contains cycles');
+        }
+        return reply.send({ fileKey, ...tree });
+    });
+
+    app.get('/docs/:id/similar', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const query = req.query as any;
+        const minScore = query.minScore !== undefined ? Number(query.minScore) : undefined;
+        const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+
+        if (minScore !== undefined && !(minScore >= 0 && minScore <= 1)) {
+            return reply.code(400).send({ error: 'minScore must be between 0 and 1' });
+        }
+        if (limit !== undefined && !(Number.isInteger(limit) && limit > 0 && limit <= 50)) {
+            return reply.code(400).send({ error: 'limit must be an integer between 1 and 50' });
+        }
+
+        const similar = await findSimilarDocs(id, minScore, limit);
+        if (!similar) {
+            return reply.code(404).send({ error: 'Doc not found' });
+        }
+        return reply.send({ docId: id, similar });
+    });
+
+    app.post('/docs/:id/merge', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const sourceId = (req.body as any)?.sourceId;
+
+        if (!sourceId || typeof sourceId !== 'string') {
+            return reply.code(400).send({ error: 'Missing sourceId' });
+        }
+        if (sourceId === id) {
+            return reply.code(400).send({ error: 'A doc cannot be merged into itself' });
+        }
+
+        const docs = await prisma.doc.findMany({ where: { id: { in: [id, sourceId] } }, select: { id: true, level: true } });
+        if (docs.length !== 2) {
+            return reply.code(404).send({ error: 'Doc not found' });
+        }
+        if (docs[0].level !== docs[1].level) {
+            return reply.code(400).send({ error: 'Only docs at the same level can be merged' });
+        }
+
+        try {
+            const result = await mergeDocs(id, sourceId, authorOf(req));
+            if (!result) {
+                return reply.code(404).send({ error: 'Doc not found' });
+            }
+
+            const { doc, moved, dropped } = result;
+            app.log.info({ id, sourceId, moved, dropped }, 'Docs merged');
+            return reply.send({ doc, capsule: docToCapsule(doc), mergedFrom: sourceId, moved, dropped });
+        } catch (err) {
+            app.log.error({ err, id, sourceId }, 'Failed to merge docs');
+            return reply.code(500).send({ error: 'Failed to merge docs' });
+        }
+    });
+
+    app.post('/docs/:id/rollback', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const revision = Number((req.body as any)?.revision);
+
+        if (!Number.isInteger(revision) || revision < 1) {
+            return reply.code(400).send({ error: 'revision must be a positive integer' });
+        }
+
+        try {
+            const doc = await rollbackToRevision(id, revision, { author: authorOf(req) });
+            if (!doc) {
+                return reply.code(404).send({ error: 'Doc or revision not found' });
+            }
+
+            app.log.info({ id, revision }, 'Doc rolled back');
+            return reply.send({ doc, capsule: docToCapsule(doc) });
+        } catch (err) {
+            app.log.error({ err, id, revision }, 'Failed to roll back doc');
+            return reply.code(500).send({ error: 'Failed to roll back doc' });
+        }
     });
 }
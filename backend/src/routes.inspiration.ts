@@ -1,14 +1,11 @@
 import { FastifyInstance } from 'fastify';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { UnifiedScrapingService } from './scraping/core/UnifiedScrapingService';
 import { SearchIntent as ScrapingSearchIntent, DesignResult } from './scraping/types/scraping.types.js';
-
-const execAsync = promisify(exec);
-
-const MODEL = process.env.ONE_BRAIN_MODEL || 'claude-sonnet-4';
-const LOCATION = process.env.VERTEX_LOCATION || 'us-east5';
-const PROJECT = process.env.VERTEX_PROJECT || 'dev-ai-epsilon';
+import { getLLM } from './llm/client.js';
+import { CassetteMissError } from './llm/cassette.js';
+import { PromptRef, PromptVersionRef } from './llm/types.js';
+import { OUTCOME_TYPES, OutcomeType } from './prompts/experiments.js';
+import { recordOutcome, recordPromptRun, recordResultsFound } from './prompts/runs.js';
 
 // Types for inspiration search (keeping backward compatibility)
 export type SearchIntent = {
@@ -31,69 +28,26 @@ export type MobbinResult = {
 // Global unified scraping service instance
 let unifiedScrapingService: UnifiedScrapingService | null = null;
 
-// Get Google Cloud access token
-async function getAccessToken(): Promise<string> {
-    try {
-        const { stdout } = await execAsync('gcloud auth print-access-token');
-        return stdout.trim();
-    } catch (error) {
-        throw new Error(`Failed to get access token: ${error.message}`);
-    }
-}
-
-// Call Anthropic API via Vertex AI
-async function callAnthropicAPI(systemPrompt: string, userMessage: string, app: FastifyInstance): Promise<any> {
-    const endpoint = `${LOCATION}-aiplatform.googleapis.com`;
-    const url = `https://${endpoint}/v1/projects/${PROJECT}/locations/${LOCATION}/publishers/anthropic/models/${MODEL}:rawPredict`;
+// Call the configured LLM for inspiration search
+async function callLLM(systemPrompt: string, userMessage: string, app: FastifyInstance, prompt: PromptRef) {
+    const llm = getLLM();
 
-    const accessToken = await getAccessToken();
+    app.log.info({
+        provider: llm.provider.id,
+        model: llm.provider.model,
+        promptId: prompt.id,
+        systemPromptLength: systemPrompt.length,
+        userMessageLength: userMessage.length
+    }, 'Calling LLM for inspiration search');
 
-    const requestBody = {
-        anthropic_version: "vertex-2023-10-16",
-        stream: false,
-        max_tokens: 1000,
-        temperature: 0.3,
-        top_p: 1.0,
+    return llm.complete({
         system: systemPrompt,
-        messages: [
-            {
-                role: "user",
-                content: [
-                    {
-                        type: "text",
-                        text: userMessage
-                    }
-                ]
-            }
-        ]
-    };
-
-    app.log.info({
-        url,
-        model: MODEL,
-        requestBodySize: JSON.stringify(requestBody).length
-    }, 'Calling Anthropic API for inspiration search');
-
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json; charset=utf-8'
-        },
-        body: JSON.stringify(requestBody)
+        user: userMessage,
+        maxTokens: 1000,
+        temperature: 0.3,
+        label: prompt.id,
+        prompt
     });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        app.log.error({
-            status: response.status,
-            statusText: response.statusText,
-            errorBody: errorText
-        }, 'Anthropic API call failed');
-        throw new Error(`Anthropic API call failed: ${response.status} - ${errorText}`);
-    }
-
-    return await response.json();
 }
 
 // Extract search intents from problem statement
@@ -125,11 +79,11 @@ Return JSON only.`;
     console.log(`[${new Date().toISOString()}] [INSPIRATION] CALLING_CLAUDE_FOR_SEARCH_INTENTS:`, {
         systemPromptLength: systemPrompt.length,
         userMessageLength: userMessage.length,
-        model: MODEL
+        model: getLLM().provider.model
     });
 
     try {
-        const result = await callAnthropicAPI(systemPrompt, userMessage, app);
+        const result = await callLLM(systemPrompt, userMessage, app, { id: 'inspiration-intents', variables: { problemStatement } });
         const extractionDuration = Date.now() - extractionStartTime;
 
         console.log(`[${new Date().toISOString()}] [INSPIRATION] CLAUDE_RESPONSE_RECEIVED:`, {
@@ -177,6 +131,8 @@ Return JSON only.`;
 
         throw new Error('Invalid response format from Claude');
     } catch (error) {
+        if (error instanceof CassetteMissError) throw error;
+
         const totalExtractionDuration = Date.now() - extractionStartTime;
         console.log(`[${new Date().toISOString()}] [INSPIRATION] SEARCH_INTENT_EXTRACTION_FAILED:`, {
             error: error.message,
@@ -207,7 +163,7 @@ Return JSON only.`;
 }
 
 // Search Mobbin using LLM-enhanced unified scraping
-async function searchMobbin(searchIntents: SearchIntent, problemStatement: string, app: FastifyInstance, debugMode: boolean = false): Promise<{ mobbinResults: MobbinResult[]; finalKeywords: string[] }> {
+async function searchMobbin(searchIntents: SearchIntent, problemStatement: string, app: FastifyInstance, debugMode: boolean = false): Promise<{ mobbinResults: MobbinResult[]; finalKeywords: string[]; prompts: PromptVersionRef[] }> {
     const searchStartTime = Date.now();
     console.log(`[${new Date().toISOString()}] [INSPIRATION] MOBBIN_SEARCH_START:`, {
         searchIntents,
@@ -298,9 +254,11 @@ async function searchMobbin(searchIntents: SearchIntent, problemStatement: strin
             searchMethod: 'intelligent_scraping'
         }, 'Intelligent Mobbin search completed');
 
-        return { mobbinResults, finalKeywords };
+        return { mobbinResults, finalKeywords, prompts: result.metadata.prompts ?? [] };
 
     } catch (error) {
+        if (error instanceof CassetteMissError) throw error;
+
         const searchDuration = Date.now() - searchStartTime;
         console.log(`[${new Date().toISOString()}] [INSPIRATION] MOBBIN_SEARCH_FAILED:`, {
             error: error.message,
@@ -323,7 +281,8 @@ async function searchMobbin(searchIntents: SearchIntent, problemStatement: strin
             }
         ];
 
-        return { mobbinResults: mockResults, finalKeywords: searchIntents.keywords };
+        // Mock results are not attributed to any prompt version
+        return { mobbinResults: mockResults, finalKeywords: searchIntents.keywords, prompts: [] };
     }
 }
 
@@ -367,11 +326,14 @@ Write a helpful response explaining what you found.`;
     console.log(`[${new Date().toISOString()}] [INSPIRATION] CALLING_CLAUDE_FOR_RESPONSE:`, {
         systemPromptLength: systemPrompt.length,
         userMessageLength: userMessage.length,
-        model: MODEL
+        model: getLLM().provider.model
     });
 
     try {
-        const result = await callAnthropicAPI(systemPrompt, userMessage, app);
+        const result = await callLLM(systemPrompt, userMessage, app, {
+            id: 'inspiration-response',
+            variables: { problemStatement, searchIntents, mobbinResults }
+        });
         const responseDuration = Date.now() - responseStartTime;
 
         console.log(`[${new Date().toISOString()}] [INSPIRATION] CLAUDE_RESPONSE_GENERATION_RECEIVED:`, {
@@ -393,6 +355,8 @@ Write a helpful response explaining what you found.`;
 
         throw new Error('Invalid response from Claude');
     } catch (error) {
+        if (error instanceof CassetteMissError) throw error;
+
         const responseDuration = Date.now() - responseStartTime;
         console.log(`[${new Date().toISOString()}] [INSPIRATION] CONVERSATIONAL_RESPONSE_FAILED:`, {
             error: error.message,
@@ -476,6 +440,10 @@ export async function registerInspirationRoutes(app: FastifyInstance) {
 
             const keywordResult = await unifiedScrapingService.extractKeywordsOnly(problemStatement);
 
+            // A run ties the prompt versions behind these keywords to the search and what the designer does next
+            const prompts: PromptVersionRef[] = keywordResult.metadata.prompts ?? [];
+            const runId = prompts.length > 0 ? await recordPromptRun('/inspiration/extract-keywords', prompts, problemStatement) : null;
+
             const totalDuration = Date.now() - requestStartTime;
             console.log(`[${new Date().toISOString()}] [INSPIRATION] EXTRACT_KEYWORDS_SUCCESS:`, {
                 requestId,
@@ -494,7 +462,8 @@ export async function registerInspirationRoutes(app: FastifyInstance) {
 
             return reply.send({
                 keywords: keywordResult.keywords,
-                metadata: keywordResult.metadata
+                metadata: keywordResult.metadata,
+                runId
             });
 
         } catch (err) {
@@ -534,6 +503,7 @@ export async function registerInspirationRoutes(app: FastifyInstance) {
         const body = req.body as any;
         const problemStatement = body?.problemStatement;
         const providedKeywords = body?.keywords; // NEW: Optional keywords for Phase 2
+        const providedRunId = typeof body?.runId === 'string' ? body.runId : null; // Run from /inspiration/extract-keywords
         const debugMode = body?.debugMode === true; // Add debug mode support
 
         if (!problemStatement || typeof problemStatement !== 'string') {
@@ -572,6 +542,8 @@ export async function registerInspirationRoutes(app: FastifyInstance) {
             let mobbinResults: MobbinResult[] = [];
             let finalKeywords: string[] = [];
             let searchIntents: SearchIntent;
+            let runId: string | null = null;
+            let prompts: PromptVersionRef[] = [];
 
             // NEW: Two-phase approach - check if keywords are provided
             if (providedKeywords && Array.isArray(providedKeywords) && providedKeywords.length > 0) {
@@ -604,6 +576,11 @@ export async function registerInspirationRoutes(app: FastifyInstance) {
 
                 finalKeywords = providedKeywords;
 
+                if (providedRunId) {
+                    prompts = await recordResultsFound(providedRunId, mobbinResults.length) ?? [];
+                    runId = prompts.length > 0 ? providedRunId : null;
+                }
+
                 // Create minimal searchIntents for Phase 2 (for conversational response generation)
                 searchIntents = {
                     patterns: [],
@@ -651,7 +628,10 @@ export async function registerInspirationRoutes(app: FastifyInstance) {
                 });
                 app.log.info('Searching Mobbin...');
                 const searchResult = await searchMobbin(searchIntents, problemStatement, app, debugMode);
-                ({ mobbinResults, finalKeywords } = searchResult);
+                ({ mobbinResults, finalKeywords, prompts } = searchResult);
+                if (prompts.length > 0) {
+                    runId = await recordPromptRun('/inspiration/mobbin-search', prompts, problemStatement, mobbinResults.length);
+                }
                 console.log(`[${new Date().toISOString()}] [INSPIRATION] STEP_2_COMPLETE:`, {
                     requestId,
                     resultsCount: mobbinResults.length,
@@ -700,7 +680,9 @@ export async function registerInspirationRoutes(app: FastifyInstance) {
                 conversationalResponse,
                 mobbinLinks: mobbinResults,
                 searchIntents,
-                finalKeywords
+                finalKeywords,
+                runId,
+                prompts
             });
 
         } catch (err) {
@@ -727,4 +709,25 @@ export async function registerInspirationRoutes(app: FastifyInstance) {
             });
         }
     });
+
+    // The plugin reports what the designer did with a run's Mobbin links, for comparing prompt versions
+    app.post('/inspiration/outcomes', async (req, reply) => {
+        const body = req.body as any;
+        const runId = body?.runId;
+        const type = body?.type as OutcomeType;
+        const url = typeof body?.url === 'string' ? body.url : undefined;
+
+        if (!runId || typeof runId !== 'string') {
+            return reply.code(400).send({ error: 'Missing runId' });
+        }
+        if (!OUTCOME_TYPES.includes(type)) {
+            return reply.code(400).send({ error: `type must be one of ${OUTCOME_TYPES.join(', ')}` });
+        }
+
+        const outcome = await recordOutcome(runId, type, url);
+        if (!outcome) {
+            return reply.code(404).send({ error: 'Run not found' });
+        }
+        return reply.code(201).send({ outcome });
+    });
 }
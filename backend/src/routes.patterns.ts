@@ -0,0 +1,108 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { prisma } from './prisma.js';
+import { docToCapsule } from './docs/capsule.js';
+import { authorOf } from './docs/author.js';
+import { CanonicalWorkflowError, getCanonical, proposeCanonical, reviewProposal } from './docs/canonical.js';
+
+const PROPOSAL_STATUSES = ['pending', 'approved', 'rejected', 'superseded'];
+
+function sendWorkflowError(reply: FastifyReply, err: CanonicalWorkflowError) {
+    return reply.code(err.statusCode).send({ error: err.message });
+}
+
+export async function registerPatternRoutes(app: FastifyInstance) {
+    app.post('/patterns/:tag/proposals', async (req, reply) => {
+        const { tag } = req.params as { tag: string };
+        const body = req.body as any;
+        const proposedBy = authorOf(req);
+
+        if (!body?.docId || typeof body.docId !== 'string') {
+            return reply.code(400).send({ error: 'Missing docId' });
+        }
+        if (!body?.platform || typeof body.platform !== 'string') {
+            return reply.code(400).send({ error: 'Missing platform' });
+        }
+        if (!proposedBy) {
+            return reply.code(400).send({ error: 'Missing author (body.author or x-onebrain-user header)' });
+        }
+
+        try {
+            const proposal = await proposeCanonical(prisma, {
+                docId: body.docId,
+                patternTag: tag,
+                platform: body.platform,
+                proposedBy,
+                reason: typeof body.reason === 'string' ? body.reason : undefined
+            });
+
+            app.log.info({ id: proposal.id, docId: proposal.docId, tag, platform: proposal.platform, proposedBy }, 'Canonical proposal created');
+            return reply.code(201).send({ proposal });
+        } catch (err) {
+            if (err instanceof CanonicalWorkflowError) return sendWorkflowError(reply, err);
+            app.log.error({ err, tag }, 'Failed to create canonical proposal');
+            return reply.code(500).send({ error: 'Failed to create proposal' });
+        }
+    });
+
+    app.get('/patterns/:tag/proposals', async (req, reply) => {
+        const { tag } = req.params as { tag: string };
+        const { status, platform } = req.query as { status?: string; platform?: string };
+
+        if (status && !PROPOSAL_STATUSES.includes(status)) {
+            return reply.code(400).send({ error: `status must be one of ${PROPOSAL_STATUSES.join(', ')}` });
+        }
+
+        const proposals = await prisma.canonicalProposal.findMany({
+            where: { patternTag: tag, ...(status ? { status } : {}), ...(platform ? { platform } : {}) },
+            orderBy: { createdAt: 'desc' }
+        });
+        return reply.send({ patternTag: tag, proposals });
+    });
+
+    for (const [action, decision] of [['approve', 'approved'], ['reject', 'rejected']] as const) {
+        app.post(`/patterns/proposals/:id/${action}`, async (req, reply) => {
+            const { id } = req.params as { id: string };
+            const reviewer = authorOf(req);
+            const note = (req.body as any)?.note;
+
+            if (!reviewer) {
+                return reply.code(400).send({ error: 'Missing author (body.author or x-onebrain-user header)' });
+            }
+
+            try {
+                const result = await prisma.$transaction(tx =>
+                    reviewProposal(tx, id, decision, reviewer, typeof note === 'string' ? note : undefined));
+                app.log.info({ id, decision, reviewer, docId: result.proposal.docId }, 'Canonical proposal reviewed');
+                return reply.send(result);
+            } catch (err) {
+                if (err instanceof CanonicalWorkflowError) return sendWorkflowError(reply, err);
+                app.log.error({ err, id, decision }, 'Failed to review canonical proposal');
+                return reply.code(500).send({ error: 'Failed to review proposal' });
+            }
+        });
+    }
+
+    app.get('/patterns/:tag/canonical', async (req, reply) => {
+        const { tag } = req.params as { tag: string };
+        const platform = (req.query as any)?.platform?.toString().trim() || undefined;
+
+        const patterns = await getCanonical(prisma, tag, platform);
+        const canonical = patterns.map(pattern => ({
+            patternTag: pattern.patternTag,
+            platform: pattern.platform,
+            approvedBy: pattern.approvedBy,
+            approvedAt: pattern.approvedAt,
+            doc: pattern.doc,
+            capsule: docToCapsule(pattern.doc)
+        }));
+
+        if (platform) {
+            if (canonical.length === 0) {
+                return reply.code(404).send({ error: `No canonical design for "${tag}" on ${platform}` });
+            }
+            return reply.send(canonical[0]);
+        }
+
+        return reply.send({ patternTag: tag, canonical });
+    });
+}
@@ -0,0 +1,149 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { promptManager } from './prompts/PromptManager.js';
+import { PromptRegistryError, compareVersions, diffPrompts } from './prompts/registry.js';
+import { summarizeExperiment } from './prompts/experiments.js';
+import { runsUsing } from './prompts/runs.js';
+import { usageTracker } from './llm/usage.js';
+import { authorOf } from './docs/author.js';
+
+function sendRegistryError(reply: FastifyReply, err: PromptRegistryError) {
+    return reply.code(err.statusCode).send({ error: err.message });
+}
+
+// An id's versions and which one is served
+function promptSummary(id: string) {
+    const { registry } = promptManager;
+    const active = registry.get(id)!;
+    return {
+        id,
+        name: active.name,
+        description: active.description,
+        tags: active.tags,
+        activeVersion: active.version,
+        pinned: registry.isPinned(id),
+        split: registry.split(id) ?? null,
+        versions: registry.versions(id).map(({ version, lastUpdated }) => ({ version, lastUpdated }))
+    };
+}
+
+/**
+ * Admin routes for the file-based prompt registry: list prompts and their versions, diff two
+ * versions, choose the active one, split traffic between versions and compare how they do.
+ * Prompts are edited as files under the registry directory.
+ */
+export async function registerPromptRoutes(app: FastifyInstance) {
+    app.get('/admin/prompts', async (_req, reply) => {
+        const { registry } = promptManager;
+        return reply.send({
+            dir: registry.dir,
+            prompts: registry.ids().map(promptSummary),
+            errors: registry.errors
+        });
+    });
+
+    app.get('/admin/prompts/:id', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const { registry } = promptManager;
+        if (!registry.get(id)) {
+            return reply.code(404).send({ error: `Prompt ${id} not found` });
+        }
+        return reply.send({ ...promptSummary(id), versions: registry.versions(id) });
+    });
+
+    // from defaults to the version before `to`, and to to the active version
+    app.get('/admin/prompts/:id/diff', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const query = req.query as { from?: string; to?: string };
+        const { registry } = promptManager;
+        if (!registry.get(id)) {
+            return reply.code(404).send({ error: `Prompt ${id} not found` });
+        }
+
+        const to = query.to ?? registry.activeVersion(id)!;
+        const from = query.from ?? registry.versions(id).map(prompt => prompt.version).filter(version => compareVersions(version, to) < 0).at(-1);
+        if (!from) {
+            return reply.code(400).send({ error: `Prompt ${id} has no version before ${to}; pass from` });
+        }
+
+        const fromPrompt = registry.get(id, from);
+        const toPrompt = registry.get(id, to);
+        if (!fromPrompt || !toPrompt) {
+            return reply.code(404).send({ error: `Prompt ${id} has no version ${fromPrompt ? to : from}` });
+        }
+        return reply.send(diffPrompts(fromPrompt, toPrompt));
+    });
+
+    app.post('/admin/prompts/:id/activate', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const version = (req.body as any)?.version;
+        if (!version || typeof version !== 'string') {
+            return reply.code(400).send({ error: 'Missing version' });
+        }
+
+        try {
+            const previous = promptManager.registry.activeVersion(id);
+            const prompt = promptManager.activate(id, version);
+            app.log.info({ id, version, previous, author: authorOf(req) }, 'Prompt version activated');
+            return reply.send({ ...promptSummary(id), previousVersion: previous ?? null, prompt });
+        } catch (err) {
+            if (err instanceof PromptRegistryError) return sendRegistryError(reply, err);
+            app.log.error({ err, id, version }, 'Failed to activate prompt version');
+            return reply.code(500).send({ error: 'Failed to activate prompt version' });
+        }
+    });
+
+    // Weighted traffic split between versions, e.g. { "weights": { "3.7.0": 80, "3.8.0": 20 } }
+    app.put('/admin/prompts/:id/split', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const weights = (req.body as any)?.weights;
+
+        try {
+            const split = promptManager.registry.setSplit(id, weights);
+            app.log.info({ id, split, author: authorOf(req) }, 'Prompt traffic split set');
+            return reply.send(promptSummary(id));
+        } catch (err) {
+            if (err instanceof PromptRegistryError) return sendRegistryError(reply, err);
+            app.log.error({ err, id }, 'Failed to set prompt traffic split');
+            return reply.code(500).send({ error: 'Failed to set prompt traffic split' });
+        }
+    });
+
+    app.delete('/admin/prompts/:id/split', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        if (!promptManager.registry.clearSplit(id)) {
+            return reply.code(404).send({ error: `Prompt ${id} has no traffic split` });
+        }
+        app.log.info({ id, author: authorOf(req) }, 'Prompt traffic split ended');
+        return reply.send(promptSummary(id));
+    });
+
+    // Outcomes of the search runs that used each version, with the LLM usage since the server started
+    app.get('/admin/prompts/:id/report', async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const { since } = req.query as { since?: string };
+        const { registry } = promptManager;
+        if (!registry.get(id)) {
+            return reply.code(404).send({ error: `Prompt ${id} not found` });
+        }
+
+        const sinceDate = since ? new Date(since) : undefined;
+        if (sinceDate && Number.isNaN(sinceDate.getTime())) {
+            return reply.code(400).send({ error: 'since must be a date' });
+        }
+
+        const runs = await runsUsing(id, sinceDate);
+        const report = summarizeExperiment(id, runs, registry.split(id) ?? null, registry.versions(id).map(prompt => prompt.version));
+        const { byPrompt } = usageTracker.snapshot();
+        return reply.send({
+            ...report,
+            since: sinceDate?.toISOString() ?? null,
+            versions: report.versions.map(version => ({ ...version, llm: byPrompt[`${id}@${version.version}`] ?? null }))
+        });
+    });
+
+    app.post('/admin/prompts/reload', async (_req, reply) => {
+        const result = promptManager.reload();
+        app.log.info({ prompts: result.prompts, versions: result.versions, errors: result.errors.length }, 'Prompts reloaded');
+        return reply.send(result);
+    });
+}
@@ -1,32 +1,105 @@
 import { FastifyInstance } from 'fastify';
+import type { Doc } from '@prisma/client';
 import { prisma } from './prisma.js';
+import { buildOrderBy, buildWhere, computeFacets, localiseResult, parseSearchQuery } from './search/query.js';
+import { rankDocuments } from './search/ranking.js';
+import { INDEXABLE_INCLUDE, ensureEmbeddings, loadEmbeddings } from './search/vectors.js';
+import { getEmbedder } from './search/embeddings.js';
 
 export async function registerSearchRoutes(app: FastifyInstance) {
     app.get('/search', async (req, reply) => {
-        const q = (req.query as any).q?.toString().trim() ?? '';
-        const level = (req.query as any).level?.toString();
-        const state = (req.query as any).state?.toString();
-
-        const where: any = {
-            AND: [
-                level ? { level } : {},
-                state ? { state } : {},
-                q ? {
-                    OR: [
-                        { title: { contains: q, mode: 'insensitive' } },
-                        { problem: { contains: q, mode: 'insensitive' } },
-                        { outcome: { contains: q, mode: 'insensitive' } }
-                    ]
-                } : {}
-            ]
-        };
-
-        const results = await prisma.doc.findMany({
-            where,
-            orderBy: [{ canonical: 'desc' }, { updatedAt: 'desc' }],
-            take: 10
-        });
-
-        return reply.send({ results });
+        const { filters, page } = parseSearchQuery(req.query as any);
+
+        // Semantic and hybrid modes rank the filtered set in memory; without a query there is nothing to rank
+        if (page.mode !== 'keyword' && filters.q) {
+            const where = buildWhere(filters, false);
+            // The cursor is the offset of the next page in the ranking
+            const offset = page.cursor === undefined ? 0 : Number(page.cursor);
+            if (!Number.isInteger(offset) || offset < 0) {
+                return reply.code(400).send({ error: 'Invalid cursor' });
+            }
+
+            try {
+                const docs = await prisma.doc.findMany({ where, include: INDEXABLE_INCLUDE });
+                const embedder = getEmbedder();
+                // Read-only: vectors are stored when docs are saved or reindexed, not on the query path
+                const vectors = await loadEmbeddings(docs, embedder);
+                const ranked = await rankDocuments(filters.q, docs, { mode: page.mode, embedder, vectors });
+
+                const byId = new Map<string, Doc>(docs.map(doc => [doc.id, doc]));
+                const matched = ranked.map(r => byId.get(r.id)!);
+                const results = ranked
+                    .slice(offset, offset + page.limit)
+                    .map(r => ({ ...localiseResult(byId.get(r.id)!, filters.locale), score: Number(r.score.toFixed(4)) }));
+                const nextOffset = offset + page.limit;
+
+                return reply.send({
+                    results,
+                    total: ranked.length,
+                    nextCursor: nextOffset < ranked.length ? String(nextOffset) : null,
+                    facets: computeFacets(matched),
+                    mode: page.mode,
+                    embedder: embedder.id
+                });
+            } catch (err) {
+                app.log.error({ err, filters, mode: page.mode }, 'Semantic doc search failed');
+                return reply.code(500).send({ error: 'Search failed' });
+            }
+        }
+
+        const where = buildWhere(filters);
+
+        try {
+            // The cursor is the id of the last doc on the previous page
+            if (page.cursor && !(await prisma.doc.findUnique({ where: { id: page.cursor }, select: { id: true } }))) {
+                return reply.code(400).send({ error: 'Unknown cursor' });
+            }
+
+            const [rows, facetRows, total] = await Promise.all([
+                prisma.doc.findMany({
+                    where,
+                    // Results are shown in the requested locale where a translation exists
+                    ...(filters.locale ? { include: { translations: { where: { locale: filters.locale } } } } : {}),
+                    orderBy: buildOrderBy(page),
+                    take: page.limit + 1,
+                    ...(page.cursor ? { cursor: { id: page.cursor }, skip: 1 } : {})
+                }),
+                prisma.doc.findMany({
+                    where,
+                    select: { platforms: true, problemTags: true, patternTags: true, level: true, locale: true }
+                }),
+                prisma.doc.count({ where })
+            ]);
+
+            const hasMore = rows.length > page.limit;
+            const results = (hasMore ? rows.slice(0, page.limit) : rows).map(row => localiseResult(row, filters.locale));
+
+            return reply.send({
+                results,
+                total,
+                nextCursor: hasMore ? results[results.length - 1].id : null,
+                facets: computeFacets(facetRows),
+                mode: 'keyword'
+            });
+        } catch (err) {
+            app.log.error({ err, filters }, 'Doc search failed');
+            return reply.code(500).send({ error: 'Search failed' });
+        }
+    });
+
+    app.post('/search/reindex', async (req, reply) => {
+        const fileKey = (req.body as any)?.fileKey;
+
+        try {
+            const docs = await prisma.doc.findMany({ where: fileKey ? { fileKey } : {}, include: INDEXABLE_INCLUDE });
+            const embedder = getEmbedder();
+            await ensureEmbeddings(docs, embedder);
+
+            app.log.info({ count: docs.length, fileKey, embedder: embedder.id }, 'Search index rebuilt');
+            return reply.send({ ok: true, indexed: docs.length, embedder: embedder.id });
+        } catch (err) {
+            app.log.error({ err, fileKey }, 'Search reindex failed');
+            return reply.code(500).send({ error: 'Reindex failed' });
+        }
     });
 }
@@ -1,6 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { UnifiedScrapingService } from './scraping/core/UnifiedScrapingService.js';
 import { LLMKeywordService } from './scraping/ai/LLMKeywordService.js';
+import { recordPromptRun } from './prompts/runs.js';
 
 /**
  * Unified Mobbin search route - Same workflow for all keywords
@@ -67,10 +68,16 @@ export async function unifiedRoutes(fastify: FastifyInstance) {
                 keywordGenerationMethod: scrapingResults.metadata.keywordGenerationMethod
             });
 
+            const prompts = scrapingResults.metadata.prompts ?? [];
+            const runId = prompts.length > 0
+                ? await recordPromptRun('/unified/search-llm', prompts, userQuery, scrapingResults.totalResults)
+                : null;
+
             // Format enhanced response with LLM metadata
             const response = {
                 requestId,
                 userQuery,
+                runId,
 
                 // LLM Analysis results
                 analysis: {
@@ -78,7 +85,8 @@ export async function unifiedRoutes(fastify: FastifyInstance) {
                     keywordGenerationMethod: scrapingResults.metadata.keywordGenerationMethod,
                     llmConfidenceScores: scrapingResults.metadata.llmConfidenceScores,
                     routeDecision: scrapingResults.routeDecision,
-                    routeDecisionReason: getRouteDecisionReason(scrapingResults.routeDecision, scrapingResults.keywords)
+                    routeDecisionReason: getRouteDecisionReason(scrapingResults.routeDecision, scrapingResults.keywords),
+                    prompts
                 },
 
                 // Scraping results
@@ -17,6 +17,7 @@ import {
     CATEGORY_SELECTORS,
     FALLBACK_SELECTORS
 } from '../config/mobbin.config.js';
+import { getMockAppsForCategory } from '../config/taxonomy.config.js';
 
 /**
  * Mobbin-specific implementation of the design scraping adapter
@@ -676,7 +677,7 @@ export class MobbinAdapter extends DesignScrapingAdapter {
         const categoryPrefix = strategy.category !== 'general' ? `${strategy.category} ` : '';
 
         // Generate more realistic results based on strategy
-        const mockApps = this.getMockAppsForCategory(strategy.category);
+        const mockApps = getMockAppsForCategory(strategy.category);
         const results: DesignResult[] = [];
 
         for (let i = 0; i < Math.min(3, mockApps.length); i++) {
@@ -698,44 +699,6 @@ export class MobbinAdapter extends DesignScrapingAdapter {
         return results;
     }
 
-    /**
-     * Get mock apps for a specific category (generic, non-branded)
-     */
-    private getMockAppsForCategory(category: string): { name: string; description: string }[] {
-        switch (category) {
-            case 'fintech':
-                return [
-                    { name: 'Banking App', description: 'Digital banking platform' },
-                    { name: 'Payment Service', description: 'Mobile payment solution' },
-                    { name: 'Finance Tracker', description: 'Personal finance management' }
-                ];
-            case 'ecommerce':
-                return [
-                    { name: 'Shopping Platform', description: 'E-commerce marketplace' },
-                    { name: 'Retail Store', description: 'Online retail platform' },
-                    { name: 'Marketplace App', description: 'Digital marketplace' }
-                ];
-            case 'social':
-                return [
-                    { name: 'Social Network', description: 'Social media platform' },
-                    { name: 'Messaging App', description: 'Communication platform' },
-                    { name: 'Community Platform', description: 'Social community app' }
-                ];
-            case 'productivity':
-                return [
-                    { name: 'Workspace App', description: 'Productivity platform' },
-                    { name: 'Task Manager', description: 'Project management tool' },
-                    { name: 'Note Taking App', description: 'Digital note organization' }
-                ];
-            default:
-                return [
-                    { name: 'Design Example', description: 'Sample design pattern' },
-                    { name: 'UI Pattern', description: 'User interface example' },
-                    { name: 'App Template', description: 'Application template' }
-                ];
-        }
-    }
-
     /**
      * Generate mock results based on strategy (legacy method)
      */
@@ -0,0 +1,302 @@
+import { AxisStrategy, LLMKeywordResponse, LLMKeywordResult } from './LLMKeywordServiceV2.js';
+
+/**
+ * Offline evaluation of keyword extraction against a golden set: problem statements with the
+ * keywords, brief type and competitor apps a designer would expect. Each case is scored for
+ * keyword precision and recall, type accuracy of the matched keywords, brief type and competitor
+ * recall; the summary is compared with minimum scores and with a previous scorecard.
+ */
+
+type KeywordType = NonNullable<LLMKeywordResult['type']>;
+type BriefType = AxisStrategy['briefType'];
+
+const KEYWORD_TYPES: KeywordType[] = ['app', 'feature', 'pattern', 'industry'];
+const BRIEF_TYPES: BriefType[] = ['flow', 'pattern', 'component', 'screen', 'style', 'domain'];
+
+export interface GoldenKeyword {
+    term: string;
+    type?: KeywordType;
+    // Other spellings that count as the same keyword, e.g. "2fa" for "two factor"
+    aliases?: string[];
+}
+
+export interface GoldenCase {
+    id: string;
+    problemStatement: string;
+    expected: {
+        keywords: GoldenKeyword[];
+        briefType?: BriefType;
+        competitors?: string[];
+    };
+}
+
+export interface EvaluationThresholds {
+    precision?: number;
+    recall?: number;
+    typeAccuracy?: number;
+    briefTypeAccuracy?: number;
+    competitorRecall?: number;
+    // Largest drop from the baseline scorecard allowed on any score
+    maxRegression?: number;
+}
+
+export interface GoldenSet {
+    description?: string;
+    thresholds: EvaluationThresholds;
+    cases: GoldenCase[];
+}
+
+export interface CaseScore {
+    id: string;
+    generationMethod: LLMKeywordResponse['generationMethod'] | null;
+    keywords: string[];
+    matched: string[];
+    missing: string[];
+    unexpected: string[];
+    precision: number;
+    recall: number;
+    // Matched keywords of the expected type; null when no matched keyword has an expected type
+    typeAccuracy: number | null;
+    briefType: { expected: BriefType; actual: BriefType | null; correct: boolean } | null;
+    competitors: { expected: string[]; found: string[]; recall: number } | null;
+    error?: string;
+}
+
+export interface ScorecardSummary {
+    cases: number;
+    errors: number;
+    fallbacks: number;
+    precision: number;
+    recall: number;
+    f1: number;
+    typeAccuracy: number | null;
+    briefTypeAccuracy: number | null;
+    competitorRecall: number | null;
+}
+
+export interface Scorecard {
+    generatedAt: string;
+    provider: string;
+    model: string;
+    summary: ScorecardSummary;
+    cases: CaseScore[];
+}
+
+export class GoldenSetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GoldenSetError';
+    }
+}
+
+const SCORES = ['precision', 'recall', 'typeAccuracy', 'briefTypeAccuracy', 'competitorRecall'] as const;
+
+export function normalizeTerm(term: string): string {
+    return term.trim().toLowerCase().replace(/[-_]/g, ' ').replace(/\s+/g, ' ');
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+function mean(values: (number | null)[]): number | null {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length === 0 ? null : round(present.reduce((sum, value) => sum + value, 0) / present.length);
+}
+
+/**
+ * Check a parsed golden set file; throws GoldenSetError naming the first problem
+ */
+export function parseGoldenSet(json: any): GoldenSet {
+    if (!json || !Array.isArray(json.cases) || json.cases.length === 0) {
+        throw new GoldenSetError('Golden set needs a non-empty cases list');
+    }
+
+    const ids = new Set<string>();
+    for (const [index, goldenCase] of json.cases.entries()) {
+        const label = goldenCase?.id ? `Case ${goldenCase.id}` : `Case ${index + 1}`;
+        if (typeof goldenCase?.id !== 'string' || !goldenCase.id) throw new GoldenSetError(`${label} needs an id`);
+        if (ids.has(goldenCase.id)) throw new GoldenSetError(`${label} is listed twice`);
+        ids.add(goldenCase.id);
+        if (typeof goldenCase.problemStatement !== 'string' || !goldenCase.problemStatement.trim()) {
+            throw new GoldenSetError(`${label} needs a problemStatement`);
+        }
+
+        const expected = goldenCase.expected;
+        if (!Array.isArray(expected?.keywords) || expected.keywords.length === 0) {
+            throw new GoldenSetError(`${label} needs expected keywords`);
+        }
+        for (const keyword of expected.keywords) {
+            if (typeof keyword?.term !== 'string' || !keyword.term.trim()) throw new GoldenSetError(`${label} has a keyword without a term`);
+            if (keyword.type !== undefined && !KEYWORD_TYPES.includes(keyword.type)) {
+                throw new GoldenSetError(`${label}: keyword "${keyword.term}" has unknown type ${keyword.type}`);
+            }
+        }
+        if (expected.briefType !== undefined && !BRIEF_TYPES.includes(expected.briefType)) {
+            throw new GoldenSetError(`${label} has unknown briefType ${expected.briefType}`);
+        }
+        if (expected.competitors !== undefined && !Array.isArray(expected.competitors)) {
+            throw new GoldenSetError(`${label}: competitors must be a list`);
+        }
+    }
+
+    return { description: json.description, thresholds: json.thresholds ?? {}, cases: json.cases };
+}
+
+/**
+ * Score one generation against its golden case
+ */
+export function scoreCase(goldenCase: GoldenCase, response: LLMKeywordResponse): CaseScore {
+    const { expected } = goldenCase;
+    const generated = response.keywords.map(keyword => ({ ...keyword, term: normalizeTerm(keyword.term) }));
+    const spellings = expected.keywords.map(keyword => new Set([keyword.term, ...(keyword.aliases ?? [])].map(normalizeTerm)));
+
+    // Each expected keyword is matched by the first generated keyword spelled like it
+    const matches = expected.keywords.map((keyword, index) => ({ keyword, generated: generated.find(candidate => spellings[index].has(candidate.term)) }));
+    const matched = matches.filter(match => match.generated);
+    const matchedTerms = new Set(matched.map(match => match.generated!.term));
+    const typed = matched.filter(match => match.keyword.type);
+
+    let competitors: CaseScore['competitors'] = null;
+    if (expected.competitors && expected.competitors.length > 0) {
+        const found = expected.competitors.filter(competitor => {
+            const name = normalizeTerm(competitor);
+            return generated.some(keyword => keyword.term === name || keyword.term.startsWith(`${name} `)
+                || (keyword.parentApp !== undefined && normalizeTerm(keyword.parentApp) === name));
+        });
+        competitors = { expected: expected.competitors, found, recall: round(found.length / expected.competitors.length) };
+    }
+
+    const actualBriefType = response.axisStrategy?.briefType ?? null;
+    return {
+        id: goldenCase.id,
+        generationMethod: response.generationMethod,
+        keywords: generated.map(keyword => keyword.term),
+        matched: matched.map(match => match.keyword.term),
+        missing: matches.filter(match => !match.generated).map(match => match.keyword.term),
+        unexpected: generated.map(keyword => keyword.term).filter(term => !matchedTerms.has(term)),
+        precision: generated.length === 0 ? 0 : round(matchedTerms.size / generated.length),
+        recall: round(matched.length / expected.keywords.length),
+        typeAccuracy: typed.length === 0 ? null : round(typed.filter(match => match.generated!.type === match.keyword.type).length / typed.length),
+        briefType: expected.briefType ? { expected: expected.briefType, actual: actualBriefType, correct: actualBriefType === expected.briefType } : null,
+        competitors
+    };
+}
+
+// A case whose generation threw: it scores zero everywhere it is expected to score
+export function failedCase(goldenCase: GoldenCase, error: unknown): CaseScore {
+    const { expected } = goldenCase;
+    return {
+        id: goldenCase.id,
+        generationMethod: null,
+        keywords: [],
+        matched: [],
+        missing: expected.keywords.map(keyword => keyword.term),
+        unexpected: [],
+        precision: 0,
+        recall: 0,
+        typeAccuracy: expected.keywords.some(keyword => keyword.type) ? 0 : null,
+        briefType: expected.briefType ? { expected: expected.briefType, actual: null, correct: false } : null,
+        competitors: expected.competitors?.length ? { expected: expected.competitors, found: [], recall: 0 } : null,
+        error: error instanceof Error ? error.message : String(error)
+    };
+}
+
+// Scores averaged over cases; a score no case measures is null
+export function summarizeScores(scores: CaseScore[]): ScorecardSummary {
+    const precision = mean(scores.map(score => score.precision)) ?? 0;
+    const recall = mean(scores.map(score => score.recall)) ?? 0;
+    return {
+        cases: scores.length,
+        errors: scores.filter(score => score.error).length,
+        fallbacks: scores.filter(score => score.generationMethod === 'fallback').length,
+        precision,
+        recall,
+        f1: precision + recall === 0 ? 0 : round((2 * precision * recall) / (precision + recall)),
+        typeAccuracy: mean(scores.map(score => score.typeAccuracy)),
+        briefTypeAccuracy: mean(scores.map(score => score.briefType === null ? null : score.briefType.correct ? 1 : 0)),
+        competitorRecall: mean(scores.map(score => score.competitors?.recall ?? null))
+    };
+}
+
+/**
+ * Generate keywords for every case in turn and score them. A failed generation is scored as a
+ * failed case rather than ending the run.
+ */
+export async function evaluateKeywords(
+    cases: GoldenCase[],
+    generate: (problemStatement: string) => Promise<LLMKeywordResponse>,
+    onCase?: (score: CaseScore) => void
+): Promise<{ summary: ScorecardSummary; cases: CaseScore[] }> {
+    const scores: CaseScore[] = [];
+    for (const goldenCase of cases) {
+        let score: CaseScore;
+        try {
+            score = scoreCase(goldenCase, await generate(goldenCase.problemStatement));
+        } catch (error) {
+            score = failedCase(goldenCase, error);
+        }
+        scores.push(score);
+        onCase?.(score);
+    }
+    return { summary: summarizeScores(scores), cases: scores };
+}
+
+/**
+ * Why a summary is not good enough: failed cases, scores under their minimum, and scores that
+ * dropped more than `maxRegression` from the baseline. Empty when quality holds.
+ */
+export function qualityRegressions(summary: ScorecardSummary, thresholds: EvaluationThresholds, baseline?: ScorecardSummary | null): string[] {
+    const problems: string[] = [];
+    if (summary.errors > 0) {
+        problems.push(`${summary.errors} of ${summary.cases} cases failed to generate keywords`);
+    }
+
+    for (const score of SCORES) {
+        const value = summary[score];
+        const minimum = thresholds[score];
+        if (minimum !== undefined && value !== null && value < minimum) {
+            problems.push(`${score} ${value} is below the minimum ${minimum}`);
+        }
+
+        const previous = baseline?.[score];
+        const allowed = thresholds.maxRegression ?? 0;
+        if (previous !== undefined && previous !== null && value !== null && previous - value > allowed + 1e-9) {
+            problems.push(`${score} dropped from ${previous} to ${value} (more than ${allowed})`);
+        }
+    }
+    return problems;
+}
+
+function percent(value: number | null): string {
+    return value === null ? '–' : `${Math.round(value * 100)}%`;
+}
+
+export function formatScorecardMarkdown(scorecard: Scorecard, regressions: string[] = []): string {
+    const { summary } = scorecard;
+    const lines = [
+        '# Keyword Extraction Scorecard',
+        '',
+        `Generated ${scorecard.generatedAt} with ${scorecard.provider}:${scorecard.model}. ${summary.cases} cases, ${summary.errors} failed, ${summary.fallbacks} used the fallback extractor.`,
+        '',
+        '| Precision | Recall | F1 | Type accuracy | Brief type accuracy | Competitor recall |',
+        '|---|---|---|---|---|---|',
+        `| ${percent(summary.precision)} | ${percent(summary.recall)} | ${percent(summary.f1)} | ${percent(summary.typeAccuracy)} | ${percent(summary.briefTypeAccuracy)} | ${percent(summary.competitorRecall)} |`,
+        '',
+        regressions.length === 0 ? '**Quality holds.**' : '**Quality regressed:**',
+        ...regressions.map(regression => `- ${regression}`),
+        '',
+        '## Cases',
+        '',
+        '| Case | Method | Precision | Recall | Types | Brief type | Competitors | Missing |',
+        '|---|---|---|---|---|---|---|---|'
+    ];
+
+    for (const score of scorecard.cases) {
+        const briefType = score.briefType ? `${score.briefType.correct ? '✅' : '❌'} ${score.briefType.actual ?? '–'} (${score.briefType.expected})` : '–';
+        const competitors = score.competitors ? `${score.competitors.found.length}/${score.competitors.expected.length}` : '–';
+        const missing = score.error ? `error: ${score.error}` : score.missing.join(', ') || '–';
+        lines.push(`| ${score.id} | ${score.generationMethod ?? '–'} | ${percent(score.precision)} | ${percent(score.recall)} | ${percent(score.typeAccuracy)} | ${briefType} | ${competitors} | ${missing.replace(/\|/g, '\\|')} |`);
+    }
+    return `${lines.join('\n')}\n`;
+}
@@ -1,13 +1,9 @@
 import { FastifyInstance } from 'fastify';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { promptManager } from '../../prompts/PromptManager.js';
-
-const execAsync = promisify(exec);
-
-const MODEL = process.env.ONE_BRAIN_MODEL || 'claude-sonnet-4';
-const LOCATION = process.env.VERTEX_LOCATION || 'us-east5';
-const PROJECT = process.env.VERTEX_PROJECT || 'dev-ai-epsilon';
+import { getLLM } from '../../llm/client.js';
+import { CassetteMissError } from '../../llm/cassette.js';
+import { PromptRef } from '../../llm/types.js';
+import { extractTaxonomyKeywords } from './TaxonomyKeywordExtractor.js';
 
 export interface LLMKeywordResult {
     term: string;
@@ -65,6 +61,9 @@ export class LLMKeywordService {
             };
 
         } catch (error) {
+            // A missing recording must fail the run, not quietly exercise the fallback
+            if (error instanceof CassetteMissError) throw error;
+
             console.error(`[${new Date().toISOString()}] [LLM_KEYWORDS] GENERATION_FAILED:`, {
                 error: error.message,
                 query: userQuery
@@ -93,10 +92,17 @@ export class LLMKeywordService {
      * Call Claude via Vertex AI for keyword generation
      */
     private async callClaudeForKeywords(userQuery: string): Promise<LLMKeywordResult[]> {
-        const systemPrompt = promptManager.getSystemPrompt('keyword-extraction-v1');
-        const userMessage = promptManager.getUserPrompt('keyword-extraction-v1', { userQuery });
-
-        const result = await this.callAnthropicAPI(systemPrompt, userMessage);
+        const { systemPrompt, userPrompt: userMessage, version } = promptManager.getPrompts(
+            'keyword-extraction-v1',
+            { userQuery },
+            promptManager.assignVersion('keyword-extraction-v1', userQuery)
+        );
+
+        const result = await this.callLLM(systemPrompt, userMessage, {
+            id: 'keyword-extraction-v1',
+            variables: { userQuery },
+            template: { id: 'keyword-extraction-v1', version }
+        });
 
         // Parse and validate the response
         return this.parseAndValidateKeywords(result);
@@ -161,152 +167,36 @@ export class LLMKeywordService {
     }
 
     /**
-     * Generate fallback keywords using simple extraction
+     * Generate fallback keywords from the offline UX taxonomy
      */
     private generateFallbackKeywords(userQuery: string): LLMKeywordResult[] {
         console.log(`[${new Date().toISOString()}] [LLM_KEYWORDS] FALLBACK_EXTRACTION:`, { userQuery });
 
-        const keywords: LLMKeywordResult[] = [];
-        const lowerQuery = userQuery.toLowerCase();
-
-        // Common design/UI keywords that might appear in queries
-        const designKeywords = [
-            'login', 'signup', 'onboarding', 'dashboard', 'profile', 'settings',
-            'banking', 'fintech', 'payment', 'checkout', 'ecommerce', 'wallet',
-            'authentication', 'biometric', 'security', 'verification',
-            'mobile', 'ios', 'android', 'web', 'app', 'website',
-            'dark', 'light', 'minimal', 'modern', 'clean',
-            'navigation', 'menu', 'search', 'filter', 'sort',
-            'card', 'list', 'grid', 'form', 'button', 'input',
-            'modal', 'popup', 'drawer', 'tab', 'carousel',
-            'crypto', 'trading', 'investment', 'portfolio',
-            'social', 'messaging', 'chat', 'feed', 'timeline',
-            'health', 'fitness', 'medical', 'wellness',
-            'education', 'learning', 'course', 'tutorial',
-            'travel', 'booking', 'hotel', 'flight',
-            'food', 'restaurant', 'delivery', 'recipe',
-            'shopping', 'product', 'catalog', 'wishlist'
-        ];
-
-        // Extract matching keywords
-        for (const keyword of designKeywords) {
-            if (lowerQuery.includes(keyword)) {
-                keywords.push({
-                    term: keyword,
-                    confidence: 0.7, // Lower confidence for fallback
-                    reasoning: 'Fallback extraction'
-                });
-            }
-        }
-
-        // If no matches, extract meaningful words from query
-        if (keywords.length === 0) {
-            const words = userQuery.toLowerCase()
-                .replace(/[^\w\s]/g, ' ')
-                .split(/\s+/)
-                .filter(word => word.length > 3)
-                .filter(word => !['with', 'that', 'have', 'need', 'want', 'like', 'show', 'find', 'design', 'inspiration'].includes(word));
-
-            for (const word of words.slice(0, 3)) {
-                keywords.push({
-                    term: word,
-                    confidence: 0.5,
-                    reasoning: 'Word extraction fallback'
-                });
-            }
-        }
-
-        // Ensure we have at least some keywords
-        if (keywords.length === 0) {
-            keywords.push(
-                { term: 'app', confidence: 0.3, reasoning: 'Default fallback' },
-                { term: 'design', confidence: 0.3, reasoning: 'Default fallback' },
-                { term: 'mobile', confidence: 0.3, reasoning: 'Default fallback' }
-            );
-        }
-
-        // Limit to 5 keywords and sort by confidence
-        return keywords
-            .sort((a, b) => b.confidence - a.confidence)
-            .slice(0, 5);
+        // Ranked by confidence; this service has always returned at most 5 terms
+        return extractTaxonomyKeywords(userQuery).keywords.slice(0, 5);
     }
 
     /**
-     * Call Anthropic API via Vertex AI (reused from routes.ai.ts)
+     * Call the configured LLM provider for keyword extraction
      */
-    private async callAnthropicAPI(systemPrompt: string, userMessage: string): Promise<any> {
-        const endpoint = `${LOCATION}-aiplatform.googleapis.com`;
-        const url = `https://${endpoint}/v1/projects/${PROJECT}/locations/${LOCATION}/publishers/anthropic/models/${MODEL}:rawPredict`;
-
-        const accessToken = await this.getAccessToken();
-
-        const requestBody = {
-            anthropic_version: "vertex-2023-10-16",
-            stream: false,
-            max_tokens: 500,  // Reduced for keyword extraction
-            temperature: 0.2, // Low temperature for consistent results
-            top_p: 1.0,
-            system: systemPrompt,
-            messages: [
-                {
-                    role: "user",
-                    content: [
-                        {
-                            type: "text",
-                            text: userMessage
-                        }
-                    ]
-                }
-            ]
-        };
+    private async callLLM(systemPrompt: string, userMessage: string, prompt: PromptRef) {
+        const llm = getLLM();
 
         this.app.log.info({
-            url,
-            model: MODEL,
-            project: PROJECT,
-            location: LOCATION,
-            requestBodySize: JSON.stringify(requestBody).length,
+            provider: llm.provider.id,
+            model: llm.provider.model,
+            promptId: prompt.id,
             systemPromptLength: systemPrompt.length,
             userMessageLength: userMessage.length
-        }, 'Calling Anthropic API for keyword extraction');
-
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${accessToken}`,
-                'Content-Type': 'application/json; charset=utf-8'
-            },
-            body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            this.app.log.error({
-                status: response.status,
-                statusText: response.statusText,
-                errorBody: errorText
-            }, 'Anthropic API call failed for keyword extraction');
-            throw new Error(`Anthropic API call failed: ${response.status} - ${errorText}`);
-        }
-
-        const result = await response.json();
-        this.app.log.info({
-            responseSize: JSON.stringify(result).length,
-            hasContent: !!result.content
-        }, 'Anthropic API response received for keyword extraction');
-
-        return result;
-    }
+        }, 'Calling LLM for keyword extraction');
 
-    /**
-     * Get Google Cloud access token (reused from routes.ai.ts)
-     */
-    private async getAccessToken(): Promise<string> {
-        try {
-            const { stdout } = await execAsync('gcloud auth print-access-token');
-            return stdout.trim();
-        } catch (error) {
-            throw new Error(`Failed to get access token: ${error.message}`);
-        }
+        return llm.complete({
+            system: systemPrompt,
+            user: userMessage,
+            maxTokens: 500,  // Reduced for keyword extraction
+            temperature: 0.2, // Low temperature for consistent results
+            label: prompt.id,
+            prompt
+        });
     }
 }
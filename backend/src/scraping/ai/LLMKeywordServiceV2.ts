@@ -1,13 +1,9 @@
 import { FastifyInstance } from 'fastify';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { promptManager } from '../../prompts/PromptManager.js';
-
-const execAsync = promisify(exec);
-
-const MODEL = process.env.ONE_BRAIN_MODEL || 'claude-sonnet-4';
-const LOCATION = process.env.VERTEX_LOCATION || 'us-east5';
-const PROJECT = process.env.VERTEX_PROJECT || 'dev-ai-epsilon';
+import { getLLM } from '../../llm/client.js';
+import { CassetteMissError } from '../../llm/cassette.js';
+import { PromptRef, PromptVersionRef } from '../../llm/types.js';
+import { extractTaxonomyKeywords } from './TaxonomyKeywordExtractor.js';
 
 export interface LLMKeywordResult {
     term: string;
@@ -74,6 +70,8 @@ export interface LLMKeywordResponse {
     // Optimization additions
     optimizationApplied?: boolean;
     optimizationSummary?: OptimizationSummary;
+    // Prompt versions the keywords came from, for comparing versions in traffic splits
+    prompts?: PromptVersionRef[];
 }
 
 // Optimization interfaces
@@ -99,6 +97,7 @@ export interface OptimizationSummary {
 export interface OptimizationResponse {
     optimizedKeywords: OptimizedKeywordResult[];
     optimizationSummary: OptimizationSummary;
+    prompt?: PromptVersionRef;
 }
 
 /**
@@ -131,6 +130,9 @@ export class LLMKeywordServiceV2 {
             // Attempt V3 extraction first
             return await this.generateKeywordsV3(userQuery, startTime, enableOptimization);
         } catch (v3Error) {
+            // A missing recording must fail the run, not quietly exercise the fallbacks
+            if (v3Error instanceof CassetteMissError) throw v3Error;
+
             const v3ErrorMessage = v3Error instanceof Error ? v3Error.message : String(v3Error);
             console.warn(`[${new Date().toISOString()}] [LLM_KEYWORDS] V3_FAILED, FALLING_BACK_TO_V2:`, {
                 error: v3ErrorMessage,
@@ -141,6 +143,8 @@ export class LLMKeywordServiceV2 {
                 // Fallback to V2
                 return await this.generateKeywordsV2(userQuery, startTime);
             } catch (v2Error) {
+                if (v2Error instanceof CassetteMissError) throw v2Error;
+
                 const v2ErrorMessage = v2Error instanceof Error ? v2Error.message : String(v2Error);
                 console.warn(`[${new Date().toISOString()}] [LLM_KEYWORDS] V2_FAILED, USING_LEGACY_FALLBACK:`, {
                     v3Error: v3ErrorMessage,
@@ -161,11 +165,10 @@ export class LLMKeywordServiceV2 {
         console.log(`[${new Date().toISOString()}] [LLM_KEYWORDS_V3.7] ATTEMPTING_V3.7_EXTRACTION`);
 
         // Use V3.7 by default - intent-aware axis routing
-        const systemPrompt = promptManager.getSystemPrompt('keyword-extraction-v3.7');
-        const userMessage = promptManager.getUserPrompt('keyword-extraction-v3.7', { userQuery });
-
-        const result = await this.callAnthropicAPI(systemPrompt, userMessage);
+        const extraction = this.renderPrompt('keyword-extraction-v3.7', { userQuery }, userQuery);
+        const result = await this.callLLM(extraction.systemPrompt, extraction.userPrompt, extraction.prompt);
         const v3Response = this.parseAndValidateKeywordsV3(result);
+        const prompts: PromptVersionRef[] = [extraction.prompt.template];
 
         const processingTime = Date.now() - startTime;
 
@@ -208,6 +211,7 @@ export class LLMKeywordServiceV2 {
 
                 optimizationApplied = true;
                 optimizationSummary = optimizationResult.optimizationSummary;
+                if (optimizationResult.prompt) prompts.push(optimizationResult.prompt);
 
                 console.log(`[${new Date().toISOString()}] [LLM_KEYWORDS_V3] OPTIMIZATION_SUCCESS:`, {
                     originalCount: keywords.length,
@@ -216,6 +220,8 @@ export class LLMKeywordServiceV2 {
                     rationale: optimizationSummary?.overallRationale || 'No rationale provided'
                 });
             } catch (optimizationError) {
+                if (optimizationError instanceof CassetteMissError) throw optimizationError;
+
                 console.warn(`[${new Date().toISOString()}] [LLM_KEYWORDS_V3] OPTIMIZATION_FAILED:`, {
                     error: optimizationError instanceof Error ? optimizationError.message : String(optimizationError),
                     fallbackToOriginal: true
@@ -247,7 +253,8 @@ export class LLMKeywordServiceV2 {
             axisStrategy: v3Response.axisStrategy,
             version: 'v3',
             optimizationApplied,
-            optimizationSummary
+            optimizationSummary,
+            prompts
         };
     }
 
@@ -257,7 +264,7 @@ export class LLMKeywordServiceV2 {
     private async generateKeywordsV2(userQuery: string, startTime: number): Promise<LLMKeywordResponse> {
         console.log(`[${new Date().toISOString()}] [LLM_KEYWORDS_V2] ATTEMPTING_V2_EXTRACTION`);
 
-        const llmResult = await this.callClaudeForKeywordsV2(userQuery);
+        const { keywords: llmResult, prompt } = await this.callClaudeForKeywordsV2(userQuery);
         const processingTime = Date.now() - startTime;
 
         const enhancedStrategy = this.calculateEnhancedStrategy(llmResult);
@@ -278,45 +285,41 @@ export class LLMKeywordServiceV2 {
             processingTime,
             enhancedStrategy,
             totalThumbnailBudget,
-            version: 'v2'
+            version: 'v2',
+            prompts: [prompt]
         };
     }
 
     /**
-     * Generate fallback keywords (final fallback)
+     * Generate fallback keywords (final fallback) from the offline UX taxonomy
      */
     private generateFallbackKeywords(userQuery: string, startTime: number): LLMKeywordResponse {
-        console.log(`[${new Date().toISOString()}] [LLM_KEYWORDS_FALLBACK] USING_LEGACY_EXTRACTION`);
+        console.log(`[${new Date().toISOString()}] [LLM_KEYWORDS_FALLBACK] USING_TAXONOMY_EXTRACTION`);
 
-        const fallbackKeywords = this.generateEnhancedFallbackKeywords(userQuery);
+        const { keywords, axisStrategy } = extractTaxonomyKeywords(userQuery);
         const processingTime = Date.now() - startTime;
 
-        // Add basic allocation for fallback keywords
-        const enhancedFallbackKeywords = fallbackKeywords.map(keyword => ({
-            ...keyword,
-            type: 'feature' as const,
-            thumbnailAllocation: this.validateThumbnailAllocation(undefined, keyword.confidence),
-            isCompetitor: false
-        }));
-
-        const enhancedStrategy = this.calculateEnhancedStrategy(enhancedFallbackKeywords);
-        const totalThumbnailBudget = enhancedFallbackKeywords.reduce((sum, k) => sum + (k.thumbnailAllocation || 0), 0);
+        const enhancedStrategy = this.calculateEnhancedStrategy(keywords);
+        const totalThumbnailBudget = keywords.reduce((sum, k) => sum + (k.thumbnailAllocation || 0), 0);
 
         console.log(`[${new Date().toISOString()}] [LLM_KEYWORDS_FALLBACK] FALLBACK_COMPLETE:`, {
-            keywordsCount: enhancedFallbackKeywords.length,
+            keywordsCount: keywords.length,
             processingTime,
-            keywords: enhancedFallbackKeywords.map(k => k.term),
+            keywords: keywords.map(k => k.term),
+            typeBreakdown: this.getTypeBreakdown(keywords),
+            briefType: axisStrategy.briefType,
             totalThumbnailBudget,
             enhancedStrategy
         });
 
         return {
-            keywords: enhancedFallbackKeywords,
+            keywords,
             originalQuery: userQuery,
             generationMethod: 'fallback',
             processingTime,
             enhancedStrategy,
-            totalThumbnailBudget
+            totalThumbnailBudget,
+            axisStrategy
         };
     }
 
@@ -375,14 +378,13 @@ export class LLMKeywordServiceV2 {
     /**
      * Call Claude via Vertex AI for keyword generation using V2 prompt
      */
-    private async callClaudeForKeywordsV2(userQuery: string): Promise<LLMKeywordResult[]> {
-        const systemPrompt = promptManager.getSystemPrompt('keyword-extraction-v2');
-        const userMessage = promptManager.getUserPrompt('keyword-extraction-v2', { userQuery });
+    private async callClaudeForKeywordsV2(userQuery: string): Promise<{ keywords: LLMKeywordResult[]; prompt: PromptVersionRef }> {
+        const { systemPrompt, userPrompt, prompt } = this.renderPrompt('keyword-extraction-v2', { userQuery }, userQuery);
 
-        const result = await this.callAnthropicAPI(systemPrompt, userMessage);
+        const result = await this.callLLM(systemPrompt, userPrompt, prompt);
 
         // Parse and validate the response
-        return this.parseAndValidateKeywordsV2(result);
+        return { keywords: this.parseAndValidateKeywordsV2(result), prompt: prompt.template };
     }
 
     /**
@@ -726,213 +728,42 @@ export class LLMKeywordServiceV2 {
     }
 
     /**
-     * Simplified fallback keywords using intent-based extraction
-     */
-    private generateEnhancedFallbackKeywords(userQuery: string): LLMKeywordResult[] {
-        console.log(`[${new Date().toISOString()}] [LLM_KEYWORDS_V2] SIMPLIFIED_FALLBACK:`, { userQuery });
-
-        const keywords: LLMKeywordResult[] = [];
-        const lowerQuery = userQuery.toLowerCase();
-
-        // Simple keyword extraction: look for meaningful words in the query
-        const words = lowerQuery
-            .replace(/[^\w\s]/g, ' ') // Remove punctuation
-            .split(/\s+/) // Split by whitespace
-            .filter(word => word.length > 3) // Filter short words
-            .filter(word => !this.isStopWord(word)) // Remove stop words
-            .slice(0, 5); // Limit to 5 words
-
-        // Convert words to keyword results with confidence based on relevance
-        for (const word of words) {
-            const confidence = this.calculateSimpleConfidence(word, lowerQuery);
-            keywords.push({
-                term: word,
-                confidence,
-                reasoning: 'Simplified fallback extraction'
-            });
-        }
-
-        // If no meaningful words found, use basic defaults
-        if (keywords.length === 0) {
-            keywords.push(
-                { term: 'app', confidence: 0.5, reasoning: 'Default fallback' },
-                { term: 'mobile', confidence: 0.5, reasoning: 'Default fallback' },
-                { term: 'design', confidence: 0.5, reasoning: 'Default fallback' }
-            );
-        }
-
-        // Sort by confidence and ensure 3-5 keywords
-        const sortedKeywords = keywords
-            .sort((a, b) => b.confidence - a.confidence)
-            .slice(0, 5);
-
-        // Ensure at least 3 keywords
-        while (sortedKeywords.length < 3 && sortedKeywords.length < keywords.length) {
-            const nextKeyword = keywords[sortedKeywords.length];
-            if (nextKeyword) {
-                sortedKeywords.push(nextKeyword);
-            } else {
-                break;
-            }
-        }
-
-        console.log(`[${new Date().toISOString()}] [LLM_KEYWORDS_V2] FALLBACK_COMPLETE:`, {
-            extractedKeywords: sortedKeywords.map(k => k.term),
-            keywordCount: sortedKeywords.length
-        });
-
-        return sortedKeywords;
-    }
-
-    /**
-     * Check if a word is a stop word (should be filtered out)
+     * Render a prompt in the version assigned to this query, so a query keeps the same version
+     * while the prompt has a traffic split
      */
-    private isStopWord(word: string): boolean {
-        const stopWords = [
-            'with', 'that', 'have', 'need', 'want', 'like', 'show', 'find',
-            'design', 'inspiration', 'this', 'they', 'will', 'from', 'into',
-            'would', 'could', 'should', 'their', 'them', 'then', 'than',
-            'when', 'where', 'what', 'which', 'while', 'some', 'many',
-            'much', 'more', 'most', 'very', 'also', 'just', 'only'
-        ];
-        return stopWords.includes(word);
-    }
-
-    /**
-     * Calculate simple confidence based on word characteristics and context
-     */
-    private calculateSimpleConfidence(word: string, query: string): number {
-        let confidence = 0.6; // Base confidence
-
-        // Boost confidence for action words (common UI/UX actions)
-        const actionWords = [
-            'login', 'signup', 'checkout', 'payment', 'search', 'filter',
-            'browse', 'redeem', 'activate', 'verify', 'submit', 'save',
-            'share', 'upload', 'download', 'create', 'edit', 'delete'
-        ];
-        if (actionWords.includes(word)) {
-            confidence += 0.2;
-        }
-
-        // Boost confidence for domain words (common app categories)
-        const domainWords = [
-            'offers', 'rewards', 'banking', 'fintech', 'travel', 'food',
-            'shopping', 'social', 'messaging', 'crypto', 'trading',
-            'health', 'fitness', 'education', 'entertainment'
-        ];
-        if (domainWords.includes(word)) {
-            confidence += 0.15;
-        }
-
-        // Boost confidence for UI pattern words
-        const uiWords = [
-            'onboarding', 'dashboard', 'profile', 'settings', 'navigation',
-            'menu', 'modal', 'drawer', 'carousel', 'list', 'card', 'form'
-        ];
-        if (uiWords.includes(word)) {
-            confidence += 0.1;
-        }
-
-        // Boost confidence if word appears multiple times
-        const occurrences = (query.match(new RegExp(word, 'g')) || []).length;
-        if (occurrences > 1) {
-            confidence += 0.1;
-        }
-
-        // Slight penalty for very long words
-        if (word.length > 12) {
-            confidence -= 0.05;
-        }
-
-        // Clamp to valid range
-        return Math.min(Math.max(confidence, 0.5), 1.0);
+    private renderPrompt(id: string, variables: Record<string, string>, userQuery: string) {
+        const { systemPrompt, userPrompt, version } = promptManager.getPrompts(id, variables, promptManager.assignVersion(id, userQuery));
+        return { systemPrompt, userPrompt, prompt: { id, variables, template: { id, version } } };
     }
 
     /**
-     * Call Anthropic API via Vertex AI (enhanced for V2)
+     * Call the configured LLM provider (enhanced for V2)
      */
-    private async callAnthropicAPI(systemPrompt: string, userMessage: string): Promise<any> {
-        const endpoint = `${LOCATION}-aiplatform.googleapis.com`;
-        const url = `https://${endpoint}/v1/projects/${PROJECT}/locations/${LOCATION}/publishers/anthropic/models/${MODEL}:rawPredict`;
-
-        const accessToken = await this.getAccessToken();
+    private async callLLM(systemPrompt: string, userMessage: string, prompt: PromptRef) {
+        const llm = getLLM();
 
         // Determine appropriate token limit based on prompt complexity
         const isV3Prompt = systemPrompt.includes('HUMAN INSPIRATION AXES') || systemPrompt.includes('PCA');
         const maxTokens = isV3Prompt ? 2000 : 800; // V3.6 needs significantly more tokens for 12-18 keywords + complex JSON structure
 
-        const requestBody = {
-            anthropic_version: "vertex-2023-10-16",
-            stream: false,
-            max_tokens: maxTokens,
-            temperature: 0.1, // Lower temperature for consistency
-            top_p: 1.0,
-            system: systemPrompt,
-            messages: [
-                {
-                    role: "user",
-                    content: [
-                        {
-                            type: "text",
-                            text: userMessage
-                        }
-                    ]
-                }
-            ]
-        };
-
         this.app.log.info({
-            url,
-            model: MODEL,
-            project: PROJECT,
-            location: LOCATION,
-            requestBodySize: JSON.stringify(requestBody).length,
+            provider: llm.provider.id,
+            model: llm.provider.model,
+            maxTokens,
+            promptId: prompt.id,
             systemPromptLength: systemPrompt.length,
             userMessageLength: userMessage.length,
             version: 'V2'
-        }, 'Calling Anthropic API for keyword extraction V2');
-
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${accessToken}`,
-                'Content-Type': 'application/json; charset=utf-8'
-            },
-            body: JSON.stringify(requestBody)
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            this.app.log.error({
-                status: response.status,
-                statusText: response.statusText,
-                errorBody: errorText,
-                version: 'V2'
-            }, 'Anthropic API call failed for keyword extraction V2');
-            throw new Error(`Anthropic API V2 call failed: ${response.status} - ${errorText}`);
-        }
-
-        const result = await response.json();
-        this.app.log.info({
-            responseSize: JSON.stringify(result).length,
-            hasContent: !!result.content,
-            version: 'V2'
-        }, 'Anthropic API response received for keyword extraction V2');
+        }, 'Calling LLM for keyword extraction V2');
 
-        return result;
-    }
-
-    /**
-     * Get Google Cloud access token
-     */
-    private async getAccessToken(): Promise<string> {
-        try {
-            const { stdout } = await execAsync('gcloud auth print-access-token');
-            return stdout.trim();
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            throw new Error(`Failed to get access token: ${errorMessage}`);
-        }
+        return llm.complete({
+            system: systemPrompt,
+            user: userMessage,
+            maxTokens,
+            temperature: 0.1, // Lower temperature for consistency
+            label: prompt.id,
+            prompt
+        });
     }
 
     /**
@@ -955,15 +786,15 @@ export class LLMKeywordServiceV2 {
             rationale: k.reasoning || 'Original V3.7 generation'
         }));
 
-        const systemPrompt = promptManager.getSystemPrompt('keyword-optimization');
-        const userMessage = promptManager.getUserPrompt('keyword-optimization', {
+        const variables = {
             userQuery,
             originalKeywords: JSON.stringify(keywordsForPrompt, null, 2)
-        });
+        };
+        const { systemPrompt, userPrompt, prompt } = this.renderPrompt('keyword-optimization', variables, userQuery);
 
-        const result = await this.callAnthropicAPI(systemPrompt, userMessage);
+        const result = await this.callLLM(systemPrompt, userPrompt, prompt);
 
-        return this.parseAndValidateOptimization(result, originalKeywords);
+        return { ...this.parseAndValidateOptimization(result, originalKeywords), prompt: prompt.template };
     }
 
     /**
@@ -1,14 +1,9 @@
 import { FastifyInstance } from 'fastify';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { UnifiedScrapingResult } from '../core/UnifiedScrapingService.js';
 import { promptManager } from '../../prompts/PromptManager.js';
-
-const execAsync = promisify(exec);
-
-const MODEL = process.env.ONE_BRAIN_MODEL || 'claude-sonnet-4';
-const LOCATION = process.env.VERTEX_LOCATION || 'us-east5';
-const PROJECT = process.env.VERTEX_PROJECT || 'dev-ai-epsilon';
+import { getLLM } from '../../llm/client.js';
+import { CassetteMissError } from '../../llm/cassette.js';
+import { PromptRef } from '../../llm/types.js';
 
 export interface ResultCategory {
     category: string;
@@ -83,6 +78,9 @@ export class LLMResultExplanationService {
             };
 
         } catch (error) {
+            // A missing recording must fail the run, not quietly exercise the fallback
+            if (error instanceof CassetteMissError) throw error;
+
             console.error(`[${new Date().toISOString()}] [RESULT_EXPLANATION] GENERATION_FAILED:`, {
                 error: error.message,
                 userQuery
@@ -102,8 +100,7 @@ export class LLMResultExplanationService {
         keywords: string[],
         confidenceScores?: number[]
     ): Promise<Omit<ResultExplanation, 'processingTime'>> {
-        const systemPrompt = promptManager.getSystemPrompt('result-explanation');
-        const userMessage = promptManager.getUserPrompt('result-explanation', {
+        const variables = {
             userQuery,
             results: results.map((result, index) => `
 ${index + 1}. Keyword: ${result.keyword}
@@ -112,9 +109,14 @@ ${index + 1}. Keyword: ${result.keyword}
 `).join(''),
             keywords: keywords.join(', '),
             confidenceScores: confidenceScores ? confidenceScores.map(s => s.toFixed(2)).join(', ') : 'N/A'
-        });
+        };
+        const { systemPrompt, userPrompt: userMessage, version } = promptManager.getPrompts('result-explanation', variables);
 
-        const result = await this.callAnthropicAPI(systemPrompt, userMessage);
+        const result = await this.callLLM(systemPrompt, userMessage, {
+            id: 'result-explanation',
+            variables,
+            template: { id: 'result-explanation', version }
+        });
         return this.parseExplanationResponse(result, results, keywords, confidenceScores);
     }
 
@@ -389,81 +391,26 @@ ${index + 1}. Keyword: ${result.keyword}
     }
 
     /**
-     * Call Anthropic API via Vertex AI (reused from LLMKeywordService)
+     * Call the configured LLM provider for result explanations
      */
-    private async callAnthropicAPI(systemPrompt: string, userMessage: string): Promise<any> {
-        const endpoint = `${LOCATION}-aiplatform.googleapis.com`;
-        const url = `https://${endpoint}/v1/projects/${PROJECT}/locations/${LOCATION}/publishers/anthropic/models/${MODEL}:rawPredict`;
-
-        const accessToken = await this.getAccessToken();
-
-        const requestBody = {
-            anthropic_version: "vertex-2023-10-16",
-            stream: false,
-            max_tokens: 2000,  // Increased for detailed explanations
-            temperature: 0.3,  // Low temperature for consistent, helpful responses
-            top_p: 1.0,
-            system: systemPrompt,
-            messages: [
-                {
-                    role: "user",
-                    content: [
-                        {
-                            type: "text",
-                            text: userMessage
-                        }
-                    ]
-                }
-            ]
-        };
+    private async callLLM(systemPrompt: string, userMessage: string, prompt: PromptRef) {
+        const llm = getLLM();
 
         this.app.log.info({
-            url,
-            model: MODEL,
-            project: PROJECT,
-            location: LOCATION,
-            requestBodySize: JSON.stringify(requestBody).length,
+            provider: llm.provider.id,
+            model: llm.provider.model,
+            promptId: prompt.id,
             systemPromptLength: systemPrompt.length,
             userMessageLength: userMessage.length
-        }, 'Calling Anthropic API for result explanation');
-
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Authorization': `Bearer ${accessToken}`,
-                'Content-Type': 'application/json; charset=utf-8'
-            },
-            body: JSON.stringify(requestBody)
-        });
+        }, 'Calling LLM for result explanation');
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            this.app.log.error({
-                status: response.status,
-                statusText: response.statusText,
-                errorBody: errorText
-            }, 'Anthropic API call failed for result explanation');
-            throw new Error(`Anthropic API call failed: ${response.status} - ${errorText}`);
-        }
-
-        const result = await response.json();
-        this.app.log.info({
-            responseSize: JSON.stringify(result).length,
-            hasContent: !!result.content
-        }, 'Anthropic API response received for result explanation');
-
-        return result;
-    }
-
-    /**
-     * Get Google Cloud access token (reused from LLMKeywordService)
-     */
-    private async getAccessToken(): Promise<string> {
-        try {
-            const { stdout } = await execAsync('gcloud auth print-access-token');
-            return stdout.trim();
-        } catch (error) {
-            throw new Error(`Failed to get access token: ${error.message}`);
-        }
+        return llm.complete({
+            system: systemPrompt,
+            user: userMessage,
+            maxTokens: 2000,  // Increased for detailed explanations
+            temperature: 0.3,  // Low temperature for consistent, helpful responses
+            label: prompt.id,
+            prompt
+        });
     }
 }
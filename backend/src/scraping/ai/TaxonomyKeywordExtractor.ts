@@ -0,0 +1,335 @@
+import {
+    BRIEF_TYPE_CUES,
+    KEYWORD_TAXONOMY,
+    KNOWN_APPS,
+    TAXONOMY_STOP_WORDS,
+    TaxonomyBriefType,
+    TaxonomyEntry,
+    relatedTerms
+} from '../config/taxonomy.config.js';
+import type { AxisStrategy, LLMKeywordResult } from './LLMKeywordServiceV2.js';
+
+export interface TaxonomyExtraction {
+    keywords: LLMKeywordResult[];
+    axisStrategy: AxisStrategy;
+}
+
+const MAX_KEYWORDS = 15;
+const MAX_INFERRED_COMPETITORS = 3;
+const MAX_UNKNOWN_WORDS = 2;
+const MAX_TOTAL_ALLOCATION = 150;
+
+// Briefs this short get an industry + pattern combination as an extra search term
+const SHORT_BRIEF_WORDS = 6;
+// Briefs this long with no other cue describe a whole product
+const DOMAIN_BRIEF_WORDS = 25;
+
+const CONFIDENCE = {
+    namedApp: 0.95,
+    term: 0.9,
+    synonym: 0.85,
+    combination: 0.85,
+    industry: 0.8,
+    industrySynonym: 0.75,
+    competitor: 0.7,
+    related: 0.6,
+    unknownWord: 0.5,
+    fallback: 0.3
+};
+
+interface Phrase {
+    tokens: string[];
+    text: string;
+    entry?: TaxonomyEntry;
+    app?: string;
+}
+
+interface Match {
+    phrase: Phrase;
+    start: number;
+    end: number;
+}
+
+interface Candidate extends LLMKeywordResult {
+    order: number;
+}
+
+/**
+ * Reduce a plural to its singular so "cards" and "card" match
+ */
+function singular(token: string): string {
+    if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+    if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+    return token;
+}
+
+/**
+ * Split text into lowercase, singular word tokens
+ */
+export function taxonomyTokens(text: string): string[] {
+    return text
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .split(' ')
+        .filter(Boolean)
+        .map(singular);
+}
+
+let phrases: Phrase[] | null = null;
+
+// Longest first, so the most specific phrase claims its words
+function taxonomyPhrases(): Phrase[] {
+    if (!phrases) {
+        const all: Phrase[] = [];
+        for (const entry of KEYWORD_TAXONOMY) {
+            for (const text of [entry.term, ...(entry.synonyms ?? [])]) {
+                all.push({ tokens: taxonomyTokens(text), text, entry });
+            }
+        }
+        for (const [app, aliases] of Object.entries(KNOWN_APPS)) {
+            for (const text of [app, ...aliases]) {
+                all.push({ tokens: taxonomyTokens(text), text, app });
+            }
+        }
+        phrases = all.sort((a, b) => b.tokens.length - a.tokens.length);
+    }
+    return phrases;
+}
+
+function indexOfPhrase(tokens: string[], phrase: string[], from = 0): number {
+    for (let i = from; i + phrase.length <= tokens.length; i++) {
+        if (phrase.every((token, offset) => tokens[i + offset] === token)) return i;
+    }
+    return -1;
+}
+
+function findEntry(term: string): TaxonomyEntry | undefined {
+    return KEYWORD_TAXONOMY.find(entry => entry.term === term);
+}
+
+/**
+ * Find taxonomy phrases and app names in the brief, dropping matches that sit inside a longer
+ * match for something else ("tracking" inside "fitness tracking")
+ */
+function findMatches(tokens: string[]): Match[] {
+    const matches: Match[] = [];
+    for (const phrase of taxonomyPhrases()) {
+        for (let start = indexOfPhrase(tokens, phrase.tokens); start !== -1; start = indexOfPhrase(tokens, phrase.tokens, start + 1)) {
+            const end = start + phrase.tokens.length;
+            const target = phrase.entry ?? phrase.app;
+            const inside = matches.some(match => match.start <= start && end <= match.end && (match.phrase.entry ?? match.phrase.app) !== target);
+            if (!inside) {
+                matches.push({ phrase, start, end });
+            }
+        }
+    }
+    return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Apps the brief refers to by style ("Linear-style") or comparison ("like Mint") that the
+ * catalogue does not know
+ */
+function referencedApps(query: string): string[] {
+    const apps: string[] = [];
+    for (const match of query.matchAll(/\b([A-Z][\w.]*)[- ]style\b|\blike ([A-Z][\w.]*)/g)) {
+        const app = (match[1] ?? match[2]).toLowerCase();
+        if (!apps.includes(app)) apps.push(app);
+    }
+    return apps;
+}
+
+function axisFor(type: LLMKeywordResult['type'], entry?: TaxonomyEntry): string {
+    if (type === 'app') return 'direct competitors';
+    if (type === 'industry') return 'category exemplars';
+    if (entry?.aesthetic) return 'aesthetic models';
+    return 'functional micro-patterns';
+}
+
+function inferBriefType(query: string, wordCount: number, entries: TaxonomyEntry[]): { briefType: TaxonomyBriefType; evidence: string } {
+    // "PayPal-style" names an app, it does not ask for a visual style
+    const cueTokens = taxonomyTokens(query.replace(/\b[\w.]+[- ]style\b/gi, ' '));
+    for (const [briefType, cues] of BRIEF_TYPE_CUES) {
+        const cue = cues.find(text => indexOfPhrase(cueTokens, taxonomyTokens(text)) !== -1);
+        if (cue) {
+            return { briefType, evidence: `Brief mentions "${cue}"` };
+        }
+    }
+    if (wordCount >= DOMAIN_BRIEF_WORDS) {
+        return { briefType: 'domain', evidence: `Brief describes a whole product in ${wordCount} words` };
+    }
+    const hinted = entries.find(entry => entry.briefType);
+    if (hinted?.briefType) {
+        return { briefType: hinted.briefType, evidence: `"${hinted.term}" is usually a ${hinted.briefType}` };
+    }
+    return { briefType: 'pattern', evidence: 'No flow, screen, component or style cue in the brief' };
+}
+
+function allocationFor(confidence: number): number {
+    return Math.min(Math.max(Math.round(confidence * 15), 3), 15);
+}
+
+/**
+ * Extract Mobbin search keywords from a brief without an LLM, using the curated UX taxonomy:
+ * phrases and their synonyms map to canonical terms, matched patterns pull in others of their
+ * family, industries suggest competitors from their app catalogue, and apps named in the brief
+ * are kept as-is.
+ * Deterministic: the same brief always gives the same keywords.
+ */
+export function extractTaxonomyKeywords(query: string): TaxonomyExtraction {
+    const tokens = taxonomyTokens(query);
+    const matches = findMatches(tokens);
+    const candidates = new Map<string, Candidate>();
+
+    const add = (candidate: Candidate) => {
+        const existing = candidates.get(candidate.term);
+        if (!existing || candidate.confidence > existing.confidence) {
+            candidates.set(candidate.term, existing ? { ...candidate, order: Math.min(existing.order, candidate.order) } : candidate);
+        }
+    };
+
+    const app = (name: string, confidence: number, reasoning: string, order: number) => add({
+        term: name,
+        confidence,
+        reasoning,
+        type: 'app',
+        isCompetitor: true,
+        parentApp: name,
+        axis: 'direct competitors',
+        order
+    });
+
+    // Terms and apps the brief names
+    const matchedEntries: TaxonomyEntry[] = [];
+    for (const { phrase, start } of matches) {
+        if (phrase.app) {
+            app(phrase.app, CONFIDENCE.namedApp, phrase.text === phrase.app ? 'Named in the brief' : `Brief says "${phrase.text}"`, start);
+            continue;
+        }
+        const entry = phrase.entry!;
+        const exact = phrase.text === entry.term;
+        const confidence = entry.type === 'industry'
+            ? (exact ? CONFIDENCE.industry : CONFIDENCE.industrySynonym)
+            : (exact ? CONFIDENCE.term : CONFIDENCE.synonym);
+        add({
+            term: entry.term,
+            confidence,
+            reasoning: exact ? 'Named in the brief' : `Brief says "${phrase.text}"`,
+            type: entry.type,
+            isCompetitor: false,
+            axis: axisFor(entry.type, entry),
+            order: start
+        });
+        if (!matchedEntries.includes(entry)) matchedEntries.push(entry);
+    }
+
+    referencedApps(query).forEach((name, index) => {
+        if (!candidates.has(name)) app(name, CONFIDENCE.namedApp, 'Brief refers to it as a model', tokens.length + index);
+    });
+
+    // Terms that go with the matched ones
+    matchedEntries.forEach((entry, index) => {
+        for (const term of relatedTerms(entry)) {
+            const related = findEntry(term);
+            const type = related?.type ?? 'feature';
+            add({
+                term,
+                confidence: CONFIDENCE.related,
+                reasoning: `Related to ${entry.term}`,
+                type,
+                isCompetitor: false,
+                axis: axisFor(type, related),
+                order: tokens.length + 100 + index
+            });
+        }
+    });
+
+    // Short briefs like "fintech login" are best searched as the combination too
+    const industry = matchedEntries.find(entry => entry.type === 'industry');
+    const pattern = matchedEntries.find(entry => entry.type === 'pattern');
+    if (industry && pattern && tokens.length <= SHORT_BRIEF_WORDS) {
+        add({
+            term: `${industry.term} ${pattern.term}`,
+            confidence: CONFIDENCE.combination,
+            reasoning: `${pattern.term} in ${industry.term}`,
+            type: 'pattern',
+            isCompetitor: false,
+            axis: 'category exemplars',
+            order: -1
+        });
+    }
+
+    // Competitors of the strongest matches the brief did not name
+    const byStrength = [...matchedEntries].sort((a, b) => (candidates.get(b.term)?.confidence ?? 0) - (candidates.get(a.term)?.confidence ?? 0));
+    let inferred = 0;
+    for (const entry of byStrength) {
+        for (const name of entry.apps ?? []) {
+            if (inferred >= MAX_INFERRED_COMPETITORS || candidates.has(name)) continue;
+            app(name, Math.round((CONFIDENCE.competitor - inferred * 0.05) * 100) / 100, `Competitor for ${entry.term}`, tokens.length + 200 + inferred);
+            inferred++;
+        }
+    }
+
+    // Words outside the taxonomy that still look like the subject of the brief
+    const claimed = new Set(matches.flatMap(match => Array.from({ length: match.end - match.start }, (_, offset) => match.start + offset)));
+    const unknown = tokens.filter((token, index) => !claimed.has(index) && token.length > 3 && !/^\d+$/.test(token) && !TAXONOMY_STOP_WORDS.has(token));
+    for (const word of [...new Set(unknown)].slice(0, candidates.size > 0 ? MAX_UNKNOWN_WORDS : 3)) {
+        if (!candidates.has(word)) {
+            add({ term: word, confidence: CONFIDENCE.unknownWord, reasoning: 'Word from the brief outside the taxonomy', type: 'feature', isCompetitor: false, axis: axisFor('feature'), order: tokens.indexOf(word) });
+        }
+    }
+
+    if (candidates.size === 0) {
+        ['app', 'mobile', 'design'].forEach((term, index) => add({
+            term, confidence: CONFIDENCE.fallback, reasoning: 'Default fallback', type: 'feature', isCompetitor: false, axis: axisFor('feature'), order: index
+        }));
+    }
+
+    const ranked = [...candidates.values()]
+        .sort((a, b) => b.confidence - a.confidence || a.order - b.order)
+        .slice(0, MAX_KEYWORDS);
+
+    const keywords: LLMKeywordResult[] = ranked.map(({ order, ...keyword }) => ({ ...keyword, thumbnailAllocation: allocationFor(keyword.confidence) }));
+    const total = keywords.reduce((sum, keyword) => sum + keyword.thumbnailAllocation!, 0);
+    if (total > MAX_TOTAL_ALLOCATION) {
+        const scale = MAX_TOTAL_ALLOCATION / total;
+        keywords.forEach(keyword => {
+            keyword.thumbnailAllocation = Math.max(Math.floor(keyword.thumbnailAllocation! * scale), 3);
+        });
+    }
+
+    return { keywords, axisStrategy: axisStrategyFor(query, tokens.length, matchedEntries, keywords) };
+}
+
+function axisStrategyFor(query: string, wordCount: number, entries: TaxonomyEntry[], keywords: LLMKeywordResult[]): AxisStrategy {
+    const { briefType, evidence } = inferBriefType(query, wordCount, entries);
+
+    const perAxis = new Map<string, number>();
+    for (const keyword of keywords) {
+        perAxis.set(keyword.axis!, (perAxis.get(keyword.axis!) ?? 0) + keyword.thumbnailAllocation!);
+    }
+    const total = [...perAxis.values()].reduce((sum, value) => sum + value, 0);
+    const axes = [...perAxis.entries()].sort((a, b) => b[1] - a[1]);
+
+    // Round to whole percentages that still add up to 100, the remainder going to the largest axis
+    const allocation: Record<string, string> = {};
+    let assigned = 0;
+    axes.slice(1).forEach(([axis, value]) => {
+        const percent = Math.round((value / total) * 100);
+        allocation[axis] = `${percent}%`;
+        assigned += percent;
+    });
+    const dominantAxis = axes[0]?.[0] ?? 'functional micro-patterns';
+    allocation[dominantAxis] = `${100 - assigned}%`;
+
+    const competitors = keywords.filter(keyword => keyword.isCompetitor).length;
+    return {
+        briefType,
+        dominantAxis,
+        allocation,
+        rationale: `Offline taxonomy extraction: ${entries.length} taxonomy terms matched, ${competitors} competitor apps`,
+        axisEvidence: evidence
+    };
+}
@@ -0,0 +1,322 @@
+import { SEARCH_PATTERNS } from './mobbin.config.js';
+
+/**
+ * Curated UX taxonomy for offline keyword extraction
+ * Used when no LLM is available to turn a brief into Mobbin search terms
+ */
+
+export type TaxonomyBriefType = 'flow' | 'pattern' | 'component' | 'screen' | 'style' | 'domain';
+
+export interface TaxonomyEntry {
+    term: string;
+    type: 'feature' | 'pattern' | 'industry';
+    synonyms?: string[];          // Other ways a brief says the same thing
+    family?: string;              // Pattern family, whose other patterns are searched alongside it
+    apps?: string[];              // Industry's app catalogue, best known first
+    briefType?: TaxonomyBriefType; // What kind of brief it usually signals
+    aesthetic?: boolean;          // Visual style rather than function
+    category?: string;            // Mobbin category (see CATEGORY_SELECTORS)
+}
+
+export interface CatalogueApp {
+    name: string;
+    description: string;
+}
+
+/**
+ * Generic, non-branded apps per Mobbin category, used for mock results
+ */
+export const CATEGORY_APPS: Record<string, CatalogueApp[]> = {
+    fintech: [
+        { name: 'Banking App', description: 'Digital banking platform' },
+        { name: 'Payment Service', description: 'Mobile payment solution' },
+        { name: 'Finance Tracker', description: 'Personal finance management' }
+    ],
+    ecommerce: [
+        { name: 'Shopping Platform', description: 'E-commerce marketplace' },
+        { name: 'Retail Store', description: 'Online retail platform' },
+        { name: 'Marketplace App', description: 'Digital marketplace' }
+    ],
+    social: [
+        { name: 'Social Network', description: 'Social media platform' },
+        { name: 'Messaging App', description: 'Communication platform' },
+        { name: 'Community Platform', description: 'Social community app' }
+    ],
+    productivity: [
+        { name: 'Workspace App', description: 'Productivity platform' },
+        { name: 'Task Manager', description: 'Project management tool' },
+        { name: 'Note Taking App', description: 'Digital note organization' }
+    ],
+    general: [
+        { name: 'Design Example', description: 'Sample design pattern' },
+        { name: 'UI Pattern', description: 'User interface example' },
+        { name: 'App Template', description: 'Application template' }
+    ]
+};
+
+/**
+ * Get the generic apps for a Mobbin category
+ */
+export function getMockAppsForCategory(category: string): CatalogueApp[] {
+    return CATEGORY_APPS[category] ?? CATEGORY_APPS.general;
+}
+
+/**
+ * Industries, detected from the brief and searched as category exemplars. There is one for each
+ * Mobbin category in CATEGORY_APPS, plus verticals Mobbin has no filter for. `apps` is the
+ * industry's app catalogue, best known first, from which competitors are inferred.
+ */
+const INDUSTRIES: TaxonomyEntry[] = [
+    {
+        term: 'fintech', type: 'industry', category: 'fintech',
+        synonyms: ['bank', 'financial', 'money', 'neobank', 'credit card', 'debit card'],
+        apps: ['revolut', 'monzo', 'chase', 'paypal', 'wise', 'cash app', 'venmo', 'nubank', 'mint', 'ynab']
+    },
+    {
+        term: 'ecommerce', type: 'industry', category: 'ecommerce',
+        synonyms: ['e commerce', 'marketplace', 'retail', 'online store', 'shop', 'store'],
+        apps: ['amazon', 'etsy', 'ebay', 'shopify', 'shein', 'zalando']
+    },
+    {
+        term: 'social', type: 'industry', category: 'social',
+        synonyms: ['social network', 'social media', 'community'],
+        apps: ['instagram', 'tiktok', 'reddit', 'pinterest', 'discord', 'whatsapp', 'snapchat']
+    },
+    {
+        term: 'productivity', type: 'industry', category: 'productivity',
+        synonyms: ['note taking', 'notes', 'workspace', 'task', 'task manager', 'task management', 'todo', 'to do', 'project management', 'collaboration'],
+        apps: ['notion', 'todoist', 'asana', 'trello', 'evernote', 'linear', 'slack']
+    },
+    {
+        term: 'fitness', type: 'industry',
+        synonyms: ['health and fitness', 'fitness tracking', 'fitness app', 'workout', 'exercise', 'gym', 'running', 'health', 'wellness', 'meditation', 'mindfulness', 'sleep', 'nutrition'],
+        apps: ['strava', 'myfitnesspal', 'nike training club', 'peloton', 'headspace', 'calm', 'fitbit']
+    },
+    {
+        term: 'healthcare', type: 'industry',
+        synonyms: ['medical', 'doctor', 'clinic', 'patient', 'telehealth', 'pharmacy'],
+        apps: ['zocdoc', 'one medical', 'teladoc', 'doctolib']
+    },
+    {
+        term: 'food delivery', type: 'industry',
+        synonyms: ['food ordering', 'takeaway', 'takeout', 'restaurant', 'grocery', 'grocery delivery'],
+        apps: ['doordash', 'uber eats', 'grubhub', 'deliveroo', 'instacart']
+    },
+    {
+        term: 'travel', type: 'industry',
+        synonyms: ['hotel', 'flight', 'trip', 'vacation rental', 'accommodation', 'airline'],
+        apps: ['airbnb', 'booking.com', 'expedia', 'skyscanner', 'hopper', 'tripadvisor']
+    },
+    {
+        term: 'crypto', type: 'industry', category: 'fintech',
+        synonyms: ['cryptocurrency', 'bitcoin', 'trading', 'investing', 'investment', 'portfolio', 'stocks'],
+        apps: ['coinbase', 'robinhood', 'binance', 'etoro']
+    },
+    {
+        term: 'education', type: 'industry',
+        synonyms: ['learning', 'course', 'e learning', 'language learning', 'school', 'study'],
+        apps: ['duolingo', 'coursera', 'khan academy', 'babbel', 'quizlet']
+    },
+    {
+        term: 'ride hailing', type: 'industry',
+        synonyms: ['ride sharing', 'rideshare', 'taxi', 'ride', 'scooter'],
+        apps: ['uber', 'lyft', 'bolt', 'grab']
+    },
+    {
+        term: 'entertainment', type: 'industry',
+        synonyms: ['streaming', 'music', 'video', 'podcast'],
+        apps: ['spotify', 'netflix', 'youtube', 'disney plus']
+    }
+];
+
+/**
+ * Flows, screens, components and features a designer searches for, in families. The first
+ * families are the SEARCH_PATTERNS groups; a family lists its most searched pattern first, and
+ * a matched pattern is searched with the first others of its family (see relatedTerms).
+ */
+const PATTERN_FAMILIES: Record<string, TaxonomyEntry[]> = {
+    authentication: [
+        { term: 'login', type: 'pattern', synonyms: ['log in', 'sign in', 'signin', 'authentication'] },
+        { term: 'signup', type: 'pattern', synonyms: ['sign up', 'register', 'registration', 'create account'], briefType: 'flow' },
+        { term: 'social login', type: 'pattern', synonyms: ['oauth', 'sign in with apple', 'sign in with google'] },
+        { term: 'otp', type: 'pattern', synonyms: ['one time password', 'verification code', 'sms code', 'passcode'] },
+        { term: 'biometric', type: 'feature', synonyms: ['biometrics', 'face id', 'touch id', 'fingerprint'] },
+        { term: 'two factor', type: 'feature', synonyms: ['2fa', 'two factor authentication', 'mfa', 'multi factor'] },
+        { term: 'password reset', type: 'pattern', synonyms: ['forgot password', 'reset password'], briefType: 'flow' }
+    ],
+    onboarding: [
+        { term: 'onboarding', type: 'pattern', synonyms: ['welcome', 'getting started', 'first time', 'first run', 'walkthrough', 'tutorial'], briefType: 'flow' },
+        { term: 'permissions', type: 'pattern', synonyms: ['permission', 'allow access', 'connect device', 'pairing', 'pair device'] },
+        { term: 'personalization', type: 'feature', synonyms: ['personalisation', 'personalize', 'personalise', 'interests'] },
+        { term: 'goal setting', type: 'feature', synonyms: ['goal', 'set goals'] }
+    ],
+    ecommerce: [
+        { term: 'checkout', type: 'pattern', synonyms: ['check out'], briefType: 'flow' },
+        { term: 'cart', type: 'pattern', synonyms: ['shopping cart', 'basket', 'bag'] },
+        { term: 'product page', type: 'pattern', synonyms: ['product', 'product detail', 'pdp'] },
+        { term: 'payment', type: 'feature', synonyms: ['payment method', 'pay'] },
+        { term: 'guest checkout', type: 'pattern', synonyms: ['checkout as guest'], briefType: 'flow' },
+        { term: 'saved cards', type: 'feature', synonyms: ['card management', 'add card', 'stored card', 'saved payment method'] },
+        { term: 'wishlist', type: 'feature', synonyms: ['wish list', 'favorite', 'favourite', 'save for later'] },
+        { term: 'reviews', type: 'pattern', synonyms: ['review', 'rating', 'ratings'] }
+    ],
+    fintech: [
+        { term: 'card', type: 'feature', synonyms: ['virtual card', 'card details', 'freeze card'] },
+        { term: 'transaction', type: 'pattern', synonyms: ['transaction history', 'activity'] },
+        { term: 'kyc', type: 'pattern', synonyms: ['identity verification', 'id verification', 'verify identity', 'know your customer'], briefType: 'flow' },
+        { term: 'transfer', type: 'feature', synonyms: ['send money', 'money transfer', 'p2p'] },
+        { term: 'budget', type: 'feature', synonyms: ['budgeting'] },
+        { term: 'spending', type: 'feature', synonyms: ['spend', 'expense', 'spending insights'] },
+        { term: 'wallet', type: 'feature', synonyms: ['digital wallet'] }
+    ],
+    social: [
+        { term: 'feed', type: 'pattern', synonyms: ['news feed', 'timeline'] },
+        { term: 'profile', type: 'pattern', synonyms: ['user profile', 'account page'] },
+        { term: 'chat', type: 'pattern', synonyms: ['messaging', 'message', 'direct message', 'dm', 'inbox'] },
+        { term: 'comments', type: 'pattern', synonyms: ['comment', 'reply'] },
+        { term: 'stories', type: 'pattern', synonyms: ['story'] },
+        { term: 'followers', type: 'feature', synonyms: ['follow', 'following'] },
+        { term: 'share', type: 'feature', synonyms: ['sharing', 'share sheet'] }
+    ],
+    navigation: [
+        { term: 'navigation', type: 'pattern', synonyms: ['nav', 'menu', 'sidebar', 'tabs', 'tab bar', 'bottom nav'] },
+        { term: 'search', type: 'pattern', synonyms: ['search bar'] },
+        { term: 'filters', type: 'pattern', synonyms: ['filter', 'sort', 'sorting'] },
+        { term: 'categories', type: 'pattern', synonyms: ['category'] }
+    ],
+    loyalty: [
+        { term: 'rewards', type: 'feature', synonyms: ['reward', 'loyalty', 'points', 'loyalty program'] },
+        { term: 'offers', type: 'feature', synonyms: ['offer', 'deal', 'promotion'] },
+        { term: 'cashback', type: 'feature', synonyms: ['cash back'] },
+        { term: 'coupon', type: 'pattern', synonyms: ['coupon code', 'promo code', 'voucher', 'discount code'] },
+        { term: 'redeem', type: 'pattern', synonyms: ['redemption', 'redeemed', 'redeeming'] },
+        { term: 'referral', type: 'feature', synonyms: ['refer a friend', 'invite friends'] }
+    ],
+    monetization: [
+        { term: 'subscription', type: 'feature', synonyms: ['pricing plan', 'upgrade', 'premium'] },
+        { term: 'paywall', type: 'pattern', briefType: 'screen' },
+        { term: 'pricing', type: 'pattern', synonyms: ['pricing page', 'plans'] }
+    ],
+    dashboards: [
+        { term: 'dashboard', type: 'pattern', synonyms: ['overview', 'home screen'], briefType: 'screen' },
+        { term: 'charts', type: 'pattern', synonyms: ['chart', 'graph', 'data visualization'] },
+        { term: 'statistics', type: 'feature', synonyms: ['stats', 'analytics', 'insights'] }
+    ],
+    account: [
+        { term: 'settings', type: 'pattern', synonyms: ['setting'], briefType: 'screen' },
+        { term: 'preferences', type: 'pattern', synonyms: ['preference'] },
+        { term: 'notifications', type: 'pattern', synonyms: ['notification', 'push notification', 'alert'] },
+        { term: 'account deletion', type: 'pattern', synonyms: ['delete account', 'close account'], briefType: 'flow' }
+    ],
+    scheduling: [
+        { term: 'booking', type: 'pattern', synonyms: ['reservation', 'reserve', 'book'], briefType: 'flow' },
+        { term: 'calendar', type: 'pattern', synonyms: ['schedule', 'date picker', 'time picker'] }
+    ],
+    delivery: [
+        { term: 'order tracking', type: 'pattern', synonyms: ['track order', 'tracking', 'delivery tracking', 'live tracking'], briefType: 'flow' },
+        { term: 'order status', type: 'pattern', synonyms: ['status', 'order confirmation', 'confirmation'] },
+        { term: 'courier', type: 'feature', synonyms: ['driver', 'rider', 'delivery driver'] }
+    ],
+    location: [
+        { term: 'map', type: 'pattern', synonyms: ['live map'] },
+        { term: 'address', type: 'pattern', synonyms: ['delivery address', 'location picker'] },
+        { term: 'location sharing', type: 'feature', synonyms: ['share location', 'current location'] }
+    ],
+    states: [
+        { term: 'empty state', type: 'pattern', synonyms: ['no results', 'blank state', 'zero state'], briefType: 'component' },
+        { term: 'illustration', type: 'pattern' },
+        { term: 'loading', type: 'pattern', synonyms: ['skeleton', 'spinner', 'loading state'], briefType: 'component' },
+        { term: 'error state', type: 'pattern', synonyms: ['error message', 'error screen'], briefType: 'component' }
+    ],
+    components: [
+        { term: 'form', type: 'pattern', synonyms: ['input', 'text field'], briefType: 'component' },
+        { term: 'modal', type: 'pattern', synonyms: ['bottom sheet', 'dialog', 'popup'], briefType: 'component' },
+        { term: 'toggle', type: 'pattern', synonyms: ['switch'] },
+        { term: 'carousel', type: 'pattern', synonyms: ['slider'], briefType: 'component' }
+    ],
+    style: [
+        { term: 'dark mode', type: 'feature', synonyms: ['dark theme', 'night mode', 'dark'], aesthetic: true },
+        { term: 'appearance', type: 'feature', synonyms: ['theme', 'theming'], aesthetic: true },
+        { term: 'minimal', type: 'feature', synonyms: ['minimalist', 'clean'], aesthetic: true, briefType: 'style' }
+    ]
+};
+
+// A matched pattern brings this many others of its family
+const MAX_RELATED = 2;
+
+/**
+ * The curated entries plus SEARCH_PATTERNS terms they do not cover: in a group named after an
+ * industry's Mobbin category ("shopping", "banking") such a term is one of the industry's
+ * synonyms, in any other group it is a pattern of the family of that name
+ */
+function buildTaxonomy(): TaxonomyEntry[] {
+    const patterns = Object.entries(PATTERN_FAMILIES).flatMap(([family, entries]) => entries.map(entry => ({ ...entry, family })));
+    const known = new Set([...INDUSTRIES, ...patterns].flatMap(entry => [entry.term, ...(entry.synonyms ?? [])]));
+    const industries = INDUSTRIES.map(industry => ({ ...industry, synonyms: [...(industry.synonyms ?? [])] }));
+
+    for (const [group, terms] of Object.entries(SEARCH_PATTERNS)) {
+        const industry = industries.find(entry => entry.category === group);
+        for (const term of terms) {
+            if (known.has(term)) continue;
+            known.add(term);
+            if (industry) {
+                industry.synonyms.push(term);
+            } else {
+                patterns.push({ term, type: 'pattern', family: group });
+            }
+        }
+    }
+
+    return [...industries, ...patterns];
+}
+
+export const KEYWORD_TAXONOMY: TaxonomyEntry[] = buildTaxonomy();
+
+/**
+ * The terms to search alongside a matched pattern: the first others of its family
+ */
+export function relatedTerms(entry: TaxonomyEntry): string[] {
+    if (!entry.family) return [];
+    return KEYWORD_TAXONOMY
+        .filter(other => other.family === entry.family && other.term !== entry.term)
+        .slice(0, MAX_RELATED)
+        .map(other => other.term);
+}
+
+/**
+ * Apps recognised when a brief names them, with other names they go by: the industry catalogues
+ * plus apps known for a pattern rather than an industry
+ */
+export const KNOWN_APPS: Record<string, string[]> = {
+    ...Object.fromEntries(KEYWORD_TAXONOMY.flatMap(entry => entry.apps ?? []).map(app => [app, []])),
+    'cash app': ['cashapp'],
+    'american express': ['amex'],
+    'apple pay': [],
+    'google pay': [],
+    stripe: [],
+    klarna: [],
+    'shop pay': [],
+    figma: []
+};
+
+/**
+ * Words that say what kind of brief it is, checked in this order
+ */
+export const BRIEF_TYPE_CUES: [TaxonomyBriefType, string[]][] = [
+    ['flow', ['flow', 'journey', 'process', 'step by step', 'funnel']],
+    ['screen', ['screen', 'page', 'view']],
+    ['component', ['component', 'button', 'widget', 'state']],
+    ['style', ['style', 'aesthetic', 'look and feel', 'visual', 'branding']]
+];
+
+/**
+ * Words that never make a useful search term on their own
+ */
+export const TAXONOMY_STOP_WORDS = new Set([
+    'about', 'also', 'an', 'and', 'any', 'app', 'apps', 'application', 'are', 'ask', 'asks', 'be', 'best', 'build', 'building',
+    'can', 'could', 'design', 'designing', 'each', 'etc', 'experience', 'for', 'from', 'good', 'have', 'help', 'how', 'inspiration',
+    'into', 'just', 'like', 'make', 'many', 'more', 'most', 'much', 'need', 'new', 'only', 'open', 'other', 'our', 'page',
+    'people', 'screen', 'see', 'should', 'show', 'showing', 'simple', 'some', 'than', 'that', 'the', 'their', 'them', 'then',
+    'there', 'these', 'they', 'this', 'those', 'through', 'user', 'users', 'very', 'want', 'website', 'what', 'when', 'where',
+    'which', 'while', 'will', 'with', 'would', 'yet', 'your', 'flow', 'journey', 'style', 'mobile', 'ios', 'android', 'web'
+]);
@@ -3,6 +3,7 @@ import { PlaywrightMCPClient } from './PlaywrightMCPClient.js';
 import { MobbinAuthService } from '../auth/MobbinAuthService.js';
 import { LLMKeywordServiceV2, LLMKeywordResponse, LLMKeywordResult } from '../ai/LLMKeywordServiceV2.js';
 import { LLMResultExplanationService, ResultExplanation } from '../ai/LLMResultExplanationService.js';
+import { PromptVersionRef } from '../../llm/types.js';
 
 export interface UnifiedScrapingResult {
     keyword: string;
@@ -24,6 +25,8 @@ export interface UnifiedScrapingResponse {
         keywordGenerationMethod: 'llm' | 'fallback' | 'provided';
         llmConfidenceScores?: number[];
         originalQuery?: string;
+        // Prompt versions the keywords came from
+        prompts?: PromptVersionRef[];
     };
 }
 
@@ -466,7 +469,8 @@ export class UnifiedScrapingService {
                     keywordGenerationMethod: keywordExtraction.generationMethod,
                     llmConfidenceScores,
                     originalQuery: userQuery,
-                    processingTime: keywordExtraction.processingTime
+                    processingTime: keywordExtraction.processingTime,
+                    prompts: keywordExtraction.prompts ?? []
                 }
             };
         } catch (error) {
@@ -549,7 +553,8 @@ export class UnifiedScrapingService {
                 ...scrapingResult.metadata,
                 keywordGenerationMethod: keywordExtraction.generationMethod,
                 llmConfidenceScores,
-                originalQuery: userQuery
+                originalQuery: userQuery,
+                prompts: keywordExtraction.prompts ?? []
             }
         };
     }
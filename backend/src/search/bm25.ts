@@ -0,0 +1,81 @@
+/**
+ * Minimal BM25 keyword scorer used for keyword and hybrid ranking of docs.
+ */
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into',
+    'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'this', 'to', 'was',
+    'were', 'will', 'with', 'you', 'your', 'user', 'users'
+]);
+
+export function tokenize(text: string, keepStopWords: boolean = false): string[] {
+    return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .split(/\s+/)
+        .filter(token => token.length > 1 && (keepStopWords || !STOP_WORDS.has(token)));
+}
+
+export interface BM25Document {
+    id: string;
+    text: string;
+}
+
+export class BM25Index {
+    private readonly k1: number;
+    private readonly b: number;
+    private termFrequencies = new Map<string, Map<string, number>>();
+    private documentFrequency = new Map<string, number>();
+    private lengths = new Map<string, number>();
+    private averageLength = 0;
+
+    constructor(documents: BM25Document[], k1: number = 1.2, b: number = 0.75) {
+        this.k1 = k1;
+        this.b = b;
+
+        let totalLength = 0;
+        for (const doc of documents) {
+            const tokens = tokenize(doc.text);
+            const frequencies = new Map<string, number>();
+            tokens.forEach(token => frequencies.set(token, (frequencies.get(token) || 0) + 1));
+
+            this.termFrequencies.set(doc.id, frequencies);
+            this.lengths.set(doc.id, tokens.length);
+            totalLength += tokens.length;
+
+            for (const term of frequencies.keys()) {
+                this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+            }
+        }
+
+        this.averageLength = documents.length ? totalLength / documents.length : 0;
+    }
+
+    /**
+     * Score every indexed document against the query. Documents with no matching terms score 0.
+     */
+    score(query: string): Map<string, number> {
+        const scores = new Map<string, number>();
+        const terms = [...new Set(tokenize(query))];
+        const documentCount = this.termFrequencies.size;
+
+        for (const [id, frequencies] of this.termFrequencies) {
+            const length = this.lengths.get(id) || 0;
+            let score = 0;
+
+            for (const term of terms) {
+                const tf = frequencies.get(term);
+                if (!tf) continue;
+
+                const df = this.documentFrequency.get(term) || 0;
+                const idf = Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+                const norm = tf + this.k1 * (1 - this.b + this.b * (length / (this.averageLength || 1)));
+                score += idf * ((tf * (this.k1 + 1)) / norm);
+            }
+
+            scores.set(id, score);
+        }
+
+        return scores;
+    }
+}
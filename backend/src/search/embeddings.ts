@@ -0,0 +1,206 @@
+import { createHash } from 'crypto';
+import { tokenize } from './bm25.js';
+import { getGoogleAccessToken } from '../llm/auth.js';
+
+const LOCATION = process.env.VERTEX_LOCATION || 'us-east5';
+const PROJECT = process.env.VERTEX_PROJECT || 'dev-ai-epsilon';
+
+/**
+ * Pluggable text embedder. `id` is stored alongside vectors so switching
+ * embedders invalidates the index instead of mixing incompatible vectors.
+ */
+export interface Embedder {
+    id: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+// Groups of UX phrases that mean the same thing. Every phrase in a group maps to one concept feature.
+const CONCEPT_GROUPS: Record<string, string[]> = {
+    passwordless: ['passwordless', 'magic link', 'magic links', 'one time code', 'one time password', 'otp', 'passcode', 'email link'],
+    signin: ['login', 'log in', 'logon', 'sign in', 'signin', 'authentication', 'authenticate', 'credentials'],
+    signup: ['signup', 'sign up', 'register', 'registration', 'create account', 'new account'],
+    onboarding: ['onboarding', 'welcome', 'getting started', 'first run', 'walkthrough', 'tour'],
+    kyc: ['kyc', 'identity verification', 'verify identity', 'id verification', 'document upload', 'selfie'],
+    checkout: ['checkout', 'payment', 'pay', 'purchase', 'cart', 'basket', 'order summary'],
+    topup: ['top up', 'topup', 'add money', 'add funds', 'deposit', 'fund wallet'],
+    transfer: ['transfer', 'send money', 'payee', 'remittance'],
+    empty: ['empty state', 'no results', 'nothing here', 'no transactions', 'no data'],
+    error: ['error', 'failed', 'failure', 'something went wrong', 'try again'],
+    loading: ['loading', 'spinner', 'skeleton', 'please wait'],
+    biometric: ['biometric', 'face id', 'touch id', 'fingerprint'],
+    settings: ['settings', 'preferences', 'account settings', 'profile settings'],
+    notifications: ['notification', 'notifications', 'push', 'alerts', 'reminder'],
+    search: ['search', 'find', 'filter', 'lookup'],
+    offers: ['offers', 'coupon', 'coupons', 'voucher', 'rewards', 'cashback', 'redeem']
+};
+
+const PHRASE_TO_CONCEPT: [string[], string][] = Object.entries(CONCEPT_GROUPS)
+    .flatMap(([concept, phrases]) => phrases.map(phrase => [tokenize(phrase, true), concept] as [string[], string]))
+    .filter(([tokens]) => tokens.length > 0)
+    .sort((a, b) => b[0].length - a[0].length);
+
+function hashToIndex(feature: string, dimensions: number): { index: number; sign: number } {
+    const digest = createHash('md5').update(feature).digest();
+    return {
+        index: digest.readUInt32BE(0) % dimensions,
+        sign: digest[4] & 1 ? 1 : -1
+    };
+}
+
+function normalise(vector: number[]): number[] {
+    const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return magnitude === 0 ? vector : vector.map(v => v / magnitude);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let dot = 0;
+    let magA = 0;
+    let magB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        magA += a[i] * a[i];
+        magB += b[i] * b[i];
+    }
+    return magA === 0 || magB === 0 ? 0 : dot / (Math.sqrt(magA) * Math.sqrt(magB));
+}
+
+/**
+ * Deterministic offline embedder: feature-hashes tokens, UX concepts and character
+ * trigrams into a fixed-size vector. Needs no network, so it is used in tests and offline.
+ */
+export class LocalEmbedder implements Embedder {
+    readonly id: string;
+    private readonly dimensions: number;
+
+    constructor(dimensions: number = 384) {
+        this.dimensions = dimensions;
+        this.id = `local-hash-v1-${dimensions}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array(this.dimensions).fill(0);
+        const add = (feature: string, weight: number) => {
+            const { index, sign } = hashToIndex(feature, this.dimensions);
+            vector[index] += sign * weight;
+        };
+
+        const tokens = tokenize(text);
+
+        // Phrases like "log in" need their stop words to be recognised
+        for (const concept of this.conceptsIn(tokenize(text, true))) {
+            add(`concept:${concept}`, 3);
+        }
+        for (const token of tokens) {
+            add(`token:${token}`, 1);
+            const padded = `#${token}#`;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                add(`tri:${padded.slice(i, i + 3)}`, 0.25);
+            }
+        }
+
+        return normalise(vector);
+    }
+
+    private conceptsIn(tokens: string[]): string[] {
+        const concepts: string[] = [];
+        for (let i = 0; i < tokens.length; i++) {
+            for (const [phrase, concept] of PHRASE_TO_CONCEPT) {
+                if (phrase.every((part, offset) => tokens[i + offset] === part)) {
+                    concepts.push(concept);
+                }
+            }
+        }
+        return concepts;
+    }
+}
+
+// Vertex text embedding limits per :predict call
+const VERTEX_MAX_INSTANCES = 250;
+const VERTEX_MAX_TOKENS = 20000;
+
+/**
+ * Split texts into consecutive batches of at most `maxInstances` texts and roughly `maxTokens`
+ * tokens (about 4 characters each). A text over the token budget goes alone; the model truncates it.
+ */
+export function embeddingBatches(texts: string[], maxInstances: number, maxTokens: number): string[][] {
+    const batches: string[][] = [];
+    let batch: string[] = [];
+    let tokens = 0;
+    for (const text of texts) {
+        const estimate = Math.ceil(text.length / 4);
+        if (batch.length > 0 && (batch.length >= maxInstances || tokens + estimate > maxTokens)) {
+            batches.push(batch);
+            batch = [];
+            tokens = 0;
+        }
+        batch.push(text);
+        tokens += estimate;
+    }
+    if (batch.length > 0) batches.push(batch);
+    return batches;
+}
+
+/**
+ * Vertex AI text embedding model (text-embedding-004 by default).
+ */
+export class VertexEmbedder implements Embedder {
+    readonly id: string;
+    private readonly model: string;
+
+    constructor(model: string = process.env.ONE_BRAIN_EMBEDDING_MODEL || 'text-embedding-004') {
+        this.model = model;
+        this.id = `vertex-${model}`;
+    }
+
+    // Requests go one batch at a time so a large reindex stays within the per-request limits
+    async embed(texts: string[]): Promise<number[][]> {
+        const vectors: number[][] = [];
+        for (const batch of embeddingBatches(texts, VERTEX_MAX_INSTANCES, VERTEX_MAX_TOKENS)) {
+            vectors.push(...await this.embedBatch(batch));
+        }
+        return vectors;
+    }
+
+    private async embedBatch(texts: string[]): Promise<number[][]> {
+        const url = `https://${LOCATION}-aiplatform.googleapis.com/v1/projects/${PROJECT}/locations/${LOCATION}/publishers/google/models/${this.model}:predict`;
+        const accessToken = await getGoogleAccessToken();
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json; charset=utf-8'
+            },
+            body: JSON.stringify({ instances: texts.map(content => ({ content })) })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Vertex embedding call failed: ${response.status} - ${errorText}`);
+        }
+
+        const result = await response.json();
+        const predictions = result.predictions || [];
+        if (predictions.length !== texts.length) {
+            throw new Error(`Vertex embedding call returned ${predictions.length} vectors for ${texts.length} texts`);
+        }
+        return predictions.map((p: any) => p.embeddings?.values || []);
+    }
+}
+
+let defaultEmbedder: Embedder | null = null;
+
+/**
+ * Embedder selected by ONE_BRAIN_EMBEDDER (`local` by default, or `vertex`).
+ */
+export function getEmbedder(): Embedder {
+    if (!defaultEmbedder) {
+        defaultEmbedder = process.env.ONE_BRAIN_EMBEDDER === 'vertex' ? new VertexEmbedder() : new LocalEmbedder();
+    }
+    return defaultEmbedder;
+}
@@ -0,0 +1,184 @@
+import { LocaleCode, parseLocale } from '../documentation/locales.js';
+
+/**
+ * Query parsing, filtering and faceting for knowledge-base search over Doc records.
+ */
+
+export type SearchSort = 'relevance' | 'updated' | 'created' | 'title';
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
+export interface SearchFilters {
+    q: string;
+    level?: string;
+    state?: string;
+    product?: string;
+    fileKey?: string;
+    canonical?: boolean;
+    // Docs written in, or translated into, this locale; results are shown in it
+    locale?: LocaleCode;
+    platforms: string[];
+    problemTags: string[];
+    patternTags: string[];
+}
+
+export interface SearchPage {
+    limit: number;
+    cursor?: string;
+    mode: SearchMode;
+    sort: SearchSort;
+    order: 'asc' | 'desc';
+}
+
+export interface SearchFacets {
+    platforms: Record<string, number>;
+    problemTags: Record<string, number>;
+    patternTags: Record<string, number>;
+    levels: Record<string, number>;
+    locales: Record<string, number>;
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const SORTS: SearchSort[] = ['relevance', 'updated', 'created', 'title'];
+const MODES: SearchMode[] = ['keyword', 'semantic', 'hybrid'];
+
+// Accept both ?tag=a,b and repeated ?tag=a&tag=b
+function parseList(value: any): string[] {
+    if (value === undefined || value === null) return [];
+    const values = Array.isArray(value) ? value : [value];
+    return values
+        .flatMap(v => String(v).split(','))
+        .map(v => v.trim())
+        .filter(v => v.length > 0);
+}
+
+function parseOptional(value: any): string | undefined {
+    const text = value?.toString().trim();
+    return text ? text : undefined;
+}
+
+export function parseSearchQuery(query: any): { filters: SearchFilters; page: SearchPage } {
+    const canonical = parseOptional(query.canonical);
+    const limit = Number(query.limit);
+    const requestedSort = parseOptional(query.sort) as SearchSort | undefined;
+    const sort = requestedSort && SORTS.includes(requestedSort) ? requestedSort : 'relevance';
+    const mode = parseOptional(query.mode) as SearchMode | undefined;
+
+    return {
+        filters: {
+            q: query.q?.toString().trim() ?? '',
+            level: parseOptional(query.level),
+            state: parseOptional(query.state),
+            product: parseOptional(query.product),
+            fileKey: parseOptional(query.fileKey),
+            canonical: canonical === undefined ? undefined : canonical === 'true',
+            locale: parseLocale(query.locale),
+            platforms: parseList(query.platforms),
+            problemTags: parseList(query.problemTags),
+            patternTags: parseList(query.patternTags)
+        },
+        page: {
+            limit: Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LIMIT) : DEFAULT_LIMIT,
+            cursor: parseOptional(query.cursor),
+            mode: mode && MODES.includes(mode) ? mode : 'keyword',
+            sort,
+            // Titles read A→Z and dates newest first unless asked otherwise
+            order: query.order === 'asc' || query.order === 'desc' ? query.order : sort === 'title' ? 'asc' : 'desc'
+        }
+    };
+}
+
+/**
+ * Build the Prisma where clause for the structured filters.
+ * The free-text part is optional so semantic modes can rank the filtered set themselves.
+ */
+export function buildWhere(filters: SearchFilters, includeText: boolean = true): any {
+    return {
+        AND: [
+            filters.level ? { level: filters.level } : {},
+            filters.state ? { state: filters.state } : {},
+            filters.product ? { product: { equals: filters.product, mode: 'insensitive' } } : {},
+            filters.fileKey ? { fileKey: filters.fileKey } : {},
+            filters.canonical !== undefined ? { canonical: filters.canonical } : {},
+            filters.platforms.length ? { platforms: { hasSome: filters.platforms } } : {},
+            filters.problemTags.length ? { problemTags: { hasSome: filters.problemTags } } : {},
+            filters.patternTags.length ? { patternTags: { hasSome: filters.patternTags } } : {},
+            filters.locale ? { OR: [{ locale: filters.locale }, { translations: { some: { locale: filters.locale } } }] } : {},
+            includeText && filters.q ? {
+                OR: [
+                    { title: { contains: filters.q, mode: 'insensitive' } },
+                    { problem: { contains: filters.q, mode: 'insensitive' } },
+                    { outcome: { contains: filters.q, mode: 'insensitive' } },
+                    { prose: { is: { raw: { contains: filters.q, mode: 'insensitive' } } } },
+                    {
+                        translations: {
+                            some: {
+                                ...(filters.locale ? { locale: filters.locale } : {}),
+                                OR: [
+                                    { title: { contains: filters.q, mode: 'insensitive' } },
+                                    { problem: { contains: filters.q, mode: 'insensitive' } },
+                                    { prose: { contains: filters.q, mode: 'insensitive' } }
+                                ]
+                            }
+                        }
+                    }
+                ]
+            } : {}
+        ]
+    };
+}
+
+export function buildOrderBy(page: SearchPage): any[] {
+    // id is always last so cursor pagination has a stable order
+    switch (page.sort) {
+        case 'updated':
+            return [{ updatedAt: page.order }, { id: 'asc' }];
+        case 'created':
+            return [{ createdAt: page.order }, { id: 'asc' }];
+        case 'title':
+            return [{ title: page.order }, { id: 'asc' }];
+        default:
+            return [{ canonical: 'desc' }, { updatedAt: 'desc' }, { id: 'asc' }];
+    }
+}
+
+/**
+ * Count tag occurrences across every doc matching the filters (not just the current page).
+ */
+export function computeFacets(docs: { platforms: string[]; problemTags: string[]; patternTags: string[]; level: string; locale?: string }[]): SearchFacets {
+    const facets: SearchFacets = { platforms: {}, problemTags: {}, patternTags: {}, levels: {}, locales: {} };
+
+    const bump = (bucket: Record<string, number>, key: string) => {
+        bucket[key] = (bucket[key] || 0) + 1;
+    };
+
+    for (const doc of docs) {
+        doc.platforms.forEach(p => bump(facets.platforms, p));
+        doc.problemTags.forEach(t => bump(facets.problemTags, t));
+        doc.patternTags.forEach(t => bump(facets.patternTags, t));
+        bump(facets.levels, doc.level);
+        if (doc.locale) bump(facets.locales, doc.locale);
+    }
+
+    return facets;
+}
+
+/**
+ * A search result in the requested locale: a doc written in another locale shows its translation's
+ * title, problem, outcome and approach, with `translatedFrom` naming the original locale.
+ */
+export function localiseResult<T extends { locale?: string; translations?: any[] }>(doc: T, locale?: LocaleCode) {
+    const { translations, ...rest } = doc;
+    const translation = locale && doc.locale !== locale ? translations?.find(t => t.locale === locale) : undefined;
+    if (!translation) return rest;
+
+    return {
+        ...rest,
+        title: translation.title,
+        problem: translation.problem,
+        outcome: translation.outcome,
+        approach: translation.approach,
+        locale,
+        translatedFrom: doc.locale
+    };
+}
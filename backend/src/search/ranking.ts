@@ -0,0 +1,83 @@
+import { createHash } from 'crypto';
+import { BM25Index } from './bm25.js';
+import { Embedder, cosineSimilarity } from './embeddings.js';
+import { SearchMode } from './query.js';
+
+/**
+ * Ranking for semantic and hybrid search. Pure apart from the embedder, so it runs without a database.
+ */
+
+// Results below this score are treated as unrelated rather than returned at the tail
+export const MIN_RELEVANCE = 0.1;
+
+export interface IndexableDoc {
+    id: string;
+    title: string;
+    problem: string;
+    outcome?: string | null;
+    approach: string[];
+    // Saved prose documentation, when the doc has any
+    prose?: { raw: string } | null;
+    // Translations into other locales, so queries in those languages find the doc
+    translations?: { title: string; problem: string; outcome?: string | null; approach: string[]; prose?: string | null }[];
+}
+
+export interface RankedDoc {
+    id: string;
+    score: number;
+}
+
+export interface RankOptions {
+    mode: Exclude<SearchMode, 'keyword'>;
+    embedder: Embedder;
+    // Weight of the semantic score in hybrid mode; BM25 gets the remainder
+    alpha?: number;
+    // Precomputed doc vectors; missing ones are embedded on the fly
+    vectors?: Map<string, number[]>;
+}
+
+export function docText(doc: IndexableDoc): string {
+    const translated = (doc.translations || [])
+        .flatMap(t => [t.title, t.problem, t.outcome ?? '', ...(t.approach || []), t.prose ?? '']);
+    return [doc.title, doc.problem, doc.outcome ?? '', ...(doc.approach || []), doc.prose?.raw ?? '', ...translated]
+        .filter(part => part && part.trim())
+        .join('\n');
+}
+
+export function contentHash(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Rank docs against a free-text query, dropping anything below MIN_RELEVANCE.
+ */
+export async function rankDocuments(query: string, docs: IndexableDoc[], options: RankOptions): Promise<RankedDoc[]> {
+    if (!query.trim() || docs.length === 0) return [];
+
+    const vectors = new Map(options.vectors || []);
+    const missing = docs.filter(doc => !vectors.has(doc.id));
+    if (missing.length) {
+        const embedded = await options.embedder.embed(missing.map(docText));
+        missing.forEach((doc, i) => vectors.set(doc.id, embedded[i]));
+    }
+
+    const [queryVector] = await options.embedder.embed([query]);
+    const semantic = new Map(docs.map(doc => [doc.id, Math.max(0, cosineSimilarity(queryVector, vectors.get(doc.id) || []))]));
+
+    let scores = semantic;
+    if (options.mode === 'hybrid') {
+        const alpha = options.alpha ?? 0.6;
+        const keyword = new BM25Index(docs.map(doc => ({ id: doc.id, text: docText(doc) }))).score(query);
+        const maxKeyword = Math.max(0, ...keyword.values());
+
+        scores = new Map(docs.map(doc => {
+            const bm25 = maxKeyword > 0 ? (keyword.get(doc.id) || 0) / maxKeyword : 0;
+            return [doc.id, alpha * (semantic.get(doc.id) || 0) + (1 - alpha) * bm25];
+        }));
+    }
+
+    return docs
+        .map(doc => ({ id: doc.id, score: scores.get(doc.id) || 0 }))
+        .filter(result => result.score >= MIN_RELEVANCE)
+        .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
@@ -0,0 +1,92 @@
+import type { DocEmbedding } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { Embedder, getEmbedder } from './embeddings.js';
+import { IndexableDoc, contentHash, docText } from './ranking.js';
+
+interface StoredVectors {
+    vectors: Map<string, number[]>;
+    stale: { doc: IndexableDoc; text: string; hash: string }[];
+}
+
+async function storedVectors(docs: IndexableDoc[], embedder: Embedder): Promise<StoredVectors> {
+    const stored = await prisma.docEmbedding.findMany({
+        where: { docId: { in: docs.map(doc => doc.id) } }
+    });
+    const byDoc = new Map<string, DocEmbedding>(stored.map(row => [row.docId, row]));
+
+    const vectors = new Map<string, number[]>();
+    const stale: StoredVectors['stale'] = [];
+
+    for (const doc of docs) {
+        const text = docText(doc);
+        const hash = contentHash(text);
+        const row = byDoc.get(doc.id);
+        if (row && row.model === embedder.id && row.contentHash === hash) {
+            vectors.set(doc.id, row.vector);
+        } else {
+            stale.push({ doc, text, hash });
+        }
+    }
+
+    return { vectors, stale };
+}
+
+/**
+ * Load the current stored vectors for the given docs without writing anything. Search uses this;
+ * docs saved since the last index are left out and embedded in memory by rankDocuments.
+ */
+export async function loadEmbeddings(docs: IndexableDoc[], embedder: Embedder = getEmbedder()): Promise<Map<string, number[]>> {
+    const { vectors, stale } = await storedVectors(docs, embedder);
+    if (stale.length) {
+        console.warn(`[${new Date().toISOString()}] [SEARCH] EMBEDDINGS_STALE:`, {
+            count: stale.length,
+            embedder: embedder.id,
+            hint: 'POST /search/reindex to store them'
+        });
+    }
+    return vectors;
+}
+
+/**
+ * Load stored vectors for the given docs, embedding and storing any that are missing, stale or
+ * from another embedder. Used at save and reindex time.
+ */
+export async function ensureEmbeddings(docs: IndexableDoc[], embedder: Embedder = getEmbedder()): Promise<Map<string, number[]>> {
+    const { vectors, stale } = await storedVectors(docs, embedder);
+
+    if (stale.length) {
+        const embedded = await embedder.embed(stale.map(entry => entry.text));
+        await Promise.all(stale.map(({ doc, hash }, i) => {
+            vectors.set(doc.id, embedded[i]);
+            return prisma.docEmbedding.upsert({
+                where: { docId: doc.id },
+                create: { docId: doc.id, model: embedder.id, contentHash: hash, vector: embedded[i] },
+                update: { model: embedder.id, contentHash: hash, vector: embedded[i] }
+            });
+        }));
+    }
+
+    return vectors;
+}
+
+// Everything docText reads, so vectors built here match the ones search builds
+export const INDEXABLE_INCLUDE = {
+    prose: { select: { raw: true } },
+    translations: { select: { locale: true, title: true, problem: true, outcome: true, approach: true, prose: true } }
+} as const;
+
+/**
+ * Best-effort indexing after a save. Search embeds unindexed docs in memory, so a failure here only
+ * costs latency until the next reindex.
+ */
+export async function indexDoc(id: string): Promise<void> {
+    try {
+        const doc = await prisma.doc.findUnique({ where: { id }, include: INDEXABLE_INCLUDE });
+        if (doc) await ensureEmbeddings([doc]);
+    } catch (error) {
+        console.warn(`[${new Date().toISOString()}] [SEARCH] EMBEDDING_FAILED:`, {
+            docId: id,
+            error: error instanceof Error ? error.message : String(error)
+        });
+    }
+}
@@ -6,7 +6,13 @@ function logAPI(operation: string, data: any) {
     console.log(`[${timestamp}] [one-brain-ai] API ${operation}:`, data);
 }
 
-export async function aiPrepare(extraction: any): Promise<{ documentation?: string; format?: string; hasValidationWarning?: boolean; capsule?: any }> {
+export type PrepareFormat = 'prose' | 'capsule' | 'both';
+
+export async function aiPrepare(
+    extraction: any,
+    format: PrepareFormat = 'prose',
+    evidence: boolean = false
+): Promise<{ documentation?: string; format?: string; hasValidationWarning?: boolean; capsule?: any; capsuleFallback?: boolean; capsuleErrors?: string[]; evidence?: any; grounding?: { score: number; ungrounded: string[] } }> {
     const startTime = Date.now();
 
     logAPI('AI_PREPARE_START', {
@@ -16,11 +22,13 @@ export async function aiPrepare(extraction: any): Promise<{ documentation?: stri
         frameHints: extraction.frameNameHints?.length || 0,
         scope: extraction.scope,
         fileKey: extraction.fileKey,
-        nodeName: extraction.nodeName
+        nodeName: extraction.nodeName,
+        format,
+        evidence
     });
 
     try {
-        const requestBody = JSON.stringify({ extraction });
+        const requestBody = JSON.stringify({ extraction, format, evidence });
         logAPI('AI_PREPARE_REQUEST', {
             url: `${API_BASE}/ai/prepare`,
             method: 'POST',
@@ -57,14 +65,17 @@ export async function aiPrepare(extraction: any): Promise<{ documentation?: stri
 
         const result = await res.json();
 
-        // Check if this is the new prose format
-        if (result.format === 'prose' && result.documentation) {
+        // Prose format, or both with a capsule alongside
+        if (result.documentation) {
             logAPI('AI_PREPARE_SUCCESS_PROSE', {
                 duration: `${duration}ms`,
                 format: result.format,
                 hasDocumentation: !!result.documentation,
                 hasValidationWarning: result.hasValidationWarning,
+                groundingScore: result.grounding?.score,
                 documentationLength: result.documentation?.length || 0,
+                hasCapsule: !!result.capsule,
+                capsuleFallback: result.capsuleFallback,
                 resultSize: JSON.stringify(result).length
             });
             return result;
@@ -93,7 +104,138 @@ export async function aiPrepare(extraction: any): Promise<{ documentation?: stri
     }
 }
 
-export async function saveCapsule(capsule: any, fileKey: string, nodeId?: string) {
+export interface PrepareStreamHandlers {
+    onStart?: (data: { level: string; format: string; sections: string[] }) => void;
+    onSection?: (data: { heading: string; index: number }) => void;
+    // `heading` is null for text before the first heading
+    onToken?: (data: { heading: string | null; text: string }) => void;
+}
+
+/**
+ * /ai/prepare/stream: calls the handlers as sections arrive and resolves with the `done` event,
+ * which has the same fields as aiPrepare's result plus `revised`. Needs a streaming fetch, so it
+ * runs in the UI iframe rather than the main thread.
+ */
+export async function aiPrepareStream(
+    extraction: any,
+    format: 'prose' | 'both' = 'prose',
+    evidence: boolean = false,
+    handlers: PrepareStreamHandlers = {}
+): Promise<any> {
+    const startTime = Date.now();
+
+    logAPI('AI_PREPARE_STREAM_START', { scope: extraction.scope, nodeName: extraction.nodeName, format, evidence });
+
+    const res = await fetch(`${API_BASE}/ai/prepare/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+        body: JSON.stringify({ extraction, format, evidence })
+    });
+
+    if (!res.ok || !res.body) {
+        const errorText = await res.text();
+        logAPI('AI_PREPARE_STREAM_ERROR', { status: res.status, errorBody: errorText });
+        throw new Error(`AI prepare stream failed: ${res.status} - ${errorText}`);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let sectionCount = 0;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const raw of events) {
+            const name = (raw.match(/^event: (.*)$/m) || [])[1];
+            const data = (raw.match(/^data: (.*)$/m) || [])[1];
+            if (!name || data === undefined) continue;
+            const payload = JSON.parse(data);
+
+            if (name === 'start') handlers.onStart?.(payload);
+            if (name === 'section') {
+                sectionCount++;
+                handlers.onSection?.(payload);
+            }
+            if (name === 'token') handlers.onToken?.(payload);
+            if (name === 'error') {
+                logAPI('AI_PREPARE_STREAM_ERROR', payload);
+                throw new Error(`AI prepare stream failed: ${payload.details || payload.error}`);
+            }
+            if (name === 'done') {
+                logAPI('AI_PREPARE_STREAM_SUCCESS', {
+                    duration: `${Date.now() - startTime}ms`,
+                    sections: sectionCount,
+                    revised: payload.revised,
+                    hasValidationWarning: payload.hasValidationWarning,
+                    groundingScore: payload.grounding?.score,
+                    hasCapsule: !!payload.capsule
+                });
+                reader.cancel();
+                return payload;
+            }
+        }
+    }
+
+    throw new Error('AI prepare stream ended before the final event');
+}
+
+export interface BatchJobStatus {
+    jobId: string;
+    status: 'running' | 'done';
+    total: number;
+    concurrency: number;
+    progress: { pending: number; running: number; done: number; failed: number; fallback: number };
+    items: { index: number; nodeId?: string; nodeName?: string; status: 'pending' | 'running' | 'done' | 'failed'; result?: any; error?: string }[];
+}
+
+// Submit extractions as one batch; the backend documents them in the background
+export async function aiPrepareBatch(extractions: any[], format: PrepareFormat = 'both'): Promise<BatchJobStatus> {
+    logAPI('AI_PREPARE_BATCH_START', { count: extractions.length, format });
+
+    const res = await fetch(`${API_BASE}/ai/prepare/batch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ extractions, format })
+    });
+
+    if (!res.ok) {
+        const errorText = await res.text();
+        logAPI('AI_PREPARE_BATCH_ERROR', { status: res.status, errorBody: errorText });
+        throw new Error(`AI prepare batch failed: ${res.status} - ${errorText}`);
+    }
+
+    const job = await res.json();
+    logAPI('AI_PREPARE_BATCH_STARTED', { jobId: job.jobId, total: job.total, concurrency: job.concurrency });
+    return job;
+}
+
+export async function getBatchJob(jobId: string): Promise<BatchJobStatus> {
+    const res = await fetch(`${API_BASE}/ai/prepare/batch/${encodeURIComponent(jobId)}`);
+
+    if (!res.ok) {
+        const errorText = await res.text();
+        logAPI('AI_PREPARE_BATCH_STATUS_ERROR', { jobId, status: res.status, errorBody: errorText });
+        throw new Error(`Batch status failed: ${res.status} - ${errorText}`);
+    }
+
+    return res.json();
+}
+
+export async function saveCapsule(
+    capsule: any,
+    fileKey: string,
+    nodeId?: string,
+    pageName?: string,
+    author?: string,
+    textSamples?: string[],
+    fingerprint?: string
+): Promise<{ ok: boolean; id: string; created: boolean; unresolvedRefs: string[]; duplicates: { id: string; title: string; fileKey: string; score: number }[] }> {
     const startTime = Date.now();
 
     logAPI('SAVE_CAPSULE_START', {
@@ -101,11 +243,12 @@ export async function saveCapsule(capsule: any, fileKey: string, nodeId?: string
         capsuleLevel: capsule.level,
         fileKey,
         nodeId,
+        pageName,
         capsuleSize: JSON.stringify(capsule).length
     });
 
     try {
-        const requestBody = JSON.stringify({ capsule, fileKey, nodeId });
+        const requestBody = JSON.stringify({ capsule, fileKey, nodeId, pageName, author, textSamples, fingerprint });
         logAPI('SAVE_CAPSULE_REQUEST', {
             url: `${API_BASE}/docs`,
             method: 'POST',
@@ -162,8 +305,200 @@ export async function saveCapsule(capsule: any, fileKey: string, nodeId?: string
     }
 }
 
+export interface RegeneratedSection {
+    key: string;
+    heading: string;
+    status: 'unchanged' | 'regenerated' | 'preserved';
+    reasons: string[];
+    previous: string;
+    proposed: string;
+}
+
+export interface RegenerateResult {
+    mode: 'regenerate';
+    locale: string;
+    level: string;
+    documentation: string;
+    generatedDocumentation: string;
+    changes: { known: boolean; changed: boolean; [change: string]: any };
+    sections: RegeneratedSection[];
+    hasValidationWarning: boolean;
+    grounding: { score: number; ungrounded: string[] };
+    isFallback?: boolean;
+}
+
+/**
+ * /ai/prepare/regenerate: rewrites only the sections of a saved doc's prose that the design changes
+ * affect, keeping Human Notes and hand edits, and returns each section's proposed text for review.
+ */
+export async function aiRegenerate(extraction: any, docId: string, locked?: string[]): Promise<RegenerateResult> {
+    const startTime = Date.now();
+
+    logAPI('AI_REGENERATE_START', {
+        docId,
+        scope: extraction.scope,
+        nodeName: extraction.nodeName,
+        locked: locked?.length || 0
+    });
+
+    try {
+        const res = await fetch(`${API_BASE}/ai/prepare/regenerate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ extraction, docId, locked })
+        });
+
+        const duration = Date.now() - startTime;
+
+        if (!res.ok) {
+            const errorText = await res.text();
+            logAPI('AI_REGENERATE_ERROR', {
+                status: res.status,
+                statusText: res.statusText,
+                errorBody: errorText,
+                duration: `${duration}ms`
+            });
+            throw new Error(`Regenerate failed: ${res.status} - ${errorText}`);
+        }
+
+        const result: RegenerateResult = await res.json();
+        logAPI('AI_REGENERATE_SUCCESS', {
+            duration: `${duration}ms`,
+            changed: result.changes.changed,
+            regenerated: result.sections.filter(section => section.status === 'regenerated').length,
+            preserved: result.sections.filter(section => section.status === 'preserved').length,
+            isFallback: !!result.isFallback
+        });
+
+        return result;
+    } catch (error) {
+        logAPI('AI_REGENERATE_EXCEPTION', {
+            error: error instanceof Error ? error.message : String(error),
+            duration: `${Date.now() - startTime}ms`
+        });
+        throw error;
+    }
+}
+
+// `generatedDocumentation` and `extraction` are what the prose was generated as and from, for later regeneration
+export async function saveProse(
+    documentation: string,
+    fileKey: string,
+    level: string,
+    nodeId?: string,
+    pageName?: string,
+    author?: string,
+    hasValidationWarning?: boolean,
+    generatedDocumentation?: string,
+    extraction?: any
+): Promise<{ ok: boolean; docId: string; created: boolean }> {
+    const startTime = Date.now();
+
+    logAPI('SAVE_PROSE_START', {
+        fileKey,
+        nodeId,
+        level,
+        documentationLength: documentation.length
+    });
+
+    try {
+        const res = await fetch(`${API_BASE}/docs/prose`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ documentation, fileKey, level, nodeId, pageName, author, hasValidationWarning, generatedDocumentation, extraction })
+        });
+
+        const duration = Date.now() - startTime;
+
+        if (!res.ok) {
+            const errorText = await res.text();
+            logAPI('SAVE_PROSE_ERROR', {
+                status: res.status,
+                statusText: res.statusText,
+                errorBody: errorText,
+                duration: `${duration}ms`
+            });
+            throw new Error(`Save failed: ${res.status} - ${errorText}`);
+        }
+
+        const result = await res.json();
+        logAPI('SAVE_PROSE_SUCCESS', {
+            duration: `${duration}ms`,
+            docId: result.docId,
+            created: result.created
+        });
+
+        return result;
+    } catch (error) {
+        logAPI('SAVE_PROSE_EXCEPTION', {
+            error: error instanceof Error ? error.message : String(error),
+            duration: `${Date.now() - startTime}ms`
+        });
+        throw error;
+    }
+}
+
+export async function reportCoverage(
+    fileKey: string,
+    nodes: { nodeId: string; name: string; type: string; pageName: string; fingerprint?: string }[],
+    author?: string
+): Promise<{ total: number; documented: number; stale: number; undocumented: number; coverage: number; fresh: number; pages: any[]; nodes: any[] }> {
+    const startTime = Date.now();
+
+    logAPI('REPORT_COVERAGE_START', { fileKey, nodeCount: nodes.length });
+
+    try {
+        const res = await fetch(`${API_BASE}/coverage/report`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ fileKey, nodes, author })
+        });
+
+        const duration = Date.now() - startTime;
+
+        if (!res.ok) {
+            const errorText = await res.text();
+            logAPI('REPORT_COVERAGE_ERROR', {
+                status: res.status,
+                statusText: res.statusText,
+                errorBody: errorText,
+                duration: `${duration}ms`
+            });
+            throw new Error(`Coverage report failed: ${res.status} - ${errorText}`);
+        }
+
+        const result = await res.json();
+        logAPI('REPORT_COVERAGE_SUCCESS', {
+            duration: `${duration}ms`,
+            total: result.total,
+            coverage: result.coverage,
+            stale: result.stale
+        });
+
+        return result;
+    } catch (error) {
+        logAPI('REPORT_COVERAGE_EXCEPTION', {
+            error: error instanceof Error ? error.message : String(error),
+            duration: `${Date.now() - startTime}ms`
+        });
+        throw error;
+    }
+}
+
+// A search run ties the prompt versions behind a search's keywords to the clicks and saves on its results
+export type InspirationOutcome = 'click' | 'save';
+
+export interface InspirationSearchResult {
+    conversationalResponse?: string;
+    mobbinLinks?: any[];
+    searchIntents?: any;
+    finalKeywords?: string[];
+    // Null when the search could not be attributed to prompt versions
+    runId?: string | null;
+}
+
 // NEW: Phase 1 - Extract keywords only
-export async function extractKeywords(problemStatement: string): Promise<{ keywords: string[]; metadata?: any }> {
+export async function extractKeywords(problemStatement: string): Promise<{ keywords: string[]; metadata?: any; runId?: string | null }> {
     const startTime = Date.now();
 
     logAPI('EXTRACT_KEYWORDS_START', {
@@ -233,18 +568,19 @@ export async function extractKeywords(problemStatement: string): Promise<{ keywo
 }
 
 // NEW: Phase 2 - Search with known keywords
-export async function searchWithKeywords(problemStatement: string, keywords: string[]): Promise<{ conversationalResponse?: string; mobbinLinks?: any[]; searchIntents?: any; finalKeywords?: string[] }> {
+export async function searchWithKeywords(problemStatement: string, keywords: string[], runId?: string | null): Promise<InspirationSearchResult> {
     const startTime = Date.now();
 
     logAPI('SEARCH_WITH_KEYWORDS_START', {
         problemStatement: problemStatement.substring(0, 100) + '...',
         problemLength: problemStatement.length,
         keywords,
-        keywordsCount: keywords.length
+        keywordsCount: keywords.length,
+        runId
     });
 
     try {
-        const requestBody = JSON.stringify({ problemStatement, keywords });
+        const requestBody = JSON.stringify({ problemStatement, keywords, runId: runId ?? undefined });
         logAPI('SEARCH_WITH_KEYWORDS_REQUEST', {
             url: `${API_BASE}/inspiration/mobbin-search`,
             method: 'POST',
@@ -306,7 +642,7 @@ export async function searchWithKeywords(problemStatement: string, keywords: str
 }
 
 // NEW: Two-phase inspiration search with keyword transparency
-export async function searchInspirationWithKeywordTransparency(problemStatement: string): Promise<{ conversationalResponse?: string; mobbinLinks?: any[]; searchIntents?: any; finalKeywords?: string[] }> {
+export async function searchInspirationWithKeywordTransparency(problemStatement: string): Promise<InspirationSearchResult> {
     const startTime = Date.now();
 
     logAPI('SEARCH_INSPIRATION_TWO_PHASE_START', {
@@ -331,7 +667,7 @@ export async function searchInspirationWithKeywordTransparency(problemStatement:
             phase: 'mobbin_search',
             keywords: extractedKeywords
         });
-        const searchResult = await searchWithKeywords(problemStatement, extractedKeywords);
+        const searchResult = await searchWithKeywords(problemStatement, extractedKeywords, keywordResult.runId);
 
         const totalDuration = Date.now() - startTime;
         logAPI('SEARCH_INSPIRATION_TWO_PHASE_COMPLETE', {
@@ -356,8 +692,27 @@ export async function searchInspirationWithKeywordTransparency(problemStatement:
     }
 }
 
+// Record that the designer opened or saved one of a run's Mobbin links. Best effort: failures are only logged
+export async function reportInspirationOutcome(runId: string, type: InspirationOutcome, url?: string): Promise<void> {
+    try {
+        const res = await fetch(`${API_BASE}/inspiration/outcomes`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ runId, type, url })
+        });
+
+        if (!res.ok) {
+            logAPI('REPORT_OUTCOME_ERROR', { runId, type, status: res.status, errorBody: await res.text() });
+            return;
+        }
+        logAPI('REPORT_OUTCOME_SUCCESS', { runId, type });
+    } catch (error) {
+        logAPI('REPORT_OUTCOME_EXCEPTION', { runId, type, error: error instanceof Error ? error.message : String(error) });
+    }
+}
+
 // LEGACY: Single-phase inspiration search (backward compatibility)
-export async function searchInspiration(problemStatement: string): Promise<{ conversationalResponse?: string; mobbinLinks?: any[]; searchIntents?: any; finalKeywords?: string[] }> {
+export async function searchInspiration(problemStatement: string): Promise<InspirationSearchResult> {
     const startTime = Date.now();
 
     logAPI('SEARCH_INSPIRATION_LEGACY_START', {
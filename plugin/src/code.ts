@@ -1,8 +1,10 @@
 /// <reference types="@figma/plugin-typings" />
-import { extractFromSelection } from './extraction';
-import { aiPrepare } from './api';
+import { extractFromNodes, extractFromSelection } from './extraction';
+import { aiPrepare, aiRegenerate, reportInspirationOutcome } from './api';
 import { classifyToCapsule } from './classify';
-import type { Capsule, DocLevel } from './types';
+import type { BatchJobStatus } from './api';
+import type { Capsule, DocLevel, Extraction } from './types';
+import { collectCoverageNodes, nodeFingerprint, revealNodes, selectNode } from './utils';
 
 // Enhanced logging utility
 function logWorkflow(step: string, data: any) {
@@ -16,6 +18,12 @@ figma.showUI(__html__, { width: 400, height: 600 });
 let pendingCapsule: Capsule | null = null;
 let pendingProseData: any = null;
 let isUIReady = false;
+// Visible copy from the last extraction, sent with the save so the backend can spot duplicate docs
+let lastTextSamples: string[] = [];
+// Level and validation state of the last generated prose, sent with save-prose
+let lastProseMeta: { level: DocLevel; hasValidationWarning: boolean } = { level: 'frame', hasValidationWarning: false };
+// The last prose as generated, before any edits, and the extraction it came from; saved with it so it can be regenerated
+let lastGenerated: { documentation: string; extraction: Extraction } | null = null;
 
 logWorkflow('PLUGIN_START', {
     fileKey: figma.fileKey,
@@ -25,6 +33,100 @@ logWorkflow('PLUGIN_START', {
     uiShown: true
 });
 
+// The /ai/prepare/stream request the UI is running for the main thread, if any
+let pendingStream: { resolve: (result: any) => void; reject: (error: Error) => void; ackTimer: number } | null = null;
+
+// How long the UI has to acknowledge a stream-prepare message before falling back to aiPrepare
+const STREAM_ACK_TIMEOUT_MS = 3000;
+
+/**
+ * Generate documentation, streaming it through the UI when the UI is ready so sections appear as
+ * the model writes them. The main thread cannot read a streamed response, so the UI runs the
+ * request and posts the final result back. Falls back to aiPrepare if streaming fails.
+ */
+async function prepareDocumentation(extraction: any): Promise<any> {
+    if (!isUIReady) {
+        return aiPrepare(extraction, 'both', true);
+    }
+
+    try {
+        return await new Promise((resolve, reject) => {
+            const ackTimer = setTimeout(() => reject(new Error('UI did not start the stream')), STREAM_ACK_TIMEOUT_MS);
+            pendingStream = { resolve, reject, ackTimer };
+            figma.ui.postMessage({
+                type: 'stream-prepare',
+                data: { extraction, format: 'both', evidence: true }
+            });
+        });
+    } catch (error) {
+        logWorkflow('AI_STREAM_FAILED', {
+            error: error instanceof Error ? error.message : String(error),
+            fallback: 'aiPrepare'
+        });
+        return aiPrepare(extraction, 'both', true);
+    } finally {
+        if (pendingStream) clearTimeout(pendingStream.ackTimer);
+        pendingStream = null;
+    }
+}
+
+// The last page batch: the job as last polled and the extraction of each item, for opening results
+let lastBatch: { job: BatchJobStatus; extractions: Extraction[] } | null = null;
+
+// Backend limit on extractions per batch, and how often a running batch is polled
+const MAX_BATCH_FRAMES = 100;
+const BATCH_POLL_MS = 1500;
+
+// Mobbin links the designer saved from inspiration searches, newest first, in figma.clientStorage
+const SAVED_INSPIRATION_KEY = 'saved-inspiration';
+
+// Backend id of the prose saved for the selected node, if any
+function savedProseDocId(): string | null {
+    const node = figma.currentPage.selection[0];
+    if (!node) return null;
+    try {
+        const saved = JSON.parse(node.getSharedPluginData('one-brain-ai', 'prose-documentation') || '{}');
+        return typeof saved.docId === 'string' ? saved.docId : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Re-document a node that already has saved prose: only the sections the design change affects are
+ * rewritten, Human Notes and edited sections are kept, and the UI shows the section diff to accept
+ * or reject. Returns false when regeneration fails, so the caller generates from scratch instead.
+ */
+async function regenerateDocumentation(extraction: Extraction, docId: string, scope: DocLevel): Promise<boolean> {
+    figma.ui.postMessage({
+        type: 'status',
+        message: 'Updating the saved documentation...',
+        step: 2,
+        total: 3
+    });
+
+    try {
+        const result = await aiRegenerate(extraction, docId);
+        lastProseMeta = { level: scope, hasValidationWarning: !!result.hasValidationWarning };
+        lastGenerated = { documentation: result.generatedDocumentation, extraction };
+
+        logWorkflow('REGENERATE_COMPLETE', {
+            docId,
+            changed: result.changes.changed,
+            regenerated: result.sections.filter(section => section.status === 'regenerated').length
+        });
+        figma.ui.postMessage({ type: 'regenerate-diff', data: { ...result, level: scope } });
+        return true;
+    } catch (error) {
+        logWorkflow('REGENERATE_FAILED', {
+            docId,
+            error: error instanceof Error ? error.message : String(error),
+            fallback: 'prepareDocumentation'
+        });
+        return false;
+    }
+}
+
 // Detect scope based on selection
 function detectScope(): DocLevel {
     const selection = figma.currentPage.selection;
@@ -81,6 +183,7 @@ async function runDocumentationWorkflow() {
         });
 
         const extractionDuration = Date.now() - extractionStartTime;
+        lastTextSamples = extraction.textSamples || [];
         logWorkflow('EXTRACTION_COMPLETE', {
             duration: `${extractionDuration}ms`,
             textSamples: extraction.textSamples?.length || 0,
@@ -90,7 +193,13 @@ async function runDocumentationWorkflow() {
             extractionSize: JSON.stringify(extraction).length
         });
 
-        // Step 2: AI Processing
+        const savedDocId = savedProseDocId();
+        if (savedDocId && await regenerateDocumentation(extraction, savedDocId, scope)) {
+            logWorkflow('WORKFLOW_COMPLETE_REGENERATE', { totalDuration: `${Date.now() - workflowStartTime}ms` });
+            return;
+        }
+
+        // Step 2: AI Processing (the UI replaces this status with the streamed sections)
         logWorkflow('AI_PROCESSING_UI_UPDATE', { step: 2, total: 3, message: 'Sending to AI for analysis...' });
         figma.ui.postMessage({
             type: 'status',
@@ -104,17 +213,19 @@ async function runDocumentationWorkflow() {
 
         try {
             logWorkflow('AI_PROCESSING_START', { extractionSize: JSON.stringify(extraction).length });
-            result = await aiPrepare(extraction);
+            result = await prepareDocumentation(extraction);
             const aiDuration = Date.now() - aiStartTime;
 
-            // Check if we got prose documentation
-            if (result.format === 'prose' && result.documentation) {
+            // Check if we got prose documentation (format prose or both)
+            if (result.documentation) {
                 logWorkflow('AI_PROCESSING_SUCCESS_PROSE', {
                     duration: `${aiDuration}ms`,
                     format: result.format,
                     hasDocumentation: !!result.documentation,
                     hasValidationWarning: result.hasValidationWarning,
-                    documentationLength: result.documentation?.length || 0
+                    documentationLength: result.documentation?.length || 0,
+                    hasCapsule: !!result.capsule,
+                    capsuleFallback: result.capsuleFallback
                 });
 
                 // Step 3: Prose documentation ready
@@ -131,8 +242,16 @@ async function runDocumentationWorkflow() {
                     documentation: result.documentation,
                     format: result.format,
                     hasValidationWarning: result.hasValidationWarning,
-                    level: scope
+                    grounding: result.grounding || null,
+                    level: scope,
+                    // Structured capsule for prefilling the form, when the backend returned one
+                    capsule: result.capsule || null,
+                    capsuleFallback: !!result.capsuleFallback,
+                    // Per-section evidence with layer ids, for highlighting supporting layers
+                    evidence: result.evidence || null
                 };
+                lastProseMeta = { level: scope, hasValidationWarning: !!result.hasValidationWarning };
+                lastGenerated = { documentation: result.documentation, extraction };
 
                 if (isUIReady) {
                     logWorkflow('SENDING_PROSE_TO_UI', {
@@ -352,6 +471,19 @@ figma.ui.onmessage = async (msg) => {
             }
         }
 
+        if (msg.type === 'stream-started' && pendingStream) {
+            clearTimeout(pendingStream.ackTimer);
+        }
+
+        if (msg.type === 'stream-complete' && pendingStream) {
+            logWorkflow('AI_STREAM_COMPLETE', { revised: msg.result?.revised, hasCapsule: !!msg.result?.capsule });
+            pendingStream.resolve(msg.result);
+        }
+
+        if (msg.type === 'stream-failed' && pendingStream) {
+            pendingStream.reject(new Error(msg.message));
+        }
+
         if (msg.type === 'save') {
             const { capsule } = msg;
             logWorkflow('SAVE_REQUEST_START', {
@@ -375,21 +507,26 @@ figma.ui.onmessage = async (msg) => {
             const selection = figma.currentPage.selection;
             const nodeId = selection.length > 0 ? selection[0].id : undefined;
 
-            await saveCapsule(capsule, figma.fileKey || '', nodeId);
+            const author = figma.currentUser ? figma.currentUser.name : undefined;
+            const fingerprint = selection.length > 0 ? nodeFingerprint(selection[0]) : undefined;
+            const saved = await saveCapsule(capsule, figma.fileKey || '', nodeId, figma.currentPage.name, author, lastTextSamples, fingerprint);
 
             const saveDuration = Date.now() - saveStartTime;
             logWorkflow('BACKEND_SAVE_COMPLETE', {
                 duration: `${saveDuration}ms`,
-                nodeId
+                nodeId,
+                docId: saved.id,
+                duplicates: saved.duplicates?.length || 0
             });
 
-            // Save summary to shared plugin data
+            // Save summary to shared plugin data, keeping the backend id for later lookups
             logWorkflow('PLUGIN_DATA_SAVE_START', {});
             const summary = {
                 title: capsule.title,
                 problem: capsule.problem,
                 lastUpdated: capsule.lastUpdated,
-                level: capsule.level
+                level: capsule.level,
+                docId: saved.id
             };
 
             if (nodeId) {
@@ -408,9 +545,12 @@ figma.ui.onmessage = async (msg) => {
             }
 
             logWorkflow('SAVE_SUCCESS_UI_UPDATE', {});
+            const duplicate = saved.duplicates && saved.duplicates[0];
             figma.ui.postMessage({
                 type: 'success',
-                message: 'Documentation saved successfully!'
+                message: duplicate
+                    ? `Documentation saved. Looks similar to "${duplicate.title}" (${Math.round(duplicate.score * 100)}% match)`
+                    : 'Documentation saved successfully!'
             });
 
             // Close after short delay
@@ -435,15 +575,28 @@ figma.ui.onmessage = async (msg) => {
                 total: 1
             });
 
-            // For now, we'll save prose documentation as a simple text note
-            // In the future, this could be enhanced to save to a dedicated prose endpoint
+            // Save to the backend first so the prose survives the node being deleted
             logWorkflow('PROSE_SAVE_START', {});
             const saveStartTime = Date.now();
 
+            const { saveProse } = await import('./api');
             const selection = figma.currentPage.selection;
             const nodeId = selection.length > 0 ? selection[0].id : undefined;
-
-            // Save prose documentation to plugin data
+            const author = figma.currentUser ? figma.currentUser.name : undefined;
+
+            const saved = await saveProse(
+                documentation,
+                figma.fileKey || '',
+                lastProseMeta.level,
+                nodeId,
+                figma.currentPage.name,
+                author,
+                lastProseMeta.hasValidationWarning,
+                lastGenerated?.documentation,
+                lastGenerated?.extraction
+            );
+
+            // Keep a copy in plugin data, with the backend id for later lookups
             if (nodeId) {
                 const node = figma.getNodeById(nodeId);
                 if (node) {
@@ -451,7 +604,8 @@ figma.ui.onmessage = async (msg) => {
                         documentation,
                         format: 'prose',
                         lastUpdated: new Date().toISOString(),
-                        level: 'frame' // Default for now
+                        level: lastProseMeta.level,
+                        docId: saved.docId
                     };
 
                     node.setSharedPluginData('one-brain-ai', 'prose-documentation', JSON.stringify(proseData));
@@ -473,7 +627,8 @@ figma.ui.onmessage = async (msg) => {
             const saveDuration = Date.now() - saveStartTime;
             logWorkflow('PROSE_SAVE_COMPLETE', {
                 duration: `${saveDuration}ms`,
-                nodeId
+                nodeId,
+                docId: saved.docId
             });
 
             logWorkflow('SAVE_PROSE_SUCCESS_UI_UPDATE', {});
@@ -499,6 +654,173 @@ figma.ui.onmessage = async (msg) => {
             await runDocumentationWorkflow();
         }
 
+        if (msg.type === 'document-page-frames') {
+            const frames = figma.currentPage.children.filter(node => node.type === 'FRAME') as FrameNode[];
+            logWorkflow('BATCH_START', { pageName: figma.currentPage.name, frames: frames.length });
+
+            if (frames.length === 0) {
+                figma.ui.postMessage({ type: 'error', message: 'There are no top-level frames on this page.' });
+                return;
+            }
+            if (frames.length > MAX_BATCH_FRAMES) {
+                figma.notify(`Documenting the first ${MAX_BATCH_FRAMES} of ${frames.length} frames`);
+            }
+
+            const batchFrames = frames.slice(0, MAX_BATCH_FRAMES);
+            const extractions: Extraction[] = [];
+            for (let i = 0; i < batchFrames.length; i++) {
+                figma.ui.postMessage({
+                    type: 'status',
+                    message: `Extracting frame ${i + 1} of ${batchFrames.length}...`,
+                    step: i + 1,
+                    total: batchFrames.length
+                });
+                extractions.push(await extractFromNodes('frame', [batchFrames[i]]));
+            }
+
+            const { aiPrepareBatch, getBatchJob } = await import('./api');
+            let job = await aiPrepareBatch(extractions, 'both');
+            lastBatch = { job, extractions };
+
+            while (job.status !== 'done') {
+                figma.ui.postMessage({ type: 'batch-progress', data: job });
+                await new Promise(resolve => setTimeout(resolve, BATCH_POLL_MS));
+                job = await getBatchJob(job.jobId);
+                lastBatch = { job, extractions };
+            }
+
+            logWorkflow('BATCH_COMPLETE', { jobId: job.jobId, progress: job.progress });
+            figma.ui.postMessage({ type: 'batch-progress', data: job });
+        }
+
+        // Show one batch result as generated prose; the frame is selected so the prose save handler documents it
+        if (msg.type === 'open-batch-item' && lastBatch) {
+            const item = lastBatch.job.items[msg.index];
+            const node = item?.nodeId ? figma.getNodeById(item.nodeId) : null;
+
+            if (!item || !item.result || !node) {
+                figma.notify(node ? 'This frame has no documentation yet' : 'This frame is no longer in the file');
+            } else {
+                selectNode(node);
+                lastTextSamples = lastBatch.extractions[item.index].textSamples || [];
+                lastProseMeta = { level: 'frame', hasValidationWarning: !!item.result.hasValidationWarning };
+                lastGenerated = { documentation: item.result.documentation, extraction: lastBatch.extractions[item.index] };
+
+                figma.ui.postMessage({
+                    type: 'prose-documentation',
+                    data: {
+                        documentation: item.result.documentation,
+                        format: item.result.format,
+                        hasValidationWarning: item.result.hasValidationWarning,
+                        grounding: item.result.grounding || null,
+                        level: 'frame',
+                        capsule: item.result.capsule || null,
+                        capsuleFallback: !!item.result.capsuleFallback,
+                        evidence: null
+                    }
+                });
+            }
+        }
+
+        // Save every documented frame of the last batch, as save-prose does for one frame
+        if (msg.type === 'save-batch' && lastBatch) {
+            const { saveProse } = await import('./api');
+            const author = figma.currentUser ? figma.currentUser.name : undefined;
+            const items = lastBatch.job.items.filter(item => item.status === 'done' && item.result?.documentation && item.nodeId);
+            let saved = 0;
+
+            for (const item of items) {
+                figma.ui.postMessage({ type: 'status', message: `Saving ${item.nodeName || 'frame'}...`, step: saved + 1, total: items.length });
+                try {
+                    const result = await saveProse(
+                        item.result.documentation,
+                        figma.fileKey || '',
+                        'frame',
+                        item.nodeId,
+                        figma.currentPage.name,
+                        author,
+                        !!item.result.hasValidationWarning,
+                        item.result.documentation,
+                        lastBatch.extractions[item.index]
+                    );
+
+                    const node = figma.getNodeById(item.nodeId!);
+                    node?.setSharedPluginData('one-brain-ai', 'prose-documentation', JSON.stringify({
+                        documentation: item.result.documentation,
+                        format: 'prose',
+                        lastUpdated: new Date().toISOString(),
+                        level: 'frame',
+                        docId: result.docId
+                    }));
+                    saved++;
+                } catch (error) {
+                    logWorkflow('BATCH_ITEM_SAVE_FAILED', { nodeId: item.nodeId, error: error instanceof Error ? error.message : String(error) });
+                }
+            }
+
+            logWorkflow('BATCH_SAVED', { saved, total: items.length });
+            figma.ui.postMessage({
+                type: 'success',
+                message: saved === items.length
+                    ? `Saved documentation for ${saved} frames`
+                    : `Saved documentation for ${saved} of ${items.length} frames; see the console for failures`
+            });
+        }
+
+        if (msg.type === 'report-coverage') {
+            logWorkflow('COVERAGE_REPORT_START', { fileKey: figma.fileKey, pages: figma.root.children.length });
+
+            figma.ui.postMessage({
+                type: 'status',
+                message: 'Checking documentation coverage...',
+                step: 1,
+                total: 1
+            });
+
+            const { reportCoverage } = await import('./api');
+            const nodes = collectCoverageNodes();
+            const author = figma.currentUser ? figma.currentUser.name : undefined;
+            const report = await reportCoverage(figma.fileKey || '', nodes, author);
+
+            logWorkflow('COVERAGE_REPORT_COMPLETE', {
+                total: report.total,
+                coverage: report.coverage,
+                stale: report.stale,
+                undocumented: report.undocumented
+            });
+
+            figma.ui.postMessage({
+                type: 'coverage-report',
+                data: { total: report.total, coverage: report.coverage, fresh: report.fresh, pages: report.pages }
+            });
+        }
+
+        // A Mobbin link from an inspiration search was opened or saved
+        if (msg.type === 'inspiration-outcome') {
+            const { runId, outcome, link } = msg;
+
+            if (outcome === 'save' && link?.url) {
+                const saved: any[] = (await figma.clientStorage.getAsync(SAVED_INSPIRATION_KEY)) || [];
+                if (!saved.some(item => item.url === link.url)) {
+                    await figma.clientStorage.setAsync(SAVED_INSPIRATION_KEY, [{ ...link, savedAt: new Date().toISOString() }, ...saved]);
+                }
+                figma.notify('Saved to your inspiration list');
+            }
+
+            logWorkflow('INSPIRATION_OUTCOME', { runId, outcome, url: link?.url });
+            if (runId) await reportInspirationOutcome(runId, outcome, link?.url);
+        }
+
+        if (msg.type === 'highlight-evidence') {
+            const nodeIds: string[] = Array.isArray(msg.nodeIds) ? msg.nodeIds : [];
+            const found = revealNodes(nodeIds);
+
+            logWorkflow('EVIDENCE_HIGHLIGHTED', { requested: nodeIds.length, found });
+            if (found < nodeIds.length) {
+                figma.notify(found === 0 ? 'Supporting layers are no longer in this file' : 'Some supporting layers are no longer in this file');
+            }
+        }
+
         if (msg.type === 'search-inspiration') {
             const { problemStatement } = msg;
             const searchStartTime = Date.now();
@@ -565,7 +887,7 @@ figma.ui.onmessage = async (msg) => {
                     keywords: extractedKeywords
                 });
 
-                const result = await searchWithKeywords(problemStatement, extractedKeywords);
+                const result = await searchWithKeywords(problemStatement, extractedKeywords, keywordResult.runId);
                 const searchDuration = Date.now() - searchStartTime;
 
                 logWorkflow('INSPIRATION_SEARCH_RESPONSE_PARSED', {
@@ -51,6 +51,18 @@ function pushIf<T>(arr: T[], v: T | undefined | null) {
 export async function extractFromSelection(
     scope: Extraction['scope'],
     onProgress?: (message: string, detail?: string) => void
+): Promise<Extraction> {
+    return extractFromNodes(scope, (figma.currentPage.selection || []) as SceneNode[], onProgress);
+}
+
+/**
+ * Extract from the given nodes as if they were selected, e.g. each frame of a batch, without
+ * changing the user's selection. No nodes means the whole current page.
+ */
+export async function extractFromNodes(
+    scope: Extraction['scope'],
+    selection: SceneNode[],
+    onProgress?: (message: string, detail?: string) => void
 ): Promise<Extraction> {
     try {
         onProgress?.('Starting extraction...', 'Initializing');
@@ -59,7 +71,6 @@ export async function extractFromSelection(
         const fileName = figma.root.name;
         const pageName = figma.currentPage.name;
 
-        const selection = (figma.currentPage.selection || []) as SceneNode[];
         const hasSelection = selection.length > 0;
 
         // Roots: selection or page. We’ll treat each given root as "isRoot=true" for traversal policy.
@@ -73,9 +84,13 @@ export async function extractFromSelection(
         onProgress?.('Scanning layers...', `Found ${roots.length} root ${roots.length === 1 ? 'element' : 'elements'}`);
 
         const textSamples: string[] = [];
-        const componentInstances: { name: string; variant?: string }[] = [];
+        // Layer id of each text sample, so generated documentation can point back at it
+        const textNodeIds: string[] = [];
+        const componentInstances: { name: string; variant?: string; nodeId?: string }[] = [];
         const prototypeLinks: { from: string; to: string }[] = [];
         const frameNameHints: string[] = [];
+        // Parallel to frameNameHints, so prototype links can be read as named flow steps
+        const frameNodeIds: string[] = [];
         const platformHints: string[] = [];
         const deepLinks: { label: string; url: string }[] = [];
         const thumbnails: string[] = [];
@@ -114,6 +129,7 @@ export async function extractFromSelection(
                         const s = ((node as TextNode).characters || '').trim();
                         if (s) {
                             textSamples.push(s.slice(0, 300));
+                            textNodeIds.push(node.id);
                             textNodesFound++;
                             if (textNodesFound % 5 === 0) {
                                 onProgress?.('Extracting text...', `Found ${textNodesFound} visible text samples`);
@@ -145,7 +161,7 @@ export async function extractFromSelection(
                         } catch { /* ignore */ }
 
                         if (name) {
-                            componentInstances.push({ name, variant });
+                            componentInstances.push({ name, variant, nodeId: inst.id });
                             onProgress?.('Component', `Added "${name}" (${componentInstancesFound} total)`);
                         }
                     } catch (e) {
@@ -163,6 +179,7 @@ export async function extractFromSelection(
                         if (typeof n === 'string' && n) {
                             framesFound++;
                             frameNameHints.push(n);
+                            frameNodeIds.push(node.id);
                             onProgress?.('Frames...', `Found frame/section "${n}" (${framesFound})`);
                         }
                     }
@@ -204,10 +221,17 @@ export async function extractFromSelection(
             }
         }
 
-        // Prototype links: scan reactions on the selection only
+        // Prototype links: scan reactions on the selection, and for flows, pages and files on the frames inside it too
         onProgress?.('Checking interactions...', 'Scanning reactions on selection');
         if (hasSelection) {
-            for (const n of selection) {
+            const reactionSources: SceneNode[] = [...selection];
+            if (scope !== 'frame') {
+                for (const id of frameNodeIds) {
+                    const frame = figma.getNodeById(id) as SceneNode | null;
+                    if (frame && !reactionSources.includes(frame)) reactionSources.push(frame);
+                }
+            }
+            for (const n of reactionSources) {
                 try {
                     const rxns = (n as any).reactions as ReadonlyArray<any> | undefined;
                     if (rxns?.length) {
@@ -259,17 +283,19 @@ export async function extractFromSelection(
             nodeType,
             nodeName,
             textSamples,
+            textNodeIds,
             componentInstances,
             prototypeLinks,
             frameNameHints,
+            frameNodeIds,
             platformHints,
             thumbnails,
             deepLinks
         };
         return extraction;
     } catch (err) {
-        console.error('[one-brain-ai] extractFromSelection hard-failed:', err);
-        const sel = figma.currentPage.selection as SceneNode[] || [];
+        console.error('[one-brain-ai] extractFromNodes hard-failed:', err);
+        const sel = selection;
         return {
             scope,
             fileKey: figma.fileKey || '',
@@ -279,9 +305,11 @@ export async function extractFromSelection(
             nodeType: (sel[0] as any)?.type,
             nodeName: (sel[0] as any)?.name,
             textSamples: [],
+            textNodeIds: [],
             componentInstances: [],
             prototypeLinks: [],
             frameNameHints: [],
+            frameNodeIds: [],
             platformHints: [],
             thumbnails: [],
             deepLinks: []
@@ -9,12 +9,18 @@ export type Extraction = {
     nodeType?: string;
     nodeName?: string;
     textSamples: string[];
-    componentInstances: { name: string; variant?: string }[];
+    // Parallel to textSamples
+    textNodeIds: string[];
+    componentInstances: { name: string; variant?: string; nodeId?: string }[];
     prototypeLinks: { from: string; to: string }[];
     frameNameHints: string[];
+    // Parallel to frameNameHints
+    frameNodeIds: string[];
     platformHints: string[];
     thumbnails: string[];
     deepLinks: { label: string; url: string }[];
+    // Output language for /ai/prepare, e.g. "de-DE"; the backend defaults to en-GB
+    locale?: string;
 };
 
 // Capsule types
@@ -34,6 +40,7 @@ export type BaseCapsule = {
     humanNotes?: string;
     canonical?: boolean;
     lastUpdated: string;
+    locale?: string;
 };
 
 export type FrameCapsule = BaseCapsule & {
@@ -1,3 +1,4 @@
+import { aiPrepareStream } from './api';
 import type { Capsule } from './types';
 
 // Immediate loading verification
@@ -128,6 +129,59 @@ function showSuccess(message: string) {
     document.getElementById('status-container')!.style.display = 'block';
 }
 
+// Sections of /ai/prepare/stream rendered under the status bar as the model writes them
+function createStreamPreview(): HTMLElement {
+    let preview = document.getElementById('stream-preview');
+    if (!preview) {
+        preview = document.createElement('div');
+        preview.id = 'stream-preview';
+        preview.style.fontSize = '11px';
+        preview.style.lineHeight = '1.4';
+        preview.style.marginTop = '12px';
+        preview.style.whiteSpace = 'pre-wrap';
+        document.getElementById('status-container')!.appendChild(preview);
+    }
+    preview.textContent = '';
+    return preview;
+}
+
+async function handleStreamPrepare(data: { extraction: any; format: 'prose' | 'both'; evidence: boolean }) {
+    parent.postMessage({ pluginMessage: { type: 'stream-started' } }, '*');
+
+    const preview = createStreamPreview();
+    const bodies = new Map<string, HTMLElement>();
+    let sectionTotal = 1;
+
+    try {
+        const result = await aiPrepareStream(data.extraction, data.format, data.evidence, {
+            onStart: start => {
+                sectionTotal = start.sections.length;
+                showStatus('Writing documentation...', 0, sectionTotal);
+            },
+            onSection: section => {
+                const heading = document.createElement('strong');
+                heading.textContent = section.heading;
+                const body = document.createElement('div');
+                body.style.marginBottom = '8px';
+                preview.appendChild(heading);
+                preview.appendChild(body);
+                bodies.set(section.heading, body);
+                showStatus(`Writing ${section.heading}...`, section.index + 1, sectionTotal);
+            },
+            onToken: token => {
+                const body = token.heading ? bodies.get(token.heading) : undefined;
+                if (body) body.textContent += token.text;
+            }
+        });
+        showStatus('Checking documentation...', sectionTotal, sectionTotal);
+        parent.postMessage({ pluginMessage: { type: 'stream-complete', result } }, '*');
+    } catch (error) {
+        logUI('STREAM_PREPARE_ERROR', { error: error instanceof Error ? error.message : String(error) });
+        preview.textContent = '';
+        parent.postMessage({ pluginMessage: { type: 'stream-failed', message: error instanceof Error ? error.message : String(error) } }, '*');
+    }
+}
+
 function prefillForm(capsule: Capsule) {
     // Basic fields
     (document.getElementById('title') as HTMLInputElement).value = capsule.title || '';
@@ -353,6 +407,23 @@ window.onmessage = (event) => {
             prefillForm(capsule);
             break;
 
+        case 'prose-documentation':
+            // This UI has no prose view; prefill the form from the structured capsule sent alongside
+            logUI('PROSE_DOCUMENTATION_MESSAGE', {
+                hasCapsule: !!msg.data.capsule,
+                capsuleFallback: msg.data.capsuleFallback
+            });
+            if (msg.data.capsule) {
+                (window as any).currentCapsuleLevel = msg.data.capsule.level;
+                prefillForm(msg.data.capsule);
+            }
+            break;
+
+        case 'stream-prepare':
+            logUI('STREAM_PREPARE_MESSAGE', { scope: msg.data.extraction?.scope, format: msg.data.format });
+            handleStreamPrepare(msg.data);
+            break;
+
         case 'error':
             logUI('ERROR_MESSAGE', { message: msg.message });
             showError(msg.message);
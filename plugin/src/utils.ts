@@ -107,6 +107,7 @@ export interface DocumentationSummary {
     problem: string;
     lastUpdated: string;
     level: string;
+    docId?: string;
     hasFullDocumentation?: boolean;
 }
 
@@ -160,6 +161,69 @@ export function findDocumentedNodes(container: BaseNode): BaseNode[] {
     return documented;
 }
 
+// Coverage utilities
+export interface CoverageNode {
+    nodeId: string;
+    name: string;
+    type: string;
+    pageName: string;
+    fingerprint: string;
+}
+
+// FNV-1a, enough to tell whether a node changed since it was documented
+function hashString(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Fingerprint of a frame or section: its type, name, size, direct children and visible copy.
+ * Saved with the doc so the backend can flag docs whose node has changed since.
+ */
+export function nodeFingerprint(node: SceneNode): string {
+    const parts: string[] = [node.type, node.name];
+    if ('width' in node) parts.push(`${Math.round(node.width)}x${Math.round(node.height)}`);
+
+    if ('children' in node) {
+        parts.push(...node.children.map(child => `${child.type}:${child.name}`));
+        const texts = (node as FrameNode).findAll(child => child.type === 'TEXT') as TextNode[];
+        parts.push(...texts.map(text => text.characters));
+    }
+
+    return hashString(parts.join('\u0000'));
+}
+
+/**
+ * Every frame and section in the file, page by page: top-level frames and sections, plus the
+ * frames directly inside sections. Nested frames are treated as part of their screen.
+ */
+export function collectCoverageNodes(root: DocumentNode = figma.root): CoverageNode[] {
+    const nodes: CoverageNode[] = [];
+
+    function visit(node: SceneNode, pageName: string) {
+        if (node.type !== 'FRAME' && (node as any).type !== 'SECTION') return;
+        nodes.push({ nodeId: node.id, name: node.name, type: node.type, pageName, fingerprint: nodeFingerprint(node) });
+
+        if ((node as any).type === 'SECTION') {
+            for (const child of (node as SectionNode).children) {
+                visit(child, pageName);
+            }
+        }
+    }
+
+    for (const page of root.children) {
+        for (const child of page.children) {
+            visit(child, page.name);
+        }
+    }
+
+    return nodes;
+}
+
 // URL utilities
 export function createFigmaNodeUrl(fileKey: string, nodeId: string): string {
     return `https://www.figma.com/file/${fileKey}?node-id=${encodeURIComponent(nodeId)}`;
@@ -249,6 +313,17 @@ export function selectNode(node: BaseNode): void {
     figma.viewport.scrollAndZoomIntoView([node as any]);
 }
 
+// Bring layers into view without changing the selection, which the save handlers document
+export function revealNodes(nodeIds: string[]): number {
+    const nodes = nodeIds
+        .map(id => figma.getNodeById(id))
+        .filter((node): node is SceneNode => !!node && 'visible' in node);
+    if (nodes.length > 0) {
+        figma.viewport.scrollAndZoomIntoView(nodes);
+    }
+    return nodes.length;
+}
+
 // Color utilities
 export function rgbToHex(rgb: RGB): string {
     const toHex = (value: number) => {
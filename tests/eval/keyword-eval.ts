@@ -0,0 +1,127 @@
+// Keyword Extraction Evaluation - scores LLMKeywordServiceV2.generateKeywords against the golden
+// set in tests/fixtures/keyword-eval/, writes a JSON and Markdown scorecard and exits 1 when
+// quality falls below the set's minimums or regresses from the baseline scorecard.
+//
+// Runs offline unless ONE_BRAIN_LLM_CASSETTE or ONE_BRAIN_LLM_PROVIDER says otherwise: the fake
+// provider answers each case's prompts with the keyword JSON in fake-answers.json, so parsing,
+// optimisation and the axis strategy are scored; a case without answers scores the taxonomy
+// fallback. Record live answers with ONE_BRAIN_LLM_CASSETTE=record and score them with
+// ONE_BRAIN_LLM_CASSETTE=replay. A run is compared with the baseline of the same provider only.
+//
+//   npx tsx tests/eval/keyword-eval.ts [--golden <file>] [--baseline <file>] [--answers <file>] [--out <dir>]
+//                                      [--update-baseline] [--case <id>] [--no-optimization] [--verbose]
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { FastifyInstance } from 'fastify';
+import type { Scorecard } from '../../backend/src/scraping/ai/KeywordEvaluation.js';
+
+const FIXTURES = resolve(dirname(fileURLToPath(import.meta.url)), '../fixtures/keyword-eval');
+
+function option(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function flag(name: string): boolean {
+    return process.argv.includes(`--${name}`);
+}
+
+const offline = !process.env.ONE_BRAIN_LLM_CASSETTE && !process.env.ONE_BRAIN_LLM_PROVIDER;
+
+// Canned answers per case id, then per prompt id
+type CannedAnswers = Record<string, Record<string, unknown>>;
+
+const quietApp = { log: { info() {}, warn() {}, error() {} } } as unknown as FastifyInstance;
+
+// The services log every step; keep the scorecard readable unless asked
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+    if (flag('verbose')) return run();
+    const { log, warn, error } = console;
+    console.log = console.warn = console.error = () => {};
+    try {
+        return await run();
+    } finally {
+        Object.assign(console, { log, warn, error });
+    }
+}
+
+async function main() {
+    // Imported here, after the provider is chosen, since the shared LLM client reads it on first use
+    const { getLLM, setLLMProvider } = await import('../../backend/src/llm/client.js');
+    const { FakeProvider } = await import('../../backend/src/llm/providers.js');
+    const { LLMKeywordServiceV2 } = await import('../../backend/src/scraping/ai/LLMKeywordServiceV2.js');
+    const { evaluateKeywords, formatScorecardMarkdown, parseGoldenSet, qualityRegressions } = await import('../../backend/src/scraping/ai/KeywordEvaluation.js');
+
+    const goldenPath = resolve(option('golden') ?? join(FIXTURES, 'golden-set.json'));
+    const baselinePath = resolve(option('baseline') ?? join(FIXTURES, 'baseline.json'));
+    const golden = parseGoldenSet(JSON.parse(readFileSync(goldenPath, 'utf8')));
+    const only = option('case');
+    const cases = only ? golden.cases.filter(goldenCase => goldenCase.id === only) : golden.cases;
+    if (cases.length === 0) {
+        throw new Error(`No case ${only} in ${goldenPath}`);
+    }
+
+    // The fake provider answers for whichever case is being generated; a prompt without an answer
+    // gets the fake's plain text, which fails parsing and falls back like a bad LLM answer would
+    let current: string | undefined;
+    if (offline) {
+        const answers = JSON.parse(readFileSync(resolve(option('answers') ?? join(FIXTURES, 'fake-answers.json')), 'utf8')).cases as CannedAnswers;
+        setLLMProvider(new FakeProvider(request => {
+            const answer = current === undefined ? undefined : answers[current]?.[request.prompt?.id ?? ''];
+            return answer === undefined ? 'no canned answer' : JSON.stringify(answer);
+        }));
+    }
+
+    const { provider } = getLLM();
+    const service = new LLMKeywordServiceV2(quietApp);
+    const optimize = !flag('no-optimization');
+    console.log(`🧪 Evaluating keyword extraction on ${cases.length} cases with ${provider.id}:${provider.model}`);
+
+    const { summary, cases: scores } = await evaluateKeywords(
+        cases,
+        problemStatement => {
+            current = cases.find(goldenCase => goldenCase.problemStatement === problemStatement)?.id;
+            return quietly(() => service.generateKeywords(problemStatement, optimize));
+        },
+        score => console.log(`${score.error ? '❌' : '✅'} ${score.id}: precision ${score.precision}, recall ${score.recall}${score.error ? ` (${score.error})` : ''}`)
+    );
+    const scorecard: Scorecard = { generatedAt: new Date().toISOString(), provider: provider.id, model: provider.model, summary, cases: scores };
+
+    // A single case, or another provider's answers, are not comparable with the baseline
+    const saved = !only && existsSync(baselinePath) ? JSON.parse(readFileSync(baselinePath, 'utf8')) as Scorecard : null;
+    const baseline = saved && saved.provider === scorecard.provider && saved.model === scorecard.model ? saved.summary : null;
+    const regressions = qualityRegressions(summary, golden.thresholds, baseline);
+    const markdown = formatScorecardMarkdown(scorecard, regressions);
+
+    const out = option('out');
+    if (out) {
+        mkdirSync(out, { recursive: true });
+        writeFileSync(join(out, 'keyword-scorecard.json'), `${JSON.stringify(scorecard, null, 2)}\n`);
+        writeFileSync(join(out, 'keyword-scorecard.md'), markdown);
+        console.log(`📝 Scorecard written to ${out}`);
+    }
+    console.log(`\n${markdown}`);
+    if (!baseline && !only) {
+        const reason = saved ? `the baseline at ${baselinePath} is for ${saved.provider}:${saved.model}` : `nothing at ${baselinePath}`;
+        console.log(`ℹ️  No baseline yet for ${provider.id}:${provider.model} (${reason}); checked the golden set's minimums only. Run with --update-baseline to create one`);
+    }
+
+    if (flag('update-baseline')) {
+        if (only || summary.errors > 0) {
+            throw new Error('Refusing to update the baseline from a partial or failed run');
+        }
+        writeFileSync(baselinePath, `${JSON.stringify(scorecard, null, 2)}\n`);
+        console.log(`📌 Baseline updated: ${baselinePath}`);
+        process.exit(0);
+    }
+
+    console.log(regressions.length === 0 ? '🎉 Keyword quality holds' : `💥 Keyword quality regressed (${regressions.length} problem(s))`);
+    process.exit(regressions.length === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+    console.error('💥 Keyword evaluation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,67 @@
+// Batch Documentation Test - bounded concurrency, per-item failures and shared context across a batch
+
+import { BatchJobStore, MAX_BATCH_CONCURRENCY, batchProgress, runBatch, withBatchContext } from '../../../../backend/src/documentation/batch.js';
+import { documentationPrompts } from '../../../../backend/src/documentation/templates.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const frame = (nodeId: string, nodeName: string, pageName = 'Wallet') => ({ scope: 'frame', nodeId, nodeName, pageName, textSamples: [] });
+
+async function testBatchDocumentation() {
+    console.log('🧪 Testing batch documentation');
+    console.log('=====================================');
+
+    const extractions = [frame('1:1', 'Home'), frame('1:2', 'Top up'), frame('1:3', 'Settings'), frame('2:1', 'Login', 'Auth'), frame('1:4', 'Broken')];
+
+    // Siblings come from the same page only
+    const withContext = withBatchContext(extractions);
+    check('siblings are the other frames on the same page',
+        withContext[0].batchContext.siblingFrameNames.join(',') === 'Top up,Settings,Broken', withContext[0].batchContext);
+    check('frames on another page have no siblings', withContext[3].batchContext.siblingFrameNames.length === 0);
+
+    // Context goes to the model beside the evidence, not inside it
+    const { userPrompt } = documentationPrompts(withContext[0]);
+    const evidence = userPrompt.slice(userPrompt.indexOf('EVIDENCE_PAYLOAD:'), userPrompt.indexOf('BATCH_CONTEXT'));
+    check('prompt has a batch context block', userPrompt.includes('BATCH_CONTEXT') && userPrompt.includes('"Settings"'));
+    check('batch context is left out of the evidence payload', !evidence.includes('siblingFrameNames'));
+    check('single frames get no batch context', !documentationPrompts(extractions[0]).userPrompt.includes('BATCH_CONTEXT'));
+
+    // At most `concurrency` items run at once, and one failure does not stop the rest
+    const store = new BatchJobStore<string>();
+    const job = store.create(withContext, 2);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const finishedOrder: number[] = [];
+
+    await runBatch(job, withContext, async (extraction, index) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5 * (index % 3)));
+        inFlight--;
+        if (extraction.nodeName === 'Broken') throw new Error('model timed out');
+        return `doc for ${extraction.nodeName}`;
+    }, item => finishedOrder.push(item.index));
+
+    check('never more than the concurrency limit in flight', maxInFlight === 2, maxInFlight);
+    check('job finishes with every item reported', job.status === 'done' && finishedOrder.length === extractions.length, finishedOrder);
+    check('failed item keeps its error', job.items[4].status === 'failed' && job.items[4].error === 'model timed out', job.items[4]);
+    check('other items succeed', job.items.slice(0, 4).every(item => item.status === 'done' && item.result === `doc for ${item.nodeName}`));
+    check('progress counts done and failed items', JSON.stringify(batchProgress(job)) === JSON.stringify({ pending: 0, running: 0, done: 4, failed: 1 }), batchProgress(job));
+    check('jobs can be looked up by id', store.get(job.id) === job);
+
+    check('concurrency is capped', store.create(extractions, 50).concurrency === MAX_BATCH_CONCURRENCY);
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All batch checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testBatchDocumentation().catch(error => {
+    console.error('💥 Batch test crashed:', error);
+    process.exit(1);
+});
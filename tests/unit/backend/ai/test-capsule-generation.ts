@@ -0,0 +1,81 @@
+// Capsule Generation Test - JSON capsules from /ai/prepare are validated, retried and fall back
+// Runs offline against the fake provider
+
+import { FastifyInstance } from 'fastify';
+import { setLLMProvider } from '../../../../backend/src/llm/client.js';
+import { FakeProvider } from '../../../../backend/src/llm/providers.js';
+import { generateCapsule, parseCapsuleResponse } from '../../../../backend/src/documentation/capsuleGeneration.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const quietApp = { log: { info() {}, warn() {}, error() {} } } as unknown as FastifyInstance;
+
+const extraction = {
+    scope: 'frame',
+    fileKey: 'FILE123',
+    nodeId: '1:2',
+    nodeName: 'Login',
+    textSamples: ['Sign in', 'Forgot password?'],
+    componentInstances: [{ name: 'Button/Primary' }]
+};
+
+const validFrame = {
+    level: 'frame',
+    title: 'Login',
+    problem: 'Let returning users "Sign in"',
+    approach: ['Email and password fields', 'Primary CTA: Sign in'],
+    components: [{ ds: 'Button/Primary' }],
+    platforms: ['iOS'],
+    state: 'unknown',
+    links: [{ label: 'Made up', url: 'https://example.com' }],
+    canonical: true
+};
+
+async function testCapsuleGeneration() {
+    console.log('🧪 Testing capsule generation');
+    console.log('=====================================');
+
+    // Parsing tolerates code fences and enforces the requested level
+    const fenced = parseCapsuleResponse('```json\n' + JSON.stringify(validFrame) + '\n```', 'frame');
+    check('fenced JSON parses into a capsule', fenced.capsule?.level === 'frame' && fenced.capsule.title === 'Login', fenced.errors);
+    check('model links and canonical are ignored', fenced.capsule?.links.length === 0 && fenced.capsule?.canonical === false);
+    check('wrong level is rejected', parseCapsuleResponse(JSON.stringify(validFrame), 'section').errors[0] === 'level must be "section"');
+    check('non-JSON is rejected', parseCapsuleResponse('Screen Name\nLogin', 'frame').errors.length === 1);
+
+    // A schema violation is retried with the errors, then accepted
+    const retrying = new FakeProvider(JSON.stringify({ ...validFrame, state: 'idle', approach: 'one step' }), JSON.stringify(validFrame));
+    setLLMProvider(retrying, { retries: 0 });
+    const retried = await generateCapsule(extraction, quietApp);
+    check('invalid capsule is retried and then accepted', !retried.isFallback && retried.attempts === 2, retried.errors);
+    check('retry prompt lists the validation errors', /state must be one of/.test(retrying.requests[1]?.user ?? '') && retrying.requests[1]?.prompt?.id === 'ai-prepare-capsule-retry');
+    check('capsule prompts come from their prompt files', retrying.requests[0]?.prompt?.template?.id === 'ai-prepare-capsule' && retrying.requests[1]?.prompt?.template?.id === 'ai-prepare-capsule-retry' && !!retrying.requests[1]?.prompt?.template?.version, retrying.requests.map(request => request.prompt?.template));
+    check('default locale prompt names UK-English without a translation rule', /in UK-English,/.test(retrying.requests[0]?.system ?? '') && !/Write the text fields/.test(retrying.requests[0]?.system ?? ''));
+
+    const german = new FakeProvider(JSON.stringify(validFrame));
+    setLLMProvider(german, { retries: 0 });
+    await generateCapsule({ ...extraction, locale: 'de-DE' }, quietApp);
+    check('other locales name their language and keep evidence wording', /in German,/.test(german.requests[0]?.system ?? '') && /Write the text fields in German, but keep component names/.test(german.requests[0]?.system ?? ''), german.requests[0]?.system);
+    check('capsule links point at the Figma node', retried.capsule.links[0]?.url === 'https://www.figma.com/file/FILE123?node-id=1%3A2', retried.capsule.links);
+
+    // Persistent violations fall back to the heuristic capsule
+    const stubborn = new FakeProvider('{"level": "frame"}');
+    setLLMProvider(stubborn, { retries: 0 });
+    const fallback = await generateCapsule(extraction, quietApp);
+    check('gives up after the schema retries', fallback.isFallback && stubborn.requests.length === 3, { calls: stubborn.requests.length });
+    check('fallback capsule keeps the last errors', fallback.errors.includes('title is required'), fallback.errors);
+    check('fallback capsule matches the extraction level', fallback.capsule.level === 'frame' && fallback.capsule.title === 'Login');
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All capsule generation checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testCapsuleGeneration().catch(error => {
+    console.error('💥 Capsule generation test crashed:', error);
+    process.exit(1);
+});
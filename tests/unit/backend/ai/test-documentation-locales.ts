@@ -0,0 +1,120 @@
+// Documentation Locales Test - translated headings still parse and validate, prompts name the language,
+// stored docs translate on demand and search filters by locale
+// Runs offline against the fake provider
+
+import { setLLMProvider } from '../../../../backend/src/llm/client.js';
+import { FakeProvider } from '../../../../backend/src/llm/providers.js';
+import { renderSections } from '../../../../backend/src/documentation/prose.js';
+import { parseLocale, withLocale } from '../../../../backend/src/documentation/locales.js';
+import { documentationPrompts, levelSections, parseTemplateSections, runValidators, templateFor, toStoredSections } from '../../../../backend/src/documentation/templates.js';
+import { translateDoc } from '../../../../backend/src/documentation/translation.js';
+import { capsuleToDocData, validateCapsule } from '../../../../backend/src/docs/capsule.js';
+import { buildWhere, localiseResult, parseSearchQuery } from '../../../../backend/src/search/query.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const flow = {
+    scope: 'section',
+    nodeName: 'Top up',
+    frameNameHints: ['Amount', 'Confirm'],
+    frameNodeIds: ['1:1', '2:1'],
+    prototypeLinks: [{ from: '1:1', to: '2:1' }],
+    textSamples: ['Top up'],
+    componentInstances: []
+};
+
+async function testDocumentationLocales() {
+    console.log('🧪 Testing documentation locales');
+    console.log('=====================================');
+
+    check('locales are matched loosely', parseLocale('de') === 'de-DE' && parseLocale('pt_br') === 'pt-BR' && parseLocale('EN-us') === 'en-US');
+    check('unsupported locales are rejected', parseLocale('tlh') === undefined && parseLocale(42) === undefined);
+    check('the default locale is left off the extraction', !('locale' in withLocale({ ...flow, locale: 'de-DE' }, 'en-GB')));
+
+    // German headings in order pass the same validators as English ones
+    const german = templateFor('section', 'de-DE');
+    check('section headings are translated', german.sections[0] === 'Name des Flows' && german.sections.includes('Schritte des Flows'), german.sections);
+    const prose = renderSections(german.sections, {
+        'Name des Flows': 'Aufladen',
+        'Schritte des Flows': '1. Amount: Betrag eingeben\n2. Confirm: prüfen',
+        'Wichtige Zustände': 'Fehler: "Payment failed"',
+        'Anmerkungen des Teams': ''
+    });
+    const validations = runValidators(german, prose, flow);
+    check('German prose passes the section validators', Object.values(validations).every(Boolean), validations);
+    check('English headings do not satisfy the German template',
+        runValidators(german, renderSections(templateFor('section').sections, {}), flow).headingsAndOrder === false);
+    check('translated sections are stored in the same columns', toStoredSections(german, { 'Name des Flows': 'Aufladen' })['Screen Name'] === 'Aufladen');
+    check('translated level sections are kept under the English heading', levelSections(german, { 'Wichtige Zustände': 'Fehler' })['Key States'] === 'Fehler');
+    check('parsed sections are keyed by the English headings', parseTemplateSections(german, prose).sections['Flow Name'] === 'Aufladen');
+
+    // Prompts name the language; default prompts are unchanged
+    const { systemPrompt, userPrompt } = documentationPrompts(withLocale(flow, 'de-DE'));
+    check('system prompt names the language', systemPrompt.includes('concise German documentation'));
+    check('user prompt lists the translated headings', userPrompt.includes('OUTPUT_LANGUAGE') && userPrompt.includes('4) Schritte des Flows'));
+    check('locale is not part of the evidence', !userPrompt.slice(0, userPrompt.indexOf('OUTPUT_LANGUAGE')).includes('"locale"'));
+    const english = documentationPrompts(flow);
+    check('default locale keeps the UK-English prompt', english.systemPrompt.includes('UK-English') && !english.userPrompt.includes('OUTPUT_LANGUAGE'));
+
+    // Capsules carry their locale
+    const capsule = { level: 'frame', title: 'Connexion', problem: 'Se connecter', approach: [], components: [], state: 'unknown' };
+    check('capsule locale is normalised', validateCapsule({ ...capsule, locale: 'fr' }).capsule?.locale === 'fr-FR');
+    check('unsupported capsule locale is an error', validateCapsule({ ...capsule, locale: 'tlh' }).errors.some(error => error.startsWith('locale')));
+    const location = { fileKey: 'FILE123', nodeId: '1:2' };
+    check('a capsule locale is stored with the doc', capsuleToDocData(validateCapsule({ ...capsule, locale: 'de' }).capsule!, location).locale === 'de-DE');
+    check('a capsule without a locale leaves the stored locale alone', !('locale' in capsuleToDocData(validateCapsule(capsule).capsule!, location)));
+
+    // Translation: component names and Human Notes are kept, headings come from the target locale
+    const frameProse = renderSections(templateFor('frame').sections, {
+        'Screen Name': 'Login',
+        'Problem Being Addressed (Why this screen exists)': 'Let returning users "Sign in".',
+        'Key Components Used': 'Button/Primary',
+        'Human Notes': 'Check with legal'
+    });
+    setLLMProvider(new FakeProvider(JSON.stringify({
+        title: 'Connexion',
+        problem: 'Permettre aux utilisateurs de revenir',
+        approach: ['Champ e-mail'],
+        sections: {
+            'Screen Name': 'Connexion',
+            'Problem Being Addressed (Why this screen exists)': 'Permettre aux utilisateurs de "Sign in".',
+            'Key Components Used': 'Bouton/Principal'
+        }
+    })), { retries: 0 });
+    const translated = await translateDoc({
+        level: 'frame',
+        locale: 'en-GB',
+        title: 'Login',
+        problem: 'Let returning users sign in',
+        approach: ['Email field'],
+        prose: { raw: frameProse, locale: 'en-GB' }
+    }, 'fr-FR');
+    const sections = parseTemplateSections(templateFor('frame', 'fr-FR'), translated.prose || '').sections;
+    check('capsule fields are translated', translated.title === 'Connexion' && translated.approach[0] === 'Champ e-mail', translated);
+    check('prose uses the target headings', (translated.prose || '').startsWith("Nom de l'écran\nConnexion"), translated.prose);
+    check('component names are not translated', sections['Key Components Used'] === 'Button/Primary', sections);
+    check('Human Notes are kept as written', sections['Human Notes'] === 'Check with legal', sections);
+
+    // Search filters on the doc's locale or a translation into it, and shows the translation
+    const { filters } = parseSearchQuery({ q: 'connexion', locale: 'fr' });
+    const where = JSON.stringify(buildWhere(filters));
+    check('search locale is parsed', filters.locale === 'fr-FR');
+    check('locale filter matches translated docs', where.includes('"translations":{"some":{"locale":"fr-FR"}}'), where);
+    check('text search covers translations', where.includes('"translations":{"some":{"locale":"fr-FR","OR"'), where);
+    const result: any = localiseResult({ id: 'd1', title: 'Login', problem: 'Sign in', locale: 'en-GB', translations: [{ locale: 'fr-FR', title: 'Connexion', problem: 'Se connecter', approach: [] }] }, 'fr-FR');
+    check('results show the translation', result.title === 'Connexion' && result.translatedFrom === 'en-GB' && !('translations' in result), result);
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All locale checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testDocumentationLocales().catch(error => {
+    console.error('💥 Locale test crashed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,95 @@
+// Documentation Prose Test - prose splits back into its eight sections however the headings are
+// written, missing sections are reported, and prose for a node without a capsule becomes capsule input
+// Runs offline, without a database
+
+import { validateCapsule } from '../../../../backend/src/docs/capsule.js';
+import { PROSE_SECTIONS, capsuleToProseSections, parseComponents, parseProse, parseSections, proseToCapsuleInput, renderProse } from '../../../../backend/src/documentation/prose.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const sections = {
+    'Screen Name': 'Login',
+    'Product / Project Context': 'Wallet app',
+    'Problem Being Addressed (Why this screen exists)': 'Returning users need to get back in quickly',
+    'User Scenario (What the user is trying to do here)': 'Unknown',
+    'Design Approach / Strategy': 'Email and password with a biometric shortcut',
+    'Intended Outcome': 'Users sign in within seconds',
+    'Key Components Used': 'Button/Primary (Size=Large); Forms/Input/Password',
+    'Human Notes': ''
+};
+
+function testParsing() {
+    const parsed = parseProse(renderProse(sections));
+    check('rendered prose parses back into every section', parsed.missing.length === 0
+        && PROSE_SECTIONS.every(heading => parsed.sections[heading] === sections[heading]), parsed);
+
+    const edited = parseProse([
+        'Notes before any heading are ignored',
+        '## 1) Screen Name:',
+        'Login',
+        '**Problem Being Addressed**',
+        'Users forget passwords',
+        '',
+        'and get locked out',
+        '3. design approach / strategy',
+        'Magic link',
+        'Screen Name',
+        'A second title'
+    ].join('\r\n'));
+    check('numbered, Markdown and short-form headings are recognised', edited.sections['Screen Name'] === 'Login'
+        && edited.sections['Design Approach / Strategy'] === 'Magic link', edited.sections);
+    check('a section keeps its inner blank lines', edited.sections['Problem Being Addressed (Why this screen exists)'] === 'Users forget passwords\n\nand get locked out');
+    check('a repeated heading keeps the first section', edited.sections['Screen Name'] === 'Login');
+    check('sections without a heading are reported missing', edited.missing.join('|')
+        === 'Product / Project Context|User Scenario (What the user is trying to do here)|Intended Outcome|Key Components Used|Human Notes', edited.missing);
+
+    const none = parseProse('Just a paragraph the model wrote instead');
+    check('prose with no headings has every section missing', Object.keys(none.sections).length === 0 && none.missing.length === PROSE_SECTIONS.length);
+    const custom = parseSections('Goal\nShip it\nRisks:\n', ['Goal', 'Risks']);
+    check('other heading sets parse the same way, and an empty section is present but blank', custom.sections.Goal === 'Ship it'
+        && custom.sections.Risks === '' && custom.missing.length === 0, custom);
+}
+
+function testComponents() {
+    check('components split on semicolons and lines, with variants in brackets', JSON.stringify(parseComponents('Button/Primary (Size=Large); - Forms/Input\n• Icon/Lock'))
+        === JSON.stringify([{ ds: 'Button/Primary', variant: 'Size=Large' }, { ds: 'Forms/Input' }, { ds: 'Icon/Lock' }]));
+    check('unknown or empty components give none', parseComponents('Unknown').length === 0 && parseComponents('Unbekannt').length === 0 && parseComponents(undefined).length === 0);
+}
+
+function testCapsuleInput() {
+    const input = proseToCapsuleInput(sections, 'frame');
+    const { capsule, errors } = validateCapsule(input);
+    check('prose for a frame becomes a valid capsule', errors.length === 0 && capsule?.title === 'Login' && capsule.product === 'Wallet app'
+        && capsule.state === 'unknown' && capsule.components.length === 2 && capsule.approach.length === 1, errors);
+    check('an empty human note is left unset', input.humanNotes === undefined);
+
+    const sparse = proseToCapsuleInput({ 'Screen Name': 'Unbekannt', 'Intended Outcome': 'Unknown' }, 'section');
+    check('unknown values are dropped and placeholders fill the required fields', sparse.title === 'Untitled screen' && sparse.problem === 'Unknown'
+        && sparse.outcome === undefined && sparse.approach.length === 0 && !('state' in sparse), sparse);
+    check('sparse prose still validates as capsule input', validateCapsule(sparse).errors.length === 0, validateCapsule(sparse).errors);
+
+    const roundTrip = capsuleToProseSections(capsule!);
+    check('a capsule renders back to the same sections, with no user scenario', roundTrip['Screen Name'] === 'Login'
+        && roundTrip['User Scenario (What the user is trying to do here)'] === 'Unknown'
+        && roundTrip['Key Components Used'] === sections['Key Components Used'], roundTrip);
+}
+
+function testDocumentationProse() {
+    console.log('🧪 Testing documentation prose');
+    console.log('=====================================');
+
+    testParsing();
+    testComponents();
+    testCapsuleInput();
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All documentation prose checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testDocumentationProse();
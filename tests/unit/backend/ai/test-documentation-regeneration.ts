@@ -0,0 +1,139 @@
+// Documentation Regeneration Test - design changes are diffed against the stored evidence, only the
+// affected sections are rewritten, and Human Notes, hand-edited and locked sections are kept
+// Runs offline: no model is called
+
+import { renderSections } from '../../../../backend/src/documentation/prose.js';
+import { templateFor } from '../../../../backend/src/documentation/templates.js';
+import {
+    diffEvidence,
+    evidenceSnapshot,
+    mergeRegeneration,
+    parseRegeneratedSections,
+    planRegeneration,
+    regenerationPrompts
+} from '../../../../backend/src/documentation/regeneration.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const before = {
+    scope: 'frame',
+    nodeName: 'Login',
+    textSamples: ['Sign in', 'Forgot password?', 'Email'],
+    componentInstances: [{ name: 'Button/Primary' }, { name: 'Input/Text' }]
+};
+
+const after = {
+    scope: 'frame',
+    nodeName: 'Login',
+    textSamples: ['Sign in', 'Email', 'Continue with Google'],
+    componentInstances: [{ name: 'Button/Primary' }, { name: 'Input/Text' }, { name: 'Button/Social' }]
+};
+
+const template = templateFor('frame');
+const generated = renderSections(template.sections, {
+    'Screen Name': 'Login',
+    'Product / Project Context': 'Authentication',
+    'Problem Being Addressed (Why this screen exists)': 'Let returning users "Sign in" with their "Email".',
+    'User Scenario (What the user is trying to do here)': 'Recover access through "Forgot password?".',
+    'Design Approach / Strategy': 'Recognition over recall with a single Button/Primary.',
+    'Intended Outcome': 'Unknown',
+    'Key Components Used': 'Button/Primary; Input/Text',
+    'Human Notes': ''
+});
+// The designer corrected the context and wrote a note after the prose was generated
+const edited = generated
+    .replace('Authentication\n', 'Authentication for the banking app\n')
+    .replace(/Human Notes\n/, 'Human Notes\nCheck "Forgot password?" copy with legal\n');
+
+function testDiffEvidence() {
+    const changes = diffEvidence(evidenceSnapshot(before), after);
+    check('added and removed text are found', changes.text.added[0] === 'Continue with Google' && changes.text.removed[0] === 'Forgot password?', changes.text);
+    check('added components are found', changes.components.added[0] === 'Button/Social' && changes.components.removed.length === 0, changes.components);
+    check('an unchanged extraction has no changes', !diffEvidence(evidenceSnapshot(before), { ...before, textSamples: [' sign IN', 'Forgot password?', 'Email'] }).changed);
+    check('renames are reported', diffEvidence(evidenceSnapshot(before), { ...before, nodeName: 'Sign in' }).renamed?.to === 'Sign in');
+    check('missing previous evidence is unknown', diffEvidence(null, after).known === false);
+}
+
+function testPlan() {
+    const changes = diffEvidence(evidenceSnapshot(before), after);
+    const plan = planRegeneration(template, { documentation: edited, generatedDocumentation: generated }, changes);
+    const affected = Object.keys(plan.affected);
+
+    check('sections quoting removed text are rewritten', affected.includes('User Scenario (What the user is trying to do here)'), plan.affected);
+    check('the components section is rewritten when components change', affected.includes('Key Components Used'));
+    check('unknown sections are rewritten when there is new evidence', affected.includes('Intended Outcome'));
+    check('untouched sections are left alone', !affected.includes('Screen Name') && !affected.includes('Design Approach / Strategy'), affected);
+    check('Human Notes are preserved even when they quote removed text',
+        !affected.includes('Human Notes') && plan.preserved['Human Notes'].includes('written by the team'), plan.preserved);
+
+    // A hand-edited section touched by the change is kept, and so is a locked one
+    const removedContext = diffEvidence(evidenceSnapshot({ ...before, textSamples: [...before.textSamples, 'Authentication'] }), after);
+    const guarded = planRegeneration(template, { documentation: edited, generatedDocumentation: generated, locked: ['intended outcome'] }, removedContext);
+    check('hand-edited sections are preserved', guarded.preserved['Product / Project Context']?.[0] === 'edited by hand', guarded.preserved);
+    check('locked sections are preserved', guarded.preserved['Intended Outcome']?.[0] === 'locked' && !('Intended Outcome' in guarded.affected), guarded.preserved);
+
+    const unknown = planRegeneration(template, { documentation: edited }, diffEvidence(null, after));
+    check('without previous evidence every generated section is rewritten', Object.keys(unknown.affected).length === template.sections.length - 1, Object.keys(unknown.affected));
+
+    const renamed = planRegeneration(template, { documentation: generated }, diffEvidence(evidenceSnapshot(before), { ...before, nodeName: 'Sign in' }));
+    check('a rename rewrites the name section only', Object.keys(renamed.affected).join() === 'Screen Name', renamed.affected);
+}
+
+function testMerge() {
+    const changes = diffEvidence(evidenceSnapshot(before), after);
+    const plan = planRegeneration(template, { documentation: edited, generatedDocumentation: generated }, changes);
+    const { userPrompt } = regenerationPrompts(plan, changes, after);
+    check('prompt lists the sections to rewrite with reasons', userPrompt.includes('• Key Components Used (components changed)'), userPrompt);
+    check('prompt lists the changes', userPrompt.includes('"textRemoved"') && userPrompt.includes('Continue with Google'));
+
+    // The model rewrote two sections and also wrote one it was not asked for
+    const answer = renderSections(['User Scenario (What the user is trying to do here)', 'Key Components Used', 'Screen Name'], {
+        'User Scenario (What the user is trying to do here)': 'Sign in with "Email" or "Continue with Google".',
+        'Key Components Used': 'Button/Primary; Input/Text; Button/Social',
+        'Screen Name': 'Something else'
+    });
+    const regenerated = parseRegeneratedSections(plan, answer);
+    check('sections that were not asked for are ignored', !('Screen Name' in regenerated), Object.keys(regenerated));
+
+    const { documentation, generatedDocumentation, sections } = mergeRegeneration(plan, regenerated);
+    const status = Object.fromEntries(sections.map(section => [section.key, section.status]));
+    check('rewritten sections are marked regenerated', status['Key Components Used'] === 'regenerated' && status['User Scenario (What the user is trying to do here)'] === 'regenerated', status);
+    check('affected sections the model skipped are unchanged', status['Intended Outcome'] === 'unchanged'
+        && sections.find(section => section.key === 'Intended Outcome')!.reasons.includes('not rewritten'));
+    check('Human Notes are kept in the document', documentation.includes('Check "Forgot password?" copy with legal') && status['Human Notes'] === 'preserved');
+    check('hand edits are kept in the document', documentation.includes('Authentication for the banking app'));
+    check('the generated document leaves the edits out', !generatedDocumentation.includes('banking app') && generatedDocumentation.includes('Button/Social'));
+    check('the merged document has every heading in order', template.validators.headingsAndOrder(documentation, after));
+}
+
+function testTranslatedHeadings() {
+    const german = templateFor('section', 'de-DE');
+    const flow = { scope: 'section', nodeName: 'Top up', frameNameHints: ['Amount', 'Confirm'], textSamples: [], componentInstances: [] };
+    const prose = renderSections(german.sections, {
+        'Name des Flows': 'Aufladen',
+        'Schritte des Flows': '1. Amount\n2. Confirm',
+        'Verwendete Schlüsselkomponenten': 'Unbekannt'
+    });
+    const changes = diffEvidence(evidenceSnapshot(flow), { ...flow, nodeName: 'Top up money', frameNameHints: ['Amount', 'Review', 'Confirm'] });
+    const plan = planRegeneration(german, { documentation: prose, locked: ['Name des Flows'] }, changes);
+    check('the frame inventory is rewritten when frames change', 'Flow Steps' in plan.affected, plan.affected);
+    check('locked headings may be given in the document locale', plan.preserved['Flow Name']?.[0] === 'locked' && !('Flow Name' in plan.affected), plan.preserved);
+
+    const { sections } = mergeRegeneration(plan, { 'Flow Steps': '1. Amount\n2. Review\n3. Confirm' });
+    check('diffs carry the translated heading', sections.find(section => section.key === 'Flow Steps')?.heading === 'Schritte des Flows');
+}
+
+console.log('🧪 Testing documentation regeneration');
+console.log('=====================================');
+testDiffEvidence();
+testPlan();
+testMerge();
+testTranslatedHeadings();
+console.log('=====================================');
+console.log(failures === 0 ? '🎉 All regeneration checks passed' : `💥 ${failures} check(s) failed`);
+process.exit(failures === 0 ? 0 : 1);
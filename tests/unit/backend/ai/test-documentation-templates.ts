@@ -0,0 +1,94 @@
+// Documentation Templates Test - section, page and file scopes get their own prompts and validators
+
+import { renderSections } from '../../../../backend/src/documentation/prose.js';
+import { documentationPrompts, documentationRetryPrompts, flowSteps, levelSections, runValidators, templateFor, toStoredSections } from '../../../../backend/src/documentation/templates.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const flow = {
+    scope: 'section',
+    nodeName: 'Top up',
+    frameNameHints: ['Amount', 'Select source', 'Confirm', 'Done'],
+    frameNodeIds: ['2:1', '1:1', '3:1', '4:1'],
+    prototypeLinks: [
+        { from: '1:1', to: '2:1' },
+        { from: '2:1', to: '3:1' },
+        { from: '3:1', to: '4:1' }
+    ],
+    textSamples: ['Top up', 'Payment failed'],
+    componentInstances: []
+};
+
+function testDocumentationTemplates() {
+    console.log('🧪 Testing level documentation templates');
+    console.log('=====================================');
+
+    // Steps follow the prototype links, not the layer order
+    const steps = flowSteps(flow);
+    check('flow steps follow prototype links', steps.join(' > ') === 'Select source > Amount > Confirm > Done', steps);
+
+    // Each scope has its own PromptManager prompt
+    const sectionPrompts = documentationPrompts(flow);
+    check('section scope uses the flow prompt', /documentation for a flow/.test(sectionPrompts.systemPrompt));
+    check('flow steps are given to the model in order', sectionPrompts.userPrompt.includes('1. Select source\n2. Amount\n3. Confirm\n4. Done'));
+    check('frame scope keeps the screen prompt', /single Figma screen/.test(documentationPrompts({ scope: 'frame' }).systemPrompt));
+    check('page and file scopes have their own prompts',
+        /whole Figma page/.test(documentationPrompts({ scope: 'page' }).systemPrompt) &&
+        /product overview/.test(documentationPrompts({ scope: 'file' }).systemPrompt));
+
+    // Section validators check the ordered steps
+    const section = templateFor('section');
+    const ordered = renderSections(section.sections, {
+        'Flow Name': 'Top up',
+        'Flow Steps': '1. Select source: pick a bank\n2. Amount: enter how much\n3. Confirm: review\n4. Done',
+        'Key States': 'Error: "Payment failed"',
+        'Human Notes': ''
+    });
+    const reversed = ordered.replace('1. Select source: pick a bank\n2. Amount', '1. Amount: enter how much\n2. Select source');
+    check('ordered flow steps pass', Object.values(runValidators(section, ordered, flow)).every(Boolean), runValidators(section, ordered, flow));
+    check('steps out of prototype order fail', runValidators(section, reversed, flow).flowStepsOrdered === false);
+    check('frame headings do not satisfy the section template', runValidators(section, renderSections(templateFor('frame').sections, {}), flow).headingsAndOrder === false);
+
+    // Page inventory must name the page's frames
+    const page = templateFor('page');
+    const pageExtraction = { scope: 'page', frameNameHints: ['Onboarding', 'Settings'] };
+    const inventory = renderSections(page.sections, { 'Page Name': 'App', 'Flows on This Page': '• Onboarding: sign-up screens\n• Settings: preferences', 'Human Notes': '' });
+    const noInventory = renderSections(page.sections, { 'Page Name': 'App', 'Flows on This Page': 'Various screens.', 'Human Notes': '' });
+    check('page inventory listing its flows passes', runValidators(page, inventory, pageExtraction).flowsInventoried === true);
+    check('page inventory without a list fails', runValidators(page, noInventory, pageExtraction).flowsInventoried === false);
+
+    // Level sections are stored in the eight prose columns
+    const stored = toStoredSections(templateFor('file'), { 'Product Name': 'Wallet', 'Design System Usage': 'Button/Primary' });
+    check('file sections map onto stored prose sections', stored['Screen Name'] === 'Wallet' && stored['Key Components Used'] === 'Button/Primary', stored);
+
+    // Sections with no frame counterpart keep their own heading instead of borrowing a frame column
+    const fileSections = { 'Product Name': 'Wallet', 'Target Users': 'Commuters', 'Pages and Areas': '• Home' };
+    const fileColumns = toStoredSections(templateFor('file'), fileSections);
+    check('file-only sections stay out of the frame columns', fileColumns['User Scenario (What the user is trying to do here)'] === undefined && fileColumns['Design Approach / Strategy'] === undefined, fileColumns);
+    check('file-only sections are kept under their heading', JSON.stringify(levelSections(templateFor('file'), fileSections)) === JSON.stringify({ 'Target Users': 'Commuters', 'Pages and Areas': '• Home' }));
+    const flowSections = levelSections(templateFor('section'), { 'Flow Name': 'Top up', 'Flow Steps': '1. Amount', 'Key States': 'Error' });
+    check('Key States is not stored as the design approach', flowSections['Key States'] === 'Error' && flowSections['Flow Steps'] === '1. Amount' && !('Flow Name' in flowSections), flowSections);
+    check('frame prose has no level sections', Object.keys(levelSections(templateFor('frame'), { 'Screen Name': 'Login' })).length === 0);
+
+    // The format retry and the grounding retry come from their prompt files
+    const formatRetry = documentationRetryPrompts(section, 'Flow Name\nTop up', [], flow);
+    check('a format retry repeats the headings and the previous answer', formatRetry.id === 'ai-prepare-retry' && !!formatRetry.version && !!formatRetry.systemPrompt
+        && formatRetry.userPrompt.includes(`in order: ${section.sections.join('; ')}.`) && formatRetry.userPrompt.endsWith('Previous answer:\nFlow Name\nTop up'), formatRetry.userPrompt);
+    const groundingRetry = documentationRetryPrompts(section, 'Flow Name\nTop up', ['Card/Promo'], flow);
+    check('a grounding retry names the ungrounded claims and the evidence', groundingRetry.id === 'ai-prepare-grounding-retry'
+        && groundingRetry.userPrompt.includes('  - "Card/Promo"\nQuote text layers') && groundingRetry.userPrompt.includes('"Payment failed"'), groundingRetry.userPrompt);
+    const germanRetry = documentationRetryPrompts(templateFor('frame', 'de-DE'), '', [], { scope: 'frame', locale: 'de-DE' });
+    check('a translated retry keeps the language and its Human Notes heading', germanRetry.userPrompt.includes('Keep writing in German') && !formatRetry.userPrompt.includes('Keep writing in')
+        && germanRetry.userPrompt.includes(`Leave "${templateFor('frame', 'de-DE').sections.at(-1)}" completely blank`), germanRetry.userPrompt);
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All template checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testDocumentationTemplates();
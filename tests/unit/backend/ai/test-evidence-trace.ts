@@ -0,0 +1,90 @@
+// Evidence Trace Test - section citations are verified against the extraction payload
+// Runs offline against the fake provider
+
+import { FastifyInstance } from 'fastify';
+import { setLLMProvider } from '../../../../backend/src/llm/client.js';
+import { FakeProvider } from '../../../../backend/src/llm/providers.js';
+import { evidenceCatalogue, traceEvidence, verifyEvidence } from '../../../../backend/src/documentation/evidence.js';
+import { renderProse } from '../../../../backend/src/documentation/prose.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const quietApp = { log: { info() {}, warn() {}, error() {} } } as unknown as FastifyInstance;
+
+const extraction = {
+    scope: 'frame',
+    textSamples: ['Sign in', 'Forgot password?'],
+    textNodeIds: ['10:1', '10:2'],
+    componentInstances: [{ name: 'Forms/Input/Password', nodeId: '20:1' }, { name: 'Button/Primary', variant: 'Size=Large' }],
+    prototypeLinks: [{ from: '1:2', to: '3:4' }]
+};
+
+const documentation = renderProse({
+    'Screen Name': 'Login',
+    'Problem Being Addressed (Why this screen exists)': 'Returning users need to "Sign in" to their account.',
+    'User Scenario (What the user is trying to do here)': 'The user enters a password and can recover it via "Forgot password".',
+    'Key Components Used': 'Forms/Input/Password; Button/Primary',
+    'Human Notes': ''
+});
+
+const PROBLEM = 'Problem Being Addressed (Why this screen exists)';
+const COMPONENTS = 'Key Components Used';
+
+async function testEvidenceTrace() {
+    console.log('🧪 Testing evidence traceability');
+    console.log('=====================================');
+
+    const catalogue = evidenceCatalogue(extraction);
+    check('catalogue carries layer ids', catalogue.find(item => item.type === 'text' && item.index === 1)?.nodeId === '10:2');
+    check('prototype links point at their source layer', catalogue.find(item => item.type === 'prototypeLink')?.nodeId === '1:2');
+
+    // Citations are checked against the extraction
+    const sections = verifyEvidence({
+        citations: [
+            { section: PROBLEM, type: 'text', index: 0, quote: 'Sign in' },
+            { section: PROBLEM, type: 'text', index: 7, quote: 'Create account' },
+            { section: PROBLEM, type: 'text', index: 1, quote: 'Reset your password' },
+            { section: COMPONENTS, type: 'component', index: 0 },
+            { section: COMPONENTS, type: 'layer', index: 0 }
+        ]
+    }, extraction);
+    const problem = sections.find(section => section.heading === PROBLEM)!;
+    const components = sections.find(section => section.heading === COMPONENTS)!;
+    check('existing cited item is kept with its layer id', problem.items.length === 1 && problem.items[0].nodeId === '10:1', problem.items);
+    check('citation of a missing item is rejected', problem.rejected.some(r => r.index === 7 && r.reason === 'no such item in the extraction'), problem.rejected);
+    check('quote not in the cited item is rejected', problem.rejected.some(r => r.quote === 'Reset your password'), problem.rejected);
+    check('unknown evidence type is rejected', components.items.length === 1 && components.rejected.length === 1, components);
+
+    // Model citations are verified end to end
+    setLLMProvider(new FakeProvider('```json\n' + JSON.stringify({
+        citations: [
+            { section: PROBLEM, type: 'text', index: 0, quote: 'Sign in' },
+            { section: COMPONENTS, type: 'component', index: 5 }
+        ]
+    }) + '\n```'), { retries: 0 });
+    const traced = await traceEvidence(documentation, extraction, quietApp);
+    check('model citations are verified', traced.source === 'model' && traced.verified === 1 && traced.rejected === 1, traced);
+
+    // Without usable citations, evidence is matched from the text
+    setLLMProvider(new FakeProvider('I could not find any evidence.'), { retries: 0 });
+    const matched = await traceEvidence(documentation, extraction, quietApp);
+    const scenario = matched.sections.find(section => section.heading.startsWith('User Scenario'))!;
+    const matchedComponents = matched.sections.find(section => section.heading === COMPONENTS)!;
+    check('falls back to text matching', matched.source === 'matched' && matched.rejected === 0);
+    check('partial quotes match their text layer', scenario.items.some(item => item.nodeId === '10:2'), scenario.items);
+    check('component names match their instances', matchedComponents.items.length === 2, matchedComponents.items);
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All evidence checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testEvidenceTrace().catch(error => {
+    console.error('💥 Evidence trace test crashed:', error);
+    process.exit(1);
+});
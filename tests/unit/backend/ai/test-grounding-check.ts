@@ -0,0 +1,55 @@
+// Grounding Check Test - quotes and component names in generated prose must appear in the extraction
+
+import { checkGrounding } from '../../../../backend/src/documentation/grounding.js';
+import { renderProse } from '../../../../backend/src/documentation/prose.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const extraction = {
+    scope: 'frame',
+    nodeName: 'Login',
+    textSamples: ['Sign in to your account', 'Forgot password?'],
+    componentInstances: [{ name: 'Forms/Input/Password' }, { name: 'Button/Primary', variant: 'Size=Large' }]
+};
+
+function testGroundingCheck() {
+    console.log('🧪 Testing grounding check');
+    console.log('=====================================');
+
+    const grounded = checkGrounding(renderProse({
+        'Screen Name': 'Login',
+        'Problem Being Addressed (Why this screen exists)': 'Returning users are asked to "Sign in" to their account.',
+        'User Scenario (What the user is trying to do here)': 'The user can recover access via “Forgot password”.',
+        'Design Approach / Strategy': 'A single Input/Password field and/or a primary CTA.',
+        'Key Components Used': 'Forms/Input/Password; Button/Primary (Size=Large)',
+        'Human Notes': ''
+    }), extraction);
+    check('grounded prose scores 1', grounded.score === 1 && grounded.ungrounded.length === 0, grounded.claims);
+    check('shortened component paths count as grounded', grounded.claims.some(claim => claim.text === 'Input/Password' && claim.grounded));
+    check('lower-case phrases are not taken for components', !grounded.claims.some(claim => claim.text === 'and/or'));
+
+    const hallucinated = checkGrounding(renderProse({
+        'Screen Name': 'Login',
+        'Problem Being Addressed (Why this screen exists)': 'Users "Sign in" or "Continue with Google".',
+        'Design Approach / Strategy': 'Social login via Button/Social.',
+        'Key Components Used': 'Forms/Input/Password; Card/Promo',
+        'Human Notes': ''
+    }), extraction);
+    check('invented quotes are ungrounded', hallucinated.ungrounded.includes('Continue with Google'), hallucinated.ungrounded);
+    check('invented components are ungrounded', hallucinated.ungrounded.includes('Button/Social') && hallucinated.ungrounded.includes('Card/Promo'), hallucinated.ungrounded);
+    check('score is the grounded share of claims', hallucinated.score === 0.4, hallucinated.score);
+
+    const unknown = checkGrounding(renderProse({ 'Screen Name': 'Unknown', 'Key Components Used': 'Unknown' }), extraction);
+    check('prose without claims scores 1', unknown.score === 1 && unknown.claims.length === 0, unknown.claims);
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All grounding checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testGroundingCheck();
@@ -0,0 +1,195 @@
+// Keyword Evaluation Test - golden cases are scored for precision, recall, type accuracy, brief
+// type and competitors, scorecards summarize and format them, and regressions against minimums
+// or a baseline are reported
+// Runs offline with the fake provider
+
+import { readFileSync } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FastifyInstance } from 'fastify';
+import { setLLMProvider } from '../../../../backend/src/llm/client.js';
+import { CassetteProvider } from '../../../../backend/src/llm/cassette.js';
+import { FakeProvider } from '../../../../backend/src/llm/providers.js';
+import {
+    GoldenCase,
+    GoldenSetError,
+    evaluateKeywords,
+    formatScorecardMarkdown,
+    parseGoldenSet,
+    qualityRegressions,
+    scoreCase,
+    summarizeScores
+} from '../../../../backend/src/scraping/ai/KeywordEvaluation.js';
+import { LLMKeywordResponse, LLMKeywordServiceV2 } from '../../../../backend/src/scraping/ai/LLMKeywordServiceV2.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const quietApp = { log: { info() {}, warn() {}, error() {} } } as unknown as FastifyInstance;
+
+const checkoutCase: GoldenCase = {
+    id: 'checkout',
+    problemStatement: 'PayPal-style checkout with saved cards',
+    expected: {
+        briefType: 'flow',
+        keywords: [
+            { term: 'checkout', type: 'pattern' },
+            { term: 'paypal', type: 'app' },
+            { term: 'saved cards', type: 'feature', aliases: ['card management'] },
+            { term: 'cart', type: 'pattern' }
+        ],
+        competitors: ['paypal', 'stripe']
+    }
+};
+
+function response(keywords: LLMKeywordResponse['keywords'], briefType?: 'flow' | 'screen'): LLMKeywordResponse {
+    return {
+        keywords,
+        originalQuery: checkoutCase.problemStatement,
+        generationMethod: 'llm-v3',
+        processingTime: 1,
+        ...(briefType ? { axisStrategy: { briefType, dominantAxis: 'direct competitors', allocation: {}, rationale: '', axisEvidence: '' } } : {})
+    };
+}
+
+// A V3 answer with twelve keywords, the minimum the service accepts
+function v3Answer(terms: { term: string; type: string; parentApp?: string }[], briefType: string): string {
+    const fillers = ['payment', 'wallet', 'receipt', 'shipping', 'address', 'promo', 'order', 'confirmation', 'billing', 'invoice', 'refund', 'subscription'];
+    const keywords = [...terms, ...fillers.map(term => ({ term, type: 'feature' }))].slice(0, 12).map(keyword => ({
+        confidence: 0.9,
+        axis: 'functional micro-patterns',
+        thumbnailAllocation: 8,
+        isCompetitor: Boolean(keyword.parentApp),
+        rationale: 'test',
+        ...keyword
+    }));
+    return JSON.stringify({ axisStrategy: { briefType, dominantAxis: 'functional micro-patterns', allocation: { 'functional micro-patterns': '100%' } }, keywords });
+}
+
+function testScoring() {
+    const score = scoreCase(checkoutCase, response([
+        { term: 'Checkout', confidence: 0.9, type: 'pattern' },
+        { term: 'card-management', confidence: 0.8, type: 'pattern' },
+        { term: 'stripe checkout', confidence: 0.8, type: 'app', parentApp: 'Stripe' },
+        { term: 'receipt', confidence: 0.7, type: 'feature' }
+    ], 'flow'));
+
+    check('terms match expected keywords and their aliases, ignoring case and hyphens', score.matched.join() === 'checkout,saved cards', score.matched);
+    check('precision is the share of generated keywords that were expected', score.precision === 0.5, score.precision);
+    check('recall is the share of expected keywords that were generated', score.recall === 0.5 && score.missing.join() === 'paypal,cart', score);
+    check('type accuracy compares the types of matched keywords', score.typeAccuracy === 0.5, score.typeAccuracy);
+    check('the brief type is compared with the axis strategy', score.briefType?.correct === true);
+    check('competitors are found by term prefix or parent app', score.competitors?.found.join() === 'stripe' && score.competitors.recall === 0.5, score.competitors);
+    check('unexpected keywords are listed', score.unexpected.join() === 'stripe checkout,receipt', score.unexpected);
+
+    const fallback = scoreCase(checkoutCase, { ...response([{ term: 'checkout', confidence: 0.6 }]), generationMethod: 'fallback' });
+    check('a response without an axis strategy gets the brief type wrong', fallback.briefType?.correct === false && fallback.briefType.actual === null);
+    check('matched keywords without a type are counted wrong', fallback.typeAccuracy === 0);
+
+    const summary = summarizeScores([score, fallback]);
+    check('the summary averages cases', summary.precision === 0.75 && summary.recall === 0.375 && summary.briefTypeAccuracy === 0.5 && summary.fallbacks === 1, summary);
+    check('f1 combines precision and recall', summary.f1 === 0.5, summary.f1);
+}
+
+function testRegressions() {
+    const summary = { cases: 2, errors: 0, fallbacks: 0, precision: 0.5, recall: 0.6, f1: 0.545, typeAccuracy: 0.8, briefTypeAccuracy: 1, competitorRecall: null };
+    check('a summary over its minimums holds', qualityRegressions(summary, { precision: 0.4, recall: 0.5, competitorRecall: 0.5 }).length === 0);
+    check('a score under its minimum is reported', qualityRegressions(summary, { recall: 0.7 }).join() === 'recall 0.6 is below the minimum 0.7');
+
+    const baseline = { ...summary, precision: 0.58, recall: 0.62 };
+    const dropped = qualityRegressions(summary, { maxRegression: 0.05 }, baseline);
+    check('a drop beyond the allowed regression is reported', dropped.length === 1 && dropped[0].startsWith('precision dropped from 0.58 to 0.5'), dropped);
+    check('failed cases are reported', qualityRegressions({ ...summary, errors: 1 }, {}).join().includes('1 of 2 cases failed'));
+}
+
+function testGoldenSet() {
+    const golden = parseGoldenSet(JSON.parse(readFileSync(new URL('../../../fixtures/keyword-eval/golden-set.json', import.meta.url), 'utf8')));
+    check('the golden set fixture is valid', golden.cases.length >= 8 && golden.thresholds.maxRegression !== undefined, golden.cases.length);
+
+    const duplicate = (() => {
+        try {
+            parseGoldenSet({ cases: [checkoutCase, checkoutCase] });
+        } catch (error) {
+            return error;
+        }
+    })();
+    check('a golden set listing a case twice is rejected', duplicate instanceof GoldenSetError, duplicate);
+
+    const badType = (() => {
+        try {
+            parseGoldenSet({ cases: [{ ...checkoutCase, expected: { keywords: [{ term: 'checkout', type: 'screen' }] } }] });
+        } catch (error) {
+            return error;
+        }
+    })();
+    check('an unknown keyword type is rejected', badType instanceof GoldenSetError, badType);
+}
+
+async function testEvaluation() {
+    const fake = new FakeProvider(request => v3Answer(
+        request.user.includes('PayPal')
+            ? [{ term: 'checkout', type: 'pattern' }, { term: 'paypal', type: 'app', parentApp: 'paypal' }, { term: 'saved cards', type: 'feature' }]
+            : [{ term: 'settings', type: 'pattern' }],
+        'flow'
+    ));
+    setLLMProvider(fake);
+    const service = new LLMKeywordServiceV2(quietApp);
+    const settingsCase: GoldenCase = { id: 'settings', problemStatement: 'Settings screen', expected: { briefType: 'screen', keywords: [{ term: 'settings', type: 'pattern' }, { term: 'dark mode' }] } };
+
+    const { summary, cases } = await evaluateKeywords([checkoutCase, settingsCase], problemStatement => service.generateKeywords(problemStatement, false));
+    check('keywords are generated through the V3 service', cases.every(score => score.generationMethod === 'llm-v3'), cases.map(score => score.generationMethod));
+    check('generated keywords are scored per case', cases[0].recall === 0.75 && cases[0].competitors?.found.join() === 'paypal' && cases[1].recall === 0.5, cases);
+    check('the summary covers every case', summary.cases === 2 && summary.briefTypeAccuracy === 0.5, summary);
+
+    const markdown = formatScorecardMarkdown({ generatedAt: '2026-01-01T00:00:00.000Z', provider: 'fake', model: 'fake', summary, cases }, ['recall 0.6 is below the minimum 0.7']);
+    check('the Markdown scorecard has the summary, regressions and a row per case',
+        markdown.includes('| Precision | Recall |') && markdown.includes('- recall 0.6 is below the minimum 0.7') && markdown.includes('| checkout | llm-v3 |'), markdown);
+
+    const dir = await mkdtemp(join(tmpdir(), 'llm-cassettes-'));
+    try {
+        setLLMProvider(new CassetteProvider('replay', null, dir));
+        const missed = await evaluateKeywords([checkoutCase], problemStatement => service.generateKeywords(problemStatement, false));
+        check('a case without a recording is scored as failed', missed.summary.errors === 1 && missed.cases[0].recall === 0
+            && missed.cases[0].error?.includes('No LLM cassette'), missed.cases[0].error);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
+// The offline eval answers each golden case from fake-answers.json; a stale answer would quietly
+// score the fallback instead
+async function testCannedAnswers() {
+    const golden = parseGoldenSet(JSON.parse(readFileSync(new URL('../../../fixtures/keyword-eval/golden-set.json', import.meta.url), 'utf8')));
+    const answers = JSON.parse(readFileSync(new URL('../../../fixtures/keyword-eval/fake-answers.json', import.meta.url), 'utf8')).cases;
+    const unanswered = golden.cases.filter(goldenCase => !answers[goldenCase.id]?.['keyword-extraction-v3.7'] || !answers[goldenCase.id]?.['keyword-optimization']);
+    check('every golden case has canned extraction and optimization answers', unanswered.length === 0, unanswered.map(goldenCase => goldenCase.id));
+
+    const service = new LLMKeywordServiceV2(quietApp);
+    const methods: string[] = [];
+    for (const goldenCase of golden.cases) {
+        setLLMProvider(new FakeProvider(request => JSON.stringify(answers[goldenCase.id]?.[request.prompt?.id ?? ''] ?? null)));
+        const result = await service.generateKeywords(goldenCase.problemStatement, true);
+        methods.push(`${goldenCase.id}:${result.generationMethod}${result.optimizationApplied ? '+optimized' : ''}`);
+    }
+    check('the canned answers parse and optimize without falling back', methods.every(method => method.endsWith(':llm-v3+optimized')), methods);
+}
+
+async function main() {
+    console.log('🧪 Testing keyword evaluation');
+    console.log('=====================================');
+    testScoring();
+    testRegressions();
+    testGoldenSet();
+    await testEvaluation();
+    await testCannedAnswers();
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All keyword evaluation checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
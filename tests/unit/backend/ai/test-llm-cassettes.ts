@@ -0,0 +1,91 @@
+// LLM Cassette Test - record with the fake provider, replay offline, fail loudly on a miss
+// Writes cassettes to a temporary directory, so it never touches tests/fixtures/llm-cassettes
+
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FastifyInstance } from 'fastify';
+import { LLMClient, setLLMProvider } from '../../../../backend/src/llm/client.js';
+import { CassetteMissError, CassetteProvider, cassetteKey } from '../../../../backend/src/llm/cassette.js';
+import { FakeProvider } from '../../../../backend/src/llm/providers.js';
+import { UsageTracker } from '../../../../backend/src/llm/usage.js';
+import { LLMKeywordService } from '../../../../backend/src/scraping/ai/LLMKeywordService.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const quietApp = { log: { info() {}, warn() {}, error() {} } } as unknown as FastifyInstance;
+
+async function testCassettes() {
+    console.log('🧪 Testing LLM cassettes');
+    console.log('=====================================');
+
+    const dir = await mkdtemp(join(tmpdir(), 'llm-cassettes-'));
+
+    try {
+        // Keys depend on prompt id, version, variables and wording, not on key order
+        const template = { id: 'p', version: '1.0.0' };
+        const a = cassetteKey({ user: 'v1 wording', maxTokens: 10, prompt: { id: 'p', variables: { x: 1, y: [1, 2] }, template } });
+        const b = cassetteKey({ user: 'v1 wording', maxTokens: 10, prompt: { id: 'p', variables: { y: [1, 2], x: 1 }, template } });
+        const c = cassetteKey({ user: 'v1 wording', maxTokens: 10, prompt: { id: 'p', variables: { x: 2, y: [1, 2] }, template } });
+        check('same prompt id and variables give the same key', a.key === b.key);
+        check('different variables give a different key', a.key !== c.key);
+        const edited = cassetteKey({ user: 'v2 wording', maxTokens: 10, prompt: { id: 'p', variables: { x: 1, y: [1, 2] }, template } });
+        const newSystem = cassetteKey({ system: 'new rules', user: 'v1 wording', maxTokens: 10, prompt: { id: 'p', variables: { x: 1, y: [1, 2] }, template } });
+        check('an edited prompt gives a different key', a.key !== edited.key && a.key !== newSystem.key);
+        const nextVersion = cassetteKey({ user: 'v1 wording', maxTokens: 10, prompt: { id: 'p', variables: { x: 1, y: [1, 2] }, template: { ...template, version: '1.1.0' } } });
+        check('another prompt version gives a different key', a.key !== nextVersion.key);
+
+        // Record through a fake provider, then replay without it
+        const request = { system: 'sys', user: 'hello', maxTokens: 20, prompt: { id: 'greeting', variables: { name: 'Ada' } } };
+        const recorder = new LLMClient(new CassetteProvider('record', new FakeProvider('recorded answer'), dir), {}, new UsageTracker());
+        const recorded = await recorder.complete(request);
+        const files = await readdir(join(dir, 'greeting'));
+        check('record mode stores one cassette per prompt', files.length === 1, files);
+
+        const player = new LLMClient(new CassetteProvider('replay', null, dir), { retries: 2 }, new UsageTracker());
+        const replayed = await player.complete(request);
+        check('replay returns the recorded response', replayed.text === recorded.text && replayed.text === 'recorded answer');
+
+        let miss: unknown = null;
+        try {
+            await player.complete({ ...request, prompt: { id: 'greeting', variables: { name: 'Grace' } } });
+        } catch (error) {
+            miss = error;
+        }
+        check('replay miss throws CassetteMissError', miss instanceof CassetteMissError, miss instanceof Error ? miss.message : miss);
+
+        // Services replay offline, and a miss is not swallowed by their fallbacks
+        const keywordsJson = JSON.stringify({ keywords: [{ term: 'onboarding', confidence: 0.9 }, { term: 'kyc', confidence: 0.8 }] });
+        setLLMProvider(new CassetteProvider('record', new FakeProvider(keywordsJson), dir));
+        await new LLMKeywordService(quietApp).generateKeywords('business onboarding with KYC');
+
+        setLLMProvider(new CassetteProvider('replay', null, dir));
+        const service = new LLMKeywordService(quietApp);
+        const offline = await service.generateKeywords('business onboarding with KYC');
+        check('keyword service replays a recorded response', offline.generationMethod === 'llm' && offline.keywords[0]?.term === 'onboarding', offline.keywords);
+
+        miss = null;
+        try {
+            await service.generateKeywords('a query that was never recorded');
+        } catch (error) {
+            miss = error;
+        }
+        check('keyword service rethrows a miss instead of falling back', miss instanceof CassetteMissError);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All cassette checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testCassettes().catch(error => {
+    console.error('💥 Cassette test crashed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,108 @@
+// LLM Provider Layer Test - retries, timeouts and token accounting with the fake provider
+// Runs offline: no gcloud, API keys or local model server needed
+
+import { LLMClient } from '../../../../backend/src/llm/client.js';
+import { FakeProvider } from '../../../../backend/src/llm/providers.js';
+import { CompletionRequest, CompletionResponse, LLMError, LLMProvider } from '../../../../backend/src/llm/types.js';
+import { UsageTracker } from '../../../../backend/src/llm/usage.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+// Fails with the given errors in turn, then answers
+class FlakyProvider implements LLMProvider {
+    readonly id = 'flaky';
+    readonly model = 'flaky-1';
+    calls = 0;
+
+    constructor(private readonly errors: Error[], private readonly delayMs: number = 0) {}
+
+    async complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResponse> {
+        const error = this.errors[this.calls++];
+        if (this.delayMs > 0) {
+            await new Promise((resolve, reject) => {
+                const timer = setTimeout(resolve, this.delayMs);
+                signal.addEventListener('abort', () => {
+                    clearTimeout(timer);
+                    reject(new Error('aborted'));
+                });
+            });
+        }
+        if (error) throw error;
+        return new FakeProvider('ok').complete(request);
+    }
+}
+
+async function testProviderLayer() {
+    console.log('🧪 Testing LLM provider layer');
+    console.log('=====================================');
+
+    const request: CompletionRequest = { system: 'You are terse.', user: 'Say hello', maxTokens: 50, label: 'test' };
+
+    // Fake provider is deterministic and Anthropic-shaped
+    const fake = new FakeProvider();
+    const first = await new LLMClient(fake, {}, new UsageTracker()).complete(request);
+    const second = await new LLMClient(new FakeProvider(), {}, new UsageTracker()).complete(request);
+    check('fake provider answers the same prompt identically', first.text === second.text, first.text);
+    check('response keeps content[0].text', first.content[0].type === 'text' && first.content[0].text === first.text);
+    check('fake provider records requests', fake.requests.length === 1 && fake.requests[0].user === 'Say hello');
+
+    const scripted = new FakeProvider('one', req => `two:${req.user}`);
+    const scriptedClient = new LLMClient(scripted, {}, new UsageTracker());
+    const answers = [
+        (await scriptedClient.complete(request)).text,
+        (await scriptedClient.complete(request)).text,
+        (await scriptedClient.complete(request)).text
+    ];
+    check('scripted responders are used in turn, last one repeats', answers.join('|') === 'one|two:Say hello|two:Say hello', answers);
+
+    // Retryable failures are retried with backoff
+    const usage = new UsageTracker();
+    const flaky = new FlakyProvider([
+        new LLMError('rate limited', 'flaky', { status: 429, retryable: true }),
+        new LLMError('server error', 'flaky', { status: 503, retryable: true })
+    ]);
+    const retried = await new LLMClient(flaky, { retries: 2, baseDelayMs: 1 }, usage).complete(request);
+    check('retryable errors are retried until success', retried.text === 'ok' && flaky.calls === 3, { calls: flaky.calls });
+
+    // Non-retryable failures are not
+    const badRequest = new FlakyProvider([new LLMError('bad request', 'flaky', { status: 400 })]);
+    let thrown: unknown = null;
+    try {
+        await new LLMClient(badRequest, { retries: 2, baseDelayMs: 1 }, usage).complete(request);
+    } catch (error) {
+        thrown = error;
+    }
+    check('non-retryable errors fail immediately', thrown instanceof LLMError && badRequest.calls === 1, { calls: badRequest.calls });
+
+    // Slow calls time out and count as retryable
+    const slow = new FlakyProvider([], 200);
+    thrown = null;
+    try {
+        await new LLMClient(slow, { retries: 1, baseDelayMs: 1, timeoutMs: 20 }, usage).complete(request);
+    } catch (error) {
+        thrown = error;
+    }
+    check('timeouts abort the call and are retried', thrown instanceof LLMError && /timed out/.test((thrown as Error).message) && slow.calls === 2, {
+        calls: slow.calls,
+        error: thrown instanceof Error ? thrown.message : thrown
+    });
+
+    // Token accounting
+    const totals = usage.snapshot();
+    check('usage counts calls and failures per label', totals.byLabel.test.calls === 3 && totals.byLabel.test.failures === 2, totals.byLabel.test);
+    check('usage sums reported tokens', totals.total.inputTokens > 0 && totals.total.outputTokens > 0, totals.total);
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All provider layer checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testProviderLayer().catch(error => {
+    console.error('💥 Provider layer test crashed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,94 @@
+// Prepare Stream Test - streamed prose is split into section events, and streaming retries stop once text is sent
+// Runs offline against the fake provider
+
+import { LLMClient } from '../../../../backend/src/llm/client.js';
+import { FakeProvider } from '../../../../backend/src/llm/providers.js';
+import { CompletionRequest, CompletionResponse, LLMError, LLMProvider, TextListener } from '../../../../backend/src/llm/types.js';
+import { UsageTracker } from '../../../../backend/src/llm/usage.js';
+import { SectionStream } from '../../../../backend/src/documentation/streaming.js';
+import { PROSE_SECTIONS, renderProse } from '../../../../backend/src/documentation/prose.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+// Sends part of an answer, then fails with a retryable error
+class DroppingProvider implements LLMProvider {
+    readonly id = 'dropping';
+    readonly model = 'dropping-1';
+    calls = 0;
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+        return new FakeProvider('complete').complete(request);
+    }
+
+    async stream(_request: CompletionRequest, _signal: AbortSignal, onText: TextListener): Promise<CompletionResponse> {
+        this.calls++;
+        onText('Screen Name\n');
+        throw new LLMError('connection reset', this.id, { retryable: true });
+    }
+}
+
+const prose = renderProse({
+    'Screen Name': 'Login',
+    'Problem Being Addressed (Why this screen exists)': 'Returning users "Sign in".',
+    'Key Components Used': 'Button/Primary',
+    'Human Notes': ''
+});
+
+async function testPrepareStream() {
+    console.log('🧪 Testing streamed documentation');
+    console.log('=====================================');
+
+    // Headings split across deltas are still recognised
+    const stream = new SectionStream(PROSE_SECTIONS);
+    const events = [
+        ...stream.push('## 1) Screen Na'),
+        ...stream.push('me\nLog'),
+        ...stream.push('in\n\n3) Problem Being Addressed:\nReturning users'),
+        ...stream.push(' "Sign in".'),
+        ...stream.end()
+    ];
+    const sections = events.filter(event => event.type === 'section').map(event => event.type === 'section' ? event.index : -1);
+    check('headings split across deltas become section events', sections.join(',') === '0,2', events);
+    const problem = events
+        .filter(event => event.type === 'token' && event.heading === PROSE_SECTIONS[2])
+        .map(event => event.type === 'token' ? event.text : '')
+        .join('');
+    check('tokens are attributed to their section', problem === 'Returning users "Sign in".', problem);
+
+    // Fake provider streams line by line; the deltas add up to the response
+    const deltas: string[] = [];
+    const client = new LLMClient(new FakeProvider(prose), { retries: 0 }, new UsageTracker());
+    const response = await client.stream({ user: 'Document this', maxTokens: 800, label: 'test' }, delta => deltas.push(delta));
+    check('stream sends the answer in several deltas', deltas.length > PROSE_SECTIONS.length, deltas.length);
+    check('deltas join to the response text', deltas.join('') === response.text);
+
+    // Providers without streaming send the whole answer once
+    const whole: string[] = [];
+    const plain: LLMProvider = { id: 'plain', model: 'plain', complete: request => new FakeProvider(prose).complete(request) };
+    await new LLMClient(plain, { retries: 0 }, new UsageTracker()).stream({ user: 'Document this', maxTokens: 800 }, delta => whole.push(delta));
+    check('non-streaming providers send one delta', whole.length === 1 && whole[0] === prose);
+
+    // A retry would repeat text the caller already has
+    const dropping = new DroppingProvider();
+    let error: unknown;
+    try {
+        await new LLMClient(dropping, { retries: 2, baseDelayMs: 1 }, new UsageTracker()).stream({ user: 'Document this', maxTokens: 800 }, () => {});
+    } catch (err) {
+        error = err;
+    }
+    check('failures after text was sent are not retried', error instanceof LLMError && dropping.calls === 1, dropping.calls);
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All streaming checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testPrepareStream().catch(error => {
+    console.error('💥 Streaming test crashed:', error);
+    process.exit(1);
+});
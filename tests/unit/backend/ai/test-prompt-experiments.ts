@@ -0,0 +1,192 @@
+// Prompt Experiments Test - traffic splits are stored and validated, requests are assigned a
+// version by weight (stably per query), LLM responses and usage carry the version, and the report
+// compares versions by the outcomes of their search runs
+// Runs offline against a temporary prompt directory and the fake provider
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LLMClient } from '../../../../backend/src/llm/client.js';
+import { FakeProvider } from '../../../../backend/src/llm/providers.js';
+import { UsageTracker } from '../../../../backend/src/llm/usage.js';
+import { PromptRunRecord, bucketOf, pickVersion, summarizeExperiment } from '../../../../backend/src/prompts/experiments.js';
+import { EXPERIMENTS_FILE, PromptRegistry, PromptRegistryError, formatPromptFile } from '../../../../backend/src/prompts/registry.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const greeting = {
+    id: 'greeting',
+    name: 'Greeting',
+    description: 'Says hello',
+    systemPrompt: 'You greet people.',
+    userPromptTemplate: 'Greet {{name}}',
+    version: '1.0.0',
+    lastUpdated: '2026-01-01',
+    tags: ['test'],
+    variables: { name: { type: 'string' as const } }
+};
+
+function writePrompts(dir: string) {
+    mkdirSync(join(dir, 'greeting'));
+    writeFileSync(join(dir, 'greeting', '1.0.0.md'), formatPromptFile(greeting));
+    writeFileSync(join(dir, 'greeting', '2.0.0.md'), formatPromptFile({ ...greeting, version: '2.0.0', userPromptTemplate: 'Warmly greet {{name}}' }));
+}
+
+function errorOf(fn: () => unknown): unknown {
+    try {
+        fn();
+    } catch (err) {
+        return err;
+    }
+    return undefined;
+}
+
+function testAssignment() {
+    const split = { '1.0.0': 80, '2.0.0': 20 };
+    check('points are shared out by weight in the split\'s order', pickVersion(split, 0) === '1.0.0' && pickVersion(split, 0.79) === '1.0.0'
+        && pickVersion(split, 0.8) === '2.0.0' && pickVersion(split, 0.9999) === '2.0.0');
+
+    check('the same query always lands in the same bucket', bucketOf('greeting', 'checkout flow') === bucketOf('greeting', 'checkout flow'));
+    check('buckets differ between prompt ids', bucketOf('greeting', 'checkout flow') !== bucketOf('farewell', 'checkout flow'));
+
+    let second = 0;
+    for (let i = 0; i < 2000; i++) {
+        if (pickVersion(split, bucketOf('greeting', `query ${i}`)) === '2.0.0') second++;
+    }
+    check('hashed buckets follow the weights', second > 300 && second < 500, second);
+}
+
+function testSplits() {
+    const dir = mkdtempSync(join(tmpdir(), 'prompts-'));
+    try {
+        writePrompts(dir);
+        const registry = new PromptRegistry(dir);
+        registry.load();
+
+        const split = registry.setSplit('greeting', { '1.0.0': 3, '2.0.0': 1 });
+        check('a split is stored in experiments.json', JSON.parse(readFileSync(join(dir, EXPERIMENTS_FILE), 'utf8')).greeting['2.0.0'] === 1 && split['1.0.0'] === 3);
+
+        const unknownVersion = errorOf(() => registry.setSplit('greeting', { '1.0.0': 1, '9.9.9': 1 }));
+        check('a split naming an unknown version is a 404', unknownVersion instanceof PromptRegistryError && unknownVersion.statusCode === 404, unknownVersion);
+        const unknownId = errorOf(() => registry.setSplit('farewell', { '1.0.0': 1, '2.0.0': 1 }));
+        check('a split for an unknown prompt is a 404', unknownId instanceof PromptRegistryError && unknownId.statusCode === 404, unknownId);
+        const oneArm = errorOf(() => registry.setSplit('greeting', { '1.0.0': 1 }));
+        check('a split needs two versions', oneArm instanceof PromptRegistryError && oneArm.statusCode === 400, oneArm);
+        const badWeight = errorOf(() => registry.setSplit('greeting', { '1.0.0': 1, '2.0.0': -1 }));
+        check('negative weights are rejected', badWeight instanceof PromptRegistryError && badWeight.statusCode === 400, badWeight);
+        check('a rejected split leaves the stored one alone', registry.split('greeting')?.['1.0.0'] === 3);
+
+        const reloaded = new PromptRegistry(dir);
+        reloaded.load();
+        check('the split survives a reload', reloaded.split('greeting')?.['2.0.0'] === 1);
+
+        rmSync(join(dir, 'greeting', '2.0.0.md'));
+        const dropped = reloaded.load();
+        check('a split left with one version is ignored and reported', reloaded.split('greeting') === undefined
+            && dropped.errors.some(entry => entry.error.includes('split ignored')), dropped.errors);
+
+        check('ending a split removes it', registry.clearSplit('greeting') && registry.split('greeting') === undefined
+            && JSON.parse(readFileSync(join(dir, EXPERIMENTS_FILE), 'utf8')).greeting === undefined);
+        check('ending a split that does not exist reports it', !registry.clearSplit('greeting'));
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+async function testPromptManager() {
+    const dir = mkdtempSync(join(tmpdir(), 'prompts-'));
+    const previousDir = process.env.ONE_BRAIN_PROMPTS_DIR;
+    try {
+        writePrompts(dir);
+        // The shared manager reads its directory when first used
+        process.env.ONE_BRAIN_PROMPTS_DIR = dir;
+        const { promptManager } = await import('../../../../backend/src/prompts/PromptManager.js');
+
+        check('without a split the active version is used', promptManager.assignVersion('greeting', 'checkout flow') === '2.0.0'
+            && promptManager.getPrompts('greeting', { name: 'Ada' }).version === '2.0.0');
+
+        promptManager.registry.setSplit('greeting', { '1.0.0': 1, '2.0.0': 1 });
+        const assigned = promptManager.assignVersion('greeting', 'checkout flow');
+        const again = Array.from({ length: 10 }, () => promptManager.assignVersion('greeting', 'checkout flow'));
+        check('a query keeps its version while the split is on', again.every(version => version === assigned), again);
+
+        const seen = new Set(Array.from({ length: 50 }, (_, i) => promptManager.assignVersion('greeting', `query ${i}`)));
+        check('a split shares queries between its versions', seen.has('1.0.0') && seen.has('2.0.0'), [...seen]);
+
+        const older = promptManager.getPrompts('greeting', { name: 'Ada' }, '1.0.0');
+        check('a stored version renders its own template', older.version === '1.0.0' && older.userPrompt === 'Greet Ada', older);
+        check('asking for a missing version fails', errorOf(() => promptManager.getPrompts('greeting', {}, '9.9.9')) instanceof Error);
+        promptManager.registry.clearSplit('greeting');
+    } finally {
+        if (previousDir === undefined) delete process.env.ONE_BRAIN_PROMPTS_DIR;
+        else process.env.ONE_BRAIN_PROMPTS_DIR = previousDir;
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+async function testStamping() {
+    const usage = new UsageTracker();
+    const client = new LLMClient(new FakeProvider('hello'), {}, usage);
+    const response = await client.complete({
+        system: 'You greet people.',
+        user: 'Greet Ada',
+        maxTokens: 50,
+        label: 'test',
+        prompt: { id: 'greeting', variables: { name: 'Ada' }, template: { id: 'greeting', version: '2.0.0' } }
+    });
+    check('responses carry the prompt version that produced them', response.prompt?.id === 'greeting' && response.prompt?.version === '2.0.0', response.prompt);
+    check('usage is counted per prompt version', usage.snapshot().byPrompt['greeting@2.0.0']?.calls === 1, usage.snapshot().byPrompt);
+
+    const untagged = await client.complete({ system: 'You greet people.', user: 'Greet Ada', maxTokens: 50 });
+    check('responses without a template carry no version', untagged.prompt === undefined);
+}
+
+function testReport() {
+    const run = (id: string, version: string, resultsFound: number | null, outcomes: string[] = []): PromptRunRecord => ({
+        id,
+        prompts: [{ id: 'greeting', version }, { id: 'keyword-optimization', version: '1.0.0' }],
+        resultsFound,
+        outcomes: outcomes.map(type => ({ type }))
+    });
+    const runs = [
+        run('a', '1.0.0', 4, ['click', 'click']),
+        run('b', '1.0.0', 0),
+        run('c', '2.0.0', 6, ['click', 'save']),
+        run('d', '2.0.0', null),
+        { id: 'e', prompts: [{ id: 'farewell', version: '1.0.0' }], resultsFound: 3, outcomes: [] }
+    ];
+
+    const report = summarizeExperiment('greeting', runs, { '2.0.0': 1, '1.0.0': 3, '3.0.0': 1 }, ['1.0.0', '2.0.0', '3.0.0']);
+    const [first, second, third] = report.versions;
+    check('versions are listed in version order, including split arms with no runs', report.versions.map(version => version.version).join() === '1.0.0,2.0.0,3.0.0');
+    check('runs of other prompts are left out', first.runs + second.runs === 4 && third.runs === 0);
+    check('results found are averaged over runs that searched', first.searched === 2 && first.averageResults === 2 && first.zeroResultRate === 0.5
+        && second.searched === 1 && second.averageResults === 6, [first, second]);
+    check('clicks and saves are counted, with rates per run', first.clicks === 2 && first.clickRate === 0.5 && first.saves === 0
+        && second.saves === 1 && second.saveRate === 0.5, [first, second]);
+    check('weights are shares of the split', first.weight === 0.6 && second.weight === 0.2, report.versions);
+    check('a version with no runs has no rates', third.clickRate === null && third.averageResults === null);
+
+    const ended = summarizeExperiment('greeting', runs, null, ['1.0.0', '2.0.0']);
+    check('versions are still compared after the split ends', ended.versions.length === 2 && ended.versions.every(version => version.weight === null));
+}
+
+async function main() {
+    console.log('🧪 Testing prompt experiments');
+    console.log('=====================================');
+    testAssignment();
+    testSplits();
+    await testPromptManager();
+    await testStamping();
+    testReport();
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All prompt experiment checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
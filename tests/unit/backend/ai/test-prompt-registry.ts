@@ -0,0 +1,153 @@
+// Prompt Registry Test - prompts load from versioned files, several versions of an id sit side by
+// side, the active version can be pinned and survives a reload, and malformed files are reported
+// Runs offline against a temporary directory
+
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promptManager } from '../../../../backend/src/prompts/PromptManager.js';
+import {
+    ACTIVE_FILE,
+    PromptRegistry,
+    PromptRegistryError,
+    compareVersions,
+    diffLines,
+    diffPrompts,
+    formatPromptFile,
+    parsePromptFile
+} from '../../../../backend/src/prompts/registry.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const greeting = {
+    id: 'greeting',
+    name: 'Greeting',
+    description: 'Says hello',
+    systemPrompt: 'You greet people.\nBe brief.',
+    userPromptTemplate: 'Greet {{name}}',
+    version: '1.0.0',
+    lastUpdated: '2026-01-01',
+    tags: ['test', 'greeting'],
+    variables: { name: { type: 'string' as const } }
+};
+
+function testFormat() {
+    const parsed = parsePromptFile(formatPromptFile(greeting), 'greeting', '1.0.0');
+    check('a formatted prompt parses back to the same template', JSON.stringify(parsed) === JSON.stringify(greeting), parsed);
+
+    const { userPromptTemplate: _user, ...systemOnly } = greeting;
+    const systemParsed = parsePromptFile(formatPromptFile(systemOnly), 'greeting', '1.0.0');
+    check('a prompt without a user template has none', systemParsed.userPromptTemplate === undefined && systemParsed.systemPrompt === greeting.systemPrompt);
+
+    let error: unknown;
+    try {
+        parsePromptFile(formatPromptFile(greeting), 'greeting', '2.0.0');
+    } catch (err) {
+        error = err;
+    }
+    check('a front matter version that disagrees with the file name is rejected', error instanceof PromptRegistryError && error.statusCode === 422, error);
+
+    check('versions compare numerically', compareVersions('3.10.0', '3.7.0') > 0 && compareVersions('1.0', '1.0.0') === 0 && compareVersions('1.2.0', '2.0.0') < 0);
+
+    const lines = diffLines('a\nb\nc', 'a\nc\nd');
+    check('line diffs keep, remove and add lines', lines.map(line => `${line.op}${line.text}`).join(' ') === '=a -b =c +d', lines);
+
+    const diff = diffPrompts(greeting, { ...greeting, version: '1.1.0', description: 'Says hi', userPromptTemplate: 'Greet {{name}} warmly' });
+    check('prompt diffs list changed metadata and text', diff.metadata.description?.to === 'Says hi' && !diff.metadata.name
+        && diff.userPromptTemplate.some(line => line.op === '+' && line.text === 'Greet {{name}} warmly'), diff);
+}
+
+function testRegistry() {
+    const dir = mkdtempSync(join(tmpdir(), 'prompts-'));
+    try {
+        mkdirSync(join(dir, 'greeting'));
+        writeFileSync(join(dir, 'greeting', '1.0.0.md'), formatPromptFile(greeting));
+        writeFileSync(join(dir, 'greeting', '1.10.0.md'), formatPromptFile({ ...greeting, version: '1.10.0', systemPrompt: 'You greet people warmly.' }));
+        writeFileSync(join(dir, 'greeting', '1.2.0.md'), formatPromptFile({ ...greeting, version: '1.2.0' }));
+        writeFileSync(join(dir, 'greeting', 'draft.md'), formatPromptFile(greeting));
+        mkdirSync(join(dir, 'broken'));
+        writeFileSync(join(dir, 'broken', '1.0.0.md'), 'no front matter here');
+
+        const registry = new PromptRegistry(dir);
+        const result = registry.load();
+        check('valid versions load side by side', result.prompts === 1 && result.versions === 3, result);
+        check('malformed files are reported, not loaded', result.errors.length === 2 && !registry.get('broken'), result.errors);
+        check('versions are listed oldest first', registry.versions('greeting').map(prompt => prompt.version).join() === '1.0.0,1.2.0,1.10.0');
+        check('the highest version is active when none is pinned', registry.activeVersion('greeting') === '1.10.0' && !registry.isPinned('greeting'));
+        check('a stored version can be read directly', registry.get('greeting', '1.0.0')?.systemPrompt === greeting.systemPrompt);
+
+        registry.activate('greeting', '1.0.0');
+        check('activating pins the version in active.json', JSON.parse(readFileSync(join(dir, ACTIVE_FILE), 'utf8')).greeting === '1.0.0');
+        const reloaded = new PromptRegistry(dir);
+        reloaded.load();
+        check('the pin survives a reload', reloaded.activeVersion('greeting') === '1.0.0' && reloaded.isPinned('greeting'));
+
+        let error: unknown;
+        try {
+            registry.activate('greeting', '9.9.9');
+        } catch (err) {
+            error = err;
+        }
+        check('activating an unknown version is a 404', error instanceof PromptRegistryError && error.statusCode === 404, error);
+
+        rmSync(join(dir, 'greeting', '1.0.0.md'));
+        const unpinned = reloaded.load();
+        check('a pin to a deleted version falls back to the latest and is reported',
+            reloaded.activeVersion('greeting') === '1.10.0' && unpinned.errors.some(entry => entry.error.includes('pinned to 1.0.0')), unpinned.errors);
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+    check('the temporary directory is removed', !existsSync(dir));
+}
+
+// A reload that throws (here a dangling symlink fails statSync, as a directory removed mid-read
+// would) reaches onError instead of escaping the watcher's timer
+async function testWatch() {
+    const dir = mkdtempSync(join(tmpdir(), 'prompts-'));
+    const registry = new PromptRegistry(dir);
+    const reloads: number[] = [];
+    const errors: unknown[] = [];
+    const stop = registry.watch(result => reloads.push(result.prompts), error => errors.push(error), 20);
+    try {
+        mkdirSync(join(dir, 'greeting'));
+        writeFileSync(join(dir, 'greeting', '1.0.0.md'), formatPromptFile(greeting));
+        await new Promise(resolve => setTimeout(resolve, 300));
+        check('a change reloads the prompts', reloads.at(-1) === 1, reloads);
+
+        symlinkSync(join(dir, 'missing'), join(dir, 'gone'));
+        await new Promise(resolve => setTimeout(resolve, 300));
+        check('a failed reload is reported, not thrown', errors.some(error => (error as NodeJS.ErrnoException).code === 'ENOENT'), errors);
+        check('the prompts loaded before the failure are kept', registry.get('greeting')?.version === '1.0.0');
+    } finally {
+        stop();
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+function testBundledPrompts() {
+    const { registry } = promptManager;
+    check('the bundled prompt files load without errors', registry.errors.length === 0, registry.errors);
+    check('every bundled prompt is served', promptManager.listPrompts().length === registry.ids().length && registry.ids().length >= 16, registry.ids());
+    check('stored versions can be asked for by number', promptManager.getPrompt('keyword-extraction-v3', '3.6.0')?.version === '3.6.0'
+        && promptManager.getPrompt('keyword-extraction-v3', '0.0.1') === undefined);
+    check('user templates still substitute variables', promptManager.getUserPrompt('keyword-optimization', { userQuery: 'checkout', originalKeywords: 'a, b' }).includes('ORIGINAL KEYWORDS: a, b'));
+}
+
+console.log('🧪 Testing the prompt registry');
+console.log('=====================================');
+testFormat();
+testRegistry();
+testBundledPrompts();
+testWatch().then(() => {
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All prompt registry checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}, error => {
+    console.error('💥 Prompt registry test crashed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,130 @@
+// Prompt Template Test - prompts declare typed variables, rendering fails on missing, extra or
+// mistyped ones, templates support conditionals, loops and JSON insertion, and every bundled
+// prompt passes the startup self-check
+// Runs offline
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promptManager } from '../../../../backend/src/prompts/PromptManager.js';
+import { PromptRegistry, formatPromptFile, parsePromptFile } from '../../../../backend/src/prompts/registry.js';
+import {
+    PromptTemplateError,
+    formatVariableSchema,
+    parseVariableSchema,
+    renderTemplate,
+    sampleVariables,
+    templateProblems
+} from '../../../../backend/src/prompts/template.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+function errorOf(fn: () => unknown): unknown {
+    try {
+        fn();
+    } catch (err) {
+        return err;
+    }
+    return undefined;
+}
+
+const schema = parseVariableSchema(['query: string', 'count: number', 'tags?: string[]', 'apps: object[]', 'context?: object']);
+
+function testSchema() {
+    check('variables are read from front matter entries', schema.query.type === 'string' && schema.tags.optional === true && schema.apps.type === 'object[]', schema);
+    check('a schema formats back to the same entries', JSON.stringify(parseVariableSchema(formatVariableSchema(schema))) === JSON.stringify(schema));
+    check('an unknown type is rejected', errorOf(() => parseVariableSchema(['query: text'])) instanceof PromptTemplateError);
+    check('an entry without a type is rejected', errorOf(() => parseVariableSchema(['query'])) instanceof PromptTemplateError);
+    check('a variable declared twice is rejected', errorOf(() => parseVariableSchema(['query: string', 'query: number'])) instanceof PromptTemplateError);
+}
+
+function testRendering() {
+    const variables = { query: 'checkout "express"', count: 2, apps: [{ name: 'Stripe' }, { name: 'Shopify' }] };
+    const render = (template: string, values: Record<string, unknown> = variables) => renderTemplate(template, schema, values, 'test@1.0.0');
+
+    check('placeholders are replaced', render('Find {{query}} ({{ count }})') === 'Find checkout "express" (2)');
+    check('json inserts a quoted, escaped value', render('{"query": {{json query}}}') === '{"query": "checkout \\"express\\""}');
+    check('json inserts objects and lists', render('{{json apps}}') === '[{"name":"Stripe"},{"name":"Shopify"}]');
+    check('lists of strings are joined with commas', render('Tags: {{tags}}', { ...variables, tags: ['a', 'b'] }) === 'Tags: a, b');
+    check('loops repeat per item with its fields and position', render('{{#each apps}}{{@number}}. {{this.name}}\n{{/each}}') === '1. Stripe\n2. Shopify\n');
+    check('conditionals pick a branch', render('{{#if tags}}Tags: {{tags}}{{else}}No tags{{/if}}') === 'No tags'
+        && render('{{#if tags}}Tags: {{tags}}{{else}}No tags{{/if}}', { ...variables, tags: ['a'] }) === 'Tags: a');
+    check('an empty list is not set', render('{{#if tags}}yes{{else}}no{{/if}}', { ...variables, tags: [] }) === 'no');
+    check('nested loops over item fields work', renderTemplate('{{#each groups}}{{this.name}}:{{#each this.items}} {{this}}{{/each}};{{/each}}',
+        parseVariableSchema(['groups: object[]']), { groups: [{ name: 'a', items: ['1', '2'] }] }, 'test') === 'a: 1 2;');
+
+    const missing = errorOf(() => render('{{query}}', { count: 2, apps: [] })) as Error;
+    check('a missing variable fails the render', missing instanceof PromptTemplateError && missing.message.includes('missing variable query'), missing?.message);
+    const extra = errorOf(() => render('{{query}}', { ...variables, unused: 'x' })) as Error;
+    check('an unexpected variable fails the render', extra instanceof PromptTemplateError && extra.message.includes('unexpected variable unused'), extra?.message);
+    const mistyped = errorOf(() => render('{{query}}', { ...variables, count: '2' })) as Error;
+    check('a mistyped variable fails the render', mistyped instanceof PromptTemplateError && mistyped.message.includes('count should be number'), mistyped?.message);
+    check('errors name the prompt', missing?.message.startsWith('test@1.0.0:'));
+    check('a missing optional variable is allowed', render('{{query}}{{context}}') === 'checkout "express"');
+}
+
+function testProblems() {
+    check('a template that fits its schema has no problems', templateProblems('{{query}} {{#each apps}}{{this.name}}{{/each}} {{json context}}', schema).length === 0);
+    check('undeclared placeholders are found', templateProblems('Find {{query}} in {{platform}}', schema).join() === '{{platform}} is not a declared variable');
+    check('objects inserted as text are found', templateProblems('{{apps}}', schema)[0]?.includes('{{json apps}}'), templateProblems('{{apps}}', schema));
+    check('loops over a non-list are found', templateProblems('{{#each query}}x{{/each}}', schema)[0]?.includes('not a list'));
+    check('item references outside a loop are found', templateProblems('{{this}} {{@index}}', schema).length === 2);
+    check('unclosed blocks are found', templateProblems('{{#if tags}}x', schema)[0]?.includes('never closed'));
+    check('mismatched closing tags are found', templateProblems('{{#if tags}}x{{/each}}', schema)[0]?.includes('does not close'));
+    check('tags that are not references are found', templateProblems('{{query | upper}}', schema)[0]?.includes('does not name a variable'));
+    check('sample data renders every branch', renderTemplate('{{#if tags}}{{tags}}{{/if}}', schema, sampleVariables(schema), 'test') === '<tags 1>, <tags 2>');
+}
+
+function testRegistry() {
+    const prompt = {
+        id: 'greeting',
+        name: 'Greeting',
+        description: 'Says hello',
+        systemPrompt: 'You greet people.',
+        userPromptTemplate: 'Greet {{name}}',
+        version: '1.0.0',
+        lastUpdated: '2026-01-01',
+        tags: ['test'],
+        variables: parseVariableSchema(['name: string'])
+    };
+    check('a prompt file keeps its variables', JSON.stringify(parsePromptFile(formatPromptFile(prompt), 'greeting', '1.0.0').variables) === JSON.stringify(prompt.variables));
+
+    const dir = mkdtempSync(join(tmpdir(), 'prompts-'));
+    try {
+        mkdirSync(join(dir, 'greeting'));
+        writeFileSync(join(dir, 'greeting', '1.0.0.md'), formatPromptFile(prompt));
+        writeFileSync(join(dir, 'greeting', '1.1.0.md'), formatPromptFile({ ...prompt, version: '1.1.0', userPromptTemplate: 'Greet {{name}} in {{language}}' }));
+        const registry = new PromptRegistry(dir);
+        const result = registry.load();
+        check('a version with an undeclared placeholder is not loaded', registry.activeVersion('greeting') === '1.0.0'
+            && result.errors.some(entry => entry.error.includes('{{language}} is not a declared variable')), result.errors);
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+function testBundledPrompts() {
+    const { checked, errors } = promptManager.selfCheck();
+    check('every bundled prompt renders with sample data', errors.length === 0 && checked >= 16, errors);
+    check('every bundled prompt declares the variables it uses', promptManager.registry.errors.length === 0, promptManager.registry.errors);
+
+    const userPrompt = promptManager.getUserPrompt('keyword-extraction-v3.7', { userQuery: 'checkout flow' });
+    check('a bundled prompt renders with its variables', userPrompt.includes('checkout flow') && !userPrompt.includes('{{'));
+    check('a bundled prompt rejects a missing variable', errorOf(() => promptManager.getPrompts('keyword-optimization', { userQuery: 'checkout flow' })) instanceof PromptTemplateError);
+}
+
+console.log('🧪 Testing prompt templates');
+console.log('=====================================');
+testSchema();
+testRendering();
+testProblems();
+testRegistry();
+testBundledPrompts();
+console.log('=====================================');
+console.log(failures === 0 ? '🎉 All prompt template checks passed' : `💥 ${failures} check(s) failed`);
+process.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,122 @@
+// Taxonomy Keyword Test - the offline extractor maps phrases and synonyms onto the UX taxonomy,
+// expands related terms, infers competitors and the brief type, and both keyword services use
+// it when the LLM is unavailable
+// Runs offline with the fake provider
+
+import { readFileSync } from 'fs';
+import { FastifyInstance } from 'fastify';
+import { setLLMProvider } from '../../../../backend/src/llm/client.js';
+import { FakeProvider } from '../../../../backend/src/llm/providers.js';
+import { evaluateKeywords, parseGoldenSet, qualityRegressions } from '../../../../backend/src/scraping/ai/KeywordEvaluation.js';
+import { LLMKeywordService } from '../../../../backend/src/scraping/ai/LLMKeywordService.js';
+import { LLMKeywordServiceV2 } from '../../../../backend/src/scraping/ai/LLMKeywordServiceV2.js';
+import { extractTaxonomyKeywords, taxonomyTokens } from '../../../../backend/src/scraping/ai/TaxonomyKeywordExtractor.js';
+import { CATEGORY_APPS, KEYWORD_TAXONOMY, getMockAppsForCategory, relatedTerms } from '../../../../backend/src/scraping/config/taxonomy.config.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const quietApp = { log: { info() {}, warn() {}, error() {} } } as unknown as FastifyInstance;
+
+function terms(query: string): string[] {
+    return extractTaxonomyKeywords(query).keywords.map(keyword => keyword.term);
+}
+
+function keyword(query: string, term: string) {
+    return extractTaxonomyKeywords(query).keywords.find(k => k.term === term);
+}
+
+function testMatching() {
+    check('tokens are lowercase and singular', taxonomyTokens('Saved Cards & Categories').join() === 'saved,card,and,category');
+    check('synonyms map to the canonical term', terms('Sign in with Face ID').includes('biometric') && keyword('Sign in with Face ID', 'login')?.reasoning === 'Brief says "sign in"');
+    check('multi-word phrases are detected', terms('Guest checkout with a shopping cart').includes('guest checkout') && terms('Guest checkout with a shopping cart').includes('cart'));
+    check('a phrase inside a longer one for something else is ignored', !terms('fitness tracking app').includes('order tracking'), terms('fitness tracking app'));
+    check('matched terms bring the first others of their family', keyword('login screen', 'signup')?.reasoning === 'Related to login'
+        && relatedTerms(KEYWORD_TAXONOMY.find(entry => entry.term === 'login')!).join() === 'signup,social login');
+}
+
+function testCatalogue() {
+    const industry = (term: string) => KEYWORD_TAXONOMY.find(entry => entry.term === term && entry.type === 'industry');
+    check('SEARCH_PATTERNS terms are part of the taxonomy', KEYWORD_TAXONOMY.some(entry => entry.term === 'card' && entry.family === 'fintech'));
+    check('SEARCH_PATTERNS words for a category become its industry synonyms', !!industry('fintech')?.synonyms?.includes('banking') && !!industry('ecommerce')?.synonyms?.includes('shopping'));
+    check('every Mobbin category in the mock catalogue has an industry', Object.keys(CATEGORY_APPS).filter(category => category !== 'general')
+        .every(category => KEYWORD_TAXONOMY.some(entry => entry.type === 'industry' && entry.category === category)));
+    check('only industries carry an app catalogue', KEYWORD_TAXONOMY.every(entry => entry.type === 'industry' ? (entry.apps?.length ?? 0) >= 3 : !entry.apps));
+    check('the mock app catalogue falls back to general', getMockAppsForCategory('fintech')[0].name === 'Banking App' && getMockAppsForCategory('travel')[0].name === 'Design Example');
+}
+
+function testCompetitors() {
+    const named = keyword('Dashboard like Mint', 'mint');
+    check('apps named in the brief are kept as competitors', named?.type === 'app' && named.isCompetitor === true && named.confidence === 0.95, named);
+    check('apps the catalogue does not know are picked up from "X-style"', keyword('Linear-style issue list', 'linear')?.type === 'app'
+        && keyword('Superhuman-style inbox', 'superhuman')?.axis === 'direct competitors');
+    const inferred = extractTaxonomyKeywords('checkout for an online store').keywords.filter(k => k.reasoning?.startsWith('Competitor'));
+    check('competitors are inferred from the industry catalogue', inferred.map(k => k.term).join() === 'amazon,etsy,ebay' && inferred[0].reasoning === 'Competitor for ecommerce', inferred);
+    check('patterns alone infer no competitors', !extractTaxonomyKeywords('checkout with saved cards').keywords.some(k => k.isCompetitor));
+    check('named apps are not inferred again', terms('Monzo banking app').filter(term => term === 'monzo').length === 1, terms('Monzo banking app'));
+}
+
+function testShape() {
+    const { keywords, axisStrategy } = extractTaxonomyKeywords('I am designing a offers app for visa card holders who redeem coupon codes on partner websites');
+    check('every keyword has a type, axis and thumbnail allocation', keywords.every(k => k.type && k.axis && k.thumbnailAllocation! >= 3 && k.thumbnailAllocation! <= 15), keywords);
+    check('keywords are ranked by confidence', keywords.every((k, i) => i === 0 || keywords[i - 1].confidence >= k.confidence));
+    check('industries are category exemplars', keyword('fintech login', 'fintech')?.type === 'industry' && keyword('fintech login', 'fintech')?.axis === 'category exemplars');
+    check('short briefs also search the industry and pattern together', terms('fintech login').includes('fintech login'));
+    check('aesthetic terms are aesthetic models', keyword('dark mode settings', 'dark mode')?.axis === 'aesthetic models');
+    const percentages = Object.values(axisStrategy.allocation).reduce((sum, value) => sum + parseInt(value), 0);
+    check('the axis allocation adds up to 100%', percentages === 100 && axisStrategy.allocation[axisStrategy.dominantAxis] !== undefined, axisStrategy);
+    check('the same brief always gives the same keywords', JSON.stringify(extractTaxonomyKeywords('Order tracking for food delivery')) === JSON.stringify(extractTaxonomyKeywords('Order tracking for food delivery')));
+    check('a brief without known terms keeps its own words', terms('Quarterly reconciliation wizard').join() === 'quarterly,reconciliation,wizard', terms('Quarterly reconciliation wizard'));
+    check('an empty brief falls back to defaults', terms('').join() === 'app,mobile,design');
+}
+
+function testBriefType() {
+    const briefType = (query: string) => extractTaxonomyKeywords(query).axisStrategy.briefType;
+    check('flow words make a flow', briefType('Onboarding journey for a fitness app') === 'flow');
+    check('screen words make a screen', briefType('Settings screen with a dark mode toggle') === 'screen');
+    check('"X-style" is not a style brief', briefType('PayPal-style checkout') === 'flow');
+    check('matched terms hint at the brief type', briefType('Empty states for a task manager') === 'component' && briefType('budgeting dashboard') === 'screen');
+    check('a brief without cues is a pattern', briefType('fintech login') === 'pattern');
+}
+
+async function testServices() {
+    // An answer neither V3 nor V2 can parse sends both services to the fallback
+    setLLMProvider(new FakeProvider('not json'));
+
+    const v2 = await new LLMKeywordServiceV2(quietApp).generateKeywords('PayPal-style checkout with saved cards', false);
+    check('V2 falls back to the taxonomy', v2.generationMethod === 'fallback' && v2.keywords[0].term === 'paypal' && v2.keywords.some(k => k.term === 'saved cards'), v2.keywords.map(k => k.term));
+    check('the V2 fallback has an axis strategy', v2.axisStrategy?.briefType === 'flow' && v2.enhancedStrategy?.keywordBreakdown.competitors! > 0, v2.axisStrategy);
+
+    const v1 = await new LLMKeywordService(quietApp).generateKeywords('fintech login');
+    check('V1 falls back to the top five taxonomy keywords', v1.generationMethod === 'fallback' && v1.keywords.length === 5 && v1.keywords[0].term === 'login', v1.keywords.map(k => k.term));
+
+    // Scored on briefs the taxonomy was not built from, so the minimums measure how it generalises
+    const heldOut = parseGoldenSet(JSON.parse(readFileSync(new URL('../../../fixtures/keyword-eval/held-out.json', import.meta.url), 'utf8')));
+    const service = new LLMKeywordServiceV2(quietApp);
+    const { log, warn, error } = console;
+    console.log = console.warn = console.error = () => {};
+    const { summary } = await evaluateKeywords(heldOut.cases, problemStatement => service.generateKeywords(problemStatement, false))
+        .finally(() => Object.assign(console, { log, warn, error }));
+    check('the fallback alone meets the held-out minimums', summary.fallbacks === heldOut.cases.length
+        && qualityRegressions(summary, heldOut.thresholds).length === 0, { summary, regressions: qualityRegressions(summary, heldOut.thresholds) });
+}
+
+async function main() {
+    console.log('🧪 Testing taxonomy keyword extraction');
+    console.log('=====================================');
+    testMatching();
+    testCatalogue();
+    testCompetitors();
+    testShape();
+    testBriefType();
+    await testServices();
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All taxonomy keyword checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
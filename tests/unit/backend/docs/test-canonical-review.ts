@@ -0,0 +1,139 @@
+// Canonical Review Test - docs are proposed for a tagged platform, only someone other than the
+// proposer can review, and an approval replaces the previous canonical doc
+// Runs offline against an in-memory transaction
+
+import { CanonicalWorkflowError, proposeCanonical, reviewProposal } from '../../../../backend/src/docs/canonical.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+interface Tables {
+    docs: any[];
+    proposals: any[];
+    patterns: any[];
+}
+
+// The doc, proposal and pattern calls canonical.ts makes, over plain arrays
+function fakeTx(tables: Tables): any {
+    const matches = (row: any, where: any) => Object.entries(where).every(([key, value]) => row[key] === value);
+    const patternKey = (where: any) => where.patternTag_platform;
+    let nextId = tables.proposals.length + 1;
+    return {
+        doc: {
+            findUnique: async ({ where }: any) => tables.docs.find(row => row.id === where.id) ?? null,
+            update: async ({ where, data }: any) => Object.assign(tables.docs.find(row => row.id === where.id), data)
+        },
+        canonicalProposal: {
+            findUnique: async ({ where }: any) => tables.proposals.find(row => row.id === where.id) ?? null,
+            findFirst: async ({ where }: any) => tables.proposals.find(row => matches(row, where)) ?? null,
+            create: async ({ data }: any) => {
+                const row = { id: `proposal-${nextId++}`, status: 'pending', ...data };
+                tables.proposals.push(row);
+                return row;
+            },
+            update: async ({ where, data }: any) => Object.assign(tables.proposals.find(row => row.id === where.id), data),
+            updateMany: async ({ where, data }: any) => {
+                const updated = tables.proposals.filter(row => matches(row, where));
+                updated.forEach(row => Object.assign(row, data));
+                return { count: updated.length };
+            }
+        },
+        canonicalPattern: {
+            // A copy, as Prisma returns, so the upsert below doesn't change what the caller read
+            findUnique: async ({ where }: any) => {
+                const row = tables.patterns.find(row => matches(row, patternKey(where)));
+                return row ? { ...row } : null;
+            },
+            upsert: async ({ where, create, update }: any) => {
+                const existing = tables.patterns.find(row => matches(row, patternKey(where)));
+                if (existing) return Object.assign(existing, update);
+                tables.patterns.push({ ...create });
+                return create;
+            },
+            count: async ({ where }: any) => tables.patterns.filter(row => matches(row, where)).length
+        }
+    };
+}
+
+function freshTables(): Tables {
+    return {
+        docs: [
+            { id: 'doc-1', patternTags: ['otp'], platforms: ['iOS', 'Android'], canonical: false },
+            { id: 'doc-2', patternTags: ['otp'], platforms: ['iOS'], canonical: false }
+        ],
+        proposals: [],
+        patterns: []
+    };
+}
+
+async function expectWorkflowError(name: string, run: () => Promise<unknown>, statusCode: number, pattern: RegExp) {
+    try {
+        await run();
+        check(name, false, 'no error thrown');
+    } catch (error) {
+        check(name, error instanceof CanonicalWorkflowError && error.statusCode === statusCode && pattern.test(error.message),
+            error instanceof Error ? error.message : error);
+    }
+}
+
+async function testPropose() {
+    const tx = fakeTx(freshTables());
+    const proposal = await proposeCanonical(tx, { docId: 'doc-1', patternTag: 'otp', platform: 'iOS', proposedBy: 'ana' });
+    check('a tagged doc can be proposed for one of its platforms', proposal.status === 'pending' && proposal.proposedBy === 'ana' && proposal.reason === null, proposal);
+
+    await expectWorkflowError('a missing doc is a 404', () =>
+        proposeCanonical(tx, { docId: 'doc-9', patternTag: 'otp', platform: 'iOS', proposedBy: 'ana' }), 404, /Doc not found/);
+    await expectWorkflowError('a doc without the pattern tag is a 400', () =>
+        proposeCanonical(tx, { docId: 'doc-1', patternTag: 'login', platform: 'iOS', proposedBy: 'ana' }), 400, /not tagged with pattern "login"/);
+    await expectWorkflowError('a platform the doc does not target is a 400', () =>
+        proposeCanonical(tx, { docId: 'doc-2', patternTag: 'otp', platform: 'Android', proposedBy: 'ana' }), 400, /does not target platform "Android"/);
+    await expectWorkflowError('a second pending proposal for the same pattern and platform is a 409', () =>
+        proposeCanonical(tx, { docId: 'doc-1', patternTag: 'otp', platform: 'iOS', proposedBy: 'ben' }), 409, /already has a pending proposal/);
+}
+
+async function testReview() {
+    const tables = freshTables();
+    const tx = fakeTx(tables);
+    const first = await proposeCanonical(tx, { docId: 'doc-1', patternTag: 'otp', platform: 'iOS', proposedBy: 'ana' });
+
+    await expectWorkflowError('the proposer cannot review their own proposal', () => reviewProposal(tx, first.id, 'approved', 'ana'), 403, /someone other than its proposer/);
+    check('a refused review leaves the proposal pending', first.status === 'pending' && tables.patterns.length === 0);
+    await expectWorkflowError('a missing proposal is a 404', () => reviewProposal(tx, 'proposal-9', 'approved', 'ben'), 404, /Proposal not found/);
+
+    const approved = await reviewProposal(tx, first.id, 'approved', 'ben', 'Matches the spec');
+    check('another reviewer can approve', approved.proposal.status === 'approved' && approved.proposal.reviewedBy === 'ben'
+        && approved.proposal.reviewNote === 'Matches the spec' && approved.pattern?.docId === 'doc-1', approved);
+    check('the approved doc is flagged canonical', tables.docs[0].canonical === true);
+    await expectWorkflowError('a reviewed proposal cannot be reviewed again', () => reviewProposal(tx, first.id, 'rejected', 'cy'), 409, /already approved/);
+
+    const second = await proposeCanonical(tx, { docId: 'doc-2', patternTag: 'otp', platform: 'iOS', proposedBy: 'ben' });
+    await reviewProposal(tx, second.id, 'approved', 'ana');
+    check('a new approval replaces the canonical doc for that pattern and platform', tables.patterns.length === 1 && tables.patterns[0].docId === 'doc-2', tables.patterns);
+    check('the previous proposal is superseded and its doc unflagged', first.status === 'superseded' && tables.docs[0].canonical === false && tables.docs[1].canonical === true, tables);
+
+    const third = await proposeCanonical(tx, { docId: 'doc-1', patternTag: 'otp', platform: 'Android', proposedBy: 'ana' });
+    const rejected = await reviewProposal(tx, third.id, 'rejected', 'ben');
+    check('a rejection records the review and changes no pattern', rejected.proposal.status === 'rejected' && rejected.pattern === null
+        && tables.patterns.length === 1 && tables.docs[0].canonical === false, rejected);
+}
+
+async function testCanonicalReview() {
+    console.log('🧪 Testing canonical review');
+    console.log('=====================================');
+
+    await testPropose();
+    await testReview();
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All canonical review checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testCanonicalReview().catch(error => {
+    console.error('💥 Canonical review test crashed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,86 @@
+// Doc Capsule Test - capsules from the plugin are validated and normalised, mapped onto Doc
+// columns and rebuilt from a stored row
+// Runs offline, without a database
+
+import { capsuleToDocData, docToCapsule, parentRefOf, validateCapsule } from '../../../../backend/src/docs/capsule.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+const frame = {
+    level: 'frame',
+    title: '  Login  ',
+    problem: 'Returning users need to get back in quickly',
+    approach: ['Email and password', ' ', 'Biometric shortcut'],
+    components: [{ ds: 'Button/Primary', variant: 'Size=Large' }, { ds: 'Forms/Input/Password' }],
+    links: [{ label: 'Spec', url: 'https://example.com/spec' }],
+    platforms: ['iOS'],
+    state: 'success',
+    belongsToFlowId: '12:34',
+    lastUpdated: '2026-10-01'
+};
+
+function errorsOf(input: any): string[] {
+    return validateCapsule(input).errors;
+}
+
+function testValidCapsules() {
+    const { capsule, errors } = validateCapsule(frame);
+    check('a complete frame capsule is valid', errors.length === 0 && capsule?.level === 'frame', errors);
+    check('strings are trimmed and blank approach steps dropped', capsule?.title === 'Login' && capsule.approach.join('|') === 'Email and password|Biometric shortcut', capsule);
+    const flagged = validateCapsule({ ...frame, canonical: true }).capsule!;
+    check('canonical is read but never written to the doc', flagged.canonical === true && !('canonical' in capsuleToDocData(flagged, { fileKey: 'file-1' })));
+
+    const section = validateCapsule({ level: 'section', title: 'Top up', problem: 'Adding money', approach: [], components: [], belongsToPageId: 'page-1', patternTags: ['top-up'] });
+    check('a section capsule gets its optional lists defaulted', section.errors.length === 0 && section.capsule?.level === 'section'
+        && section.capsule.keyStates.length === 0 && section.capsule.keyFrames.length === 0 && section.capsule.links.length === 0, section);
+    check('each level names its parent reference', parentRefOf(section.capsule!) === 'page-1' && parentRefOf(validateCapsule(frame).capsule!) === '12:34');
+}
+
+function testInvalidCapsules() {
+    check('a non-object capsule is rejected', errorsOf([frame]).join() === 'capsule must be an object');
+    check('an unknown level is rejected', errorsOf({ ...frame, level: 'screen' }).some(error => error.startsWith('level must be one of')));
+    check('missing title, problem and approach are reported together',
+        ['title is required', 'problem is required', 'approach is required'].every(error => errorsOf({ ...frame, title: ' ', problem: undefined, approach: undefined }).includes(error)));
+    check('a frame needs a known state', errorsOf({ ...frame, state: 'hover' }).some(error => error.startsWith('state must be one of')));
+    check('components need a design-system name', errorsOf({ ...frame, components: [{ variant: 'Size=Large' }] }).includes('components[0].ds is required'));
+    check('links need a label and url', errorsOf({ ...frame, links: [{ label: 'Spec' }] }).includes('links[0] must have a label and url'));
+    check('wrongly typed fields are rejected', ['canonical must be a boolean', 'platforms must be an array of strings', 'product must be a string']
+        .every(error => errorsOf({ ...frame, canonical: 'yes', platforms: 'iOS', product: 42 }).includes(error)));
+    check('an unparseable date is rejected', errorsOf({ ...frame, lastUpdated: 'last week' }).includes('lastUpdated must be a date string'));
+    check('an unsupported locale is rejected', errorsOf({ ...frame, locale: 'xx-XX' }).some(error => error.startsWith('locale must be one of')));
+    check('an invalid capsule returns no capsule', validateCapsule({ ...frame, state: 'hover' }).capsule === undefined);
+}
+
+function testDocRoundTrip() {
+    const capsule = validateCapsule({ ...frame, locale: 'de-DE' }).capsule!;
+    const data = capsuleToDocData(capsule, { fileKey: 'file-1', nodeId: '1:2', pageName: 'Auth' });
+    check('capsule fields map onto Doc columns', data.fileKey === 'file-1' && data.nodeId === '1:2' && data.belongsToId === '12:34'
+        && data.state === 'success' && data.keyStates.length === 0 && data.lastUpdated instanceof Date && data.product === null, data);
+
+    const rebuilt = docToCapsule({ ...data, id: 'doc-1', canonical: false });
+    check('a stored doc rebuilds the capsule it was saved from', rebuilt.level === 'frame' && rebuilt.title === 'Login' && rebuilt.state === 'success'
+        && rebuilt.belongsToFlowId === '12:34' && rebuilt.locale === 'de-DE' && rebuilt.lastUpdated === '2026-10-01'
+        && JSON.stringify(rebuilt.components) === JSON.stringify(capsule.components) && JSON.stringify(rebuilt.approach) === JSON.stringify(capsule.approach), rebuilt);
+    const bare = docToCapsule({ ...data, state: null, locale: null });
+    check('a doc without a state or locale gets the defaults', bare.level === 'frame' && bare.state === 'unknown' && bare.locale === 'en-GB', bare);
+}
+
+function testDocCapsule() {
+    console.log('🧪 Testing doc capsules');
+    console.log('=====================================');
+
+    testValidCapsules();
+    testInvalidCapsules();
+    testDocRoundTrip();
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All doc capsule checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testDocCapsule();
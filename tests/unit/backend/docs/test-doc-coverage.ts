@@ -0,0 +1,89 @@
+// Doc Coverage Test - plugin reports are checked entry by entry, nodes are matched to docs, and a
+// doc is stale when the node's fingerprint changed or the node was edited after the doc
+// Runs offline, without a database
+
+import { CoverageDoc, computeCoverage, parseReportedNodes, percent } from '../../../../backend/src/docs/coverage.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+function doc(nodeId: string, nodeFingerprint: string | null = null): CoverageDoc {
+    return { id: `doc-${nodeId}`, nodeId, title: `Doc ${nodeId}`, lastUpdated: new Date('2026-10-01T12:00:00Z'), nodeFingerprint };
+}
+
+function testReport() {
+    const { nodes, errors } = parseReportedNodes([
+        { nodeId: '1:1', name: 'Login', type: 'FRAME', pageName: 'Auth', lastModified: '2026-10-02T09:00:00Z', fingerprint: 'abc' },
+        { nodeId: '1:2' },
+        { nodeId: '1:1', name: 'Login (again)', pageName: 'Auth' },
+        { name: 'No id' },
+        null,
+        { nodeId: '1:3', lastModified: 'yesterday' },
+        { nodeId: '1:4', fingerprint: '' }
+    ]);
+    check('well-formed entries are kept, one per node id', nodes.map(node => node.nodeId).join() === '1:1,1:2,1:4', nodes);
+    check('a repeated node id keeps the last entry', nodes[0].name === 'Login (again)' && nodes[0].lastModified === undefined);
+    check('missing fields get defaults', nodes[1].name === '' && nodes[1].type === 'FRAME' && nodes[1].pageName === 'Untitled page', nodes[1]);
+    check('an empty fingerprint is dropped', !('fingerprint' in nodes[2]));
+    check('each rejected entry is reported by index', errors.join('|')
+        === 'nodes[3]: nodeId is required|nodes[4]: nodeId is required|nodes[5]: lastModified must be an ISO timestamp', errors);
+    check('a report that is not an array is rejected', JSON.stringify(parseReportedNodes({ nodeId: '1:1' })) === JSON.stringify({ nodes: [], errors: ['nodes must be an array'] }));
+}
+
+function testStaleness() {
+    const reported = parseReportedNodes([
+        { nodeId: 'same', fingerprint: 'abc', lastModified: '2026-09-30T00:00:00Z' },
+        { nodeId: 'changed', fingerprint: 'new', lastModified: '2026-09-30T00:00:00Z' },
+        { nodeId: 'edited', lastModified: '2026-10-02T00:00:00Z' },
+        { nodeId: 'edited-same-print', fingerprint: 'abc', lastModified: '2026-10-02T00:00:00Z' },
+        { nodeId: 'at-save', lastModified: '2026-10-01T12:00:00Z' },
+        { nodeId: 'unsaved-print', fingerprint: 'abc' },
+        { nodeId: 'missing' }
+    ]).nodes;
+    const report = computeCoverage(reported, [
+        doc('same', 'abc'), doc('changed', 'old'), doc('edited'), doc('edited-same-print', 'abc'), doc('at-save'), doc('unsaved-print'), { ...doc('orphan'), nodeId: null }
+    ]);
+    const node = (id: string) => report.nodes.find(item => item.nodeId === id)!;
+
+    check('a matching fingerprint and older edit is documented', node('same').status === 'documented' && node('same').docId === 'doc-same', node('same'));
+    check('a changed fingerprint is stale even when the edit is older', node('changed').status === 'stale' && node('changed').staleReason === 'fingerprint', node('changed'));
+    check('an edit after lastUpdated is stale by modification', node('edited').status === 'stale' && node('edited').staleReason === 'modified', node('edited'));
+    check('a matching fingerprint does not hide a later edit', node('edited-same-print').staleReason === 'modified');
+    check('an edit at the moment of saving is not stale', node('at-save').status === 'documented' && node('at-save').staleReason === undefined);
+    check('a doc saved without a fingerprint is not compared by fingerprint', node('unsaved-print').status === 'documented');
+    check('a node without a doc is undocumented', node('missing').status === 'undocumented' && node('missing').docId === undefined);
+}
+
+function testTotals() {
+    const reported = parseReportedNodes([
+        { nodeId: 'a', pageName: 'Auth' },
+        { nodeId: 'b', pageName: 'Auth', fingerprint: 'new' },
+        { nodeId: 'c', pageName: 'Auth' },
+        { nodeId: 'd', pageName: 'Home' }
+    ]).nodes;
+    const report = computeCoverage(reported, [doc('a'), doc('b', 'old'), doc('d')]);
+    check('totals count each status', report.total === 4 && report.documented === 2 && report.stale === 1 && report.undocumented === 1, report);
+    check('coverage counts stale docs, fresh does not', report.coverage === 75 && report.fresh === 50);
+    const auth = report.pages.find(page => page.pageName === 'Auth')!;
+    check('totals roll up per page', report.pages.length === 2 && auth.total === 3 && auth.coverage === 66.7 && auth.fresh === 33.3, report.pages);
+    check('an empty report has zero coverage', computeCoverage([], [doc('a')]).coverage === 0 && percent(1, 0) === 0);
+}
+
+function testDocCoverage() {
+    console.log('🧪 Testing doc coverage');
+    console.log('=====================================');
+
+    testReport();
+    testStaleness();
+    testTotals();
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All doc coverage checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testDocCoverage();
@@ -0,0 +1,127 @@
+// Doc Hierarchy Test - a file's docs arrange into a tree with orphans and parent loops reported,
+// ancestors stop at a loop, and capsules can't belong to themselves or to a doc at the wrong level
+// Runs offline against an in-memory transaction
+
+import { validateCapsule } from '../../../../backend/src/docs/capsule.js';
+import { DocNode, HierarchyError, buildDocTree, getAncestors, linkChildren, resolveParent } from '../../../../backend/src/docs/hierarchy.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+interface Row extends DocNode { fileKey: string }
+
+function node(id: string, level: string, belongsToId: string | null, title: string = id): Row {
+    return { id, level, title, nodeId: `n-${id}`, pageName: null, belongsToId, fileKey: 'file-1' };
+}
+
+// The doc lookups and updates hierarchy.ts makes, over a plain array
+function fakeTx(rows: Row[]): any {
+    const matches = (row: Row, where: any) => Object.entries(where).every(([key, value]) =>
+        key === 'OR' ? (value as any[]).some(clause => matches(row, clause)) : (row as any)[key] === value);
+    return {
+        doc: {
+            findFirst: async ({ where }: any) => rows.find(row => matches(row, where)) ?? null,
+            findUnique: async ({ where }: any) => rows.find(row => row.id === where.id) ?? null,
+            update: async ({ where, data }: any) => Object.assign(rows.find(row => row.id === where.id)!, data),
+            updateMany: async ({ where, data }: any) => {
+                const updated = rows.filter(row => matches(row, where));
+                updated.forEach(row => Object.assign(row, data));
+                return { count: updated.length };
+            }
+        }
+    };
+}
+
+async function expectHierarchyError(name: string, run: () => Promise<unknown>, pattern: RegExp) {
+    try {
+        await run();
+        check(name, false, 'no error thrown');
+    } catch (error) {
+        check(name, error instanceof HierarchyError && pattern.test(error.message), error instanceof Error ? error.message : error);
+    }
+}
+
+const frame = validateCapsule({ level: 'frame', title: 'Login', problem: 'Sign in', approach: ['Password'], components: [], state: 'success', belongsToFlowId: 'n-flow' }).capsule!;
+
+function testTree() {
+    const tree = buildDocTree([
+        node('frame-b', 'frame', 'flow', 'Verify'),
+        node('frame-a', 'frame', 'flow', 'Login'),
+        node('flow', 'section', 'page'),
+        node('page', 'page', 'file'),
+        node('file', 'file', null),
+        node('stray', 'frame', 'n-missing')
+    ]);
+    const titles = (nodes: any[]) => nodes.map(item => item.title).join();
+    check('file docs are the roots with their subtree beneath', tree.roots.length === 1 && tree.roots[0].id === 'file'
+        && tree.roots[0].children[0].id === 'page' && tree.roots[0].children[0].children[0].id === 'flow', tree.roots);
+    check('children are sorted by title', titles(tree.roots[0].children[0].children[0].children) === 'Login,Verify');
+    check('a doc whose parent is not saved is an orphan', tree.orphans.length === 1 && tree.orphans[0].id === 'stray' && tree.cycles.length === 0, tree.orphans);
+
+    const loop = buildDocTree([node('a', 'section', 'b'), node('b', 'page', 'a'), node('c', 'frame', 'a'), node('file', 'file', null)]);
+    check('a parent loop is reported once as a cycle', loop.cycles.length === 1 && [...loop.cycles[0]].sort().join() === 'a,b', loop.cycles);
+    check('docs on a loop are left out of the tree', loop.roots.length === 1 && loop.roots[0].children.length === 0
+        && !loop.orphans.some(item => item.id === 'a' || item.id === 'b'), loop);
+    check('a doc hanging off a loop is an orphan', loop.orphans.length === 1 && loop.orphans[0].id === 'c', loop.orphans);
+    check('a doc that is its own parent is a cycle', JSON.stringify(buildDocTree([node('self', 'page', 'self')]).cycles) === JSON.stringify([['self']]));
+}
+
+async function testAncestors() {
+    const rows = [node('file', 'file', null), node('page', 'page', 'file'), node('flow', 'section', 'page'), node('frame', 'frame', 'flow')];
+    const { ancestors, cycle } = await getAncestors(fakeTx(rows), 'frame');
+    check('ancestors run from the file down to the direct parent', ancestors.map(item => item.id).join() === 'file,page,flow' && !cycle, ancestors);
+
+    const looped = await getAncestors(fakeTx([node('a', 'section', 'b'), node('b', 'page', 'c'), node('c', 'file', 'a')]), 'a');
+    check('the walk stops where the chain loops back', looped.cycle && looped.ancestors.map(item => item.id).join() === 'c,b', looped);
+}
+
+async function testResolveParent() {
+    const rows = [node('flow', 'section', 'page'), node('page', 'page', null)];
+    const resolved = await resolveParent(fakeTx(rows), frame, { fileKey: 'file-1', nodeId: 'n-frame' });
+    check('a parent referenced by nodeId resolves to its doc id', resolved.resolved && resolved.belongsToId === 'flow', resolved);
+
+    const pending = await resolveParent(fakeTx([]), frame, { fileKey: 'file-1' });
+    check('an unsaved parent keeps the raw reference', !pending.resolved && pending.belongsToId === 'n-flow', pending);
+
+    await expectHierarchyError('a doc cannot belong to itself', () =>
+        resolveParent(fakeTx(rows), frame, { fileKey: 'file-1', nodeId: 'n-flow' }), /cannot belong to itself/);
+    await expectHierarchyError('a parent at the wrong level is rejected', () =>
+        resolveParent(fakeTx([node('flow', 'page', null)]), frame, { fileKey: 'file-1' }), /frame must belong to a section, but n-flow is a page/);
+}
+
+async function testLinkChildren() {
+    const rows = [node('early', 'section', 'n-page'), node('listed', 'section', null), node('other-file', 'section', 'n-page')];
+    rows[2].fileKey = 'file-2';
+    const page = validateCapsule({ level: 'page', title: 'Auth', problem: 'Sign in', approach: [], components: [], containedFlowIds: ['listed', 'n-later'] }).capsule!;
+
+    const unresolved = await linkChildren(fakeTx(rows), { id: 'page', level: 'page', fileKey: 'file-1', nodeId: 'n-page' }, page);
+    check('children that referenced the nodeId are attached', rows[0].belongsToId === 'page' && rows[2].belongsToId === 'n-page', rows);
+    check('contained docs are attached and missing ones returned', rows[1].belongsToId === 'page' && unresolved.join() === 'n-later', unresolved);
+
+    await expectHierarchyError('a contained doc at the wrong level is rejected', () =>
+        linkChildren(fakeTx([node('listed', 'frame', null)]), { id: 'page', level: 'page', fileKey: 'file-1', nodeId: null }, page),
+        /page can only contain sections, but listed is a frame/);
+}
+
+async function testDocHierarchy() {
+    console.log('🧪 Testing doc hierarchy');
+    console.log('=====================================');
+
+    testTree();
+    await testAncestors();
+    await testResolveParent();
+    await testLinkChildren();
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All doc hierarchy checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testDocHierarchy().catch(error => {
+    console.error('💥 Doc hierarchy test crashed:', error);
+    process.exit(1);
+});
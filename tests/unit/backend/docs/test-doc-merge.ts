@@ -0,0 +1,89 @@
+// Doc Merge Test - merging a doc moves its prose and translations onto the target where the
+// target has none, and reports the ones deleted with the source
+// Runs offline against an in-memory transaction
+
+import { moveAttachments } from '../../../../backend/src/docs/merge.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+interface Row { id: string; docId: string; locale?: string }
+
+// The proseDocument and docTranslation calls moveAttachments makes, over plain arrays
+function fakeTx(prose: Row[], translations: Row[]): any {
+    return {
+        proseDocument: {
+            findUnique: async ({ where }: any) => prose.find(row => row.docId === where.docId) ?? null,
+            update: async ({ where, data }: any) => {
+                if (prose.some(row => row.docId === data.docId)) throw new Error('Unique constraint failed on docId');
+                const row = prose.find(row => row.docId === where.docId)!;
+                row.docId = data.docId;
+                return row;
+            }
+        },
+        docTranslation: {
+            findMany: async ({ where }: any) => translations.filter(row => row.docId === where.docId),
+            updateMany: async ({ where, data }: any) => {
+                const rows = translations.filter(row => row.docId === where.docId && where.locale.in.includes(row.locale));
+                for (const row of rows) {
+                    if (translations.some(other => other.docId === data.docId && other.locale === row.locale)) {
+                        throw new Error('Unique constraint failed on docId, locale');
+                    }
+                    row.docId = data.docId;
+                }
+                return { count: rows.length };
+            }
+        }
+    };
+}
+
+async function testMoveToEmptyTarget() {
+    const prose = [{ id: 'p1', docId: 'source' }];
+    const translations = [{ id: 't1', docId: 'source', locale: 'de-DE' }, { id: 't2', docId: 'source', locale: 'fr-FR' }];
+    const result = await moveAttachments(fakeTx(prose, translations), 'target', 'source');
+
+    check('source prose moves to a target without prose', result.moved.prose && prose[0].docId === 'target', result);
+    check('source translations move to a target without them', translations.every(row => row.docId === 'target') && result.moved.translations.join() === 'de-DE,fr-FR', result.moved);
+    check('nothing is reported dropped', !result.dropped.prose && result.dropped.translations.length === 0, result.dropped);
+}
+
+async function testTargetKeepsItsOwn() {
+    const prose = [{ id: 'p1', docId: 'target' }, { id: 'p2', docId: 'source' }];
+    const translations = [
+        { id: 't1', docId: 'target', locale: 'de-DE' },
+        { id: 't2', docId: 'source', locale: 'de-DE' },
+        { id: 't3', docId: 'source', locale: 'es-ES' }
+    ];
+    const result = await moveAttachments(fakeTx(prose, translations), 'target', 'source');
+
+    check('target keeps its prose and the source prose is reported dropped', !result.moved.prose && result.dropped.prose && prose[1].docId === 'source', result);
+    check('translations in locales the target lacks still move', result.moved.translations.join() === 'es-ES' && translations[2].docId === 'target', result.moved);
+    check('translations in locales the target has are reported dropped', result.dropped.translations.join() === 'de-DE' && translations[1].docId === 'source', result.dropped);
+}
+
+async function testNothingToMove() {
+    const result = await moveAttachments(fakeTx([{ id: 'p1', docId: 'target' }], []), 'target', 'source');
+    check('a source without prose or translations moves and drops nothing', !result.moved.prose && !result.dropped.prose && result.moved.translations.length === 0 && result.dropped.translations.length === 0, result);
+}
+
+async function testDocMerge() {
+    console.log('🧪 Testing doc merge attachments');
+    console.log('=====================================');
+
+    await testMoveToEmptyTarget();
+    await testTargetKeepsItsOwn();
+    await testNothingToMove();
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All doc merge checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testDocMerge().catch(error => {
+    console.error('💥 Doc merge test crashed:', error);
+    process.exit(1);
+});
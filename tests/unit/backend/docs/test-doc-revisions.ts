@@ -0,0 +1,97 @@
+// Doc Revisions Test - edits are diffed per tracked field, revisions are numbered after the doc's
+// latest one, unchanged edits record nothing, and the doc's row is locked before an edit reads it
+// Runs offline against an in-memory transaction
+
+import { diffSnapshots, lockDoc, recordRevision, snapshotOf } from '../../../../backend/src/docs/revisions.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+interface Revision { docId: string; revision: number; summary: string; diff: any; snapshot: any; author: string | null }
+
+// The docRevision and raw query calls revisions.ts makes, over a plain array
+function fakeTx(revisions: Revision[], queries: string[] = []): any {
+    return {
+        $queryRaw: async (strings: TemplateStringsArray, ...values: any[]) => {
+            queries.push(strings.reduce((sql, part, index) => `${sql}${part}${index < values.length ? `<${values[index]}>` : ''}`, ''));
+            return [];
+        },
+        docRevision: {
+            findFirst: async ({ where }: any) => revisions
+                .filter(row => row.docId === where.docId)
+                .sort((a, b) => b.revision - a.revision)[0] ?? null,
+            create: async ({ data }: any) => {
+                if (revisions.some(row => row.docId === data.docId && row.revision === data.revision)) {
+                    throw new Error('Unique constraint failed on docId, revision');
+                }
+                revisions.push(data);
+                return data;
+            }
+        }
+    };
+}
+
+const original = snapshotOf({ problem: 'Users forget passwords', approach: ['Magic link'], components: [], humanNotes: null });
+
+function testDiffs() {
+    const snapshot = snapshotOf({ id: 'doc-1', title: 'Login', problem: 'Users forget passwords', approach: ['Magic link'] });
+    check('a snapshot holds only the tracked fields, with empty defaults', JSON.stringify(snapshot)
+        === JSON.stringify({ problem: 'Users forget passwords', approach: ['Magic link'], components: [], humanNotes: null }), snapshot);
+
+    const created = diffSnapshots(null, original);
+    check('a first revision diffs the tracked fields it sets from null', Object.keys(created).join() === 'problem,approach,components'
+        && created.problem?.from === null && created.problem.to === 'Users forget passwords', created);
+
+    const edited = diffSnapshots(original, { ...original, approach: ['Magic link', 'Passkey'], components: [{ ds: 'Button/Primary' }] });
+    check('an edit diffs only the fields that changed', Object.keys(edited).join() === 'approach,components'
+        && JSON.stringify(edited.approach) === JSON.stringify({ from: ['Magic link'], to: ['Magic link', 'Passkey'] }), edited);
+    check('equal lists and objects are not a change', Object.keys(diffSnapshots(original, snapshotOf({ ...original, approach: ['Magic link'] }))).length === 0);
+    check('reordering a list is a change', 'approach' in diffSnapshots({ ...original, approach: ['a', 'b'] }, { ...original, approach: ['b', 'a'] }));
+}
+
+async function testNumbering() {
+    const revisions: Revision[] = [];
+    const tx = fakeTx(revisions);
+
+    const first = await recordRevision(tx, 'doc-1', null, original, { author: 'ana' });
+    check('the first revision is recorded as created', first?.revision === 1 && first.summary === 'created' && first.author === 'ana', first);
+
+    const unchanged = await recordRevision(tx, 'doc-1', original, snapshotOf({ ...original }));
+    check('an edit that changes no tracked field records nothing', unchanged === null && revisions.length === 1);
+
+    const edited = { ...original, humanNotes: 'Check with legal' };
+    const second = await recordRevision(tx, 'doc-1', original, edited, { summary: 'notes' });
+    check('the next revision follows the latest and keeps the diff', second?.revision === 2 && second.summary === 'notes'
+        && JSON.stringify(second.diff) === JSON.stringify({ humanNotes: { from: null, to: 'Check with legal' } }), second);
+
+    const other = await recordRevision(tx, 'doc-2', null, original);
+    check('each doc numbers its own history', other?.revision === 1, other);
+}
+
+async function testLock() {
+    const queries: string[] = [];
+    await lockDoc(fakeTx([], queries), 'doc-1');
+    check('locking a doc selects its row for update', queries.length === 1 && /^SELECT id FROM "Doc" WHERE id = <doc-1> FOR UPDATE$/.test(queries[0]), queries);
+}
+
+async function testDocRevisions() {
+    console.log('🧪 Testing doc revisions');
+    console.log('=====================================');
+
+    testDiffs();
+    await testNumbering();
+    await testLock();
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All doc revision checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testDocRevisions().catch(error => {
+    console.error('💥 Doc revisions test crashed:', error);
+    process.exit(1);
+});
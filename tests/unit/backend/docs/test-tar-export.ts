@@ -0,0 +1,70 @@
+// Tar Export Test - export bundle entries keep names over 100 bytes, using the ustar prefix field
+// or a pax header, and system tar lists them under their full names
+// Runs offline
+
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { splitTarName, tarEnd, tarEntry } from '../../../../backend/src/docs/tar.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+function field(block: Buffer, offset: number, length: number): string {
+    return block.subarray(offset, offset + length).toString('utf8').replace(/\0.*$/s, '');
+}
+
+const fileKey = 'AbCdEfGhIjKlMnOpQrStUv1234567890abcdefghijklmnopqrstuvwxyz';
+const nested = `${fileKey}/${'checkout-with-saved-cards-and-guest-path'}-clx1y2z3a0000abcdefghijk.md`;
+const flat = `${'a'.repeat(150)}.md`;
+
+function testNames() {
+    const short = tarEntry('file/short.md', 'hello');
+    check('a short name goes in the name field', field(short, 0, 100) === 'file/short.md' && field(short, 345, 155) === '' && short.length === 1024);
+
+    check('a long name splits at a slash', splitTarName(nested)?.prefix === fileKey, splitTarName(nested));
+    const prefixed = tarEntry(nested, 'hello');
+    check('a long nested name uses the prefix field', `${field(prefixed, 345, 155)}/${field(prefixed, 0, 100)}` === nested && prefixed.length === 1024);
+
+    check('a long name without a usable slash cannot split', splitTarName(flat) === null);
+    const pax = tarEntry(flat, 'hello');
+    const record = field(pax, 512, 512);
+    check('a long flat name gets a pax header first', field(pax, 156, 1) === 'x' && record === `${Buffer.byteLength(record)} path=${flat}\n`, record);
+    check('the pax header is followed by the file', field(pax, 1024 + 156, 1) === '0' && field(pax, 1536, 5) === 'hello' && pax.length === 2048);
+}
+
+function testSystemTar() {
+    let tarAvailable = true;
+    try {
+        execFileSync('tar', ['--version'], { stdio: 'ignore' });
+    } catch {
+        tarAvailable = false;
+    }
+    if (!tarAvailable) {
+        console.log('⏭️  tar is not installed; skipping the archive listing check');
+        return;
+    }
+
+    const dir = mkdtempSync(join(tmpdir(), 'tar-export-'));
+    try {
+        const archive = join(dir, 'export.tar');
+        writeFileSync(archive, Buffer.concat([tarEntry('file/short.md', 'one'), tarEntry(nested, 'two'), tarEntry(flat, 'three'), tarEnd()]));
+        const listed = execFileSync('tar', ['-tf', archive], { encoding: 'utf8' }).trim().split('\n');
+        check('tar lists every entry under its full name', listed.join() === ['file/short.md', nested, flat].join(), listed);
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+console.log('🧪 Testing tar export entries');
+console.log('=====================================');
+testNames();
+testSystemTar();
+console.log('=====================================');
+console.log(failures === 0 ? '🎉 All tar export checks passed' : `💥 ${failures} check(s) failed`);
+process.exit(failures === 0 ? 0 : 1);
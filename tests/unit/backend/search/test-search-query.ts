@@ -0,0 +1,82 @@
+// Search Query Test - query strings parse into filters and a page, sorts become a stable Prisma
+// order, facets count the whole match and results are shown in the requested locale
+// Runs offline, without a database
+
+import { buildOrderBy, buildWhere, computeFacets, localiseResult, parseSearchQuery } from '../../../../backend/src/search/query.js';
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+function testFilters() {
+    const { filters } = parseSearchQuery({ q: '  login ', level: 'frame', canonical: 'false', locale: 'de', platforms: 'iOS, Android', patternTags: ['otp', 'login,'], product: ' ' });
+    check('free text and single filters are trimmed', filters.q === 'login' && filters.level === 'frame' && filters.product === undefined, filters);
+    check('canonical parses as a boolean', filters.canonical === false && parseSearchQuery({}).filters.canonical === undefined);
+    check('a language code resolves to a supported locale', filters.locale === 'de-DE', filters.locale);
+    check('lists accept commas and repeated parameters', filters.platforms.join() === 'iOS,Android' && filters.patternTags.join() === 'otp,login', filters);
+
+    const where = buildWhere(filters);
+    const clauses = where.AND.filter((clause: any) => Object.keys(clause).length > 0);
+    check('only the given filters become clauses', clauses.length === 6 && where.AND.some((clause: any) => clause.canonical === false)
+        && where.AND.some((clause: any) => clause.platforms?.hasSome?.join() === 'iOS,Android'), clauses);
+    check('free text is left out when a semantic mode ranks it', buildWhere(filters, false).AND.filter((clause: any) => Object.keys(clause).length > 0).length === 5);
+}
+
+function testFacetsAndLocales() {
+    const facets = computeFacets([
+        { platforms: ['iOS'], problemTags: ['auth'], patternTags: ['otp'], level: 'frame', locale: 'en-GB' },
+        { platforms: ['iOS', 'Android'], problemTags: [], patternTags: ['otp', 'login'], level: 'section', locale: 'de-DE' },
+        { platforms: [], problemTags: ['auth'], patternTags: [], level: 'frame' }
+    ]);
+    check('facets count every matching doc', facets.platforms.iOS === 2 && facets.patternTags.otp === 2 && facets.problemTags.auth === 2
+        && facets.levels.frame === 2 && JSON.stringify(facets.locales) === JSON.stringify({ 'en-GB': 1, 'de-DE': 1 }), facets);
+
+    const doc = { id: 'doc-1', title: 'Login', problem: 'Sign in', locale: 'en-GB', translations: [{ locale: 'de-DE', title: 'Anmeldung', problem: 'Einloggen', outcome: null, approach: [] }] };
+    const german = localiseResult(doc, 'de-DE') as any;
+    check('a translated doc is shown in the requested locale', german.title === 'Anmeldung' && german.locale === 'de-DE' && german.translatedFrom === 'en-GB' && !('translations' in german), german);
+    const english = localiseResult(doc, 'en-GB') as any;
+    check('a doc already in the locale is shown as written', english.title === 'Login' && english.translatedFrom === undefined && !('translations' in english), english);
+    check('a doc without that translation is shown as written', (localiseResult(doc, 'fr-FR') as any).title === 'Login');
+}
+
+function testPage() {
+    const defaults = parseSearchQuery({}).page;
+    check('an empty query gets the default page', defaults.limit === 20 && defaults.mode === 'keyword' && defaults.sort === 'relevance' && defaults.order === 'desc' && defaults.cursor === undefined, defaults);
+
+    const capped = parseSearchQuery({ limit: '500', mode: 'semantic', cursor: ' doc-1 ' }).page;
+    check('the limit is capped and the cursor trimmed', capped.limit === 100 && capped.mode === 'semantic' && capped.cursor === 'doc-1', capped);
+    const invalid = parseSearchQuery({ limit: '-3', mode: 'fuzzy', sort: 'popularity', order: 'sideways' }).page;
+    check('unknown limits, modes, sorts and orders fall back to the defaults', invalid.limit === 20 && invalid.mode === 'keyword' && invalid.sort === 'relevance' && invalid.order === 'desc', invalid);
+}
+
+function testOrder() {
+    check('title sorts default to A→Z', parseSearchQuery({ sort: 'title' }).page.order === 'asc');
+    check('date sorts default to newest first', parseSearchQuery({ sort: 'updated' }).page.order === 'desc' && parseSearchQuery({ sort: 'created' }).page.order === 'desc');
+    check('an explicit order wins', parseSearchQuery({ sort: 'title', order: 'desc' }).page.order === 'desc' && parseSearchQuery({ sort: 'created', order: 'asc' }).page.order === 'asc');
+
+    const title = buildOrderBy(parseSearchQuery({ sort: 'title' }).page);
+    check('a title sort orders by title, then id', JSON.stringify(title) === JSON.stringify([{ title: 'asc' }, { id: 'asc' }]), title);
+    const updated = buildOrderBy(parseSearchQuery({ sort: 'updated', order: 'asc' }).page);
+    check('date sorts follow the order', JSON.stringify(updated) === JSON.stringify([{ updatedAt: 'asc' }, { id: 'asc' }]), updated);
+    const relevance = buildOrderBy(parseSearchQuery({ order: 'asc' }).page);
+    check('relevance puts canonical docs first whatever the order', JSON.stringify(relevance) === JSON.stringify([{ canonical: 'desc' }, { updatedAt: 'desc' }, { id: 'asc' }]), relevance);
+}
+
+function testSearchQuery() {
+    console.log('🧪 Testing search query parsing');
+    console.log('=====================================');
+
+    testFilters();
+    testPage();
+    testOrder();
+    testFacetsAndLocales();
+
+    console.log('=====================================');
+    console.log(failures === 0 ? '🎉 All search query checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testSearchQuery();
@@ -0,0 +1,76 @@
+// Semantic Search Test - LocalEmbedder + hybrid ranking without a database
+// Checks that paraphrased queries find capsules that share no keywords with them
+
+import { LocalEmbedder, cosineSimilarity, embeddingBatches } from '../../../../backend/src/search/embeddings.js';
+import { IndexableDoc, rankDocuments } from '../../../../backend/src/search/ranking.js';
+
+const docs: IndexableDoc[] = [
+    {
+        id: 'magic-link',
+        title: 'Magic link sign-in',
+        problem: 'Returning customers forget passwords and abandon at the sign-in wall',
+        outcome: 'Customers get into the app from an email without typing a password',
+        approach: ['Single email field', 'Deep link opens the app already signed in']
+    },
+    {
+        id: 'checkout',
+        title: 'Checkout summary',
+        problem: 'Shoppers are unsure what they will be charged before paying',
+        outcome: 'Clear order total before the pay button',
+        approach: ['Itemised basket', 'Sticky pay CTA']
+    },
+    {
+        id: 'empty-transactions',
+        title: 'Transactions empty state',
+        problem: 'New accounts see a blank list with no guidance',
+        outcome: 'First-time users know how to make their first transfer',
+        approach: ['Illustration', 'Send money CTA']
+    }
+];
+
+let failures = 0;
+
+function check(name: string, condition: boolean, detail?: any) {
+    console.log(`${condition ? '✅' : '❌'} ${name}`, detail ?? '');
+    if (!condition) failures++;
+}
+
+async function testSemanticSearch() {
+    console.log('🧪 Testing semantic search ranking');
+    console.log('=====================================');
+
+    const embedder = new LocalEmbedder();
+
+    const [a, b] = await embedder.embed(['passwordless login', 'passwordless login']);
+    check('LocalEmbedder is deterministic', cosineSimilarity(a, b) > 0.9999);
+
+    const semantic = await rankDocuments('passwordless login', docs, { mode: 'semantic', embedder });
+    check('semantic: paraphrase ranks magic link first', semantic[0]?.id === 'magic-link', semantic);
+
+    const hybrid = await rankDocuments('passwordless login', docs, { mode: 'hybrid', embedder });
+    check('hybrid: paraphrase ranks magic link first', hybrid[0]?.id === 'magic-link', hybrid);
+
+    const keywordHeavy = await rankDocuments('order total pay button', docs, { mode: 'hybrid', embedder });
+    check('hybrid: literal keywords still win', keywordHeavy[0]?.id === 'checkout', keywordHeavy);
+
+    const unrelated = await rankDocuments('weather forecast radar', docs, { mode: 'semantic', embedder });
+    check('semantic: unrelated query returns nothing relevant', unrelated.length === 0, unrelated);
+
+    const empty = await rankDocuments('   ', docs, { mode: 'semantic', embedder });
+    check('blank query returns no results', empty.length === 0);
+
+    const texts = Array.from({ length: 7 }, (_, i) => `doc ${i}`);
+    const byCount = embeddingBatches(texts, 3, 1000);
+    check('embedding batches respect the instance limit', byCount.map(batch => batch.length).join() === '3,3,1' && byCount.flat().join() === texts.join(), byCount);
+    const byTokens = embeddingBatches(['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(400)], 10, 25);
+    check('embedding batches respect the token budget, with an oversized text alone', byTokens.map(batch => batch.length).join() === '2,1', byTokens.map(batch => batch.length));
+
+    console.log('');
+    console.log(failures === 0 ? '🎉 All semantic search checks passed' : `💥 ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+testSemanticSearch().catch(error => {
+    console.error('❌ Semantic search test crashed:', error);
+    process.exit(1);
+});